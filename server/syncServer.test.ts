@@ -0,0 +1,97 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PLATFORMS } from '../src/constants/platforms.ts';
+import { checkSyncServer, pullSyncChanges, pushSyncChanges, type SyncConnection } from '../src/services/sync.ts';
+import { startSyncServer } from './syncServer.ts';
+
+const platform = { ...DEFAULT_PLATFORMS[0] };
+
+describe('sync server', () => {
+  let dir: string;
+  let server: Server;
+  let connection: SyncConnection;
+
+  const start = async (token?: string) => {
+    server = await startSyncServer({ port: 0, dataFile: join(dir, 'sync-data.json'), token });
+    connection = { serverUrl: `http://localhost:${(server.address() as AddressInfo).port}/`, token: token ?? null };
+  };
+
+  const post = (body: string) =>
+    fetch(`${connection.serverUrl}v1/push`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await mkdtemp(join(tmpdir(), 'bnpl-sync-'));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('accepts a push, saves it and hands it to other devices', async () => {
+    await start();
+    await expect(checkSyncServer(connection)).resolves.toBeUndefined();
+
+    const pushed = await pushSyncChanges(connection, {
+      deviceId: 'laptop',
+      changes: [{ store: 'platforms', key: platform.id, baseRevision: 0, data: platform }],
+    });
+    expect(pushed.accepted).toMatchObject([{ store: 'platforms', key: platform.id, revision: 1, seq: 1 }]);
+    expect(pushed.conflicts).toEqual([]);
+
+    const pulled = await pullSyncChanges(connection, 0);
+    expect(pulled.seq).toBe(1);
+    expect(pulled.changes).toMatchObject([{ key: platform.id, data: platform, deviceId: 'laptop' }]);
+    await expect(pullSyncChanges(connection, 1)).resolves.toEqual({ seq: 1, changes: [] });
+
+    const saved = JSON.parse(await readFile(join(dir, 'sync-data.json'), 'utf8'));
+    expect(saved.records[`platforms:${platform.id}`].revision).toBe(1);
+  });
+
+  it('rejects a change made on a stale revision', async () => {
+    await start();
+    const change = { store: 'platforms' as const, key: platform.id, baseRevision: 0, data: platform };
+    await pushSyncChanges(connection, { deviceId: 'laptop', changes: [change] });
+
+    const stale = await pushSyncChanges(connection, {
+      deviceId: 'phone',
+      changes: [{ ...change, data: { ...platform, creditLimit: 1 } }],
+    });
+    expect(stale.accepted).toEqual([]);
+    expect(stale.conflicts).toMatchObject([{ key: platform.id, revision: 1, deviceId: 'laptop' }]);
+
+    const deleted = await pushSyncChanges(connection, {
+      deviceId: 'phone',
+      changes: [{ store: 'platforms', key: platform.id, baseRevision: 1, deleted: true }],
+    });
+    expect(deleted.accepted).toMatchObject([{ key: platform.id, revision: 2, deleted: true }]);
+  });
+
+  it('answers malformed pushes with 400', async () => {
+    await start();
+
+    for (const [body, error] of [
+      ['null', 'Expected { deviceId, changes }'],
+      ['{"deviceId":"laptop"}', 'Expected { deviceId, changes }'],
+      ['{"deviceId":"laptop","changes":[null]}', 'Every change must be an object'],
+      ['{"deviceId":"laptop","changes":[{"store":"nope","key":"a","baseRevision":0}]}', 'Unknown store: nope'],
+      ['not json', 'Body must be JSON'],
+    ]) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toEqual({ error });
+    }
+  });
+
+  it('requires the token when one is set', async () => {
+    await start('secret');
+    await expect(checkSyncServer(connection)).resolves.toBeUndefined();
+    await expect(checkSyncServer({ ...connection, token: 'wrong' })).rejects.toThrow('Invalid sync token');
+  });
+});
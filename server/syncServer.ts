@@ -0,0 +1,249 @@
+/**
+ * Self-hosted sync server - the reference implementation the app's Sync
+ * settings talk to
+ *
+ * Run it with `npm run sync-server` (Node 22.6+, which runs TypeScript
+ * directly). Every record is kept in one JSON file, so a laptop on the same
+ * network is enough - no cloud service needed.
+ *
+ * Environment:
+ *   SYNC_PORT       port to listen on (default 8787)
+ *   SYNC_DATA_FILE  where records are stored (default ./sync-data.json)
+ *   SYNC_TOKEN      if set, clients must send it as a bearer token
+ *
+ * Endpoints:
+ *   GET  /v1/health              server and protocol version
+ *   GET  /v1/changes?since=<seq> records changed after a sequence number
+ *   POST /v1/push                write records, rejecting any written on a stale revision
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  SYNC_API_VERSION,
+  SYNC_STORES,
+  getSyncRecordId,
+  stableStringify,
+  type SyncPullResponse,
+  type SyncPushChange,
+  type SyncPushRequest,
+  type SyncPushResponse,
+  type SyncRecord,
+} from '../src/services/syncProtocol.ts';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface SyncDatabase {
+  seq: number; // last sequence number handed out
+  records: Record<string, SyncRecord>; // by `${store}:${key}`
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Records changed after `since`, in the order they were written
+ */
+export function getChanges(db: SyncDatabase, since: number): SyncPullResponse {
+  const changes = Object.values(db.records)
+    .filter((record) => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  return { seq: db.seq, changes };
+}
+
+function validateChange(change: SyncPushChange | null): asserts change is SyncPushChange {
+  if (typeof change !== 'object' || change === null) {
+    throw new HttpError(400, 'Every change must be an object');
+  }
+  if (!SYNC_STORES.includes(change.store)) {
+    throw new HttpError(400, `Unknown store: ${change.store}`);
+  }
+  if (typeof change.key !== 'string' || change.key === '') {
+    throw new HttpError(400, 'Every change needs a key');
+  }
+  if (!Number.isInteger(change.baseRevision) || change.baseRevision < 0) {
+    throw new HttpError(400, `Invalid base revision for ${change.store}:${change.key}`);
+  }
+  if (!change.deleted && (typeof change.data !== 'object' || change.data === null)) {
+    throw new HttpError(400, `Missing data for ${change.store}:${change.key}`);
+  }
+}
+
+/**
+ * Apply pushed changes to the database in place
+ *
+ * A change made on top of a different revision than the server's is a
+ * conflict and is rejected, unless it leaves the record exactly as the
+ * server already has it.
+ */
+export function applyPush(db: SyncDatabase, request: SyncPushRequest | null): SyncPushResponse {
+  if (
+    typeof request !== 'object' ||
+    request === null ||
+    typeof request.deviceId !== 'string' ||
+    !Array.isArray(request.changes)
+  ) {
+    throw new HttpError(400, 'Expected { deviceId, changes }');
+  }
+  for (const change of request.changes) {
+    validateChange(change);
+  }
+
+  const accepted: SyncRecord[] = [];
+  const conflicts: SyncRecord[] = [];
+
+  for (const change of request.changes) {
+    const id = getSyncRecordId(change.store, change.key);
+    const current = db.records[id];
+    const currentRevision = current?.revision ?? 0;
+
+    const isSame =
+      current !== undefined &&
+      Boolean(current.deleted) === Boolean(change.deleted) &&
+      (change.deleted || stableStringify(current.data) === stableStringify(change.data));
+    if (isSame) {
+      accepted.push(current);
+      continue;
+    }
+    // A record the server doesn't have is taken as-is, e.g. after the data file was reset
+    if (current && change.baseRevision !== currentRevision) {
+      conflicts.push(current);
+      continue;
+    }
+
+    db.seq += 1;
+    const record: SyncRecord = {
+      store: change.store,
+      key: change.key,
+      revision: currentRevision + 1,
+      seq: db.seq,
+      deleted: change.deleted || undefined,
+      data: change.deleted ? undefined : change.data,
+      updatedAt: new Date().toISOString(),
+      deviceId: request.deviceId,
+    };
+    db.records[id] = record;
+    accepted.push(record);
+  }
+
+  return { seq: db.seq, accepted, conflicts };
+}
+
+async function loadDatabase(file: string): Promise<SyncDatabase> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as SyncDatabase;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { seq: 0, records: {} };
+    }
+    throw err;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves a half-written file
+async function saveDatabase(file: string, db: SyncDatabase): Promise<void> {
+  const temp = `${file}.tmp`;
+  await writeFile(temp, JSON.stringify(db));
+  await rename(temp, file);
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export interface SyncServerOptions {
+  port: number;
+  dataFile: string;
+  token?: string;
+}
+
+export async function startSyncServer({ port, dataFile, token }: SyncServerOptions) {
+  const db = await loadDatabase(dataFile);
+  // Saves run one at a time, in the order pushes were applied
+  let saving = Promise.resolve();
+
+  const server = createServer(async (req, res) => {
+    // The app is served from another origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    try {
+      if (token && req.headers.authorization !== `Bearer ${token}`) {
+        throw new HttpError(401, 'Invalid sync token');
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method === 'GET' && url.pathname === '/v1/health') {
+        sendJson(res, 200, { ok: true, apiVersion: SYNC_API_VERSION, seq: db.seq });
+      } else if (req.method === 'GET' && url.pathname === '/v1/changes') {
+        const since = Number(url.searchParams.get('since') ?? 0);
+        if (!Number.isInteger(since) || since < 0) {
+          throw new HttpError(400, 'since must be a sequence number');
+        }
+        sendJson(res, 200, getChanges(db, since));
+      } else if (req.method === 'POST' && url.pathname === '/v1/push') {
+        const result = applyPush(db, (await readBody(req)) as SyncPushRequest | null);
+        if (result.accepted.length > 0) {
+          const save = saving.then(() => saveDatabase(dataFile, db));
+          saving = save.catch(() => {});
+          await save;
+        }
+        console.log(`[Sync] ${result.accepted.length} accepted, ${result.conflicts.length} conflicting`);
+        sendJson(res, 200, result);
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message });
+      } else {
+        console.error('[Sync] Request failed:', err);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+
+  await new Promise<void>((resolveListen) => server.listen(port, resolveListen));
+  console.log(`[Sync] Listening on http://localhost:${port}, storing data in ${dataFile}`);
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(resolve(process.argv[1])).href) {
+  await startSyncServer({
+    port: Number(process.env.SYNC_PORT ?? 8787),
+    dataFile: resolve(process.env.SYNC_DATA_FILE ?? 'sync-data.json'),
+    token: process.env.SYNC_TOKEN || undefined,
+  });
+}
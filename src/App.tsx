@@ -2,8 +2,10 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { Layout } from './components/layout/Layout';
 import { ErrorBoundary } from './components/shared/ErrorBoundary';
 import { ToastProvider } from './components/shared/Toast';
+import { VaultGate } from './components/layout/LockScreen';
 import { QuickAddModal } from './components/modals/QuickAddModal';
 import { OrderDetailModal } from './components/modals/OrderDetailModal';
+import { BulkImportModal } from './components/modals/BulkImportModal';
 import { HomePage } from './pages/HomePage';
 import { DashboardPage } from './pages/DashboardPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
@@ -13,30 +15,35 @@ import { CanvasPage } from './pages/CanvasPage';
 
 function App() {
   return (
-    <BrowserRouter>
-      <ToastProvider>
-        <div className="dark bg-dark-bg min-h-screen text-white">
-          <ErrorBoundary>
-            <Layout>
-              <Routes>
-                <Route path="/" element={<HomePage />} />
-                <Route path="/budgeting" element={<DashboardPage />} />
-                <Route path="/budgeting/analytics" element={<AnalyticsPage />} />
-                <Route path="/budgeting/history" element={<HistoryPage />} />
-                <Route path="/settings" element={<SettingsPage />} />
-                <Route path="/canvas" element={<CanvasPage />} />
-              </Routes>
-            </Layout>
-          </ErrorBoundary>
-          <ErrorBoundary>
-            <QuickAddModal />
-          </ErrorBoundary>
-          <ErrorBoundary>
-            <OrderDetailModal />
-          </ErrorBoundary>
-        </div>
-      </ToastProvider>
-    </BrowserRouter>
+    <VaultGate>
+      <BrowserRouter>
+        <ToastProvider>
+          <div className="dark bg-dark-bg min-h-screen text-white">
+            <ErrorBoundary>
+              <Layout>
+                <Routes>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/budgeting" element={<DashboardPage />} />
+                  <Route path="/budgeting/analytics" element={<AnalyticsPage />} />
+                  <Route path="/budgeting/history" element={<HistoryPage />} />
+                  <Route path="/settings" element={<SettingsPage />} />
+                  <Route path="/canvas" element={<CanvasPage />} />
+                </Routes>
+              </Layout>
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <QuickAddModal />
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <OrderDetailModal />
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <BulkImportModal />
+            </ErrorBoundary>
+          </div>
+        </ToastProvider>
+      </BrowserRouter>
+    </VaultGate>
   );
 }
 
@@ -0,0 +1,88 @@
+import { useNavigate } from 'react-router-dom';
+import { parseISO, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Card } from '../shared/Card';
+import { useBNPLStore } from '../../store';
+import { useCashFlowForecast, useHasCashFlowSetup } from '../../store/selectors';
+import { formatCurrency } from '../../utils/currency';
+import { formatDateWithDay } from '../../utils/date';
+
+function describeWhen(date: string): string {
+  const days = differenceInCalendarDays(parseISO(date), startOfDay(new Date()));
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+export function CashFlowAlerts() {
+  const navigate = useNavigate();
+  const forecast = useCashFlowForecast();
+  const hasSetup = useHasCashFlowSetup();
+  const minimumBuffer = useBNPLStore((state) => state.cashFlowSettings.minimumBuffer);
+
+  if (!hasSetup || forecast.shortfalls.length === 0) {
+    return null;
+  }
+
+  const [first, ...rest] = forecast.shortfalls;
+  const goesNegative = first.lowestBalance < 0;
+
+  return (
+    <Card className="border-amber-500/50 bg-amber-500/5">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-amber-500/20 rounded-lg">
+          <svg className="w-5 h-5 text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6"
+            />
+          </svg>
+        </div>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold text-white">
+            {goesNegative ? 'Projected Shortfall' : 'Balance Below Buffer'}
+          </h2>
+          <p className="text-sm text-amber-400">
+            {goesNegative && forecast.firstNegativeDate
+              ? `Balance goes negative ${describeWhen(forecast.firstNegativeDate)} (${formatDateWithDay(forecast.firstNegativeDate)})`
+              : `Balance drops under ${formatCurrency(minimumBuffer)} ${describeWhen(first.startDate)} (${formatDateWithDay(first.startDate)})`}
+          </p>
+
+          <div className="mt-3 space-y-2">
+            {[first, ...rest].slice(0, 3).map((shortfall) => (
+              <div
+                key={shortfall.startDate}
+                className="flex items-center justify-between p-3 rounded-lg bg-amber-500/10 border border-amber-500/30"
+              >
+                <div className="text-sm">
+                  <span className="text-white font-medium">
+                    {formatDateWithDay(shortfall.startDate)}
+                    {shortfall.endDate !== shortfall.startDate && ` – ${formatDateWithDay(shortfall.endDate)}`}
+                  </span>
+                  <span className="text-gray-400">
+                    {' '}· low of {formatCurrency(shortfall.lowestBalance)}
+                  </span>
+                </div>
+                <span className="text-sm text-amber-400 font-medium">
+                  Need {formatCurrency(shortfall.amountNeeded)}
+                </span>
+              </div>
+            ))}
+            {rest.length > 2 && (
+              <p className="text-xs text-gray-500">
+                +{rest.length - 2} more shortfall{rest.length - 2 !== 1 ? 's' : ''} in the forecast
+              </p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => navigate('/settings?tab=income')}
+          className="text-xs text-gray-400 hover:text-white transition-colors whitespace-nowrap"
+        >
+          Edit income
+        </button>
+      </div>
+    </Card>
+  );
+}
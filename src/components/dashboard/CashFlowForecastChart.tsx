@@ -0,0 +1,166 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Card } from '../shared/Card';
+import { Button } from '../shared/Button';
+import { useBNPLStore } from '../../store';
+import { useCashFlowForecast, useHasCashFlowSetup } from '../../store/selectors';
+import { formatCurrency, formatCurrencyCompact } from '../../utils/currency';
+
+interface ChartPoint {
+  date: string;
+  label: string;
+  balance: number; // in cents
+  income: number;
+  outgoing: number;
+}
+
+function ForecastTooltip({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: ChartPoint }>;
+}) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-[#1a1a1a] border border-dark-border rounded-lg px-3 py-2 text-sm">
+      <div className="text-white font-medium">{format(parseISO(point.date), 'EEE, MMM d')}</div>
+      <div className={point.balance < 0 ? 'text-red-400' : 'text-gray-300'}>
+        Balance: {formatCurrency(point.balance)}
+      </div>
+      {point.income > 0 && <div className="text-green-400">+{formatCurrency(point.income)} income</div>}
+      {point.outgoing > 0 && <div className="text-amber-400">−{formatCurrency(point.outgoing)} payments</div>}
+    </div>
+  );
+}
+
+export function CashFlowForecastChart() {
+  const navigate = useNavigate();
+  const forecast = useCashFlowForecast();
+  const hasSetup = useHasCashFlowSetup();
+  const forecastDays = useBNPLStore((state) => state.cashFlowSettings.forecastDays);
+  const minimumBuffer = useBNPLStore((state) => state.cashFlowSettings.minimumBuffer);
+
+  const data = useMemo(
+    (): ChartPoint[] =>
+      forecast.days.map((day) => ({
+        date: day.date,
+        label: format(parseISO(day.date), 'MMM d'),
+        balance: day.balance,
+        income: day.income,
+        outgoing: day.outgoing,
+      })),
+    [forecast.days]
+  );
+
+  // Split the fill at zero so negative stretches render red
+  const gradientOffset = useMemo(() => {
+    const max = Math.max(...data.map((d) => d.balance));
+    const min = Math.min(...data.map((d) => d.balance));
+    if (max <= 0) return 0;
+    if (min >= 0) return 1;
+    return max / (max - min);
+  }, [data]);
+
+  if (!hasSetup) {
+    return (
+      <Card>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Cash Flow Forecast</h2>
+            <p className="text-sm text-gray-400">
+              Add your paychecks and current balance to see whether upcoming payments are covered.
+            </p>
+          </div>
+          <Button size="sm" variant="secondary" onClick={() => navigate('/settings?tab=income')}>
+            Set up income
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Cash Flow Forecast</h2>
+          <p className="text-sm text-gray-400">Next {forecastDays} days</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <div className="text-xs text-gray-500">Income</div>
+            <div className="text-sm font-medium text-green-400">{formatCurrency(forecast.totalIncome)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Payments</div>
+            <div className="text-sm font-medium text-amber-400">{formatCurrency(forecast.totalOutgoing)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Lowest</div>
+            <div
+              className={`text-sm font-medium ${forecast.lowestBalance < 0 ? 'text-red-400' : 'text-white'}`}
+            >
+              {formatCurrency(forecast.lowestBalance)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+            <defs>
+              <linearGradient id="cashFlowFill" x1="0" y1="0" x2="0" y2="1">
+                <stop offset={gradientOffset} stopColor="#22c55e" stopOpacity={0.3} />
+                <stop offset={gradientOffset} stopColor="#ef4444" stopOpacity={0.3} />
+              </linearGradient>
+              <linearGradient id="cashFlowStroke" x1="0" y1="0" x2="0" y2="1">
+                <stop offset={gradientOffset} stopColor="#22c55e" />
+                <stop offset={gradientOffset} stopColor="#ef4444" />
+              </linearGradient>
+            </defs>
+            <XAxis
+              dataKey="label"
+              tick={{ fill: '#6b7280', fontSize: 12 }}
+              axisLine={{ stroke: '#262626' }}
+              tickLine={false}
+              minTickGap={24}
+            />
+            <YAxis
+              tickFormatter={(value) => formatCurrencyCompact(Number(value))}
+              tick={{ fill: '#6b7280', fontSize: 12 }}
+              axisLine={false}
+              tickLine={false}
+              width={56}
+            />
+            <Tooltip content={<ForecastTooltip />} />
+            <ReferenceLine y={0} stroke="#4b5563" />
+            {minimumBuffer > 0 && (
+              <ReferenceLine y={minimumBuffer} stroke="#f59e0b" strokeDasharray="4 4" />
+            )}
+            <Area
+              type="stepAfter"
+              dataKey="balance"
+              stroke="url(#cashFlowStroke)"
+              fill="url(#cashFlowFill)"
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useMemo } from 'react';
 import { parseISO, format, startOfWeek, endOfWeek, addWeeks, isWithinInterval, isSameDay } from 'date-fns';
 import { useBNPLStore } from '../../store';
 import { formatCurrency } from '../../utils/currency';
+import { isPaidByUser, isPaymentOnTime } from '../../utils/payment';
 
 interface Insight {
   text: string;
@@ -30,7 +31,7 @@ export function InsightStrip() {
   const insight = useMemo((): Insight | null => {
     const today = new Date();
     const unpaidPayments = payments.filter((p) => p.status !== 'paid');
-    const paidPayments = payments.filter((p) => p.status === 'paid');
+    const paidPayments = payments.filter(isPaidByUser);
 
     // Priority 1: Today's payments (most urgent)
     const todaysPayments = unpaidPayments.filter((p) => isSameDay(parseISO(p.dueDate), today));
@@ -76,7 +77,7 @@ export function InsightStrip() {
 
       let streak = 0;
       for (const payment of recentPaid) {
-        if (payment.paidOnTime) streak++;
+        if (isPaymentOnTime(payment)) streak++;
         else break;
       }
 
@@ -88,7 +89,7 @@ export function InsightStrip() {
       }
 
       // On-time rate feedback
-      const onTimePayments = paidPayments.filter((p) => p.paidOnTime === true);
+      const onTimePayments = paidPayments.filter(isPaymentOnTime);
       const rate = Math.round((onTimePayments.length / paidPayments.length) * 100);
       if (rate >= 90) {
         return {
@@ -3,7 +3,9 @@ import { Card } from '../shared/Card';
 import { Button } from '../shared/Button';
 import { PlatformIcon } from '../shared/PlatformIcon';
 import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
 import { useBNPLStore } from '../../store';
+import { ConflictError } from '../../services/storage';
 import { useOverduePayments, useOrder } from '../../store/selectors';
 import { formatCurrency } from '../../utils/currency';
 import { useLiveTime, formatRelativeTime } from '../../hooks/useRelativeTime';
@@ -16,6 +18,7 @@ function OverdueItem({
   now: Date;
 }) {
   const { showToast } = useToast();
+  const { undoAction } = useUndo();
   const order = useOrder(payment.orderId);
   const markPaymentPaid = useBNPLStore((state) => state.markPaymentPaid);
   const openOrderDetailModal = useBNPLStore((state) => state.openOrderDetailModal);
@@ -33,9 +36,9 @@ function OverdueItem({
     try {
       await markPaymentPaid(payment.id);
       setShowSuccess(true);
-      showToast('Payment marked as paid', 'success');
-    } catch {
-      showToast('Failed to mark payment', 'error');
+      showToast('Payment marked as paid', 'success', undoAction);
+    } catch (error) {
+      showToast(error instanceof ConflictError ? error.message : 'Failed to mark payment', 'error');
     } finally {
       setIsMarking(false);
     }
@@ -3,6 +3,7 @@ import { parseISO, format, startOfWeek, endOfWeek, addWeeks, isWithinInterval, i
 import { Card } from '../shared/Card';
 import { useBNPLStore } from '../../store';
 import { formatCurrency } from '../../utils/currency';
+import { isPaidByUser, isPaymentOnTime } from '../../utils/payment';
 
 interface Insight {
   icon: React.ReactNode;
@@ -79,9 +80,9 @@ export function SmartInsights() {
     }
 
     // 3. On-time payment rate
-    const paidPayments = payments.filter((p) => p.status === 'paid');
+    const paidPayments = payments.filter(isPaidByUser);
     if (paidPayments.length >= 5) {
-      const onTimePayments = paidPayments.filter((p) => p.paidOnTime === true);
+      const onTimePayments = paidPayments.filter(isPaymentOnTime);
       const rate = Math.round((onTimePayments.length / paidPayments.length) * 100);
 
       if (rate >= 90) {
@@ -154,7 +155,7 @@ export function SmartInsights() {
 
     let streak = 0;
     for (const payment of recentPaid) {
-      if (payment.paidOnTime) {
+      if (isPaymentOnTime(payment)) {
         streak++;
       } else {
         break;
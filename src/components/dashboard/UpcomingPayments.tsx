@@ -5,7 +5,9 @@ import { Card } from '../shared/Card';
 import { Button } from '../shared/Button';
 import { PlatformIcon } from '../shared/PlatformIcon';
 import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
 import { useBNPLStore } from '../../store';
+import { ConflictError } from '../../services/storage';
 import { useUpcomingPayments } from '../../store/selectors';
 import { formatCurrency } from '../../utils/currency';
 import type { Payment } from '../../types';
@@ -36,6 +38,7 @@ function PaymentPopup({
 }) {
   const platforms = useBNPLStore((state) => state.platforms);
   const { showToast } = useToast();
+  const { undoAction } = useUndo();
   const markPaymentPaid = useBNPLStore((state) => state.markPaymentPaid);
   const [markingId, setMarkingId] = useState<string | null>(null);
 
@@ -44,9 +47,9 @@ function PaymentPopup({
     setMarkingId(paymentId);
     try {
       await markPaymentPaid(paymentId);
-      showToast('Payment marked as paid', 'success');
-    } catch {
-      showToast('Failed to mark payment', 'error');
+      showToast('Payment marked as paid', 'success', undoAction);
+    } catch (error) {
+      showToast(error instanceof ConflictError ? error.message : 'Failed to mark payment', 'error');
     } finally {
       setMarkingId(null);
     }
@@ -1,10 +1,14 @@
 import { useEffect, type ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { QuickAddFAB } from './QuickAddFAB';
 import { useBNPLStore } from '../../store';
 import { useTotalOwed } from '../../store/selectors';
 import { formatCurrency } from '../../utils/currency';
 import { checkPaymentsAndNotify } from '../../services/notifications';
+import { storage } from '../../services/storage';
+import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
 
 interface LayoutProps {
   children: ReactNode;
@@ -18,12 +22,33 @@ export function Layout({ children }: LayoutProps) {
   const platforms = useBNPLStore((state) => state.platforms);
   const notificationSettings = useBNPLStore((state) => state.notificationSettings);
   const openQuickAddModal = useBNPLStore((state) => state.openQuickAddModal);
+  const { showToast } = useToast();
+  const { undo, redo } = useUndo();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isBudgetingRoute = location.pathname.startsWith('/budgeting');
 
   // Initialize store on mount
   useEffect(() => {
     initialize();
   }, [initialize]);
 
+  // Point at Settings when a sync turns up records changed on two devices
+  useEffect(() => {
+    let conflicts = storage.getSyncStatus().conflicts;
+    return storage.subscribeSync(() => {
+      const status = storage.getSyncStatus();
+      if (status.conflicts > conflicts) {
+        showToast(
+          `${status.conflicts} sync conflict${status.conflicts !== 1 ? 's' : ''} to review`,
+          'info',
+          { label: 'Review', onClick: () => navigate('/settings?tab=sync') }
+        );
+      }
+      conflicts = status.conflicts;
+    });
+  }, [showToast, navigate]);
+
   // Update document title
   useEffect(() => {
     document.title = `Journal — ${formatCurrency(totalOwed)} owed`;
@@ -43,6 +68,30 @@ export function Layout({ children }: LayoutProps) {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [openQuickAddModal]);
 
+  // Undo/redo order and payment edits - the canvas has its own history
+  useEffect(() => {
+    if (!isBudgetingRoute) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Cmd/Ctrl + Z to undo, Cmd/Ctrl + Shift + Z to redo
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+
+      // Leave text fields their own undo
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isBudgetingRoute, undo, redo]);
+
   // Check for overdue payments periodically
   useEffect(() => {
     const updateOverdue = useBNPLStore.getState().updateOverduePayments;
@@ -0,0 +1,92 @@
+import { useEffect, useState, useSyncExternalStore, type FormEvent, type ReactNode } from 'react';
+import { Button } from '../shared/Button';
+import { Input } from '../shared/Input';
+import { vault } from '../../services/vault';
+
+// Activity that counts as using the app for auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+function LockScreen({ onUnlock }: { onUnlock: () => void }) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await vault.unlock(passphrase);
+      onUnlock();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="dark bg-dark-bg min-h-screen text-white flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm p-6 bg-dark-card border border-dark-border rounded-xl space-y-4"
+      >
+        <div className="text-center">
+          <svg className="w-10 h-10 mx-auto text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h1 className="text-lg font-semibold mt-3">Journal is locked</h1>
+          <p className="text-sm text-gray-400 mt-1">Enter your passphrase to decrypt your data</p>
+        </div>
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          error={error ?? undefined}
+        />
+        <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+/**
+ * Shows the lock screen until the vault is unlocked, then locks again after
+ * the configured stretch of inactivity
+ */
+export function VaultGate({ children }: { children: ReactNode }) {
+  const [isLocked, setIsLocked] = useState(() => vault.isLocked());
+  const minutes = useSyncExternalStore(vault.subscribe, () => vault.getAutoLockMinutes());
+
+  useEffect(() => {
+    if (isLocked || minutes <= 0) return;
+
+    let timer = setTimeout(() => vault.lock(), minutes * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => vault.lock(), minutes * 60 * 1000);
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      document.addEventListener(event, resetTimer, { passive: true });
+    }
+    return () => {
+      clearTimeout(timer);
+      for (const event of ACTIVITY_EVENTS) {
+        document.removeEventListener(event, resetTimer);
+      }
+    };
+  }, [isLocked, minutes]);
+
+  if (isLocked) {
+    return <LockScreen onUnlock={() => setIsLocked(false)} />;
+  }
+  return <>{children}</>;
+}
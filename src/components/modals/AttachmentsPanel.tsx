@@ -0,0 +1,322 @@
+import { useEffect, useRef, useState } from 'react';
+import { Modal } from '../shared/Modal';
+import { Button } from '../shared/Button';
+import { useToast } from '../shared/Toast';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_KIND_LABELS,
+  attachmentStorage,
+  type StoredAttachment,
+} from '../../services/attachmentStorage';
+import type { AttachmentKind } from '../../types';
+
+const KIND_OPTIONS = Object.entries(ATTACHMENT_KIND_LABELS) as Array<[AttachmentKind, string]>;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface ViewedAttachment extends StoredAttachment {
+  url: string; // object URL for the full file
+  thumbnailUrl?: string;
+}
+
+function FileIcon({ type }: { type: string }) {
+  return (
+    <div className="flex flex-col items-center justify-center h-full text-gray-400">
+      <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+        />
+      </svg>
+      <span className="mt-1 text-[10px] uppercase">{type === 'application/pdf' ? 'PDF' : 'File'}</span>
+    </div>
+  );
+}
+
+interface AttachmentViewerProps {
+  attachments: ViewedAttachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+function AttachmentViewer({ attachments, index, onIndexChange, onClose }: AttachmentViewerProps) {
+  const { showToast } = useToast();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const attachment = attachments[index];
+
+  const handleKindChange = async (kind: AttachmentKind) => {
+    try {
+      await attachmentStorage.updateAttachment(attachment, { kind });
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update attachment', 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await attachmentStorage.deleteAttachment(attachment);
+      showToast('Attachment deleted', 'info');
+      setConfirmDelete(false);
+      if (attachments.length === 1) {
+        onClose();
+      } else {
+        onIndexChange(Math.min(index, attachments.length - 2));
+      }
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete attachment', 'error');
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={attachment.name} size="2xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-center min-h-[200px] max-h-[65vh] bg-dark-bg rounded-lg overflow-hidden">
+          {attachment.type.startsWith('image/') ? (
+            <img src={attachment.url} alt={attachment.name} className="max-h-[65vh] max-w-full object-contain" />
+          ) : attachment.type === 'application/pdf' ? (
+            <iframe src={attachment.url} title={attachment.name} className="w-full h-[65vh] bg-white" />
+          ) : (
+            <p className="text-sm text-gray-400">No preview for this file type - download it to open.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={attachment.kind}
+            onChange={(e) => handleKindChange(e.target.value as AttachmentKind)}
+            className="px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm"
+          >
+            {KIND_OPTIONS.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500">
+            {formatFileSize(attachment.size)} · added {new Date(attachment.createdAt).toLocaleDateString()}
+          </span>
+
+          {attachments.length > 1 && (
+            <div className="flex items-center gap-1 ml-auto">
+              <button
+                type="button"
+                onClick={() => onIndexChange((index - 1 + attachments.length) % attachments.length)}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-dark-hover rounded-lg transition-colors"
+                aria-label="Previous attachment"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <span className="text-xs text-gray-500">
+                {index + 1} / {attachments.length}
+              </span>
+              <button
+                type="button"
+                onClick={() => onIndexChange((index + 1) % attachments.length)}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-dark-hover rounded-lg transition-colors"
+                aria-label="Next attachment"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {confirmDelete ? (
+          <div className="flex items-center justify-between p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+            <p className="text-sm text-gray-300">Delete this attachment? This cannot be undone.</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" onClick={() => setConfirmDelete(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" variant="danger" onClick={handleDelete}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => setConfirmDelete(true)}
+              className="text-sm text-red-400 hover:text-red-300 transition-colors"
+            >
+              Delete
+            </button>
+            <a
+              href={attachment.url}
+              download={attachment.name}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Download
+            </a>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+interface AttachmentsPanelProps {
+  orderId: string;
+}
+
+/**
+ * Receipts, screenshots, return labels and PDFs kept with an order
+ */
+export function AttachmentsPanel({ orderId }: AttachmentsPanelProps) {
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<ViewedAttachment[]>([]);
+  const [kind, setKind] = useState<AttachmentKind>('receipt');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [viewIndex, setViewIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let urls: string[] = [];
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const stored = await attachmentStorage.getOrderAttachments(orderId);
+        if (cancelled) return;
+        urls.forEach((url) => URL.revokeObjectURL(url));
+        const viewed = stored.map((a) => ({
+          ...a,
+          url: URL.createObjectURL(a.blob),
+          thumbnailUrl: a.thumbnail ? URL.createObjectURL(a.thumbnail) : undefined,
+        }));
+        urls = viewed.flatMap((a) => (a.thumbnailUrl ? [a.url, a.thumbnailUrl] : [a.url]));
+        setAttachments(viewed);
+      } catch (error) {
+        console.error('Failed to load attachments:', error);
+      }
+    };
+
+    load();
+    const unsubscribe = attachmentStorage.onChange((changedOrderId) => {
+      if (changedOrderId === orderId) load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [orderId]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsSaving(true);
+    try {
+      for (const file of Array.from(files)) {
+        await attachmentStorage.saveAttachment(orderId, file, kind);
+      }
+      showToast(files.length === 1 ? 'Attachment added' : `${files.length} attachments added`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to add attachment', 'error');
+    } finally {
+      setIsSaving(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div
+      className={`rounded-lg transition-colors ${isDragging ? 'bg-blue-500/5 ring-1 ring-blue-500/40' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-300">
+          Attachments{attachments.length > 0 && <span className="text-gray-500"> ({attachments.length})</span>}
+        </h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AttachmentKind)}
+            className="px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-xs"
+            aria-label="Attachment type"
+          >
+            {KIND_OPTIONS.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSaving}
+            className="text-sm text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Adding...' : 'Add file'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            onChange={(e) => handleFiles(e.target.files)}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-xs text-gray-500">Drop receipts, screenshots, return labels or PDFs here to keep them with this order.</p>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {attachments.map((attachment, index) => (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setViewIndex(index)}
+              className="group text-left"
+              title={attachment.name}
+            >
+              <div className="aspect-square rounded-lg border border-dark-border bg-dark-hover overflow-hidden group-hover:border-gray-500 transition-colors">
+                {attachment.thumbnailUrl ? (
+                  <img src={attachment.thumbnailUrl} alt={attachment.name} className="w-full h-full object-cover" />
+                ) : (
+                  <FileIcon type={attachment.type} />
+                )}
+              </div>
+              <p className="mt-1 text-[11px] text-gray-400 truncate">{ATTACHMENT_KIND_LABELS[attachment.kind]}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {viewIndex !== null && attachments[viewIndex] && (
+        <AttachmentViewer
+          attachments={attachments}
+          index={viewIndex}
+          onIndexChange={setViewIndex}
+          onClose={() => setViewIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
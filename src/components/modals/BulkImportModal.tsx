@@ -0,0 +1,421 @@
+import { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Modal } from '../shared/Modal';
+import { Button } from '../shared/Button';
+import { useToast } from '../shared/Toast';
+import { useBNPLStore } from '../../store';
+import { useActivePlatforms } from '../../store/selectors';
+import { getFieldsToReview } from '../../services/extraction';
+import {
+  createRateLimiter,
+  extractOrderFromScreenshot,
+  getScreenshotRateLimit,
+  toOrderImportRow,
+} from '../../services/screenshotImport';
+import { findDuplicateOrders, findDuplicateRows } from '../../services/duplicateOrders';
+import { attachmentStorage } from '../../services/attachmentStorage';
+import { formatCurrency, formatNumberInput, parseDollarInput } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { resolvePlatformId } from '../../utils/platform';
+import type { OrderImportRow, PlatformId } from '../../types';
+
+interface QueuedScreenshot {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: 'queued' | 'extracting' | 'ready' | 'failed';
+  error?: string;
+  row?: OrderImportRow; // once extracted
+  totalInput: string; // editable total, in dollars
+  needsReview: boolean; // OCR wasn't sure about some fields
+  merge: boolean; // merge into the tracked order it looks like, instead of importing it as new
+  rejected: boolean;
+}
+
+export function BulkImportModal() {
+  const isOpen = useBNPLStore((state) => state.bulkImportModalOpen);
+  const closeModal = useBNPLStore((state) => state.closeBulkImportModal);
+
+  // Mounted only while open, so each batch starts from an empty queue
+  if (!isOpen) return null;
+  return <ScreenshotQueue onClose={closeModal} />;
+}
+
+function ScreenshotQueue({ onClose }: { onClose: () => void }) {
+  const { showToast } = useToast();
+  const platforms = useActivePlatforms();
+  const orders = useBNPLStore((state) => state.orders);
+  const payments = useBNPLStore((state) => state.payments);
+  const importOrders = useBNPLStore((state) => state.importOrders);
+  const extractionSettings = useBNPLStore((state) => state.extractionSettings);
+  const apiKeys = useBNPLStore((state) => state.apiKeys);
+
+  const [items, setItems] = useState<QueuedScreenshot[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [limiter] = useState(() => createRateLimiter(getScreenshotRateLimit(extractionSettings, apiKeys)));
+  // Screenshots removed while waiting their turn are skipped
+  const removedIds = useRef(new Set<string>());
+  const previewUrls = useRef(new Set<string>());
+
+  useEffect(() => {
+    const urls = previewUrls.current;
+    return () => {
+      limiter.clear();
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [limiter]);
+
+  const updateItem = (id: string, changes: Partial<QueuedScreenshot>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const extract = (id: string, file: File) => {
+    updateItem(id, { status: 'queued', error: undefined });
+    limiter
+      .schedule(async () => {
+        if (removedIds.current.has(id)) return null;
+        updateItem(id, { status: 'extracting' });
+        return extractOrderFromScreenshot(file, platforms, extractionSettings, apiKeys);
+      })
+      .then(
+        (order) => {
+          if (!order) return;
+          const platformId = resolvePlatformId(order.platform, platforms) ?? '';
+          const row = toOrderImportRow(order, platformId);
+          const fieldsToReview = order.confidence ? getFieldsToReview(order.confidence) : {};
+          updateItem(id, {
+            status: 'ready',
+            row,
+            totalInput: (row.input.totalAmount / 100).toFixed(2),
+            needsReview: Object.keys(fieldsToReview).length > 0,
+          });
+        },
+        (error) => {
+          updateItem(id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Failed to extract order',
+          });
+        }
+      );
+  };
+
+  const addFiles = (files: FileList | null) => {
+    const images = Array.from(files ?? []).filter((file) => file.type.startsWith('image/'));
+    const added = images.map((file): QueuedScreenshot => {
+      const previewUrl = URL.createObjectURL(file);
+      previewUrls.current.add(previewUrl);
+      return {
+        id: uuidv4(),
+        file,
+        previewUrl,
+        status: 'queued',
+        totalInput: '',
+        needsReview: false,
+        merge: false,
+        rejected: false,
+      };
+    });
+    setItems((prev) => [...prev, ...added]);
+    added.forEach((item) => extract(item.id, item.file));
+  };
+
+  const removeItem = (item: QueuedScreenshot) => {
+    removedIds.current.add(item.id);
+    URL.revokeObjectURL(item.previewUrl);
+    previewUrls.current.delete(item.previewUrl);
+    setItems((prev) => prev.filter((i) => i.id !== item.id));
+  };
+
+  const updateInput = (item: QueuedScreenshot, changes: Partial<OrderImportRow['input']>) => {
+    if (!item.row) return;
+    updateItem(item.id, { row: { ...item.row, input: { ...item.row.input, ...changes } } });
+  };
+
+  const handleTotalChange = (item: QueuedScreenshot, value: string) => {
+    const formatted = formatNumberInput(value);
+    const totalAmount = parseDollarInput(formatted);
+    if (!item.row || totalAmount === null || totalAmount <= 0) {
+      updateItem(item.id, { totalInput: formatted });
+      return;
+    }
+    // Keep the due dates but let the amounts be recalculated from the new total
+    const paymentOverrides = Object.fromEntries(
+      Object.entries(item.row.input.paymentOverrides ?? {}).map(([n, o]) => [n, { dueDate: o.dueDate }])
+    );
+    updateItem(item.id, {
+      totalInput: formatted,
+      row: { ...item.row, input: { ...item.row.input, totalAmount, paymentOverrides } },
+    });
+  };
+
+  const failedItems = items.filter((item) => item.status === 'failed');
+  const pendingCount = items.filter((item) => item.status === 'queued' || item.status === 'extracting').length;
+  const acceptedItems = items.filter((item) => item.status === 'ready' && !item.rejected && item.row);
+  const missingPlatform = acceptedItems.filter((item) => !item.row!.input.platformId);
+  const getDuplicate = (item: QueuedScreenshot) =>
+    item.row ? findDuplicateOrders(item.row.input, orders, payments, platforms)[0] : undefined;
+  const merges = acceptedItems.flatMap((item) => {
+    const duplicate = item.merge && getDuplicate(item);
+    return duplicate ? [{ item, duplicate }] : [];
+  });
+  const newItems = acceptedItems.filter((item) => !merges.some((merge) => merge.item === item));
+  // The same purchase can be in a batch twice too
+  const getBatchDuplicate = (item: QueuedScreenshot) => {
+    const index = acceptedItems.indexOf(item);
+    if (!item.row || index === -1) return undefined;
+    const earlier = acceptedItems.slice(0, index).map((i) => ({ id: i.id, input: i.row!.input }));
+    const match = findDuplicateRows(item.row.input, earlier, platforms)[0];
+    return match && items.findIndex((i) => i.id === match.id) + 1;
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      // Merges go in with the import, so a failure leaves nothing half done
+      const { orders: imported } = await importOrders(newItems.map((item) => item.row!), {
+        merges: merges.map(({ item, duplicate }) => ({ orderId: duplicate.order.id, row: item.row! })),
+      });
+
+      // Keep each screenshot with the order it became - imported orders come back in row order
+      const screenshots = [
+        ...merges.map(({ item, duplicate }) => ({ orderId: duplicate.order.id, file: item.file })),
+        ...imported.map((order, i) => ({ orderId: order.id, file: newItems[i].file })),
+      ];
+      const attached = await Promise.allSettled(
+        screenshots.map(({ orderId, file }) => attachmentStorage.saveAttachment(orderId, file, 'screenshot'))
+      );
+      if (attached.some((result) => result.status === 'rejected')) {
+        showToast("Some screenshots couldn't be attached to their orders", 'error');
+      }
+
+      showToast(
+        `Imported ${imported.length} order${imported.length !== 1 ? 's' : ''}` +
+          (merges.length > 0 ? `, merged ${merges.length} into existing orders` : ''),
+        'success'
+      );
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={() => !isImporting && onClose()} title="Import Screenshots" size="2xl">
+      <div className="space-y-4">
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          onClick={() => fileInputRef.current?.click()}
+          className={`p-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-dark-border hover:border-gray-500'
+          }`}
+        >
+          <p className="text-sm text-gray-300">Drop order screenshots here, or click to choose</p>
+          <p className="text-xs text-gray-500 mt-1">
+            They're read a few at a time to stay within your provider's rate limits
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = ''; // Reset file input
+            }}
+          />
+        </div>
+
+        {items.length > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex gap-4">
+              <span className="text-green-400">{newItems.length} to import</span>
+              {merges.length > 0 && <span className="text-amber-400">{merges.length} to merge</span>}
+              {pendingCount > 0 && <span className="text-gray-400">{pendingCount} extracting</span>}
+              {failedItems.length > 0 && <span className="text-red-400">{failedItems.length} failed</span>}
+            </div>
+            {failedItems.length > 1 && (
+              <button
+                type="button"
+                onClick={() => failedItems.forEach((item) => extract(item.id, item.file))}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Retry all failed
+              </button>
+            )}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="max-h-96 overflow-auto border border-dark-border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 bg-dark-hover">
+                <tr>
+                  <th className="text-left px-3 py-2">Screenshot</th>
+                  <th className="text-left px-3 py-2">Platform</th>
+                  <th className="text-left px-3 py-2">Store</th>
+                  <th className="text-right px-3 py-2">Total</th>
+                  <th className="text-left px-3 py-2">Schedule</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const input = item.row?.input;
+                  const duplicate = getDuplicate(item);
+                  const batchDuplicate = getBatchDuplicate(item);
+                  const paymentCount = input ? Object.keys(input.paymentOverrides ?? {}).length : 0;
+                  return (
+                    <tr
+                      key={item.id}
+                      className={`border-t border-dark-border text-gray-300 align-top ${item.rejected ? 'opacity-50' : ''}`}
+                    >
+                      <td className="px-3 py-2">
+                        <img src={item.previewUrl} alt={item.file.name} className="w-12 h-16 object-cover rounded" />
+                      </td>
+                      {!input ? (
+                        <td colSpan={4} className="px-3 py-2">
+                          {item.status === 'failed' ? (
+                            <p className="text-xs text-red-400">{item.error}</p>
+                          ) : (
+                            <p className="text-xs text-gray-500">
+                              {item.status === 'extracting' ? 'Extracting...' : 'Waiting...'}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-600 truncate mt-1">{item.file.name}</p>
+                        </td>
+                      ) : (
+                        <>
+                          <td className="px-3 py-2">
+                            <select
+                              value={input.platformId}
+                              onChange={(e) => updateInput(item, { platformId: e.target.value as PlatformId })}
+                              className={`w-28 px-2 py-1 bg-dark-card border rounded text-white text-sm ${
+                                input.platformId ? 'border-dark-border' : 'border-amber-500'
+                              }`}
+                            >
+                              {!input.platformId && <option value="">Choose...</option>}
+                              {platforms.map((p) => (
+                                <option key={p.id} value={p.id}>
+                                  {p.name}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              value={input.storeName ?? ''}
+                              onChange={(e) => updateInput(item, { storeName: e.target.value || undefined })}
+                              className="w-32 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <input
+                              value={item.totalInput}
+                              onChange={(e) => handleTotalChange(item, e.target.value)}
+                              inputMode="decimal"
+                              className="w-24 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm text-right"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-xs">
+                            <p>
+                              {paymentCount} payments from {formatDate(input.firstPaymentDate)}
+                            </p>
+                            {item.row!.paidInstallments ? (
+                              <p className="text-gray-500">{item.row!.paidInstallments} already paid</p>
+                            ) : null}
+                            {item.needsReview && <p className="text-amber-400">Read with low confidence - check it</p>}
+                            {batchDuplicate && (
+                              <p className="text-amber-400">Looks like screenshot {batchDuplicate} - reject one?</p>
+                            )}
+                            {duplicate && (
+                              <div className="mt-1 text-amber-400">
+                                <p title={duplicate.reasons.join(', ')}>
+                                  Looks like an existing order: {duplicate.order.storeName || 'unnamed'} for{' '}
+                                  {formatCurrency(duplicate.order.totalAmount)}
+                                </p>
+                                <select
+                                  value={item.merge ? 'merge' : 'keep'}
+                                  onChange={(e) => updateItem(item.id, { merge: e.target.value === 'merge' })}
+                                  className="mt-1 px-2 py-0.5 bg-dark-card border border-amber-500/50 rounded text-amber-200 text-xs"
+                                >
+                                  <option value="keep">Keep both</option>
+                                  <option value="merge">Merge into existing</option>
+                                </select>
+                              </div>
+                            )}
+                          </td>
+                        </>
+                      )}
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {item.status === 'ready' && (
+                          <button
+                            type="button"
+                            onClick={() => updateItem(item.id, { rejected: !item.rejected })}
+                            className="text-xs text-gray-400 hover:text-white"
+                          >
+                            {item.rejected ? 'Include' : 'Reject'}
+                          </button>
+                        )}
+                        {item.status === 'failed' && (
+                          <button
+                            type="button"
+                            onClick={() => extract(item.id, item.file)}
+                            className="text-xs text-blue-400 hover:text-blue-300"
+                          >
+                            Retry
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeItem(item)}
+                          className="ml-3 text-xs text-gray-500 hover:text-red-400"
+                          aria-label={`Remove ${item.file.name}`}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {missingPlatform.length > 0 && (
+          <p className="text-xs text-amber-400">Choose a platform for every screenshot you're importing.</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || acceptedItems.length === 0 || missingPlatform.length > 0}
+          >
+            {isImporting
+              ? 'Importing...'
+              : newItems.length > 0 || merges.length === 0
+                ? `Import ${newItems.length} order${newItems.length !== 1 ? 's' : ''}`
+                : `Merge ${merges.length} order${merges.length !== 1 ? 's' : ''}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
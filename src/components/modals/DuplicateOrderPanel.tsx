@@ -0,0 +1,49 @@
+import { formatCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import type { DuplicateCandidate } from '../../services/duplicateOrders';
+
+interface DuplicateOrderPanelProps {
+  candidate: DuplicateCandidate;
+  onMerge: () => void;
+  onKeepBoth: () => void;
+  disabled?: boolean;
+}
+
+export function DuplicateOrderPanel({ candidate, onMerge, onKeepBoth, disabled }: DuplicateOrderPanelProps) {
+  const { order, reasons } = candidate;
+
+  return (
+    <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-amber-300">Looks like an existing order</h3>
+        <p className="text-sm text-gray-300 mt-1">
+          {order.storeName || 'Unnamed order'} · {formatCurrency(order.totalAmount)} · first payment{' '}
+          {formatDate(order.firstPaymentDate)}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">{reasons.join(' · ')}</p>
+      </div>
+      <p className="text-xs text-gray-400">
+        Merging keeps the existing order and its payments, fills in missing details and marks any installments this
+        entry says are paid.
+      </p>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onMerge}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-amber-500/20 text-amber-200 hover:bg-amber-500/30 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Merge into existing
+        </button>
+        <button
+          type="button"
+          onClick={onKeepBoth}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm text-gray-300 hover:text-white hover:bg-dark-hover rounded-lg transition-colors disabled:opacity-50"
+        >
+          Keep both
+        </button>
+      </div>
+    </div>
+  );
+}
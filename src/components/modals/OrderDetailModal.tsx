@@ -1,17 +1,27 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Modal } from '../shared/Modal';
 import { Button } from '../shared/Button';
 import { Input } from '../shared/Input';
 import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
 import { useBNPLStore } from '../../store';
-import { useOrder, useOrderPayments, usePlatform } from '../../store/selectors';
+import { ConflictError } from '../../services/storage';
+import { useOrder, useOrderPayments, usePlatform, useOrderFees, useOrderInterest } from '../../store/selectors';
 import { formatCurrency, parseDollarInput, formatNumberInput } from '../../utils/currency';
 import { formatDateInput } from '../../utils/date';
+import { getPaymentFees } from '../../utils/payment';
+import { getOrderRefundedAmount } from '../../utils/order';
+import { PaymentEventsPanel } from './PaymentEventsPanel';
+import { RefundPanel } from './RefundPanel';
+import { AttachmentsPanel } from './AttachmentsPanel';
 import { format, parseISO } from 'date-fns';
-import { ORDER_TAG_OPTIONS, type PlatformId, type Order, type OrderType } from '../../types';
+import { ORDER_TAG_OPTIONS, type PlatformId, type Order, type OrderType, type ScheduleMode } from '../../types';
 
 export function OrderDetailModal() {
   const { showToast } = useToast();
+  const navigate = useNavigate();
+  const { undoAction } = useUndo();
   const isOpen = useBNPLStore((state) => state.orderDetailModalOpen);
   const selectedOrderId = useBNPLStore((state) => state.selectedOrderId);
   const closeModal = useBNPLStore((state) => state.closeOrderDetailModal);
@@ -39,6 +49,7 @@ export function OrderDetailModal() {
   const [editFirstPaymentDate, setEditFirstPaymentDate] = useState('');
   const [editIntervalDays, setEditIntervalDays] = useState(0);
   const [showCustomIntervalEdit, setShowCustomIntervalEdit] = useState(false);
+  const [editScheduleMode, setEditScheduleMode] = useState<ScheduleMode>('interval');
   const [editCreatedAt, setEditCreatedAt] = useState('');
   const [editStatus, setEditStatus] = useState<Order['status']>('active');
   const [editOrderType, setEditOrderType] = useState<OrderType>('personal');
@@ -57,11 +68,12 @@ export function OrderDetailModal() {
   ];
 
   // Frequency options for editing
+  // Monthly lands on the same day each calendar month rather than every 30 days
   const FREQUENCY_OPTIONS = [
     { label: 'Platform Default', days: 0 },
     { label: 'Weekly', days: 7 },
     { label: 'Bi-weekly', days: 14 },
-    { label: 'Monthly', days: 30 },
+    { label: 'Monthly', days: 30, monthly: true },
     { label: 'Custom', days: -1 },
   ];
 
@@ -77,6 +89,13 @@ export function OrderDetailModal() {
   const [editPaymentAmount, setEditPaymentAmount] = useState('');
   const [editPaymentDate, setEditPaymentDate] = useState('');
 
+  // Fees / reschedule editor
+  const [adjustingPaymentId, setAdjustingPaymentId] = useState<string | null>(null);
+
+  // Refund editor (amount prefilled when opened from the status select)
+  const [showRefundForm, setShowRefundForm] = useState(false);
+  const [refundFormAmount, setRefundFormAmount] = useState<number | undefined>(undefined);
+
   // Adding new payment
   const [showAddPayment, setShowAddPayment] = useState(false);
   const [newPaymentAmount, setNewPaymentAmount] = useState('');
@@ -85,12 +104,16 @@ export function OrderDetailModal() {
   const order = useOrder(selectedOrderId || '');
   const payments = useOrderPayments(selectedOrderId || '');
   const platform = usePlatform(order?.platformId || 'afterpay');
+  const orderFees = useOrderFees(selectedOrderId || '');
+  const orderInterest = useOrderInterest(selectedOrderId || '');
 
   // Reset states when modal closes
   useEffect(() => {
     if (!isOpen) {
       setEditingOrderInfo(false);
       setEditingPaymentId(null);
+      setAdjustingPaymentId(null);
+      setShowRefundForm(false);
       setShowAddPayment(false);
       setNewPaymentAmount('');
       setNewPaymentDate('');
@@ -106,10 +129,12 @@ export function OrderDetailModal() {
 
   const handleMarkPaid = async (paymentId: string) => {
     await markPaymentPaid(paymentId);
+    showToast('Payment marked as paid', 'success', undoAction);
   };
 
   const handleMarkUnpaid = async (paymentId: string) => {
     await markPaymentUnpaid(paymentId);
+    showToast('Payment marked as unpaid', 'success', undoAction);
   };
 
   const handleDeleteClick = () => {
@@ -120,12 +145,12 @@ export function OrderDetailModal() {
     setIsDeleting(true);
     try {
       await deleteOrder(order.id);
-      showToast('Order deleted', 'success');
+      showToast('Order deleted', 'success', undoAction);
       setShowDeleteConfirm(false);
       closeModal();
     } catch (error) {
       console.error('Failed to delete order:', error);
-      showToast('Failed to delete order', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to delete order', 'error');
     } finally {
       setIsDeleting(false);
     }
@@ -144,6 +169,7 @@ export function OrderDetailModal() {
     // Show custom interval if it's set and doesn't match presets
     const isPreset = [0, 7, 14, 30].includes(currentInterval);
     setShowCustomIntervalEdit(currentInterval > 0 && !isPreset);
+    setEditScheduleMode(order.scheduleMode ?? 'interval');
     setEditCreatedAt(order.createdAt.split('T')[0]);
     setEditStatus(order.status);
     setEditOrderType(order.orderType || 'personal');
@@ -191,12 +217,19 @@ export function OrderDetailModal() {
       if ((newInterval || 0) !== currentInterval) {
         updates.intervalDays = newInterval;
       }
+      // Handle schedule mode change
+      if (editScheduleMode !== (order.scheduleMode ?? 'interval')) {
+        updates.scheduleMode = editScheduleMode;
+      }
       // Handle created date change
       if (editCreatedAt !== order.createdAt.split('T')[0]) {
         updates.createdAt = editCreatedAt + 'T00:00:00.000Z';
       }
-      // Handle status change
-      if (editStatus !== order.status) {
+      // Handle status change - refunding goes through the refund flow so the
+      // remaining installments are rebalanced instead of just relabeled
+      const remainingRefundable = order.totalAmount - getOrderRefundedAmount(order);
+      const startRefund = editStatus === 'refunded' && order.status !== 'refunded' && remainingRefundable > 0;
+      if (editStatus !== order.status && !startRefund) {
         updates.status = editStatus;
       }
       // Handle order type change
@@ -211,13 +244,17 @@ export function OrderDetailModal() {
         const recalculated =
           updates.totalAmount !== undefined ||
           updates.firstPaymentDate !== undefined ||
-          updates.intervalDays !== undefined;
+          updates.intervalDays !== undefined ||
+          updates.scheduleMode !== undefined;
         const message = recalculated
           ? 'Order updated - payments recalculated'
           : 'Order updated';
-        showToast(message, 'success');
+        showToast(message, 'success', undoAction);
       }
       setEditingOrderInfo(false);
+      if (startRefund) {
+        handleStartRefund(remainingRefundable);
+      }
     } catch (error) {
       console.error('Failed to update order:', error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to update order';
@@ -225,6 +262,11 @@ export function OrderDetailModal() {
     }
   };
 
+  const handleStartRefund = (amount?: number) => {
+    setRefundFormAmount(amount);
+    setShowRefundForm(true);
+  };
+
   // Arbitrage sale info editing
   const handleStartEditSaleInfo = () => {
     setEditSaleAmount(order.saleAmount ? (order.saleAmount / 100).toFixed(2) : '');
@@ -254,12 +296,12 @@ export function OrderDetailModal() {
 
       if (Object.keys(updates).length > 0) {
         await updateOrder(order.id, updates);
-        showToast('Sale info updated', 'success');
+        showToast('Sale info updated', 'success', undoAction);
       }
       setEditingSaleInfo(false);
     } catch (error) {
       console.error('Failed to update sale info:', error);
-      showToast('Failed to update sale info', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to update sale info', 'error');
     }
   };
 
@@ -267,10 +309,10 @@ export function OrderDetailModal() {
     try {
       const today = formatDateInput(new Date());
       await updateOrder(order.id, { saleDate: today });
-      showToast('Marked as sold', 'success');
+      showToast('Marked as sold', 'success', undoAction);
     } catch (error) {
       console.error('Failed to mark as sold:', error);
-      showToast('Failed to mark as sold', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to mark as sold', 'error');
     }
   };
 
@@ -282,6 +324,9 @@ export function OrderDetailModal() {
     ? ((order.totalAmount - order.saleAmount) / order.totalAmount) * 100
     : null;
   const isArbitrageOrder = order.orderType === 'arbitrage';
+  const totalInterest = orderInterest
+    ? orderInterest.interestPaid + orderInterest.interestRemaining
+    : 0;
   const orderTypeInfo = ORDER_TYPE_OPTIONS.find(o => o.value === (order.orderType || 'personal'));
 
   // Payment editing
@@ -320,12 +365,12 @@ export function OrderDetailModal() {
 
       if (Object.keys(updates).length > 0) {
         await updatePayment(editingPaymentId, updates);
-        showToast('Payment updated', 'success');
+        showToast('Payment updated', 'success', undoAction);
       }
       setEditingPaymentId(null);
     } catch (error) {
       console.error('Failed to update payment:', error);
-      showToast('Failed to update payment', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to update payment', 'error');
     }
   };
 
@@ -338,12 +383,12 @@ export function OrderDetailModal() {
     if (!pendingDeletePaymentId) return;
     try {
       await deletePayment(pendingDeletePaymentId);
-      showToast('Payment deleted', 'success');
+      showToast('Payment deleted', 'success', undoAction);
       setShowPaymentDeleteConfirm(false);
       setPendingDeletePaymentId(null);
     } catch (error) {
       console.error('Failed to delete payment:', error);
-      showToast('Failed to delete payment', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to delete payment', 'error');
     }
   };
 
@@ -378,13 +423,13 @@ export function OrderDetailModal() {
 
     try {
       await addPaymentToOrder(order.id, amount, newPaymentDate);
-      showToast('Payment added', 'success');
+      showToast('Payment added', 'success', undoAction);
       setShowAddPayment(false);
       setNewPaymentAmount('');
       setNewPaymentDate('');
     } catch (error) {
       console.error('Failed to add payment:', error);
-      showToast('Failed to add payment', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to add payment', 'error');
     }
   };
 
@@ -401,30 +446,32 @@ export function OrderDetailModal() {
             <div className="flex-1 space-y-3">
               {/* Platform Selector */}
               <div className="flex flex-wrap gap-2">
-                {platforms.map((p) => (
-                  <button
-                    key={p.id}
-                    type="button"
-                    onClick={() => setEditPlatformId(p.id)}
-                    className={`
-                      flex items-center gap-1.5 px-2 py-1 rounded-lg border transition-all text-sm
-                      ${
-                        editPlatformId === p.id
-                          ? 'border-current bg-dark-hover'
-                          : 'border-dark-border hover:border-gray-600'
-                      }
-                    `}
-                    style={{
-                      color: editPlatformId === p.id ? p.color : '#9ca3af',
-                    }}
-                  >
-                    <span
-                      className="w-2 h-2 rounded-full"
-                      style={{ backgroundColor: p.color }}
-                    />
-                    <span className="font-medium">{p.name}</span>
-                  </button>
-                ))}
+                {platforms
+                  .filter((p) => !p.isArchived || p.id === order.platformId)
+                  .map((p) => (
+                    <button
+                      key={p.id}
+                      type="button"
+                      onClick={() => setEditPlatformId(p.id)}
+                      className={`
+                        flex items-center gap-1.5 px-2 py-1 rounded-lg border transition-all text-sm
+                        ${
+                          editPlatformId === p.id
+                            ? 'border-current bg-dark-hover'
+                            : 'border-dark-border hover:border-gray-600'
+                        }
+                      `}
+                      style={{
+                        color: editPlatformId === p.id ? p.color : '#9ca3af',
+                      }}
+                    >
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: p.color }}
+                      />
+                      <span className="font-medium">{p.name}</span>
+                    </button>
+                  ))}
               </div>
               {/* Store Name */}
               <Input
@@ -513,15 +560,18 @@ export function OrderDetailModal() {
                 </label>
                 <div className="flex flex-wrap gap-2">
                   {FREQUENCY_OPTIONS.map((opt) => {
-                    const isSelected =
-                      opt.days === -1
-                        ? showCustomIntervalEdit
-                        : opt.days === editIntervalDays && !showCustomIntervalEdit;
+                    const isSelected = opt.monthly
+                      ? editScheduleMode === 'monthly'
+                      : editScheduleMode === 'interval' &&
+                        (opt.days === -1
+                          ? showCustomIntervalEdit
+                          : opt.days === editIntervalDays && !showCustomIntervalEdit);
                     return (
                       <button
                         key={opt.label}
                         type="button"
                         onClick={() => {
+                          setEditScheduleMode(opt.monthly ? 'monthly' : 'interval');
                           if (opt.days === -1) {
                             setShowCustomIntervalEdit(true);
                             if (editIntervalDays === 0) {
@@ -657,9 +707,21 @@ export function OrderDetailModal() {
                 </p>
               </div>
             ) : (
-              <p className="text-lg font-semibold text-white mt-1">
-                {formatCurrency(order.totalAmount)}
-              </p>
+              <>
+                <p className="text-lg font-semibold text-white mt-1">
+                  {formatCurrency(order.totalAmount + orderFees + totalInterest)}
+                </p>
+                {totalInterest > 0 && (
+                  <p className="text-xs text-gray-400">
+                    incl. {formatCurrency(totalInterest)} interest
+                  </p>
+                )}
+                {orderFees > 0 && (
+                  <p className="text-xs text-amber-400">
+                    incl. {formatCurrency(orderFees)} in fees
+                  </p>
+                )}
+              </>
             )}
           </div>
           <div>
@@ -711,6 +773,30 @@ export function OrderDetailModal() {
           </div>
         </div>
 
+        {/* Interest - only show for amortized orders */}
+        {orderInterest && (
+          <div className="grid grid-cols-3 gap-4 p-4 bg-dark-hover rounded-lg">
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider">Interest Paid</p>
+              <p className="text-lg font-semibold text-white mt-1">
+                {formatCurrency(orderInterest.interestPaid)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider">Interest To Come</p>
+              <p className="text-lg font-semibold text-amber-400 mt-1">
+                {formatCurrency(orderInterest.interestRemaining)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider">Principal Left</p>
+              <p className="text-lg font-semibold text-white mt-1">
+                {formatCurrency(orderInterest.principalRemaining)}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Arbitrage Section - only show for arbitrage orders */}
         {isArbitrageOrder && (
           <div className="p-4 bg-amber-500/5 border border-amber-500/20 rounded-lg">
@@ -826,157 +912,194 @@ export function OrderDetailModal() {
           <h4 className="text-sm font-medium text-gray-300 mb-3">Payment Schedule</h4>
           <div className="space-y-2">
             {payments.map((payment) => (
-              <div
-                key={payment.id}
-                className={`flex items-center justify-between p-3 rounded-lg border ${
-                  payment.status === 'paid'
-                    ? 'bg-green-500/5 border-green-500/30'
-                    : payment.status === 'overdue'
-                    ? 'bg-red-500/10 border-red-500/30'
-                    : 'bg-dark-hover border-dark-border'
-                }`}
-              >
-                {editingPaymentId === payment.id ? (
-                  <>
-                    <div className="flex items-center gap-3 flex-1">
-                      <span className="text-gray-500 text-sm w-6">
-                        #{payment.installmentNumber}
-                      </span>
-                      <input
-                        type="text"
-                        value={editPaymentAmount}
-                        onChange={(e) => setEditPaymentAmount(formatNumberInput(e.target.value))}
-                        className="w-24 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
-                        placeholder="0.00"
-                      />
-                      <input
-                        type="date"
-                        value={editPaymentDate}
-                        onChange={(e) => setEditPaymentDate(e.target.value)}
-                        className="flex-1 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
-                      />
-                    </div>
-                    <div className="flex items-center gap-1 ml-2">
-                      <button
-                        onClick={handleSavePayment}
-                        className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                        title="Save"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => setEditingPaymentId(null)}
-                        className="p-1 text-gray-400 hover:text-gray-300 transition-colors"
-                        title="Cancel"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => handleDeletePaymentClick(payment.id)}
-                        className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                        title="Delete payment"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
-                    </div>
-                  </>
-                ) : (
-                  <>
-                    <div className="flex items-center gap-4">
-                      {/* Status Icon */}
-                      <div className="flex-shrink-0">
-                        {payment.status === 'paid' ? (
-                          <svg
-                            className="w-5 h-5 text-green-400"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M5 13l4 4L19 7"
-                            />
+              <div key={payment.id}>
+                <div
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    payment.status === 'paid'
+                      ? 'bg-green-500/5 border-green-500/30'
+                      : payment.status === 'overdue'
+                      ? 'bg-red-500/10 border-red-500/30'
+                      : 'bg-dark-hover border-dark-border'
+                  }`}
+                >
+                  {editingPaymentId === payment.id ? (
+                    <>
+                      <div className="flex items-center gap-3 flex-1">
+                        <span className="text-gray-500 text-sm w-6">
+                          #{payment.installmentNumber}
+                        </span>
+                        <input
+                          type="text"
+                          value={editPaymentAmount}
+                          onChange={(e) => setEditPaymentAmount(formatNumberInput(e.target.value))}
+                          className="w-24 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
+                          placeholder="0.00"
+                        />
+                        <input
+                          type="date"
+                          value={editPaymentDate}
+                          onChange={(e) => setEditPaymentDate(e.target.value)}
+                          className="flex-1 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
+                        />
+                      </div>
+                      <div className="flex items-center gap-1 ml-2">
+                        <button
+                          onClick={handleSavePayment}
+                          className="p-1 text-green-400 hover:text-green-300 transition-colors"
+                          title="Save"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
-                        ) : payment.status === 'overdue' ? (
-                          <svg
-                            className="w-5 h-5 text-red-400"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                            />
+                        </button>
+                        <button
+                          onClick={() => setEditingPaymentId(null)}
+                          className="p-1 text-gray-400 hover:text-gray-300 transition-colors"
+                          title="Cancel"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                           </svg>
-                        ) : (
-                          <span className="w-5 h-5 flex items-center justify-center text-gray-500 text-sm font-medium">
-                            #{payment.installmentNumber}
-                          </span>
-                        )}
+                        </button>
+                        <button
+                          onClick={() => handleDeletePaymentClick(payment.id)}
+                          className="p-1 text-red-400 hover:text-red-300 transition-colors"
+                          title="Delete payment"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
                       </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-4">
+                        {/* Status Icon */}
+                        <div className="flex-shrink-0">
+                          {payment.status === 'paid' ? (
+                            <svg
+                              className="w-5 h-5 text-green-400"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M5 13l4 4L19 7"
+                              />
+                            </svg>
+                          ) : payment.status === 'overdue' ? (
+                            <svg
+                              className="w-5 h-5 text-red-400"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                              />
+                            </svg>
+                          ) : (
+                            <span className="w-5 h-5 flex items-center justify-center text-gray-500 text-sm font-medium">
+                              #{payment.installmentNumber}
+                            </span>
+                          )}
+                        </div>
 
-                      {/* Payment Info */}
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-white">
-                            {formatCurrency(payment.amount)}
-                          </span>
-                          <span className="text-gray-400">
-                            {payment.status === 'paid' ? 'paid' : `due ${formatDate(payment.dueDate)}`}
-                          </span>
+                        {/* Payment Info */}
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-white">
+                              {formatCurrency(payment.amount)}
+                            </span>
+                            {getPaymentFees(payment) > 0 && (
+                              <span className="text-amber-400 text-sm">
+                                + {formatCurrency(getPaymentFees(payment))} fees
+                              </span>
+                            )}
+                            <span className="text-gray-400">
+                              {payment.status === 'paid' ? 'paid' : `due ${formatDate(payment.dueDate)}`}
+                            </span>
+                          </div>
+                          {payment.coveredByRefundId ? (
+                            <p className="text-xs text-purple-400 mt-0.5">
+                              Covered by refund
+                            </p>
+                          ) : payment.paidDate && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              Paid on {formatDate(payment.paidDate)}
+                            </p>
+                          )}
+                          {payment.interest !== undefined && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              {formatCurrency(payment.principal ?? 0)} principal · {formatCurrency(payment.interest)} interest
+                              {' · '}{formatCurrency(payment.remainingBalance ?? 0)} left
+                            </p>
+                          )}
                         </div>
-                        {payment.paidDate && (
-                          <p className="text-xs text-gray-500 mt-0.5">
-                            Paid on {formatDate(payment.paidDate)}
-                          </p>
-                        )}
                       </div>
-                    </div>
 
-                    {/* Action Buttons */}
-                    <div className="flex items-center gap-2">
-                      {/* Edit Button */}
-                      <button
-                        onClick={() => handleStartEditPayment(payment.id)}
-                        className="p-1 text-gray-400 hover:text-white transition-colors"
-                        title="Edit payment"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                        </svg>
-                      </button>
-
-                      {/* Mark Paid/Undo */}
-                      {payment.status === 'paid' ? (
+                      {/* Action Buttons */}
+                      <div className="flex items-center gap-2">
+                        {/* Fees & Reschedule Button */}
                         <button
-                          onClick={() => handleMarkUnpaid(payment.id)}
-                          className="text-sm text-gray-400 hover:text-white transition-colors"
+                          onClick={() =>
+                            setAdjustingPaymentId(adjustingPaymentId === payment.id ? null : payment.id)
+                          }
+                          className={`p-1 transition-colors ${
+                            adjustingPaymentId === payment.id ? 'text-white' : 'text-gray-400 hover:text-white'
+                          }`}
+                          title="Reschedule or record a fee"
                         >
-                          Undo
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
                         </button>
-                      ) : (
-                        <Button
-                          size="sm"
-                          variant={payment.status === 'overdue' ? 'danger' : 'secondary'}
-                          onClick={() => handleMarkPaid(payment.id)}
+
+                        {/* Edit Button */}
+                        <button
+                          onClick={() => handleStartEditPayment(payment.id)}
+                          className="p-1 text-gray-400 hover:text-white transition-colors"
+                          title="Edit payment"
                         >
-                          Mark Paid
-                        </Button>
-                      )}
-                    </div>
-                  </>
-                )}
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                          </svg>
+                        </button>
+
+                        {/* Mark Paid/Undo */}
+                        {payment.coveredByRefundId ? null : payment.status === 'paid' ? (
+                          <button
+                            onClick={() => handleMarkUnpaid(payment.id)}
+                            className="text-sm text-gray-400 hover:text-white transition-colors"
+                          >
+                            Undo
+                          </button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant={payment.status === 'overdue' ? 'danger' : 'secondary'}
+                            onClick={() => handleMarkPaid(payment.id)}
+                          >
+                            Mark Paid
+                          </Button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+                <PaymentEventsPanel
+                  key={payment.dueDate}
+                  payment={payment}
+                  isEditing={adjustingPaymentId === payment.id}
+                  onDone={() => setAdjustingPaymentId(null)}
+                />
               </div>
             ))}
           </div>
@@ -1036,10 +1159,36 @@ export function OrderDetailModal() {
               Add Payment
             </button>
           )}
+
+          {/* Record Refund */}
+          {!showRefundForm && order.status !== 'refunded' && (
+            <button
+              onClick={() => handleStartRefund()}
+              className="mt-2 w-full flex items-center justify-center gap-2 p-2 rounded-lg border border-dashed border-dark-border text-gray-400 hover:text-white hover:border-gray-600 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+              Record Refund or Return
+            </button>
+          )}
         </div>
 
+        {/* Refunds */}
+        <RefundPanel
+          key={`${showRefundForm}-${refundFormAmount}`}
+          order={order}
+          payments={payments}
+          isEditing={showRefundForm}
+          initialAmount={refundFormAmount}
+          onDone={() => setShowRefundForm(false)}
+        />
+
+        {/* Attachments */}
+        <AttachmentsPanel orderId={order.id} />
+
         {/* Delete Order */}
-        <div className="pt-4 border-t border-dark-border">
+        <div className="pt-4 border-t border-dark-border flex items-center justify-between">
           <button
             onClick={handleDeleteClick}
             disabled={isDeleting}
@@ -1060,6 +1209,15 @@ export function OrderDetailModal() {
             </svg>
             Delete Order
           </button>
+          <button
+            onClick={() => {
+              closeModal();
+              navigate(`/budgeting/history?view=changes&order=${order.id}`);
+            }}
+            className="text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            View change history
+          </button>
         </div>
       </div>
 
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '../shared/Button';
+import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
+import { useBNPLStore } from '../../store';
+import { formatCurrency, formatNumberInput, parseDollarInput } from '../../utils/currency';
+import { formatDateInput } from '../../utils/date';
+import type { Payment, PaymentEvent, PaymentEventType } from '../../types';
+
+const EVENT_LABELS: Record<PaymentEventType, string> = {
+  late_fee: 'Late fee',
+  penalty: 'Penalty',
+  fee_waived: 'Fee waived',
+  failed_attempt: 'Payment failed',
+  reschedule: 'Rescheduled',
+};
+
+const FEE_TYPES: PaymentEventType[] = ['late_fee', 'penalty', 'fee_waived'];
+
+function describeEvent(event: PaymentEvent): string {
+  switch (event.type) {
+    case 'reschedule':
+      return `${EVENT_LABELS.reschedule} from ${format(parseISO(event.previousDueDate!), 'MMM d')} to ${format(parseISO(event.newDueDate!), 'MMM d')}`;
+    case 'fee_waived':
+      return `${EVENT_LABELS.fee_waived} (−${formatCurrency(event.amount ?? 0)})`;
+    case 'failed_attempt':
+      return EVENT_LABELS.failed_attempt;
+    default:
+      return `${EVENT_LABELS[event.type]} (${formatCurrency(event.amount ?? 0)})`;
+  }
+}
+
+interface PaymentEventsPanelProps {
+  payment: Payment;
+  isEditing: boolean;
+  onDone: () => void;
+}
+
+export function PaymentEventsPanel({ payment, isEditing, onDone }: PaymentEventsPanelProps) {
+  const { showToast } = useToast();
+  const { undoAction } = useUndo();
+  const addPaymentEvent = useBNPLStore((state) => state.addPaymentEvent);
+  const removePaymentEvent = useBNPLStore((state) => state.removePaymentEvent);
+  const reschedulePayment = useBNPLStore((state) => state.reschedulePayment);
+
+  const [mode, setMode] = useState<'reschedule' | 'fee'>(
+    payment.status === 'paid' ? 'fee' : 'reschedule'
+  );
+  const [newDueDate, setNewDueDate] = useState(formatDateInput(parseISO(payment.dueDate)));
+  const [feeType, setFeeType] = useState<PaymentEventType>('late_fee');
+  const [feeAmount, setFeeAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const events = payment.events ?? [];
+  if (!isEditing && events.length === 0) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      showToast(successMessage, 'success', undoAction);
+      setNote('');
+      setFeeAmount('');
+      onDone();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update payment', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReschedule = () =>
+    run(() => reschedulePayment(payment.id, newDueDate, note.trim() || undefined), 'Payment rescheduled');
+
+  const handleAddFee = () => {
+    const amount = parseDollarInput(feeAmount);
+    if (!amount) {
+      showToast('Please enter a valid amount', 'error');
+      return;
+    }
+    run(
+      () => addPaymentEvent(payment.id, { type: feeType, amount, note: note.trim() || undefined }),
+      `${EVENT_LABELS[feeType]} recorded`
+    );
+  };
+
+  const handleFailedAttempt = () =>
+    run(
+      () => addPaymentEvent(payment.id, { type: 'failed_attempt', note: note.trim() || undefined }),
+      'Failed attempt recorded'
+    );
+
+  const handleRemove = async (eventId: string) => {
+    try {
+      await removePaymentEvent(payment.id, eventId);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to remove event', 'error');
+    }
+  };
+
+  return (
+    <div className="mt-2 pl-9 space-y-2">
+      {/* History */}
+      {payment.originalDueDate && (
+        <p className="text-xs text-gray-500">
+          Originally due {format(parseISO(payment.originalDueDate), 'MMM d, yyyy')}
+        </p>
+      )}
+      {events.map((event) => (
+        <div key={event.id} className="flex items-center justify-between text-xs">
+          <span
+            className={
+              event.type === 'late_fee' || event.type === 'penalty' || event.type === 'failed_attempt'
+                ? 'text-amber-400'
+                : 'text-gray-400'
+            }
+          >
+            {describeEvent(event)}
+            <span className="text-gray-500">
+              {' '}· {format(parseISO(event.createdAt), 'MMM d')}
+              {event.note && ` · ${event.note}`}
+            </span>
+          </span>
+          {isEditing && event.type !== 'reschedule' && (
+            <button
+              onClick={() => handleRemove(event.id)}
+              className="text-gray-500 hover:text-red-400 transition-colors"
+              title="Remove"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+
+      {/* Editor */}
+      {isEditing && (
+        <div className="p-3 rounded-lg border border-dashed border-dark-border bg-dark-hover/50 space-y-3">
+          <div className="flex gap-1">
+            {payment.status !== 'paid' && (
+              <button
+                onClick={() => setMode('reschedule')}
+                className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                  mode === 'reschedule' ? 'bg-dark-card text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                Reschedule
+              </button>
+            )}
+            <button
+              onClick={() => setMode('fee')}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                mode === 'fee' ? 'bg-dark-card text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              Fees &amp; failures
+            </button>
+          </div>
+
+          {mode === 'reschedule' && payment.status !== 'paid' ? (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">New due date</label>
+              <input
+                type="date"
+                value={newDueDate}
+                onChange={(e) => setNewDueDate(e.target.value)}
+                className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ) : (
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Type</label>
+                <select
+                  value={feeType}
+                  onChange={(e) => setFeeType(e.target.value as PaymentEventType)}
+                  className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm"
+                >
+                  {FEE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {EVENT_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Amount</label>
+                <div className="relative">
+                  <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-sm">$</span>
+                  <input
+                    type="text"
+                    value={feeAmount}
+                    onChange={(e) => setFeeAmount(formatNumberInput(e.target.value))}
+                    className="w-full pl-6 pr-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={onDone} disabled={isSaving}>
+              Done
+            </Button>
+            {mode === 'reschedule' && payment.status !== 'paid' ? (
+              <Button size="sm" onClick={handleReschedule} disabled={isSaving || !newDueDate}>
+                Reschedule
+              </Button>
+            ) : (
+              <>
+                <Button size="sm" variant="secondary" onClick={handleFailedAttempt} disabled={isSaving}>
+                  Log failed attempt
+                </Button>
+                <Button size="sm" onClick={handleAddFee} disabled={isSaving || !feeAmount}>
+                  Add
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { format, parseISO, addDays } from 'date-fns';
+import { PlatformIcon } from '../shared/PlatformIcon';
+import { useBNPLStore } from '../../store';
+import { formatCurrency } from '../../utils/currency';
+import { formatDateWithDay } from '../../utils/date';
+import type { PurchaseSimulation, PurchaseSuggestion } from '../../services/purchaseSimulator';
+
+interface PurchaseSimulationPanelProps {
+  simulation: PurchaseSimulation;
+  onApplySuggestion: (suggestion: PurchaseSuggestion) => void;
+  onClose: () => void;
+}
+
+function utilizationColor(percentage: number): string {
+  if (percentage > 100) return 'text-red-400';
+  if (percentage >= 80) return 'text-amber-400';
+  return 'text-green-400';
+}
+
+export function PurchaseSimulationPanel({
+  simulation,
+  onApplySuggestion,
+  onClose,
+}: PurchaseSimulationPanelProps) {
+  const platforms = useBNPLStore((state) => state.platforms);
+  const getPlatform = (id: string) => platforms.find((p) => p.id === id);
+
+  const { peakWeekBefore, peakWeekAfter, collisions, suggestions, input } = simulation;
+  const peakIncrease = (peakWeekAfter?.total ?? 0) - (peakWeekBefore?.total ?? 0);
+  const current = suggestions.find(
+    (s) => s.platformId === input.platformId && s.firstPaymentDate === input.firstPaymentDate
+  );
+  const betterSuggestions = suggestions.filter((s) => s !== current);
+
+  return (
+    <div className="p-4 bg-dark-hover rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-white">Can I afford this?</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Hide
+        </button>
+      </div>
+
+      {/* Peak week */}
+      {peakWeekAfter && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Peak week</p>
+          <p className="text-sm text-white">
+            {formatCurrency(peakWeekAfter.total)}{' '}
+            <span className="text-gray-400">
+              week of {format(parseISO(peakWeekAfter.weekStart), 'MMM d')}
+              {' – '}
+              {format(addDays(parseISO(peakWeekAfter.weekStart), 6), 'MMM d')}
+            </span>
+          </p>
+          {peakIncrease > 0 && (
+            <p className="text-xs text-amber-400">
+              Up {formatCurrency(peakIncrease)} from your current peak of{' '}
+              {formatCurrency(peakWeekBefore?.total ?? 0)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Utilization */}
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Utilization</p>
+        {Object.entries(simulation.utilization).map(([platformId, impact]) => {
+          const platform = getPlatform(platformId);
+          return (
+            <div key={platformId} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-gray-300">
+                <PlatformIcon platformId={platformId} size="sm" style={{ color: platform?.color }} />
+                {platform?.name ?? platformId}
+              </span>
+              {impact.after.limit > 0 ? (
+                <span>
+                  <span className="text-gray-400">{Math.round(impact.before.percentage)}% → </span>
+                  <span className={utilizationColor(impact.after.percentage)}>
+                    {Math.round(impact.after.percentage)}%
+                  </span>
+                  {impact.exceedsLimit && (
+                    <span className="text-red-400">
+                      {' '}· {formatCurrency(impact.after.used - impact.after.limit)} over limit
+                    </span>
+                  )}
+                </span>
+              ) : (
+                <span className="text-gray-400">No limit set</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Collisions */}
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Stacks on existing payments</p>
+        {collisions.length === 0 ? (
+          <p className="text-sm text-green-400">No installments land on a day you already owe</p>
+        ) : (
+          <div className="space-y-1">
+            {collisions.map((collision) => {
+              const existingTotal = collision.existingPayments.reduce((sum, p) => sum + p.amount, 0);
+              return (
+                <div key={collision.newPayment.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">{formatDateWithDay(collision.date)}</span>
+                  <span className="text-amber-400">
+                    {formatCurrency(collision.newPayment.amount + existingTotal)} due
+                    <span className="text-gray-500">
+                      {' '}({collision.existingPayments
+                        .map((p) => getPlatform(p.platformId)?.name ?? p.platformId)
+                        .join(', ')})
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Suggestions */}
+      {betterSuggestions.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            {current ? 'Fewer collisions' : 'Suggested instead'}
+          </p>
+          <div className="space-y-1.5">
+            {betterSuggestions.map((suggestion) => {
+              const platform = getPlatform(suggestion.platformId);
+              return (
+                <button
+                  key={`${suggestion.platformId}-${suggestion.firstPaymentDate}`}
+                  type="button"
+                  onClick={() => onApplySuggestion(suggestion)}
+                  className="w-full flex items-center justify-between px-3 py-2 rounded-lg border border-dark-border hover:border-gray-600 text-sm transition-colors"
+                >
+                  <span className="flex items-center gap-2 text-white">
+                    <PlatformIcon
+                      platformId={suggestion.platformId}
+                      size="sm"
+                      style={{ color: platform?.color }}
+                    />
+                    {platform?.name ?? suggestion.platformId}
+                    <span className="text-gray-400">
+                      from {format(parseISO(suggestion.firstPaymentDate), 'EEE, MMM d')}
+                    </span>
+                  </span>
+                  <span className="text-gray-400">
+                    {suggestion.collisionCount} collision{suggestion.collisionCount !== 1 ? 's' : ''}
+                    {' · '}
+                    peak {formatCurrency(suggestion.peakWeekTotal)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
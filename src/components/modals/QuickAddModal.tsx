@@ -3,17 +3,33 @@ import { Modal } from '../shared/Modal';
 import { Input } from '../shared/Input';
 import { Button } from '../shared/Button';
 import { useToast } from '../shared/Toast';
+import { PurchaseSimulationPanel } from './PurchaseSimulationPanel';
+import { DuplicateOrderPanel } from './DuplicateOrderPanel';
 import { useBNPLStore } from '../../store';
+import { useActivePlatforms } from '../../store/selectors';
 import { calculatePayments } from '../../services/paymentCalculator';
-import { extractOrderFromImage } from '../../services/gemini';
+import { getFieldsToReview, type ExtractedField } from '../../services/extraction';
+import { extractOrderFromScreenshot } from '../../services/screenshotImport';
+import { attachmentStorage } from '../../services/attachmentStorage';
+import { ConflictError } from '../../services/storage';
+import { parseOrderEmail } from '../../services/emailOrders';
+import { findDuplicateOrders, type DuplicateCandidate } from '../../services/duplicateOrders';
+import type { PurchaseSimulation, PurchaseSuggestion } from '../../services/purchaseSimulator';
 import {
   formatCurrency,
   parseDollarInput,
   formatNumberInput,
 } from '../../utils/currency';
-import { formatDateInput, isValidDateString } from '../../utils/date';
+import { formatDateInput, isValidDateString, normalizeDateString } from '../../utils/date';
+import { resolvePlatformId } from '../../utils/platform';
 import { parseISO, format } from 'date-fns';
-import { ORDER_TAG_OPTIONS, type PlatformId, type OrderType } from '../../types';
+import {
+  ORDER_TAG_OPTIONS,
+  type PlatformId,
+  type OrderType,
+  type NewOrderInput,
+  type ScheduleMode,
+} from '../../types';
 import { AFFIRM_INSTALLMENT_OPTIONS } from '../../constants/platforms';
 
 // Order type options for the selector
@@ -23,14 +39,29 @@ const ORDER_TYPE_OPTIONS: Array<{ value: OrderType; label: string; color: string
   { value: 'arbitrage', label: 'Arbitrage', color: '#f59e0b', bgColor: 'rgba(245, 158, 11, 0.2)' },
 ];
 
+// Payment flags no longer apply once the schedule is recalculated
+function withoutPaymentFields(
+  fields: Partial<Record<ExtractedField, number>>
+): Partial<Record<ExtractedField, number>> {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([field]) => !field.startsWith('payments.'))
+  );
+}
+
 export function QuickAddModal() {
   const { showToast } = useToast();
   const isOpen = useBNPLStore((state) => state.quickAddModalOpen);
   const closeModal = useBNPLStore((state) => state.closeQuickAddModal);
+  const openBulkImportModal = useBNPLStore((state) => state.openBulkImportModal);
   const addOrder = useBNPLStore((state) => state.addOrder);
-  const platforms = useBNPLStore((state) => state.platforms);
+  const mergeOrder = useBNPLStore((state) => state.mergeOrder);
+  const orders = useBNPLStore((state) => state.orders);
+  const payments = useBNPLStore((state) => state.payments);
+  const simulateOrder = useBNPLStore((state) => state.simulateOrder);
+  const platforms = useActivePlatforms();
   const markPaymentPaid = useBNPLStore((state) => state.markPaymentPaid);
-  const geminiApiKey = useBNPLStore((state) => state.geminiApiKey);
+  const extractionSettings = useBNPLStore((state) => state.extractionSettings);
+  const apiKeys = useBNPLStore((state) => state.apiKeys);
 
   // Form state
   const [platformId, setPlatformId] = useState<PlatformId>('afterpay');
@@ -48,13 +79,14 @@ export function QuickAddModal() {
   // Payment frequency (0 means use platform default)
   const [intervalDays, setIntervalDays] = useState(0);
   const [showCustomInterval, setShowCustomInterval] = useState(false);
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>('interval');
 
-  // Frequency options
+  // Frequency options (Monthly lands on the same day each calendar month)
   const FREQUENCY_OPTIONS = [
     { label: 'Platform Default', days: 0 },
     { label: 'Weekly', days: 7 },
     { label: 'Bi-weekly', days: 14 },
-    { label: 'Monthly', days: 30 },
+    { label: 'Monthly', days: 30, monthly: true },
     { label: 'Custom', days: -1 },
   ];
 
@@ -81,21 +113,37 @@ export function QuickAddModal() {
   const [jsonInput, setJsonInput] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
 
+  // Email receipt import state
+  const [showEmailInput, setShowEmailInput] = useState(false);
+  const [emailInput, setEmailInput] = useState('');
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const emailFileInputRef = useRef<HTMLInputElement>(null);
+  // Order date from an imported email, so past orders keep their real date
+  const [importedCreatedAt, setImportedCreatedAt] = useState<string | undefined>(undefined);
+
   // Ref to track when JSON is being applied (prevents useEffect from clearing overrides)
   const isApplyingJsonRef = useRef(false);
 
   // Screenshot import state
   const screenshotInputRef = useRef<HTMLInputElement>(null);
   const [isExtracting, setIsExtracting] = useState(false);
+  // Kept with the order as an attachment once it's saved
+  const [importedScreenshot, setImportedScreenshot] = useState<File | null>(null);
+  // Fields on-device OCR wasn't sure about, until the user edits them
+  const [reviewFields, setReviewFields] = useState<Partial<Record<ExtractedField, number>>>({});
+
+  // "Can I afford this?" dry run
+  const [simulation, setSimulation] = useState<PurchaseSimulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  // An already-tracked order the current entry looks like, found on submit
+  const [duplicate, setDuplicate] = useState<{ candidate: DuplicateCandidate; input: NewOrderInput } | null>(null);
 
   // Track payments to mark as paid after order creation (from JSON import)
   const [pendingPaidPayments, setPendingPaidPayments] = useState<
     Array<{ installment: number; paidDate?: string }>
   >([]);
 
-  // Valid platform IDs for JSON validation
-  const VALID_PLATFORM_IDS = ['afterpay', 'sezzle', 'klarna', 'zip', 'four', 'affirm'] as const;
-
   // Field aliases for flexible JSON parsing
   const PLATFORM_ALIASES = ['platform', 'provider', 'app', 'bnpl', 'service'];
   const STORE_ALIASES = ['store', 'merchant', 'retailer', 'vendor', 'shop', 'seller'];
@@ -131,58 +179,6 @@ export function QuickAddModal() {
     return isNaN(num) ? null : num;
   };
 
-  // Normalize date to YYYY-MM-DD
-  const normalizeDate = (value: unknown): string | null => {
-    if (typeof value !== 'string') return null;
-    const str = value.trim();
-
-    // Already YYYY-MM-DD
-    if (/^\d{4}-\d{2}-\d{2}$/.test(str)) return str;
-
-    // MM/DD/YYYY
-    const slashMatch = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (slashMatch) {
-      const [, m, d, y] = slashMatch;
-      return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
-    }
-
-    // YYYY/MM/DD
-    const slashMatch2 = str.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
-    if (slashMatch2) {
-      const [, y, m, d] = slashMatch2;
-      return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
-    }
-
-    // "Month Day, Year" format (e.g., "Jan 23, 2026", "January 23, 2026")
-    const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
-    const monthDayYear = str.match(/^([a-zA-Z]+)\s+(\d{1,2}),?\s*(\d{4})$/);
-    if (monthDayYear) {
-      const [, monthStr, day, year] = monthDayYear;
-      const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
-      if (monthIndex !== -1) {
-        return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
-      }
-    }
-
-    // "Day Month Year" format (e.g., "23 Jan 2026")
-    const dayMonthYear = str.match(/^(\d{1,2})\s+([a-zA-Z]+)\s+(\d{4})$/);
-    if (dayMonthYear) {
-      const [, day, monthStr, year] = dayMonthYear;
-      const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
-      if (monthIndex !== -1) {
-        return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
-      }
-    }
-
-    return null;
-  };
-
-  // Normalize platform name: "After Pay" → "afterpay"
-  const normalizePlatform = (value: unknown): string | null => {
-    if (typeof value !== 'string') return null;
-    return value.toLowerCase().replace(/\s+/g, '');
-  };
-
   // Normalize status: various values → 'paid' | 'pending'
   const normalizeStatus = (value: unknown): 'paid' | 'pending' => {
     if (typeof value !== 'string') return 'pending';
@@ -243,9 +239,10 @@ export function QuickAddModal() {
     if (!rawPlatform) {
       throw new Error('Missing required field: platform');
     }
-    const normalizedPlatform = normalizePlatform(rawPlatform);
-    if (!normalizedPlatform || !VALID_PLATFORM_IDS.includes(normalizedPlatform as typeof VALID_PLATFORM_IDS[number])) {
-      throw new Error('Invalid platform. Must be one of: afterpay, sezzle, klarna, zip, four, affirm');
+    // Accepts any active platform by ID or display name (e.g., "After Pay", "PayPal Pay in 4")
+    const resolvedPlatform = resolvePlatformId(rawPlatform, platforms);
+    if (!resolvedPlatform) {
+      throw new Error(`Invalid platform. Must be one of: ${platforms.map((p) => p.id).join(', ')}`);
     }
 
     // Find and validate total
@@ -301,7 +298,7 @@ export function QuickAddModal() {
       if (!rawDate) {
         throw new Error(`Payment #${paymentNum} is missing required field: date`);
       }
-      const date = normalizeDate(rawDate);
+      const date = normalizeDateString(rawDate);
       if (!date) {
         throw new Error(`Invalid date format for payment #${paymentNum}`);
       }
@@ -314,7 +311,7 @@ export function QuickAddModal() {
       let paidDate: string | undefined;
       const rawPaidDate = findField(p, PAYMENT_PAIDDATE_ALIASES);
       if (rawPaidDate !== undefined) {
-        paidDate = normalizeDate(rawPaidDate) ?? undefined;
+        paidDate = normalizeDateString(rawPaidDate) ?? undefined;
         if (rawPaidDate && !paidDate) {
           throw new Error(`Invalid paidDate format for payment #${paymentNum}`);
         }
@@ -324,7 +321,7 @@ export function QuickAddModal() {
     });
 
     return {
-      platform: normalizedPlatform as PlatformId,
+      platform: resolvedPlatform,
       store,
       total,
       intervalDays,
@@ -364,6 +361,7 @@ export function QuickAddModal() {
         installments,
         intervalDays: actualIntervalDays,
         apr,
+        scheduleMode,
       });
       return result.payments;
     } catch {
@@ -376,9 +374,13 @@ export function QuickAddModal() {
     platformId,
     customInstallments,
     intervalDays,
+    scheduleMode,
     aprInput,
   ]);
 
+  const scheduleTotal = calculatedPayments.reduce((sum, p) => sum + p.amount, 0);
+  const scheduleInterest = calculatedPayments.reduce((sum, p) => sum + (p.interest ?? 0), 0);
+
   // Apply overrides to payments and recalculate non-overridden amounts
   const displayPayments = useMemo(() => {
     if (calculatedPayments.length === 0 || !amountInCents) {
@@ -402,7 +404,8 @@ export function QuickAddModal() {
     );
 
     // Calculate remaining amount to distribute among non-overridden payments
-    const remainingAmount = amountInCents - overriddenTotal;
+    // (the schedule total includes any amortized interest)
+    const remainingAmount = scheduleTotal - overriddenTotal;
     const nonOverriddenCount = nonOverriddenPayments.length;
 
     // Distribute remaining amount evenly (with remainder going to first non-overridden)
@@ -437,19 +440,23 @@ export function QuickAddModal() {
         isOverridden: hasAmountOverride,
       };
     });
-  }, [calculatedPayments, overrides, amountInCents]);
+  }, [calculatedPayments, overrides, amountInCents, scheduleTotal]);
 
   // Check for total mismatch - show warning when payments don't sum to total
   const paymentsTotal = displayPayments.reduce((sum, p) => sum + p.amount, 0);
   const hasMismatch =
     displayPayments.length > 0 &&
     amountInCents &&
-    paymentsTotal !== amountInCents;
+    paymentsTotal !== scheduleTotal;
 
   // Reset form when modal opens
   useEffect(() => {
     if (isOpen) {
-      setPlatformId('afterpay');
+      // Default to Afterpay while it's active, otherwise the first active platform
+      const activePlatforms = useBNPLStore.getState().platforms.filter((p) => !p.isArchived);
+      const defaultPlatform =
+        activePlatforms.find((p) => p.id === 'afterpay') ?? activePlatforms[0];
+      setPlatformId(defaultPlatform?.id ?? 'afterpay');
       setStoreName('');
       setAmountInput('');
       setFirstPaymentDate(formatDateInput(new Date()));
@@ -457,6 +464,7 @@ export function QuickAddModal() {
       setAprInput('0');
       setIntervalDays(0);
       setShowCustomInterval(false);
+      setScheduleMode('interval');
       setSelectedTags([]);
       setNotes('');
       setOrderType('personal');
@@ -466,8 +474,16 @@ export function QuickAddModal() {
       setShowJsonInput(false);
       setJsonInput('');
       setJsonError(null);
+      setShowEmailInput(false);
+      setEmailInput('');
+      setEmailError(null);
+      setImportedCreatedAt(undefined);
+      setImportedScreenshot(null);
       setPendingPaidPayments([]);
       setIsExtracting(false);
+      setReviewFields({});
+      setSimulation(null);
+      setDuplicate(null);
     }
   }, [isOpen]);
 
@@ -479,16 +495,38 @@ export function QuickAddModal() {
     }
     setOverrides({});
     setCustomInstallments(0);
+    setReviewFields((prev) => withoutPaymentFields(prev));
   }, [platformId]);
 
+  const clearReview = (field: ExtractedField) => {
+    setReviewFields((prev) => {
+      if (prev[field] === undefined) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  // Hint under a field OCR wasn't sure about
+  const reviewClass = (field: ExtractedField): string =>
+    reviewFields[field] !== undefined ? 'border-amber-500 ring-1 ring-amber-500' : '';
+
+  const getReviewHint = (field: ExtractedField): string | undefined => {
+    const confidence = reviewFields[field];
+    return confidence !== undefined ? `Check this - read with ${Math.round(confidence * 100)}% confidence` : undefined;
+  };
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const formatted = formatNumberInput(e.target.value);
     setAmountInput(formatted);
     // Clear overrides when amount changes
     setOverrides({});
+    setReviewFields((prev) => withoutPaymentFields(prev));
+    clearReview('total');
   };
 
   const handleOverrideAmount = (installment: number, value: string) => {
+    clearReview(`payments.${installment - 1}.amount`);
     const amount = parseDollarInput(value);
     if (amount !== null) {
       setOverrides((prev) => ({
@@ -499,6 +537,7 @@ export function QuickAddModal() {
   };
 
   const handleOverrideDate = (installment: number, value: string) => {
+    clearReview(`payments.${installment - 1}.date`);
     setOverrides((prev) => ({
       ...prev,
       [installment]: { ...prev[installment], dueDate: value },
@@ -520,6 +559,7 @@ export function QuickAddModal() {
       setCustomInstallments(parsed.payments.length);
 
       // Set interval days if provided
+      setScheduleMode('interval');
       if (parsed.intervalDays) {
         setIntervalDays(parsed.intervalDays);
         setShowCustomInterval(true);
@@ -544,6 +584,8 @@ export function QuickAddModal() {
         .filter(p => p.status === 'paid')
         .map(p => ({ installment: p.installment, paidDate: p.paidDate }));
       setPendingPaidPayments(paidPayments);
+      setImportedCreatedAt(undefined);
+      setImportedScreenshot(null);
 
       // Clear JSON state and return to form view
       setJsonInput('');
@@ -554,27 +596,68 @@ export function QuickAddModal() {
     }
   };
 
+  const handleApplyEmail = (raw: string) => {
+    try {
+      const { input, paidInstallments = 0 } = parseOrderEmail(raw, platforms);
+      const dueDates = Object.values(input.paymentOverrides ?? {}).map((o) => o.dueDate);
+
+      isApplyingJsonRef.current = true;
+
+      setPlatformId(input.platformId);
+      setStoreName(input.storeName || '');
+      setAmountInput((input.totalAmount / 100).toFixed(2));
+      setFirstPaymentDate(input.firstPaymentDate);
+      setCustomInstallments(input.customInstallments ?? 0);
+      setAprInput(input.apr ? String(Math.round(input.apr * 10000) / 100) : '0');
+      setScheduleMode(input.scheduleMode ?? 'interval');
+      setIntervalDays(input.intervalDays ?? 0);
+      setShowCustomInterval(Boolean(input.intervalDays));
+      setOverrides(input.paymentOverrides ?? {});
+      setImportedCreatedAt(input.createdAt);
+      setImportedScreenshot(null);
+      setReviewFields({});
+
+      // Installments charged before the email was sent were paid on their due date
+      setPendingPaidPayments(
+        dueDates.slice(0, paidInstallments).map((paidDate, i) => ({ installment: i + 1, paidDate }))
+      );
+
+      setEmailInput('');
+      setEmailError(null);
+      setShowEmailInput(false);
+      showToast('Order read from email - check the details before adding', 'success');
+    } catch (error) {
+      setEmailError(error instanceof Error ? error.message : "Couldn't read this email");
+    }
+  };
+
+  const handleEmailFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      handleApplyEmail(await file.text());
+    } catch {
+      setEmailError("Couldn't read this file");
+    }
+  };
+
   const handleScreenshotSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!geminiApiKey) {
-      showToast('Please add your Gemini API key in Settings first', 'error');
-      return;
-    }
-
     setIsExtracting(true);
     try {
-      const extracted = await extractOrderFromImage(file, geminiApiKey);
+      // Without an AI provider, the screenshot is read on this device instead
+      const extracted = await extractOrderFromScreenshot(file, platforms, extractionSettings, apiKeys);
+      const fieldsToReview = extracted.confidence ? getFieldsToReview(extracted.confidence) : {};
 
       // Apply extracted data directly to form fields
       // Note: Can't use setJsonInput + handleApplyJson because state updates are async
       isApplyingJsonRef.current = true;
 
-      // Normalize platform (lowercase, remove spaces)
-      const normalizedPlatform = extracted.platform.toLowerCase().replace(/\s+/g, '');
-      if (VALID_PLATFORM_IDS.includes(normalizedPlatform as typeof VALID_PLATFORM_IDS[number])) {
-        setPlatformId(normalizedPlatform as PlatformId);
+      // Match platform by ID or name (lowercase, ignoring spaces)
+      const resolvedPlatform = resolvePlatformId(extracted.platform, platforms);
+      if (resolvedPlatform) {
+        setPlatformId(resolvedPlatform);
       }
 
       setStoreName(extracted.store || '');
@@ -598,8 +681,16 @@ export function QuickAddModal() {
         .filter(p => p.status === 'paid')
         .map(p => ({ installment: p.installment }));
       setPendingPaidPayments(paidPayments);
-
-      showToast('Order extracted from screenshot', 'success');
+      setReviewFields(fieldsToReview);
+      setImportedCreatedAt(undefined);
+      setImportedScreenshot(file);
+
+      showToast(
+        Object.keys(fieldsToReview).length > 0
+          ? 'Order read from screenshot - check the highlighted fields'
+          : 'Order extracted from screenshot',
+        'success'
+      );
     } catch (error) {
       showToast(error instanceof Error ? error.message : 'Failed to extract order', 'error');
     } finally {
@@ -608,40 +699,93 @@ export function QuickAddModal() {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Build the addOrder input from the current form state
+  const buildOrderInput = (totalAmount: number): NewOrderInput => {
+    // Parse sale amount for arbitrage orders
+    const saleAmountParsed = orderType === 'arbitrage' && saleAmountInput
+      ? parseDollarInput(saleAmountInput)
+      : null;
+    const saleAmountCents = saleAmountParsed && saleAmountParsed > 0 ? saleAmountParsed : undefined;
 
-    if (!amountInCents || amountInCents <= 0) {
+    return {
+      platformId,
+      storeName: storeName.trim() || undefined,
+      totalAmount,
+      firstPaymentDate,
+      tags: selectedTags.length > 0 ? selectedTags : undefined,
+      notes: notes.trim() || undefined,
+      intervalDays: intervalDays > 0 ? intervalDays : undefined,
+      scheduleMode: scheduleMode === 'monthly' ? scheduleMode : undefined,
+      customInstallments: customInstallments || undefined,
+      apr:
+        platformId === 'affirm' && parseFloat(aprInput) > 0
+          ? parseFloat(aprInput) / 100
+          : undefined,
+      paymentOverrides:
+        Object.keys(overrides).length > 0 ? overrides : undefined,
+      orderType,
+      saleAmount: saleAmountCents,
+      createdAt: importedCreatedAt,
+    };
+  };
+
+  // Only show a simulation while it still matches the form
+  const currentInput = amountInCents && amountInCents > 0 ? buildOrderInput(amountInCents) : null;
+  const activeSimulation =
+    simulation && currentInput && JSON.stringify(simulation.input) === JSON.stringify(currentInput)
+      ? simulation
+      : null;
+  // Editing the form after the warning means it has to be checked again
+  const activeDuplicate =
+    duplicate && currentInput && JSON.stringify(duplicate.input) === JSON.stringify(currentInput)
+      ? duplicate.candidate
+      : null;
+
+  const handleSimulate = async () => {
+    if (!currentInput || !isValidDateString(firstPaymentDate)) {
       return;
     }
 
+    setIsSimulating(true);
+    try {
+      setSimulation(await simulateOrder(currentInput));
+    } catch (error) {
+      console.error('Failed to simulate order:', error);
+      showToast('Failed to run simulation', 'error');
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const handleApplySuggestion = (suggestion: PurchaseSuggestion) => {
+    // Suggestions on another platform use that platform's default schedule
+    if (suggestion.platformId !== platformId) {
+      setIntervalDays(0);
+      setShowCustomInterval(false);
+      setScheduleMode('interval');
+    }
+    setPlatformId(suggestion.platformId);
+    setFirstPaymentDate(suggestion.firstPaymentDate);
+    setSimulation(null);
+  };
+
+  // An attachment that fails to save shouldn't lose the order
+  const attachScreenshot = async (orderId: string) => {
+    if (!importedScreenshot) return;
+    try {
+      await attachmentStorage.saveAttachment(orderId, importedScreenshot, 'screenshot');
+    } catch (error) {
+      console.error('Failed to attach screenshot:', error);
+      showToast("Order saved, but the screenshot couldn't be attached", 'error');
+    }
+  };
+
+  const saveOrder = async (input: NewOrderInput) => {
     setIsSubmitting(true);
 
     try {
-      // Parse sale amount for arbitrage orders
-      const saleAmountParsed = orderType === 'arbitrage' && saleAmountInput
-        ? parseDollarInput(saleAmountInput)
-        : null;
-      const saleAmountCents = saleAmountParsed && saleAmountParsed > 0 ? saleAmountParsed : undefined;
-
-      const { payments: createdPayments } = await addOrder({
-        platformId,
-        storeName: storeName.trim() || undefined,
-        totalAmount: amountInCents,
-        firstPaymentDate,
-        tags: selectedTags.length > 0 ? selectedTags : undefined,
-        notes: notes.trim() || undefined,
-        intervalDays: intervalDays > 0 ? intervalDays : undefined,
-        customInstallments: customInstallments || undefined,
-        apr:
-          platformId === 'affirm' && parseFloat(aprInput) > 0
-            ? parseFloat(aprInput) / 100
-            : undefined,
-        paymentOverrides:
-          Object.keys(overrides).length > 0 ? overrides : undefined,
-        orderType,
-        saleAmount: saleAmountCents,
-      });
+      const { order, payments: createdPayments } = await addOrder(input);
+      await attachScreenshot(order.id);
 
       // Mark payments as paid based on JSON import statuses
       if (pendingPaidPayments.length > 0) {
@@ -661,12 +805,51 @@ export function QuickAddModal() {
       closeModal();
     } catch (error) {
       console.error('Failed to add order:', error);
-      showToast('Failed to add order', 'error');
+      showToast(error instanceof ConflictError ? error.message : 'Failed to add order', 'error');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!amountInCents || amountInCents <= 0) {
+      return;
+    }
+
+    // Ask before adding what looks like an order that's already tracked
+    const input = buildOrderInput(amountInCents);
+    const [candidate] = findDuplicateOrders(input, orders, payments, platforms);
+    if (candidate) {
+      setDuplicate({ candidate, input });
+      return;
+    }
+
+    await saveOrder(input);
+  };
+
+  const handleMerge = async (candidate: DuplicateCandidate) => {
+    if (!currentInput) return;
+
+    setIsSubmitting(true);
+    try {
+      await mergeOrder(candidate.order.id, {
+        input: currentInput,
+        paidInstallments: pendingPaidPayments.length || undefined,
+      });
+      await attachScreenshot(candidate.order.id);
+      showToast('Merged into the existing order', 'success');
+      closeModal();
+    } catch (error) {
+      console.error('Failed to merge order:', error);
+      showToast(error instanceof ConflictError ? error.message : 'Failed to merge order', 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+
   return (
     <Modal isOpen={isOpen} onClose={closeModal} title="Add Order" size="lg">
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -675,12 +858,18 @@ export function QuickAddModal() {
           <label className="block text-sm font-medium text-gray-300 mb-3">
             Platform
           </label>
+          {getReviewHint('platform') && (
+            <p className="-mt-2 mb-3 text-sm text-amber-400">{getReviewHint('platform')}</p>
+          )}
           <div className="grid grid-cols-3 gap-2">
             {platforms.map((p) => (
               <button
                 key={p.id}
                 type="button"
-                onClick={() => setPlatformId(p.id)}
+                onClick={() => {
+                  setPlatformId(p.id);
+                  clearReview('platform');
+                }}
                 className={`
                   flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border-2 transition-all
                   ${
@@ -738,7 +927,12 @@ export function QuickAddModal() {
           label="Store Name (optional)"
           placeholder="e.g., Amazon, Target"
           value={storeName}
-          onChange={(e) => setStoreName(e.target.value)}
+          onChange={(e) => {
+            setStoreName(e.target.value);
+            clearReview('store');
+          }}
+          className={reviewClass('store')}
+          helperText={getReviewHint('store')}
         />
 
         {/* Tags */}
@@ -800,6 +994,8 @@ export function QuickAddModal() {
           error={
             amountInput && !amountInCents ? 'Enter a valid amount' : undefined
           }
+          className={reviewClass('total')}
+          helperText={getReviewHint('total')}
         />
 
         {/* Expected Sale Amount (for arbitrage orders) */}
@@ -818,7 +1014,12 @@ export function QuickAddModal() {
           label="First Payment Date"
           type="date"
           value={firstPaymentDate}
-          onChange={(e) => setFirstPaymentDate(e.target.value)}
+          onChange={(e) => {
+            setFirstPaymentDate(e.target.value);
+            clearReview('payments.0.date');
+          }}
+          className={reviewClass('payments.0.date')}
+          helperText={getReviewHint('payments.0.date')}
         />
 
         {/* Payment Frequency */}
@@ -828,15 +1029,18 @@ export function QuickAddModal() {
           </label>
           <div className="flex flex-wrap gap-2">
             {FREQUENCY_OPTIONS.map((opt) => {
-              const isSelected =
-                opt.days === -1
-                  ? showCustomInterval
-                  : opt.days === intervalDays && !showCustomInterval;
+              const isSelected = opt.monthly
+                ? scheduleMode === 'monthly'
+                : scheduleMode === 'interval' &&
+                  (opt.days === -1
+                    ? showCustomInterval
+                    : opt.days === intervalDays && !showCustomInterval);
               return (
                 <button
                   key={opt.label}
                   type="button"
                   onClick={() => {
+                    setScheduleMode(opt.monthly ? 'monthly' : 'interval');
                     if (opt.days === -1) {
                       setShowCustomInterval(true);
                       setIntervalDays(platform?.defaultIntervalDays || 14);
@@ -913,7 +1117,7 @@ export function QuickAddModal() {
           </div>
         )}
 
-        {/* Hidden file input for screenshot import */}
+        {/* Hidden file inputs for screenshot and email import */}
         <input
           ref={screenshotInputRef}
           type="file"
@@ -921,6 +1125,16 @@ export function QuickAddModal() {
           className="hidden"
           onChange={handleScreenshotSelect}
         />
+        <input
+          ref={emailFileInputRef}
+          type="file"
+          accept=".eml,message/rfc822,.txt,.html,.htm"
+          className="hidden"
+          onChange={(e) => {
+            handleEmailFile(e.target.files?.[0]);
+            e.target.value = ''; // Reset file input
+          }}
+        />
 
         {/* Advanced Options Toggle */}
         <button
@@ -944,8 +1158,8 @@ export function QuickAddModal() {
         {showAdvanced && (
           <div className="space-y-4 pl-4 border-l-2 border-dark-border">
             {/* Import Options */}
-            {!showJsonInput && (
-              <div className="flex items-center gap-3">
+            {!showJsonInput && !showEmailInput && (
+              <div className="flex flex-wrap items-center gap-3">
                 <button
                   type="button"
                   onClick={() => setShowJsonInput(true)}
@@ -958,13 +1172,17 @@ export function QuickAddModal() {
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    if (!geminiApiKey) {
-                      showToast('Please add your Gemini API key in Settings first', 'error');
-                      return;
-                    }
-                    screenshotInputRef.current?.click();
-                  }}
+                  onClick={() => setShowEmailInput(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-dark-hover text-gray-300 hover:text-white rounded-lg transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                  </svg>
+                  Import Email
+                </button>
+                <button
+                  type="button"
+                  onClick={() => screenshotInputRef.current?.click()}
                   disabled={isExtracting}
                   className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-dark-hover text-gray-300 hover:text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
@@ -974,6 +1192,13 @@ export function QuickAddModal() {
                   </svg>
                   {isExtracting ? 'Extracting...' : 'Import Screenshot'}
                 </button>
+                <button
+                  type="button"
+                  onClick={openBulkImportModal}
+                  className="text-sm text-blue-400 hover:text-blue-300"
+                >
+                  Import several...
+                </button>
               </div>
             )}
 
@@ -1014,6 +1239,58 @@ export function QuickAddModal() {
                 </Button>
               </div>
             )}
+
+            {/* Email Receipt Section */}
+            {showEmailInput && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-300">
+                    Import Order Email
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowEmailInput(false);
+                      setEmailInput('');
+                      setEmailError(null);
+                    }}
+                    className="text-sm text-gray-400 hover:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <textarea
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleEmailFile(e.dataTransfer.files[0]);
+                  }}
+                  placeholder="Paste the order confirmation email, or drop a saved .eml file here"
+                  className="w-full h-32 px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {emailError && (
+                  <p className="text-sm text-red-400">{emailError}</p>
+                )}
+                <div className="flex items-center gap-3">
+                  <Button
+                    type="button"
+                    onClick={() => handleApplyEmail(emailInput)}
+                    disabled={!emailInput.trim()}
+                  >
+                    Read Email
+                  </Button>
+                  <button
+                    type="button"
+                    onClick={() => emailFileInputRef.current?.click()}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    Choose .eml file
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -1049,7 +1326,8 @@ export function QuickAddModal() {
                     onChange={(e) =>
                       handleOverrideAmount(payment.installmentNumber, e.target.value)
                     }
-                    className="w-24 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
+                    title={getReviewHint(`payments.${payment.installmentNumber - 1}.amount`)}
+                    className={`w-24 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm ${reviewClass(`payments.${payment.installmentNumber - 1}.amount`)}`}
                   />
                   <input
                     type="date"
@@ -1057,11 +1335,17 @@ export function QuickAddModal() {
                     onChange={(e) =>
                       handleOverrideDate(payment.installmentNumber, e.target.value)
                     }
-                    className="flex-1 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm"
+                    title={getReviewHint(`payments.${payment.installmentNumber - 1}.date`)}
+                    className={`flex-1 px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-sm ${reviewClass(`payments.${payment.installmentNumber - 1}.date`)}`}
                   />
                 </div>
               ))}
             </div>
+            {scheduleInterest > 0 && (
+              <p className="mt-2 text-sm text-gray-400">
+                Includes {formatCurrency(scheduleInterest)} interest, amortized monthly
+              </p>
+            )}
             {hasMismatch && (
               <p className="mt-2 text-sm text-amber-400 flex items-center gap-1.5">
                 <svg
@@ -1078,20 +1362,47 @@ export function QuickAddModal() {
                   />
                 </svg>
                 Payments sum to {formatCurrency(paymentsTotal)} but total is{' '}
-                {formatCurrency(amountInCents || 0)}
+                {formatCurrency(scheduleTotal)}
               </p>
             )}
           </div>
         )}
 
+        {/* Affordability dry run */}
+        {activeSimulation && (
+          <PurchaseSimulationPanel
+            simulation={activeSimulation}
+            onApplySuggestion={handleApplySuggestion}
+            onClose={() => setSimulation(null)}
+          />
+        )}
+
+        {activeDuplicate && currentInput && (
+          <DuplicateOrderPanel
+            candidate={activeDuplicate}
+            onMerge={() => handleMerge(activeDuplicate)}
+            onKeepBoth={() => saveOrder(currentInput)}
+            disabled={isSubmitting}
+          />
+        )}
+
         {/* Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t border-dark-border">
+          <Button
+            type="button"
+            variant="ghost"
+            className="mr-auto"
+            onClick={handleSimulate}
+            disabled={!currentInput || isSimulating || !!activeSimulation}
+          >
+            {isSimulating ? 'Checking...' : 'Can I afford this?'}
+          </Button>
           <Button type="button" variant="secondary" onClick={closeModal}>
             Cancel
           </Button>
           <Button
             type="submit"
-            disabled={!amountInCents || amountInCents <= 0 || isSubmitting}
+            disabled={!amountInCents || amountInCents <= 0 || isSubmitting || !!activeDuplicate}
           >
             {isSubmitting ? 'Adding...' : 'Add Order'}
           </Button>
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '../shared/Button';
+import { useToast } from '../shared/Toast';
+import { useUndo } from '../../hooks/useUndo';
+import { useBNPLStore } from '../../store';
+import { applyRefundToPayments } from '../../services/paymentCalculator';
+import { formatCurrency, formatNumberInput, parseDollarInput } from '../../utils/currency';
+import { formatDateInput } from '../../utils/date';
+import { getOrderRefundedAmount } from '../../utils/order';
+import type { Order, OrderRefund, Payment, RefundStrategy } from '../../types';
+
+const STRATEGY_OPTIONS: { value: RefundStrategy; label: string; description: string }[] = [
+  {
+    value: 'last-first',
+    label: 'Last installments first',
+    description: 'Covers the final payments first, like Afterpay, Zip and Sezzle',
+  },
+  {
+    value: 'spread',
+    label: 'Spread across remaining',
+    description: 'Lowers every remaining payment evenly',
+  },
+];
+
+function describeRefund(refund: OrderRefund): string {
+  const covered = refund.adjustments.filter((a) => a.coveredByRefund).length;
+  const reduced = refund.adjustments.length - covered;
+  const parts: string[] = [];
+  if (covered > 0) parts.push(`${covered} payment${covered !== 1 ? 's' : ''} covered`);
+  if (reduced > 0) parts.push(`${reduced} reduced`);
+  if (refund.creditAmount > 0) parts.push(`${formatCurrency(refund.creditAmount)} credited back`);
+  return parts.join(' · ');
+}
+
+interface RefundPanelProps {
+  order: Order;
+  payments: Payment[];
+  isEditing: boolean;
+  initialAmount?: number; // in cents
+  onDone: () => void;
+}
+
+export function RefundPanel({ order, payments, isEditing, initialAmount, onDone }: RefundPanelProps) {
+  const { showToast } = useToast();
+  const { undoAction } = useUndo();
+  const refundOrder = useBNPLStore((state) => state.refundOrder);
+
+  const [amount, setAmount] = useState(initialAmount ? (initialAmount / 100).toFixed(2) : '');
+  const [strategy, setStrategy] = useState<RefundStrategy>('last-first');
+  const [refundedAt, setRefundedAt] = useState(formatDateInput(new Date()));
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refunds = order.refunds ?? [];
+  const refundable = order.totalAmount - getOrderRefundedAmount(order);
+  const parsedAmount = parseDollarInput(amount);
+
+  // Preview exactly what the store will do
+  const preview = useMemo(() => {
+    if (!parsedAmount || parsedAmount > refundable) return null;
+    return applyRefundToPayments(payments, parsedAmount, strategy, 'preview', new Date().toISOString());
+  }, [payments, parsedAmount, refundable, strategy]);
+
+  if (!isEditing && refunds.length === 0) {
+    return null;
+  }
+
+  const handleSubmit = async () => {
+    if (!parsedAmount) {
+      showToast('Please enter a valid amount', 'error');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await refundOrder(order.id, {
+        amount: parsedAmount,
+        refundedAt,
+        reason: reason.trim() || undefined,
+        strategy,
+      });
+      showToast(
+        parsedAmount >= refundable ? 'Order refunded' : 'Partial refund applied',
+        'success',
+        undoAction
+      );
+      onDone();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to apply refund', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-300 mb-3">Refunds</h4>
+
+      {/* History */}
+      {refunds.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {refunds.map((refund) => (
+            <div key={refund.id} className="p-3 rounded-lg bg-purple-500/5 border border-purple-500/20">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-purple-300">
+                  −{formatCurrency(refund.amount)}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {format(parseISO(refund.refundedAt), 'MMM d, yyyy')}
+                </span>
+              </div>
+              <p className="text-xs text-gray-400 mt-0.5">
+                {describeRefund(refund)}
+                {refund.reason && <span className="text-gray-500"> · {refund.reason}</span>}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Editor */}
+      {isEditing && (
+        <div className="p-3 rounded-lg border border-dashed border-dark-border bg-dark-hover/50 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Refund amount</label>
+              <div className="relative">
+                <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-sm">$</span>
+                <input
+                  type="text"
+                  value={amount}
+                  onChange={(e) => setAmount(formatNumberInput(e.target.value))}
+                  className="w-full pl-6 pr-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Refunded on</label>
+              <input
+                type="date"
+                value={refundedAt}
+                onChange={(e) => setRefundedAt(e.target.value)}
+                className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Up to {formatCurrency(refundable)} refundable
+            {' · '}
+            <button
+              type="button"
+              onClick={() => setAmount((refundable / 100).toFixed(2))}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              Full refund
+            </button>
+          </p>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Apply to</label>
+            <select
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as RefundStrategy)}
+              className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm"
+            >
+              {STRATEGY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {STRATEGY_OPTIONS.find((o) => o.value === strategy)?.description}
+            </p>
+          </div>
+
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="w-full px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {/* Preview */}
+          {parsedAmount !== null && parsedAmount > refundable && (
+            <p className="text-xs text-red-400">Refund exceeds the {formatCurrency(refundable)} left on this order</p>
+          )}
+          {preview?.error && <p className="text-xs text-red-400">{preview.error}</p>}
+          {preview && !preview.error && (
+            <div className="space-y-1 text-xs">
+              {[...preview.adjustments]
+                .sort((a, b) => a.installmentNumber - b.installmentNumber)
+                .map((adjustment) => (
+                  <div key={adjustment.paymentId} className="flex justify-between">
+                    <span className="text-gray-400">Payment #{adjustment.installmentNumber}</span>
+                    <span className={adjustment.coveredByRefund ? 'text-green-400' : 'text-gray-300'}>
+                      {formatCurrency(adjustment.previousAmount)} →{' '}
+                      {adjustment.coveredByRefund ? 'covered' : formatCurrency(adjustment.newAmount)}
+                    </span>
+                  </div>
+                ))}
+              {preview.creditAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Credited back to you</span>
+                  <span className="text-green-400">{formatCurrency(preview.creditAmount)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={onDone} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={isSaving || !preview || !!preview.error}
+            >
+              Apply Refund
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
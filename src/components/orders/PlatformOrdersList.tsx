@@ -1,9 +1,11 @@
 import { Button } from '../shared/Button';
 import { InstallmentDots } from '../shared/InstallmentDots';
+import { useToast } from '../shared/Toast';
 import { useBNPLStore } from '../../store';
 import { useOrderProgress, useNextPayment } from '../../store/selectors';
 import { formatCurrency } from '../../utils/currency';
 import { formatRelativeTime } from '../../hooks/useRelativeTime';
+import { useUndo } from '../../hooks/useUndo';
 import type { Order } from '../../types';
 
 interface OrderRowProps {
@@ -15,6 +17,8 @@ function OrderRow({ order }: OrderRowProps) {
   const nextPayment = useNextPayment(order.id);
   const openOrderDetailModal = useBNPLStore((state) => state.openOrderDetailModal);
   const markPaymentPaid = useBNPLStore((state) => state.markPaymentPaid);
+  const { showToast } = useToast();
+  const { undoAction } = useUndo();
 
   const isCompleted = order.status === 'completed';
   const isOverdue = nextPayment?.status === 'overdue';
@@ -28,6 +32,7 @@ function OrderRow({ order }: OrderRowProps) {
     e.stopPropagation();
     if (nextPayment) {
       await markPaymentPaid(nextPayment.id);
+      showToast('Payment marked as paid', 'success', undoAction);
     }
   };
 
@@ -48,6 +48,15 @@ export function PlatformStatsPanel({ platformId }: PlatformStatsPanelProps) {
     },
   ];
 
+  // Only surface fees and failed payments once there are some
+  if (stats.totalFees > 0 || stats.failedAttempts > 0) {
+    statItems.push({
+      label: 'Fees Charged',
+      value: `${formatCurrency(stats.totalFees)} · ${stats.lateFeeCount} late, ${stats.failedAttempts} failed`,
+      truncate: true,
+    });
+  }
+
   return (
     <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
       {statItems.map((item) => (
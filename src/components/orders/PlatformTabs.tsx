@@ -19,8 +19,13 @@ export function PlatformTabs({ selectedId, onSelect }: PlatformTabsProps) {
     orderCounts[order.platformId] = (orderCounts[order.platformId] || 0) + 1;
   }
 
+  // Archived platforms only keep a tab while they still have orders
+  const visiblePlatforms = platforms.filter(
+    (p) => !p.isArchived || (orderCounts[p.id] || 0) > 0
+  );
+
   // Sort platforms by order count (descending - most orders first)
-  const sortedPlatforms = [...platforms].sort(
+  const sortedPlatforms = [...visiblePlatforms].sort(
     (a, b) => (orderCounts[b.id] || 0) - (orderCounts[a.id] || 0)
   );
 
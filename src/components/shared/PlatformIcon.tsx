@@ -1,7 +1,9 @@
-import type { PlatformId } from '../../types';
+import { useBNPLStore } from '../../store';
+import type { PlatformId, PlatformIconId } from '../../types';
 
 interface PlatformIconProps {
   platformId: PlatformId;
+  icon?: PlatformIconId; // overrides the platform's configured icon (e.g., previews)
   size?: 'sm' | 'md' | 'lg';
   className?: string;
   style?: React.CSSProperties;
@@ -13,11 +15,15 @@ const sizeClasses = {
   lg: 'w-6 h-6',
 };
 
-export function PlatformIcon({ platformId, size = 'md', className = '', style }: PlatformIconProps) {
+export function PlatformIcon({ platformId, icon, size = 'md', className = '', style }: PlatformIconProps) {
+  const configuredIcon = useBNPLStore(
+    (state) => state.platforms.find((p) => p.id === platformId)?.icon
+  );
   const sizeClass = sizeClasses[size];
 
   // Platform-specific icons (simplified brand-inspired designs)
-  switch (platformId) {
+  // User-defined platforms pick one of these shapes; built-ins fall back to their ID
+  switch (icon ?? configuredIcon ?? platformId) {
     case 'afterpay':
       // Afterpay: Triangle/play button shape
       return (
@@ -66,6 +72,38 @@ export function PlatformIcon({ platformId, size = 'md', className = '', style }:
         </svg>
       );
 
+    case 'card':
+      // Card: Credit card
+      return (
+        <svg className={`${sizeClass} ${className}`} viewBox="0 0 24 24" fill="currentColor" style={style}>
+          <path d="M20 4H4a2 2 0 00-2 2v12a2 2 0 002 2h16a2 2 0 002-2V6a2 2 0 00-2-2zm0 14H4v-6h16v6zm0-10H4V6h16v2z" />
+        </svg>
+      );
+
+    case 'wallet':
+      // Wallet: Folded wallet with clasp
+      return (
+        <svg className={`${sizeClass} ${className}`} viewBox="0 0 24 24" fill="currentColor" style={style}>
+          <path d="M21 7V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-2h-8a2 2 0 01-2-2V9a2 2 0 012-2h8zm-8 2v6h9V9h-9zm3 4.5a1.5 1.5 0 110-3 1.5 1.5 0 010 3z" />
+        </svg>
+      );
+
+    case 'bag':
+      // Bag: Shopping bag
+      return (
+        <svg className={`${sizeClass} ${className}`} viewBox="0 0 24 24" fill="currentColor" style={style}>
+          <path d="M18 6h-2a4 4 0 00-8 0H6a2 2 0 00-2 2v12a2 2 0 002 2h12a2 2 0 002-2V8a2 2 0 00-2-2zm-6-2a2 2 0 012 2h-4a2 2 0 012-2zm-2 6a1 1 0 01-2 0V8h2v2zm6 0a1 1 0 01-2 0V8h2v2z" />
+        </svg>
+      );
+
+    case 'store':
+      // Store: Storefront with awning
+      return (
+        <svg className={`${sizeClass} ${className}`} viewBox="0 0 24 24" fill="currentColor" style={style}>
+          <path d="M20 4H4v2h16V4zm1 10v-2l-1-5H4l-1 5v2h1v6h10v-6h4v6h2v-6h1zm-9 4H6v-4h6v4z" />
+        </svg>
+      );
+
     default:
       // Default: Dollar sign in circle
       return (
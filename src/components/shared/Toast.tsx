@@ -1,13 +1,20 @@
 import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
 
+// A button shown inside the toast, e.g. Undo
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface Toast {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type?: Toast['type']) => void;
+  showToast: (message: string, type?: Toast['type'], action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | null>(null);
@@ -23,14 +30,19 @@ export function useToast() {
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const showToast = useCallback((message: string, type: Toast['type'] = 'success') => {
+  const showToast = useCallback((message: string, type: Toast['type'] = 'success', action?: ToastAction) => {
     const id = Math.random().toString(36).substring(2, 9);
-    setToasts((prev) => [...prev, { id, message, type }]);
+    // The same message can come from several places at once (e.g. a write conflict)
+    setToasts((prev) =>
+      prev.some((t) => t.message === message && t.type === type && !action)
+        ? prev
+        : [...prev, { id, message, type, action }]
+    );
 
-    // Auto-dismiss after 3 seconds
+    // Auto-dismiss after 3 seconds - longer when there's a button to reach
     setTimeout(() => {
       setToasts((prev) => prev.filter((t) => t.id !== id));
-    }, 3000);
+    }, action ? 6000 : 3000);
   }, []);
 
   const dismissToast = useCallback((id: string) => {
@@ -73,6 +85,18 @@ export function ToastProvider({ children }: { children: ReactNode }) {
                 </svg>
               )}
               <span className="text-sm font-medium">{toast.message}</span>
+              {toast.action && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dismissToast(toast.id);
+                    toast.action!.onClick();
+                  }}
+                  className="ml-2 px-2 py-0.5 text-sm font-semibold rounded bg-white/20 hover:bg-white/30"
+                >
+                  {toast.action.label}
+                </button>
+              )}
             </div>
           </div>
         ))}
@@ -1,9 +1,9 @@
 // =============================================================================
 // PLATFORM CONFIGURATION - Single Source of Truth
 // =============================================================================
-// To add a new BNPL platform:
-// 1. Add it to DEFAULT_PLATFORMS below
-// 2. The PlatformId type and PLATFORM_COLORS will update automatically
+// DEFAULT_PLATFORMS seeds the `platforms` IndexedDB store on first run.
+// Additional platforms are user-defined from Settings and persisted alongside
+// these, so PlatformId is an open string rather than a union of built-ins.
 // =============================================================================
 
 // Platform configuration - source of truth for all platform data
@@ -58,8 +58,34 @@ export const DEFAULT_PLATFORMS = [
   },
 ] as const;
 
-// Derive PlatformId type from DEFAULT_PLATFORMS
-export type PlatformId = (typeof DEFAULT_PLATFORMS)[number]['id'];
+// Built-in platform IDs, derived from DEFAULT_PLATFORMS
+export type BuiltInPlatformId = (typeof DEFAULT_PLATFORMS)[number]['id'];
+
+// Any platform ID - built-in or user-defined (slug of the platform name)
+export type PlatformId = string;
+
+// Icon shapes available to platforms (built-ins use their own id)
+export type PlatformIconId =
+  | BuiltInPlatformId
+  | 'card'
+  | 'wallet'
+  | 'bag'
+  | 'store'
+  | 'dollar';
+
+export const PLATFORM_ICON_OPTIONS: Array<{ id: PlatformIconId; label: string }> = [
+  { id: 'dollar', label: 'Dollar' },
+  { id: 'card', label: 'Card' },
+  { id: 'wallet', label: 'Wallet' },
+  { id: 'bag', label: 'Shopping Bag' },
+  { id: 'store', label: 'Store' },
+  { id: 'afterpay', label: 'Triangle' },
+  { id: 'klarna', label: 'K' },
+  { id: 'sezzle', label: 'S-Curve' },
+  { id: 'zip', label: 'Lightning' },
+  { id: 'four', label: 'Four' },
+  { id: 'affirm', label: 'Check' },
+];
 
 // Platform tier classification
 export type PlatformTier = 'flexible' | 'limited';
@@ -84,9 +110,25 @@ export interface Platform {
   // Goal tracking
   goalLimit?: number; // in cents - target limit user wants to reach
   tier?: PlatformTier; // 'flexible' (virtual Visa) or 'limited' (merchant-specific)
+  // User-defined platforms
+  icon?: PlatformIconId; // defaults to the platform id for built-ins, 'dollar' otherwise
+  isCustom?: boolean; // true for platforms created in Settings
+  isArchived?: boolean; // hidden from pickers, history and balances are kept
+}
+
+// Input for creating a user-defined platform
+export interface NewPlatformInput {
+  name: string;
+  color: string;
+  icon?: PlatformIconId;
+  creditLimit: number; // in cents
+  defaultInstallments: number;
+  defaultIntervalDays: number;
+  tier?: PlatformTier;
+  goalLimit?: number; // in cents
 }
 
-// Default goals for each platform (in cents)
+// Default goals for each built-in platform (in cents)
 export const DEFAULT_PLATFORM_GOALS: Record<PlatformId, number> = {
   sezzle: 300000,   // $3,000
   klarna: 75000,    // $750
@@ -96,7 +138,7 @@ export const DEFAULT_PLATFORM_GOALS: Record<PlatformId, number> = {
   affirm: 0,        // No set goal for Affirm (variable)
 };
 
-// Default tier for each platform
+// Default tier for each built-in platform
 export const DEFAULT_PLATFORM_TIERS: Record<PlatformId, PlatformTier> = {
   sezzle: 'flexible',  // Virtual Visa
   klarna: 'flexible',  // Virtual Visa
@@ -109,7 +151,10 @@ export const DEFAULT_PLATFORM_TIERS: Record<PlatformId, PlatformTier> = {
 // Generate PLATFORM_COLORS from DEFAULT_PLATFORMS
 export const PLATFORM_COLORS: Record<PlatformId, string> = Object.fromEntries(
   DEFAULT_PLATFORMS.map((p) => [p.id, p.color])
-) as Record<PlatformId, string>;
+);
+
+// Fallback color for platforms without one
+export const DEFAULT_PLATFORM_COLOR = '#6B7280';
 
 export const DEFAULT_SUBSCRIPTIONS: Subscription[] = [
   {
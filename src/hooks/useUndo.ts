@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useBNPLStore, type UndoEntry } from '../store';
+import { useToast, type ToastAction } from '../components/shared/Toast';
+import { AUDIT_ACTION_LABELS } from '../services/auditLog';
+
+/**
+ * Undo/redo budgeting edits with toast feedback
+ * `undoAction` is the Undo button for toasts shown after an undoable edit.
+ */
+export function useUndo() {
+  const { showToast } = useToast();
+
+  return useMemo(() => {
+    const describe = (entry: UndoEntry) => AUDIT_ACTION_LABELS[entry.action] ?? entry.action;
+
+    const undo = async () => {
+      try {
+        const entry = await useBNPLStore.getState().undo();
+        if (entry) {
+          showToast(`Undid: ${describe(entry)}`, 'info', { label: 'Redo', onClick: redo });
+        }
+      } catch (err) {
+        showToast(err instanceof Error ? err.message : 'Failed to undo', 'error');
+      }
+    };
+
+    const redo = async () => {
+      try {
+        const entry = await useBNPLStore.getState().redo();
+        if (entry) {
+          showToast(`Redid: ${describe(entry)}`, 'info', { label: 'Undo', onClick: undo });
+        }
+      } catch (err) {
+        showToast(err instanceof Error ? err.message : 'Failed to redo', 'error');
+      }
+    };
+
+    const undoAction: ToastAction = { label: 'Undo', onClick: undo };
+    return { undo, redo, undoAction };
+  }, [showToast]);
+}
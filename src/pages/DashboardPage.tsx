@@ -1,5 +1,7 @@
 import { SummaryCards } from '../components/dashboard/SummaryCards';
 import { OverdueAlerts } from '../components/dashboard/OverdueAlerts';
+import { CashFlowAlerts } from '../components/dashboard/CashFlowAlerts';
+import { CashFlowForecastChart } from '../components/dashboard/CashFlowForecastChart';
 import { InsightStrip } from '../components/dashboard/InsightStrip';
 import { OrdersSection } from '../components/dashboard/OrdersSection';
 
@@ -14,9 +16,15 @@ export function DashboardPage() {
       {/* Overdue Alerts - shown prominently at top if any */}
       <OverdueAlerts />
 
+      {/* Cash-flow shortfall warnings */}
+      <CashFlowAlerts />
+
       {/* Summary Cards */}
       <SummaryCards />
 
+      {/* Projected balance against income */}
+      <CashFlowForecastChart />
+
       {/* Subtle insight at bottom */}
       <InsightStrip />
 
@@ -1,14 +1,29 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { Card } from '../components/shared/Card';
 import { Button } from '../components/shared/Button';
 import { Input } from '../components/shared/Input';
 import { PlatformIcon } from '../components/shared/PlatformIcon';
+import { useToast } from '../components/shared/Toast';
 import { useBNPLStore } from '../store';
+import { storage } from '../services/storage';
+import { diffRecords } from '../services/mergeImport';
+import { AUDIT_ACTION_LABELS } from '../services/auditLog';
 import { formatCurrency } from '../utils/currency';
 import { formatDate } from '../utils/date';
-import type { Order, PlatformId } from '../types';
+import { formatFieldValue } from '../utils/record';
+import type {
+  AuditChange,
+  AuditEvent,
+  IncomeSource,
+  LimitChange,
+  Order,
+  Payment,
+  Platform,
+  PlatformId,
+  Subscription,
+} from '../types';
 
 function OrderCard({ order }: { order: Order }) {
   const platforms = useBNPLStore((state) => state.platforms);
@@ -104,7 +119,7 @@ function OrderCard({ order }: { order: Order }) {
   );
 }
 
-export function HistoryPage() {
+function OrderHistory() {
   const [searchParams, setSearchParams] = useSearchParams();
   const orders = useBNPLStore((state) => state.orders);
   const platforms = useBNPLStore((state) => state.platforms);
@@ -180,13 +195,7 @@ export function HistoryPage() {
   }), [orders]);
 
   return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-white">Payment History</h1>
-        <p className="text-gray-400 mt-1">View your completed and past orders</p>
-      </div>
-
+    <>
       {/* Filters */}
       <Card padding="md">
         <div className="space-y-4">
@@ -296,6 +305,366 @@ export function HistoryPage() {
           ))}
         </div>
       )}
+    </>
+  );
+}
+
+const CHANGE_PAGE_SIZE = 50;
+
+function AuditChangeRow({ change, orderNames }: { change: AuditChange; orderNames: Map<string, string> }) {
+  const platforms = useBNPLStore((state) => state.platforms);
+  const record = (change.after ?? change.before)!;
+  const platformName = (id: PlatformId) => platforms.find((p) => p.id === id)?.name ?? id;
+
+  let label: string;
+  switch (change.entityType) {
+    case 'order':
+      label = `Order · ${orderNames.get(change.entityId) ?? 'Unknown'}`;
+      break;
+    case 'payment': {
+      const payment = record as Payment;
+      label = `Payment #${payment.installmentNumber} · ${orderNames.get(payment.orderId) ?? 'Unknown'}`;
+      break;
+    }
+    case 'platform':
+      label = `Platform · ${(record as Platform).name}`;
+      break;
+    case 'subscription':
+      label = `Subscription · ${platformName((record as Subscription).platformId)}`;
+      break;
+    case 'limitChange':
+      label = `Limit history · ${platformName((record as LimitChange).platformId)}`;
+      break;
+    case 'incomeSource':
+      label = `Income · ${(record as IncomeSource).name}`;
+      break;
+  }
+
+  const diffs = change.before && change.after ? diffRecords(change.before, change.after) : [];
+
+  return (
+    <div className="p-3 border border-dark-border rounded-lg">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-white truncate">{label}</p>
+        {!change.before && <span className="text-xs text-green-400">Created</span>}
+        {!change.after && <span className="text-xs text-red-400">Deleted</span>}
+      </div>
+      {diffs.length > 0 && (
+        <table className="w-full text-xs mt-2">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-normal py-1">Field</th>
+              <th className="text-left font-normal py-1">Before</th>
+              <th className="text-left font-normal py-1">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diffs.map((diff) => (
+              <tr key={diff.field} className="border-t border-dark-border">
+                <td className="py-1 text-gray-400">{diff.field}</td>
+                <td className="py-1 text-gray-500">{formatFieldValue(diff.field, diff.local)}</td>
+                <td className="py-1 text-white">{formatFieldValue(diff.field, diff.incoming)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function AuditEventCard({
+  event,
+  isReverted,
+  orderNames,
+  onReverted,
+}: {
+  event: AuditEvent;
+  isReverted: boolean;
+  orderNames: Map<string, string>;
+  onReverted: () => void;
+}) {
+  const { showToast } = useToast();
+  const revertAuditEvent = useBNPLStore((state) => state.revertAuditEvent);
+  const [showRevertConfirm, setShowRevertConfirm] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Bulk actions log counts and the snapshot taken before, not each record
+  const { summary } = event;
+
+  const handleRevert = async () => {
+    setIsReverting(true);
+    try {
+      await revertAuditEvent(event.id);
+      showToast('Change reverted', 'success');
+      onReverted();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to revert change', 'error');
+    } finally {
+      setIsReverting(false);
+      setShowRevertConfirm(false);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-white truncate">
+              {AUDIT_ACTION_LABELS[event.action] ?? event.action}
+            </span>
+            {event.actor === 'system' && (
+              <span className="text-xs text-gray-400 bg-dark-hover px-2 py-0.5 rounded-full">Automatic</span>
+            )}
+            {isReverted && (
+              <span className="text-xs text-yellow-400 bg-yellow-500/10 px-2 py-0.5 rounded-full">Reverted</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <span>{format(parseISO(event.timestamp), 'MMM d, yyyy h:mm a')}</span>
+            <span>·</span>
+            {summary ? (
+              <span>
+                {summary.created} added, {summary.updated} changed, {summary.deleted} removed
+              </span>
+            ) : (
+              <button onClick={() => setIsExpanded(!isExpanded)} className="hover:text-white">
+                {event.changes.length} record{event.changes.length !== 1 ? 's' : ''} {isExpanded ? '▾' : '▸'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {!isReverted && (!summary || summary.snapshotId) && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {!showRevertConfirm ? (
+              <Button variant="secondary" size="sm" onClick={() => setShowRevertConfirm(true)}>
+                Revert
+              </Button>
+            ) : (
+              <>
+                <span className="text-sm text-gray-400">
+                  {summary ? 'Restore the data from before?' : 'Revert?'}
+                </span>
+                <Button variant="danger" size="sm" onClick={handleRevert} disabled={isReverting}>
+                  Yes
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setShowRevertConfirm(false)}
+                  disabled={isReverting}
+                >
+                  No
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-2">
+          {event.changes.map((change) => (
+            <AuditChangeRow
+              key={`${change.entityType}:${change.entityId}`}
+              change={change}
+              orderNames={orderNames}
+            />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function ChangeLog() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const orders = useBNPLStore((state) => state.orders);
+  const platforms = useBNPLStore((state) => state.platforms);
+
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+  const [platformFilter, setPlatformFilter] = useState<PlatformId | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(CHANGE_PAGE_SIZE);
+  const orderFilter = searchParams.get('order') ?? 'all';
+
+  const loadEvents = useCallback(() => {
+    storage
+      .getAuditLog()
+      .then(setEvents)
+      .catch((err) => {
+        console.error('[History] Failed to load audit log:', err);
+        setEvents([]);
+      });
+  }, []);
+
+  // Pick up changes logged by other tabs
+  useEffect(() => {
+    loadEvents();
+    return storage.onRemoteChange((changes) => {
+      if (changes.some((change) => change.store === 'auditLog')) {
+        loadEvents();
+      }
+    });
+  }, [loadEvents]);
+
+  const setOrderFilter = (orderId: string) => {
+    if (orderId === 'all') {
+      searchParams.delete('order');
+    } else {
+      searchParams.set('order', orderId);
+    }
+    setSearchParams(searchParams, { replace: true });
+  };
+
+  // Deleted orders only live on in the log, so name orders from there too
+  const orderNames = useMemo(() => {
+    const names = new Map<string, string>();
+    const describe = (order: Order) =>
+      `${order.storeName || platforms.find((p) => p.id === order.platformId)?.name || 'Unknown'} · ${formatCurrency(order.totalAmount)}`;
+    for (const event of [...(events ?? [])].reverse()) {
+      for (const change of event.changes) {
+        const order = (change.after ?? change.before) as Order;
+        if (change.entityType === 'order') names.set(change.entityId, describe(order));
+      }
+    }
+    for (const order of orders) {
+      names.set(order.id, describe(order));
+    }
+    return names;
+  }, [events, orders, platforms]);
+
+  const revertedIds = useMemo(
+    () => new Set((events ?? []).flatMap((event) => (event.revertOf ? [event.revertOf] : []))),
+    [events]
+  );
+
+  const filteredEvents = useMemo(
+    () =>
+      (events ?? []).filter(
+        (event) =>
+          (orderFilter === 'all' || event.orderIds.includes(orderFilter)) &&
+          (platformFilter === 'all' || event.platformIds.includes(platformFilter))
+      ),
+    [events, orderFilter, platformFilter]
+  );
+
+  return (
+    <>
+      {/* Filters */}
+      <Card padding="md">
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            value={orderFilter}
+            onChange={(e) => setOrderFilter(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Orders</option>
+            {[...orderNames].map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={platformFilter}
+            onChange={(e) => setPlatformFilter(e.target.value as PlatformId | 'all')}
+            className="px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Platforms</option>
+            {platforms.map((platform) => (
+              <option key={platform.id} value={platform.id}>
+                {platform.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      {/* Results */}
+      {events === null ? (
+        <p className="text-sm text-gray-500">Loading changes...</p>
+      ) : filteredEvents.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <p className="text-gray-400">
+              {events.length === 0 ? 'No changes recorded yet' : 'No changes match your filters'}
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">
+            {filteredEvents.length} change{filteredEvents.length !== 1 ? 's' : ''}
+          </p>
+          {filteredEvents.slice(0, visibleCount).map((event) => (
+            <AuditEventCard
+              key={event.id}
+              event={event}
+              isReverted={revertedIds.has(event.id)}
+              orderNames={orderNames}
+              onReverted={loadEvents}
+            />
+          ))}
+          {filteredEvents.length > visibleCount && (
+            <Button
+              variant="secondary"
+              className="w-full"
+              onClick={() => setVisibleCount(visibleCount + CHANGE_PAGE_SIZE)}
+            >
+              Show more
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+export function HistoryPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = searchParams.get('view') === 'changes' ? 'changes' : 'orders';
+
+  const setView = (next: 'orders' | 'changes') => {
+    if (next === 'changes') {
+      searchParams.set('view', 'changes');
+    } else {
+      searchParams.delete('view');
+      searchParams.delete('order');
+    }
+    setSearchParams(searchParams, { replace: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Payment History</h1>
+          <p className="text-gray-400 mt-1">
+            {view === 'changes'
+              ? 'Every change to your orders, payments and platforms'
+              : 'View your completed and past orders'}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-dark-border overflow-hidden flex-shrink-0">
+          {(['orders', 'changes'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1.5 text-sm transition-colors ${
+                view === option ? 'bg-blue-500/20 text-blue-400' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option === 'orders' ? 'Orders' : 'Changes'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'changes' ? <ChangeLog /> : <OrderHistory />}
     </div>
   );
 }
@@ -1,34 +1,122 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo, useSyncExternalStore, type ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
 import { Card } from '../components/shared/Card';
 import { Button } from '../components/shared/Button';
 import { Modal } from '../components/shared/Modal';
+import { Input } from '../components/shared/Input';
 import { useToast } from '../components/shared/Toast';
+import { PlatformIcon } from '../components/shared/PlatformIcon';
 import { useBNPLStore } from '../store';
+import { useActivePlatforms } from '../store/selectors';
 import { formatCurrency, parseDollarInput, centsToDollars } from '../utils/currency';
+import { formatDate, formatDateInput } from '../utils/date';
+import { formatFieldValue } from '../utils/record';
+import { expandIncomeSchedule } from '../services/cashFlowForecast';
+import { buildPaymentCalendar, getCalendarPayments } from '../services/calendarExport';
+import { parseCsv } from '../services/csv';
+import { DEFAULT_EXTRACTION_SETTINGS, EXTRACTION_PROVIDER_LABELS } from '../services/extraction';
+import { ConflictError, storage } from '../services/storage';
+import type { SyncConflict } from '../services/sync';
+import { AUDIT_COLLECTIONS } from '../services/auditLog';
+import { backupFolder, readBackupFile, type FolderBackupFile } from '../services/backupFolder';
+import {
+  compareSnapshot,
+  SNAPSHOT_COLLECTION_LABELS,
+  SNAPSHOT_REASON_LABELS,
+  type SnapshotComparison,
+} from '../services/snapshots';
+import {
+  buildOrdersCsv,
+  buildPaymentsCsv,
+  guessColumnMapping,
+  validateCsvRows,
+  CSV_IMPORT_FIELDS,
+  type CsvColumnMapping,
+  type CsvImportField,
+} from '../services/csvOrders';
+import { findDuplicateOrders } from '../services/duplicateOrders';
+import { parseStatement, type StatementTransaction } from '../services/bankStatement';
+import { reconcileStatement } from '../services/reconciliation';
+import { createExportBundle } from '../services/exportBundle';
+import {
+  diffRecords,
+  getConflictWinner,
+  resolveMergePlan,
+  type MergeConflict,
+  type MergePlan,
+  type MergeStrategy,
+} from '../services/mergeImport';
+import {
+  vault,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+  MIN_PASSPHRASE_LENGTH,
+  type EncryptedExportFile,
+} from '../services/vault';
 import {
   isNotificationSupported,
   getPermissionStatus,
   requestPermission,
 } from '../services/notifications';
-import type { PlatformId, ExportedData } from '../types';
+import type {
+  PlatformId,
+  PlatformIconId,
+  ExportedData,
+  IncomeSource,
+  IncomeFrequency,
+  Order,
+  Payment,
+  AuditChange,
+  AuditEntityType,
+  DataSnapshot,
+  SyncSettings,
+  ApiKeyProvider,
+  ExtractionProviderId,
+  ExtractionSettings,
+  LimitChange,
+  Platform,
+  Subscription,
+} from '../types';
 import type { PlatformTier } from '../constants/platforms';
-
-type SettingsTab = 'platforms' | 'subscriptions' | 'notifications' | 'api-keys' | 'data';
+import { DEFAULT_PLATFORM_COLOR, PLATFORM_ICON_OPTIONS } from '../constants/platforms';
+
+type SettingsTab =
+  | 'platforms'
+  | 'subscriptions'
+  | 'income'
+  | 'notifications'
+  | 'api-keys'
+  | 'security'
+  | 'sync'
+  | 'data';
 
 const TABS: { id: SettingsTab; label: string }[] = [
   { id: 'platforms', label: 'Platforms' },
   { id: 'subscriptions', label: 'Subscriptions' },
+  { id: 'income', label: 'Income' },
   { id: 'notifications', label: 'Notifications' },
   { id: 'api-keys', label: 'API Keys' },
+  { id: 'security', label: 'Security' },
+  { id: 'sync', label: 'Sync' },
   { id: 'data', label: 'Data' },
 ];
 
-function PlatformSettings({ platformId }: { platformId: PlatformId }) {
+function PlatformSettings({
+  platformId,
+  onEdit,
+}: {
+  platformId: PlatformId;
+  onEdit: (platformId: PlatformId) => void;
+}) {
+  const { showToast } = useToast();
   const platforms = useBNPLStore((state) => state.platforms);
   const updatePlatformLimit = useBNPLStore((state) => state.updatePlatformLimit);
   const updatePlatformSchedule = useBNPLStore((state) => state.updatePlatformSchedule);
   const updatePlatformGoal = useBNPLStore((state) => state.updatePlatformGoal);
   const updatePlatformTier = useBNPLStore((state) => state.updatePlatformTier);
+  const setPlatformArchived = useBNPLStore((state) => state.setPlatformArchived);
 
   const platform = platforms.find((p) => p.id === platformId);
 
@@ -71,6 +159,7 @@ function PlatformSettings({ platformId }: { platformId: PlatformId }) {
       } catch (error) {
         console.error('Failed to save limit:', error);
         setSaveStatus('idle');
+        if (error instanceof ConflictError) showToast(error.message, 'error');
       }
     }
   };
@@ -84,6 +173,7 @@ function PlatformSettings({ platformId }: { platformId: PlatformId }) {
     } catch (error) {
       console.error('Failed to save schedule:', error);
       setSaveStatus('idle');
+      if (error instanceof ConflictError) showToast(error.message, 'error');
     }
   };
 
@@ -98,6 +188,7 @@ function PlatformSettings({ platformId }: { platformId: PlatformId }) {
     } catch (error) {
       console.error('Failed to save goal:', error);
       setSaveStatus('idle');
+      if (error instanceof ConflictError) showToast(error.message, 'error');
     }
   };
 
@@ -111,18 +202,28 @@ function PlatformSettings({ platformId }: { platformId: PlatformId }) {
     } catch (error) {
       console.error('Failed to save tier:', error);
       setSaveStatus('idle');
+      if (error instanceof ConflictError) showToast(error.message, 'error');
       setTier(platform?.tier || 'limited'); // Revert on error
     }
   };
 
+  const handleArchive = async () => {
+    try {
+      await setPlatformArchived(platformId, true);
+      showToast(`${platform.name} archived`, 'info');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to archive platform', 'error');
+    }
+  };
+
   return (
     <div className="flex items-center justify-between py-4 border-b border-dark-border last:border-0">
       <div className="flex items-center gap-3">
-        <span
-          className="w-4 h-4 rounded-full"
-          style={{ backgroundColor: platform.color }}
-        />
+        <PlatformIcon platformId={platform.id} size="sm" style={{ color: platform.color }} />
         <span className="font-medium text-white">{platform.name}</span>
+        {platform.isCustom && (
+          <span className="px-1.5 py-0.5 text-xs bg-dark-hover text-gray-400 rounded">Custom</span>
+        )}
       </div>
 
       <div className="flex items-center gap-4">
@@ -253,11 +354,252 @@ function PlatformSettings({ platformId }: { platformId: PlatformId }) {
             {saveStatus === 'saving' ? 'Saving...' : 'Saved'}
           </span>
         )}
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onEdit(platformId)}
+            className="p-1.5 text-gray-400 hover:text-white transition-colors rounded"
+            title="Edit platform"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </svg>
+          </button>
+          <button
+            onClick={handleArchive}
+            className="p-1.5 text-gray-400 hover:text-amber-400 transition-colors rounded"
+            title="Archive platform"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+            </svg>
+          </button>
+        </div>
       </div>
     </div>
   );
 }
 
+function ArchivedPlatforms() {
+  const { showToast } = useToast();
+  const platforms = useBNPLStore((state) => state.platforms);
+  const orders = useBNPLStore((state) => state.orders);
+  const setPlatformArchived = useBNPLStore((state) => state.setPlatformArchived);
+
+  const archived = platforms.filter((p) => p.isArchived);
+  if (archived.length === 0) return null;
+
+  const handleRestore = async (platformId: PlatformId, name: string) => {
+    try {
+      await setPlatformArchived(platformId, false);
+      showToast(`${name} restored`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to restore platform', 'error');
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-dark-border">
+      <h3 className="text-sm font-medium text-gray-400 mb-2">Archived</h3>
+      {archived.map((platform) => {
+        const orderCount = orders.filter((o) => o.platformId === platform.id).length;
+        return (
+          <div key={platform.id} className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-3 opacity-60">
+              <PlatformIcon platformId={platform.id} size="sm" style={{ color: platform.color }} />
+              <span className="text-white">{platform.name}</span>
+              <span className="text-xs text-gray-500">
+                {orderCount} order{orderCount === 1 ? '' : 's'}
+              </span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleRestore(platform.id, platform.name)}>
+              Restore
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function PlatformFormModal({
+  platformId,
+  onClose,
+}: {
+  platformId: PlatformId | null; // null = create a new platform
+  onClose: () => void;
+}) {
+  const { showToast } = useToast();
+  const platforms = useBNPLStore((state) => state.platforms);
+  const addPlatform = useBNPLStore((state) => state.addPlatform);
+  const updatePlatform = useBNPLStore((state) => state.updatePlatform);
+
+  const platform = platformId ? platforms.find((p) => p.id === platformId) : undefined;
+
+  const [name, setName] = useState(platform?.name ?? '');
+  const [color, setColor] = useState(platform?.color ?? DEFAULT_PLATFORM_COLOR);
+  const [icon, setIcon] = useState<PlatformIconId>(
+    platform?.icon ?? (platform && !platform.isCustom ? (platform.id as PlatformIconId) : 'dollar')
+  );
+  const [limitInput, setLimitInput] = useState(
+    platform ? centsToDollars(platform.creditLimit).toString() : ''
+  );
+  const [installments, setInstallments] = useState(platform?.defaultInstallments ?? 4);
+  const [intervalDays, setIntervalDays] = useState(platform?.defaultIntervalDays ?? 14);
+  const [tier, setTier] = useState<PlatformTier>(platform?.tier || 'limited');
+  const [goalInput, setGoalInput] = useState(
+    platform?.goalLimit ? centsToDollars(platform.goalLimit).toString() : ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const creditLimit = limitInput ? parseDollarInput(limitInput) : 0;
+    if (creditLimit === null) {
+      setError('Enter a valid credit limit');
+      return;
+    }
+    const goalLimit = goalInput ? parseDollarInput(goalInput) : 0;
+    if (goalLimit === null) {
+      setError('Enter a valid goal');
+      return;
+    }
+    if (installments < 1 || intervalDays < 1) {
+      setError('Installments and interval must be at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const details = {
+        name,
+        color,
+        icon,
+        creditLimit,
+        defaultInstallments: installments,
+        defaultIntervalDays: intervalDays,
+        tier,
+        goalLimit,
+      };
+      if (platform) {
+        await updatePlatform(platform.id, details);
+        showToast('Platform updated', 'success');
+      } else {
+        const created = await addPlatform(details);
+        showToast(`${created.name} added`, 'success');
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save platform');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={platform ? `Edit ${platform.name}` : 'Add Platform'}>
+      <div className="space-y-4">
+        <Input
+          label="Name"
+          placeholder="e.g., PayPal Pay in 4"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+        />
+
+        <div className="flex items-center gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Color</label>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-12 h-9 bg-dark-card border border-dark-border rounded cursor-pointer"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Icon</label>
+            <div className="flex flex-wrap gap-1.5">
+              {PLATFORM_ICON_OPTIONS.map((opt) => (
+                <button
+                  key={opt.id}
+                  type="button"
+                  title={opt.label}
+                  onClick={() => setIcon(opt.id)}
+                  className={`p-1.5 rounded-lg border transition-colors ${
+                    icon === opt.id ? 'border-current bg-dark-hover' : 'border-dark-border hover:border-gray-600'
+                  }`}
+                  style={{ color: icon === opt.id ? color : '#9ca3af' }}
+                >
+                  <PlatformIcon platformId={platformId ?? ''} icon={opt.id} size="sm" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Credit Limit"
+            placeholder="0.00"
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+            helperText="Leave empty for no set limit"
+          />
+          <Input
+            label="Goal"
+            placeholder="No goal"
+            value={goalInput}
+            onChange={(e) => setGoalInput(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label="Installments"
+            type="number"
+            min={1}
+            max={60}
+            value={installments}
+            onChange={(e) => setInstallments(Number(e.target.value))}
+          />
+          <Input
+            label="Every (days)"
+            type="number"
+            min={1}
+            max={365}
+            value={intervalDays}
+            onChange={(e) => setIntervalDays(Number(e.target.value))}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Tier</label>
+            <select
+              value={tier}
+              onChange={(e) => setTier(e.target.value as PlatformTier)}
+              className="w-full px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white"
+            >
+              <option value="flexible">Flexible</option>
+              <option value="limited">Limited</option>
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : platform ? 'Save' : 'Add Platform'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
 function SubscriptionSettings({ platformId }: { platformId: PlatformId }) {
   const platforms = useBNPLStore((state) => state.platforms);
   const subscriptions = useBNPLStore((state) => state.subscriptions);
@@ -555,177 +897,2472 @@ function NotificationsTab() {
   );
 }
 
-function APIKeysTab() {
+const INCOME_FREQUENCY_LABELS: Record<IncomeFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  'semi-monthly': 'Twice a month',
+  custom: 'Custom interval',
+  once: 'One-time',
+};
+
+function describeIncomeSchedule(source: IncomeSource): string {
+  switch (source.frequency) {
+    case 'semi-monthly': {
+      const [first, second] = source.semiMonthlyDays ?? [1, 15];
+      return `Twice a month (${first} & ${second})`;
+    }
+    case 'custom':
+      return `Every ${source.intervalDays ?? 14} days`;
+    case 'once':
+      return `One-time on ${formatDate(source.startDate)}`;
+    default:
+      return INCOME_FREQUENCY_LABELS[source.frequency];
+  }
+}
+
+function IncomeFormModal({
+  sourceId,
+  onClose,
+}: {
+  sourceId: string | null; // null = create a new income source
+  onClose: () => void;
+}) {
   const { showToast } = useToast();
-  const geminiApiKey = useBNPLStore((state) => state.geminiApiKey);
-  const setGeminiApiKey = useBNPLStore((state) => state.setGeminiApiKey);
+  const incomeSources = useBNPLStore((state) => state.incomeSources);
+  const addIncomeSource = useBNPLStore((state) => state.addIncomeSource);
+  const updateIncomeSource = useBNPLStore((state) => state.updateIncomeSource);
 
-  const [showKey, setShowKey] = useState(false);
-  const [inputValue, setInputValue] = useState(geminiApiKey || '');
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const source = sourceId ? incomeSources.find((s) => s.id === sourceId) : undefined;
 
-  useEffect(() => {
-    setInputValue(geminiApiKey || '');
-  }, [geminiApiKey]);
+  const [name, setName] = useState(source?.name ?? '');
+  const [amountInput, setAmountInput] = useState(
+    source ? centsToDollars(source.amount).toString() : ''
+  );
+  const [frequency, setFrequency] = useState<IncomeFrequency>(source?.frequency ?? 'biweekly');
+  const [startDate, setStartDate] = useState(formatDateInput(source?.startDate ?? new Date()));
+  const [endDate, setEndDate] = useState(source?.endDate ? formatDateInput(source.endDate) : '');
+  const [intervalDays, setIntervalDays] = useState(source?.intervalDays ?? 14);
+  const [semiMonthlyDays, setSemiMonthlyDays] = useState<[number, number]>(
+    source?.semiMonthlyDays ?? [1, 15]
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const amount = parseDollarInput(amountInput);
+    if (!amount) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError('End date must be after the start date');
+      return;
+    }
 
-  const handleSave = useCallback(() => {
-    const trimmedKey = inputValue.trim();
-    if (trimmedKey !== (geminiApiKey || '')) {
-      setSaveStatus('saving');
-      setGeminiApiKey(trimmedKey || null);
-      setSaveStatus('saved');
-      setTimeout(() => setSaveStatus('idle'), 2000);
-      showToast(trimmedKey ? 'API key saved' : 'API key cleared', 'success');
+    setIsSaving(true);
+    setError(null);
+    try {
+      const details = {
+        name,
+        amount,
+        frequency,
+        startDate: parseISO(startDate).toISOString(),
+        endDate: frequency !== 'once' && endDate ? parseISO(endDate).toISOString() : undefined,
+        intervalDays: frequency === 'custom' ? Math.max(1, intervalDays) : undefined,
+        semiMonthlyDays: frequency === 'semi-monthly' ? semiMonthlyDays : undefined,
+      };
+      if (source) {
+        await updateIncomeSource(source.id, details);
+        showToast('Income updated', 'success');
+      } else {
+        await addIncomeSource({ ...details, isActive: true });
+        showToast('Income added', 'success');
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save income');
+    } finally {
+      setIsSaving(false);
     }
-  }, [inputValue, geminiApiKey, setGeminiApiKey, showToast]);
+  };
 
   return (
-    <div className="space-y-4">
-      <p className="text-sm text-gray-400">
-        Configure API keys for enhanced features.
-      </p>
-
-      <div>
-        <div className="flex items-center justify-between mb-2">
-          <label className="text-white">Gemini API Key</label>
-          {saveStatus !== 'idle' && (
-            <span className={`text-xs ${saveStatus === 'saving' ? 'text-gray-400' : 'text-green-400'}`}>
-              {saveStatus === 'saving' ? 'Saving...' : 'Saved'}
-            </span>
-          )}
+    <Modal isOpen onClose={onClose} title={source ? `Edit ${source.name}` : 'Add Income'}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Name"
+            placeholder="e.g., Paycheck"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+          />
+          <Input
+            label="Amount"
+            placeholder="0.00"
+            value={amountInput}
+            onChange={(e) => setAmountInput(e.target.value)}
+            helperText="Take-home, per deposit"
+          />
         </div>
-        <p className="text-sm text-gray-400 mb-3">
-          Used for screenshot import feature. Get a free key from{' '}
-          <a
-            href="https://aistudio.google.com/apikey"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-400 hover:text-blue-300 underline"
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1.5">Frequency</label>
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as IncomeFrequency)}
+            className="w-full px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white"
           >
-            Google AI Studio
-          </a>
-        </p>
-        <div className="flex gap-2">
-          <input
-            type={showKey ? 'text' : 'password'}
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onBlur={handleSave}
-            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
-            placeholder="AIzaSy..."
-            className="flex-1 px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            {(Object.keys(INCOME_FREQUENCY_LABELS) as IncomeFrequency[]).map((f) => (
+              <option key={f} value={f}>
+                {INCOME_FREQUENCY_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {frequency === 'custom' && (
+          <Input
+            label="Every (days)"
+            type="number"
+            min={1}
+            max={365}
+            value={intervalDays}
+            onChange={(e) => setIntervalDays(Number(e.target.value))}
+          />
+        )}
+
+        {frequency === 'semi-monthly' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="First day of month"
+              type="number"
+              min={1}
+              max={31}
+              value={semiMonthlyDays[0]}
+              onChange={(e) => setSemiMonthlyDays([Number(e.target.value), semiMonthlyDays[1]])}
+            />
+            <Input
+              label="Second day of month"
+              type="number"
+              min={1}
+              max={31}
+              value={semiMonthlyDays[1]}
+              onChange={(e) => setSemiMonthlyDays([semiMonthlyDays[0], Number(e.target.value)])}
+              helperText="31 means the last day of the month"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label={frequency === 'once' ? 'Deposit date' : frequency === 'semi-monthly' ? 'Starting' : 'Next deposit'}
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
           />
-          <Button variant="secondary" onClick={() => setShowKey(!showKey)}>
-            {showKey ? 'Hide' : 'Show'}
+          {frequency !== 'once' && (
+            <Input
+              label="Ends (optional)"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : source ? 'Save' : 'Add Income'}
           </Button>
-          <Button onClick={handleSave}>Save</Button>
         </div>
-        {geminiApiKey && (
-          <p className="text-xs text-green-400 mt-2">API key configured</p>
-        )}
       </div>
-    </div>
+    </Modal>
   );
 }
 
-function DataTab() {
+function IncomeTab() {
   const { showToast } = useToast();
-  const exportData = useBNPLStore((state) => state.exportData);
-  const importData = useBNPLStore((state) => state.importData);
-  const clearAllData = useBNPLStore((state) => state.clearAllData);
+  const incomeSources = useBNPLStore((state) => state.incomeSources);
+  const cashFlowSettings = useBNPLStore((state) => state.cashFlowSettings);
+  const updateCashFlowSettings = useBNPLStore((state) => state.updateCashFlowSettings);
+  const updateIncomeSource = useBNPLStore((state) => state.updateIncomeSource);
+  const deleteIncomeSource = useBNPLStore((state) => state.deleteIncomeSource);
+
+  const [balanceInput, setBalanceInput] = useState(
+    centsToDollars(cashFlowSettings.startingBalance).toString()
+  );
+  const [bufferInput, setBufferInput] = useState(
+    cashFlowSettings.minimumBuffer ? centsToDollars(cashFlowSettings.minimumBuffer).toString() : ''
+  );
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  // Income form: undefined = closed, null = new income, string = editing
+  const [formSourceId, setFormSourceId] = useState<string | null | undefined>(undefined);
+
+  const today = startOfDay(new Date());
+  const nextDeposits = new Map(
+    incomeSources.map((source) => [
+      source.id,
+      expandIncomeSchedule(source, today, addDays(today, 366))[0]?.date ?? null,
+    ])
+  );
 
-  const [showClearConfirm, setShowClearConfirm] = useState(false);
-  const [showImportConfirm, setShowImportConfirm] = useState(false);
-  const [pendingImportData, setPendingImportData] = useState<ExportedData | null>(null);
-  const [importError, setImportError] = useState<string | null>(null);
-  const [isImporting, setIsImporting] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const handleSaveBalance = () => {
+    // Allow a leading minus for overdrawn accounts
+    const isNegative = balanceInput.trim().startsWith('-');
+    const balance = parseDollarInput(balanceInput.replace('-', ''));
+    const buffer = bufferInput ? parseDollarInput(bufferInput) : 0;
+    if (balance === null || buffer === null) {
+      showToast('Enter valid amounts', 'error');
+      return;
+    }
 
-  const handleExport = async () => {
-    const data = await exportData();
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `bnpl-tracker-export-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-    showToast('Data exported successfully', 'success');
+    setSaveStatus('saving');
+    updateCashFlowSettings({
+      ...cashFlowSettings,
+      startingBalance: isNegative ? -balance : balance,
+      balanceAsOf: today.toISOString(),
+      minimumBuffer: buffer,
+    });
+    setSaveStatus('saved');
+    setTimeout(() => setSaveStatus('idle'), 2000);
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
+  const handleToggleActive = async (source: IncomeSource) => {
     try {
-      const text = await file.text();
-      const data = JSON.parse(text) as ExportedData;
-
-      if (!data.version || !Array.isArray(data.orders) || !Array.isArray(data.payments)) {
-        throw new Error('Invalid file format');
-      }
-
-      // Ensure platforms and subscriptions arrays exist
-      data.platforms = data.platforms || [];
-      data.subscriptions = data.subscriptions || [];
-
-      setPendingImportData(data);
-      setShowImportConfirm(true);
-      setImportError(null);
+      await updateIncomeSource(source.id, { isActive: !source.isActive });
     } catch (error) {
-      setImportError(error instanceof Error ? error.message : 'Failed to read file');
-    }
-
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+      showToast(error instanceof ConflictError ? error.message : 'Failed to update income', 'error');
     }
   };
 
-  const handleConfirmImport = async () => {
-    if (!pendingImportData || isImporting) return;
-
-    setIsImporting(true);
-    setImportError(null);
-
+  const handleDelete = async (source: IncomeSource) => {
+    if (!confirm(`Delete "${source.name}"?`)) return;
     try {
-      await importData(pendingImportData);
-      showToast(`Imported ${pendingImportData.orders.length} orders`, 'success');
-      // Only close modal on success
-      setPendingImportData(null);
-      setShowImportConfirm(false);
+      await deleteIncomeSource(source.id);
+      showToast('Income deleted', 'success');
     } catch (error) {
-      // Keep modal open on error so user can see the error
-      const errorMessage = error instanceof Error ? error.message : 'Failed to import data';
-      setImportError(errorMessage);
-      showToast('Import failed', 'error');
-    } finally {
-      setIsImporting(false);
+      showToast(error instanceof ConflictError ? error.message : 'Failed to delete income', 'error');
     }
   };
 
-  const handleClearAll = async () => {
-    await clearAllData();
-    setShowClearConfirm(false);
-    showToast('All data cleared', 'info');
-  };
-
   return (
-    <>
+    <div className="space-y-6">
+      <p className="text-sm text-gray-400">
+        Your balance and paychecks drive the cash-flow forecast on the dashboard.
+      </p>
+
       <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Current Balance"
+            placeholder="0.00"
+            value={balanceInput}
+            onChange={(e) => setBalanceInput(e.target.value)}
+            helperText={`Last updated ${formatDate(cashFlowSettings.balanceAsOf)}`}
+          />
+          <Input
+            label="Minimum Buffer"
+            placeholder="0.00"
+            value={bufferInput}
+            onChange={(e) => setBufferInput(e.target.value)}
+            helperText="Warn when the balance drops below this"
+          />
+        </div>
         <div className="flex items-center justify-between">
-          <div>
-            <p className="text-white">Export Data</p>
-            <p className="text-sm text-gray-400">Download all your data as a JSON file</p>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-400">Forecast</span>
+            <select
+              value={cashFlowSettings.forecastDays}
+              onChange={(e) =>
+                updateCashFlowSettings({ ...cashFlowSettings, forecastDays: Number(e.target.value) })
+              }
+              className="px-3 py-1.5 bg-dark-card border border-dark-border rounded-lg text-white text-sm"
+            >
+              <option value={30}>30 days</option>
+              <option value={60}>60 days</option>
+              <option value={90}>90 days</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-3">
+            {saveStatus !== 'idle' && (
+              <span className={`text-xs ${saveStatus === 'saving' ? 'text-gray-400' : 'text-green-400'}`}>
+                {saveStatus === 'saving' ? 'Saving...' : 'Saved'}
+              </span>
+            )}
+            <Button size="sm" variant="secondary" onClick={handleSaveBalance}>
+              Update Balance
+            </Button>
           </div>
-          <Button onClick={handleExport}>Export</Button>
         </div>
+      </div>
 
-        <div className="flex items-center justify-between">
-          <div>
-            <p className="text-white">Import Data</p>
-            <p className="text-sm text-gray-400">Restore data from a previously exported file</p>
-            {importError && <p className="text-sm text-red-400 mt-1">{importError}</p>}
-          </div>
+      <div className="pt-4 border-t border-dark-border">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-white font-medium">Income</h3>
+          <Button size="sm" onClick={() => setFormSourceId(null)}>
+            Add Income
+          </Button>
+        </div>
+
+        {incomeSources.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">No income added yet.</p>
+        ) : (
+          incomeSources.map((source) => {
+            const nextDeposit = nextDeposits.get(source.id);
+            return (
+              <div
+                key={source.id}
+                className="flex items-center justify-between py-3 border-b border-dark-border last:border-0"
+              >
+                <div className={source.isActive ? '' : 'opacity-50'}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-white">{source.name}</span>
+                    <span className="text-green-400">{formatCurrency(source.amount)}</span>
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    {describeIncomeSchedule(source)}
+                    {source.isActive && nextDeposit && source.frequency !== 'once' && (
+                      <> · next {formatDate(nextDeposit)}</>
+                    )}
+                    {source.isActive && !nextDeposit && <> · no upcoming deposits</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleActive(source)}>
+                    {source.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setFormSourceId(source.id)}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(source)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {formSourceId !== undefined && (
+        <IncomeFormModal
+          key={formSourceId ?? 'new'}
+          sourceId={formSourceId}
+          onClose={() => setFormSourceId(undefined)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ApiKeyFieldProps {
+  provider: ApiKeyProvider;
+  label: string;
+  placeholder: string;
+  description: ReactNode;
+}
+
+function ApiKeyField({ provider, label, placeholder, description }: ApiKeyFieldProps) {
+  const { showToast } = useToast();
+  const apiKey = useBNPLStore((state) => state.apiKeys[provider]);
+  const setApiKey = useBNPLStore((state) => state.setApiKey);
+
+  const [showKey, setShowKey] = useState(false);
+  const [inputValue, setInputValue] = useState(apiKey || '');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+
+  useEffect(() => {
+    setInputValue(apiKey || '');
+  }, [apiKey]);
+
+  const handleSave = useCallback(() => {
+    const trimmedKey = inputValue.trim();
+    if (trimmedKey !== (apiKey || '')) {
+      setSaveStatus('saving');
+      setApiKey(provider, trimmedKey || null);
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+      showToast(trimmedKey ? 'API key saved' : 'API key cleared', 'success');
+    }
+  }, [inputValue, apiKey, provider, setApiKey, showToast]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-white">{label}</label>
+        {saveStatus !== 'idle' && (
+          <span className={`text-xs ${saveStatus === 'saving' ? 'text-gray-400' : 'text-green-400'}`}>
+            {saveStatus === 'saving' ? 'Saving...' : 'Saved'}
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-400 mb-3">{description}</p>
+      <div className="flex gap-2">
+        <input
+          type={showKey ? 'text' : 'password'}
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onBlur={handleSave}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={placeholder}
+          className="flex-1 px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button variant="secondary" onClick={() => setShowKey(!showKey)}>
+          {showKey ? 'Hide' : 'Show'}
+        </Button>
+        <Button onClick={handleSave}>Save</Button>
+      </div>
+      {apiKey && (
+        <p className="text-xs text-green-400 mt-2">API key configured</p>
+      )}
+    </div>
+  );
+}
+
+type ExtractionTextSetting = Exclude<keyof ExtractionSettings, 'provider'>;
+
+function APIKeysTab() {
+  const extractionSettings = useBNPLStore((state) => state.extractionSettings);
+  const updateExtractionSettings = useBNPLStore((state) => state.updateExtractionSettings);
+
+  const [draft, setDraft] = useState(extractionSettings);
+
+  useEffect(() => {
+    setDraft(extractionSettings);
+  }, [extractionSettings]);
+
+  // Text fields save on blur, falling back to the default when emptied
+  const handleSaveField = (field: ExtractionTextSetting) => {
+    const value = draft[field].trim() || DEFAULT_EXTRACTION_SETTINGS[field];
+    if (value !== extractionSettings[field]) {
+      updateExtractionSettings({ ...extractionSettings, [field]: value });
+    } else {
+      setDraft(extractionSettings);
+    }
+  };
+
+  const renderField = (field: ExtractionTextSetting, label: string) => (
+    <Input
+      label={label}
+      value={draft[field]}
+      onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+      onBlur={() => handleSaveField(field)}
+      onKeyDown={(e) => e.key === 'Enter' && handleSaveField(field)}
+      placeholder={DEFAULT_EXTRACTION_SETTINGS[field]}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        Choose the AI model that reads order screenshots. Gemini and hosted OpenAI-compatible services receive
+        your screenshots; Ollama or a local OpenAI-compatible server such as llama.cpp keeps them on your machine.
+        Until one is set up, screenshots are read on this device with built-in OCR, which flags fields it's unsure of.
+      </p>
+
+      <div>
+        <label className="block text-white mb-2">Screenshot Import Provider</label>
+        <select
+          value={extractionSettings.provider}
+          onChange={(e) =>
+            updateExtractionSettings({ ...extractionSettings, provider: e.target.value as ExtractionProviderId })
+          }
+          className="w-full px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(EXTRACTION_PROVIDER_LABELS) as ExtractionProviderId[]).map((provider) => (
+            <option key={provider} value={provider}>
+              {EXTRACTION_PROVIDER_LABELS[provider]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {extractionSettings.provider === 'gemini' && (
+        <>
+          {renderField('geminiModel', 'Model')}
+          <ApiKeyField
+            provider="gemini"
+            label="Gemini API Key"
+            placeholder="AIzaSy..."
+            description={
+              <>
+                Get a free key from{' '}
+                <a
+                  href="https://aistudio.google.com/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 underline"
+                >
+                  Google AI Studio
+                </a>
+              </>
+            }
+          />
+        </>
+      )}
+
+      {extractionSettings.provider === 'openai' && (
+        <>
+          {renderField('openaiBaseUrl', 'Endpoint URL')}
+          {renderField('openaiModel', 'Model')}
+          <ApiKeyField
+            provider="openai"
+            label="API Key (optional)"
+            placeholder="sk-..."
+            description="Needed for hosted services. Local servers such as llama-server usually run without one."
+          />
+        </>
+      )}
+
+      {extractionSettings.provider === 'ollama' && (
+        <>
+          {renderField('ollamaBaseUrl', 'Ollama URL')}
+          {renderField('ollamaModel', 'Vision Model')}
+          <p className="text-sm text-gray-400">
+            Pull a vision model first (<code className="text-gray-300">ollama pull {draft.ollamaModel}</code>) and
+            start Ollama with <code className="text-gray-300">OLLAMA_ORIGINS</code> set to this site's address so the
+            browser may call it.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: 'After 1 minute' },
+  { value: 5, label: 'After 5 minutes' },
+  { value: 15, label: 'After 15 minutes' },
+  { value: 30, label: 'After 30 minutes' },
+  { value: 60, label: 'After 1 hour' },
+];
+
+function getPassphraseError(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) {
+    return "Passphrases don't match";
+  }
+  return null;
+}
+
+function SecurityTab() {
+  const { showToast } = useToast();
+  const enableVault = useBNPLStore((state) => state.enableVault);
+  const changeVaultPassphrase = useBNPLStore((state) => state.changeVaultPassphrase);
+  const disableVault = useBNPLStore((state) => state.disableVault);
+  const isEnabled = useSyncExternalStore(vault.subscribe, () => vault.isEnabled());
+  const autoLockMinutes = useSyncExternalStore(vault.subscribe, () => vault.getAutoLockMinutes());
+
+  const [action, setAction] = useState<'enable' | 'change' | 'disable' | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resetForm = () => {
+    setAction(null);
+    setCurrentPassphrase('');
+    setPassphrase('');
+    setConfirmation('');
+  };
+
+  const handleSubmit = async () => {
+    if (action !== 'disable') {
+      const error = getPassphraseError(passphrase, confirmation);
+      if (error) {
+        showToast(error, 'error');
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    try {
+      if (action === 'enable') {
+        await enableVault(passphrase);
+        showToast('Vault enabled - your data is now encrypted', 'success');
+      } else if (action === 'change') {
+        await changeVaultPassphrase(currentPassphrase, passphrase);
+        showToast('Passphrase changed', 'success');
+      } else if (action === 'disable') {
+        await disableVault(currentPassphrase);
+        showToast('Vault disabled', 'info');
+      }
+      resetForm();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update vault', 'error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        Vault mode encrypts your orders, payments, the backup copy and API keys with a passphrase.
+        The passphrase is never stored - if you forget it, your data can't be recovered.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white">Vault</p>
+          <p className={`text-sm ${isEnabled ? 'text-green-400' : 'text-gray-400'}`}>
+            {isEnabled ? 'On - data is encrypted at rest' : 'Off - data is stored unencrypted'}
+          </p>
+        </div>
+        {isEnabled ? (
+          <Button variant="secondary" onClick={() => vault.lock()}>
+            Lock Now
+          </Button>
+        ) : (
+          <Button onClick={() => setAction('enable')} disabled={action === 'enable'}>
+            Enable Vault
+          </Button>
+        )}
+      </div>
+
+      {isEnabled && (
+        <>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-white">Auto-lock</p>
+              <p className="text-sm text-gray-400">Lock after a period with no activity</p>
+            </div>
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => vault.setAutoLockMinutes(Number(e.target.value))}
+              className="px-3 py-2 bg-dark-card border border-dark-border rounded-lg text-white"
+            >
+              {AUTO_LOCK_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {action === null && (
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => setAction('change')}>
+                Change Passphrase
+              </Button>
+              <Button variant="ghost" onClick={() => setAction('disable')}>
+                Disable Vault
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {action && (
+        <div className="p-4 rounded-lg border border-dark-border bg-dark-hover/50 space-y-3">
+          {action !== 'enable' && (
+            <Input
+              label="Current passphrase"
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+            />
+          )}
+          {action !== 'disable' && (
+            <>
+              <Input
+                label={action === 'change' ? 'New passphrase' : 'Passphrase'}
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+              />
+              <Input
+                label="Confirm passphrase"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </>
+          )}
+          {action === 'disable' && (
+            <p className="text-sm text-amber-400">Your data will be stored unencrypted again.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={resetForm} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button
+              variant={action === 'disable' ? 'danger' : 'primary'}
+              onClick={handleSubmit}
+              disabled={isWorking || (action !== 'enable' && !currentPassphrase)}
+            >
+              {isWorking
+                ? 'Encrypting...'
+                : action === 'enable'
+                  ? 'Encrypt My Data'
+                  : action === 'change'
+                    ? 'Change Passphrase'
+                    : 'Disable Vault'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CalendarExportModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { showToast } = useToast();
+  const payments = useBNPLStore((state) => state.payments);
+  const orders = useBNPLStore((state) => state.orders);
+  const platforms = useBNPLStore((state) => state.platforms);
+  const notificationSettings = useBNPLStore((state) => state.notificationSettings);
+
+  // Only offer platforms that have something left to pay
+  const platformsWithPayments = platforms.filter((platform) =>
+    payments.some((p) => p.platformId === platform.id && p.status !== 'paid')
+  );
+
+  const [selectedPlatformIds, setSelectedPlatformIds] = useState<PlatformId[]>(
+    platformsWithPayments.map((p) => p.id)
+  );
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filters = { platformIds: selectedPlatformIds, from: from || undefined, to: to || undefined };
+  const matchingCount = getCalendarPayments(payments, filters).length;
+
+  const togglePlatform = (platformId: PlatformId) => {
+    setSelectedPlatformIds((prev) =>
+      prev.includes(platformId) ? prev.filter((id) => id !== platformId) : [...prev, platformId]
+    );
+  };
+
+  const handleDownload = () => {
+    const calendar = buildPaymentCalendar({ payments, orders, platforms, notificationSettings, filters });
+    const blob = new Blob([calendar], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bnpl-payments-${new Date().toISOString().split('T')[0]}.ics`;
+    a.click();
+    URL.revokeObjectURL(url);
+    showToast(`Exported ${matchingCount} payment${matchingCount !== 1 ? 's' : ''} to calendar`, 'success');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Calendar" size="sm">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Platforms</label>
+          {platformsWithPayments.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming payments to export</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {platformsWithPayments.map((platform) => {
+                const isSelected = selectedPlatformIds.includes(platform.id);
+                return (
+                  <button
+                    key={platform.id}
+                    type="button"
+                    onClick={() => togglePlatform(platform.id)}
+                    className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded-full border transition-colors ${
+                      isSelected
+                        ? 'bg-blue-500/20 text-blue-400 border-blue-500/50'
+                        : 'bg-dark-card text-gray-400 border-dark-border hover:border-gray-600'
+                    }`}
+                  >
+                    <PlatformIcon platformId={platform.id} size="sm" style={{ color: platform.color }} />
+                    {platform.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+
+        <p className="text-sm text-gray-400">
+          {matchingCount} pending or overdue payment{matchingCount !== 1 ? 's' : ''}. Reminders fire{' '}
+          {notificationSettings.daysBefore} day{notificationSettings.daysBefore !== 1 ? 's' : ''} before
+          {notificationSettings.notifyOnDueDate && ' and on the due date'}. Re-importing updates existing events.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleDownload} disabled={matchingCount === 0}>Download .ics</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+interface CsvFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+function CsvImportModal({ file, onClose }: { file: CsvFile; onClose: () => void }) {
+  const { showToast } = useToast();
+  const platforms = useBNPLStore((state) => state.platforms);
+  const importOrders = useBNPLStore((state) => state.importOrders);
+  const orders = useBNPLStore((state) => state.orders);
+  const payments = useBNPLStore((state) => state.payments);
+
+  const [step, setStep] = useState<'mapping' | 'preview'>('mapping');
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(file.headers));
+  const [dryRun, setDryRun] = useState<{ orders: Order[]; payments: Payment[] } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  // Rows that look like tracked orders are imported as new unless chosen to merge
+  const [mergeRows, setMergeRows] = useState<Set<number>>(new Set());
+
+  const results = useMemo(
+    () => (step === 'preview' ? validateCsvRows(file.rows, mapping, platforms) : []),
+    [step, file.rows, mapping, platforms]
+  );
+  const validRows = results.flatMap((r) => (r.row ? [r.row] : []));
+  const invalidResults = results.filter((r) => r.errors.length > 0);
+  const duplicates = useMemo(
+    () =>
+      results.flatMap((r) => (r.row ? [findDuplicateOrders(r.row.input, orders, payments, platforms)[0]] : [])),
+    [results, orders, payments, platforms]
+  );
+  const mergeIndexes = duplicates.flatMap((d, index) => (d && mergeRows.has(index) ? [index] : []));
+  const newRows = validRows.filter((_, index) => !mergeIndexes.includes(index));
+  const missingRequired = CSV_IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined);
+
+  const setColumn = (field: CsvImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const toggleMerge = (index: number, merge: boolean) => {
+    setMergeRows((prev) => {
+      const next = new Set(prev);
+      if (merge) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    setStep('preview');
+    setDryRun(null);
+    const rows = validateCsvRows(file.rows, mapping, platforms).flatMap((r) => (r.row ? [r.row] : []));
+    try {
+      setDryRun(await importOrders(rows, { dryRun: true }));
+    } catch (error) {
+      setDryRun(null);
+      showToast(error instanceof Error ? error.message : 'Dry run failed', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      // Merges go in with the import, so a failure leaves nothing half done
+      const { orders: imported } = await importOrders(newRows, {
+        merges: mergeIndexes.map((index) => ({ orderId: duplicates[index]!.order.id, row: validRows[index] })),
+      });
+      showToast(
+        `Imported ${imported.length} order${imported.length !== 1 ? 's' : ''}` +
+          (mergeIndexes.length > 0 ? `, merged ${mergeIndexes.length} into existing orders` : ''),
+        'success'
+      );
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={() => !isImporting && onClose()} title={`Import ${file.name}`} size="lg">
+      {step === 'mapping' ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            {file.rows.length} row{file.rows.length !== 1 ? 's' : ''} found. Match your columns to order fields.
+          </p>
+          <div className="space-y-2">
+            {CSV_IMPORT_FIELDS.map((definition) => {
+              const column = mapping[definition.field];
+              const sample = column !== undefined ? file.rows[0]?.[column] : undefined;
+              return (
+                <div key={definition.field} className="grid grid-cols-3 items-center gap-3">
+                  <label className="text-sm text-gray-300">
+                    {definition.label}
+                    {definition.required && <span className="text-red-400"> *</span>}
+                  </label>
+                  <select
+                    value={column ?? ''}
+                    onChange={(e) => setColumn(definition.field, e.target.value)}
+                    className="px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm"
+                  >
+                    <option value="">— Not mapped —</option>
+                    {file.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-xs text-gray-500 truncate">{sample ?? ''}</span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">
+            Without an "Installments paid" column, installments due before today are marked paid.
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button onClick={handlePreview} disabled={missingRequired.length > 0}>
+              Preview
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-6 text-sm">
+            <span className="text-green-400">{validRows.length} ready to import</span>
+            {mergeIndexes.length > 0 && (
+              <span className="text-amber-400">{mergeIndexes.length} to merge into existing orders</span>
+            )}
+            {invalidResults.length > 0 && (
+              <span className="text-red-400">{invalidResults.length} with errors (skipped)</span>
+            )}
+          </div>
+
+          {dryRun && (
+            <p className="text-sm text-gray-400">
+              Dry run: {dryRun.orders.length} orders and {dryRun.payments.length} payments would be
+              created ({dryRun.payments.filter((p) => p.status === 'paid').length} already paid). Nothing has been saved yet.
+            </p>
+          )}
+
+          {invalidResults.length > 0 && (
+            <div className="max-h-40 overflow-y-auto p-3 bg-red-500/5 border border-red-500/20 rounded-lg space-y-1">
+              {invalidResults.map((result) => (
+                <p key={result.rowNumber} className="text-xs text-red-300">
+                  Row {result.rowNumber}: {result.errors.join('; ')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {validRows.length > 0 && (
+            <div className="max-h-64 overflow-auto border border-dark-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 bg-dark-hover">
+                  <tr>
+                    <th className="text-left px-3 py-2">Platform</th>
+                    <th className="text-left px-3 py-2">Store</th>
+                    <th className="text-right px-3 py-2">Total</th>
+                    <th className="text-left px-3 py-2">First payment</th>
+                    <th className="text-right px-3 py-2">Paid</th>
+                    {duplicates.some(Boolean) && <th className="text-left px-3 py-2">Existing order</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {validRows.map((row, index) => {
+                    const orderPayments = dryRun?.payments.filter(
+                      (p) => p.orderId === dryRun.orders[index]?.id
+                    );
+                    const duplicate = duplicates[index];
+                    return (
+                      <tr key={index} className="border-t border-dark-border text-gray-300">
+                        <td className="px-3 py-1.5">
+                          {platforms.find((p) => p.id === row.input.platformId)?.name}
+                        </td>
+                        <td className="px-3 py-1.5">{row.input.storeName ?? '—'}</td>
+                        <td className="px-3 py-1.5 text-right">{formatCurrency(row.input.totalAmount)}</td>
+                        <td className="px-3 py-1.5">{formatDate(row.input.firstPaymentDate)}</td>
+                        <td className="px-3 py-1.5 text-right">
+                          {orderPayments
+                            ? `${orderPayments.filter((p) => p.status === 'paid').length}/${orderPayments.length}`
+                            : '—'}
+                        </td>
+                        {duplicates.some(Boolean) && (
+                          <td className="px-3 py-1.5">
+                            {duplicate && (
+                              <select
+                                value={mergeRows.has(index) ? 'merge' : 'keep'}
+                                onChange={(e) => toggleMerge(index, e.target.value === 'merge')}
+                                title={`Looks like ${duplicate.order.storeName || 'an order'} for ${formatCurrency(duplicate.order.totalAmount)}: ${duplicate.reasons.join(', ')}`}
+                                className="px-2 py-1 bg-dark-card border border-amber-500/50 rounded text-amber-200 text-xs"
+                              >
+                                <option value="keep">Keep both</option>
+                                <option value="merge">Merge into existing</option>
+                              </select>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="ghost" onClick={() => setStep('mapping')} disabled={isImporting}>
+              Back
+            </Button>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isImporting}>Cancel</Button>
+              <Button onClick={handleImport} disabled={isImporting || validRows.length === 0}>
+                {isImporting
+                  ? 'Importing...'
+                  : newRows.length > 0 || mergeIndexes.length === 0
+                    ? `Import ${newRows.length} order${newRows.length !== 1 ? 's' : ''}`
+                    : `Merge ${mergeIndexes.length} order${mergeIndexes.length !== 1 ? 's' : ''}`}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+interface StatementFile {
+  name: string;
+  transactions: StatementTransaction[];
+}
+
+function ReconcileStatementModal({ file, onClose }: { file: StatementFile; onClose: () => void }) {
+  const { showToast } = useToast();
+  const orders = useBNPLStore((state) => state.orders);
+  const payments = useBNPLStore((state) => state.payments);
+  const platforms = useBNPLStore((state) => state.platforms);
+  const reconcilePayments = useBNPLStore((state) => state.reconcilePayments);
+
+  // Matched once, so marking payments paid doesn't reshuffle the lists
+  const [reconciliation] = useState(() => reconcileStatement(file.transactions, payments, platforms));
+  const [selectedMatches, setSelectedMatches] = useState<Set<string>>(
+    () => new Set(reconciliation.matches.map((m) => m.transaction.id))
+  );
+  // Debit -> payment picked by hand for ambiguous debits
+  const [manualPairs, setManualPairs] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { matches, ambiguous, untracked, alreadyRecorded } = reconciliation;
+  const pairs = [
+    ...matches
+      .filter((m) => selectedMatches.has(m.transaction.id))
+      .map((m) => ({ paymentId: m.payment.id, paidDate: m.transaction.date })),
+    ...ambiguous
+      .filter((a) => manualPairs[a.transaction.id])
+      .map((a) => ({ paymentId: manualPairs[a.transaction.id], paidDate: a.transaction.date })),
+  ];
+  const pairedPaymentIds = new Set(pairs.map((p) => p.paymentId));
+
+  const getPlatformName = (id: string) => platforms.find((p) => p.id === id)?.name ?? id;
+  const describePayment = (payment: Payment) => {
+    const order = orders.find((o) => o.id === payment.orderId);
+    const count = payments.filter((p) => p.orderId === payment.orderId).length;
+    return `${order?.storeName || 'Order'} · ${payment.installmentNumber}/${count} · due ${formatDate(payment.dueDate)}`;
+  };
+
+  const toggleMatch = (transactionId: string) => {
+    setSelectedMatches((prev) => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await reconcilePayments(pairs);
+      showToast(`Marked ${pairs.length} payment${pairs.length !== 1 ? 's' : ''} paid`, 'success');
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to mark payments paid', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const transactionLabel = (transaction: StatementTransaction) => (
+    <div className="min-w-0">
+      <p className="text-sm text-white truncate">{transaction.description || 'No description'}</p>
+      <p className="text-xs text-gray-500">
+        {formatDate(transaction.date)} · {formatCurrency(transaction.amount)}
+      </p>
+    </div>
+  );
+
+  return (
+    <Modal isOpen onClose={() => !isSaving && onClose()} title={`Reconcile ${file.name}`} size="lg">
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          <span className="text-green-400">{matches.length} matched</span>
+          {ambiguous.length > 0 && <span className="text-amber-400">{ambiguous.length} to pair by hand</span>}
+          {untracked.length > 0 && <span className="text-red-400">{untracked.length} untracked</span>}
+          {alreadyRecorded > 0 && <span className="text-gray-400">{alreadyRecorded} already recorded</span>}
+        </div>
+
+        {matches.length + ambiguous.length + untracked.length === 0 && (
+          <p className="text-sm text-gray-400">
+            No new BNPL debits in this statement ({file.transactions.length} transactions checked).
+          </p>
+        )}
+
+        {matches.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wide">Matched</p>
+            <div className="max-h-56 overflow-y-auto space-y-2">
+              {matches.map(({ transaction, payment }) => (
+                <label
+                  key={transaction.id}
+                  className="flex items-center gap-3 p-2 border border-dark-border rounded-lg cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedMatches.has(transaction.id)}
+                    onChange={() => toggleMatch(transaction.id)}
+                    className="rounded"
+                  />
+                  {transactionLabel(transaction)}
+                  <span className="ml-auto text-xs text-gray-400 text-right">
+                    {getPlatformName(payment.platformId)}
+                    <br />
+                    {describePayment(payment)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {ambiguous.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wide">Pair by hand</p>
+            <div className="max-h-56 overflow-y-auto space-y-2">
+              {ambiguous.map(({ transaction, platformId, candidates }) => (
+                <div key={transaction.id} className="flex items-center gap-3 p-2 border border-dark-border rounded-lg">
+                  {transactionLabel(transaction)}
+                  <select
+                    value={manualPairs[transaction.id] ?? ''}
+                    onChange={(e) => setManualPairs((prev) => ({ ...prev, [transaction.id]: e.target.value }))}
+                    className="ml-auto max-w-[55%] px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-xs"
+                  >
+                    <option value="">Don't pair ({getPlatformName(platformId)})</option>
+                    {candidates.map((payment) => (
+                      <option
+                        key={payment.id}
+                        value={payment.id}
+                        disabled={pairedPaymentIds.has(payment.id) && manualPairs[transaction.id] !== payment.id}
+                      >
+                        {describePayment(payment)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {untracked.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wide">No matching payment</p>
+            <div className="max-h-40 overflow-y-auto space-y-2">
+              {untracked.map(({ transaction, platformId }) => (
+                <div key={transaction.id} className="flex items-center gap-3 p-2 border border-red-500/20 rounded-lg">
+                  {transactionLabel(transaction)}
+                  <span className="ml-auto text-xs text-gray-400">{getPlatformName(platformId)}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              These debits don't match any unpaid installment - usually an order that isn't tracked yet, or one whose
+              amounts or dates are off.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving || pairs.length === 0}>
+            {isSaving ? 'Saving...' : `Mark ${pairs.length} paid`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+const MERGE_STRATEGY_OPTIONS: { value: MergeStrategy; label: string }[] = [
+  { value: 'newer', label: 'Newer wins' },
+  { value: 'local', label: 'Keep local' },
+  { value: 'incoming', label: 'Keep incoming' },
+];
+
+function MergeImportModal({ data, onClose }: { data: ExportedData; onClose: () => void }) {
+  const { showToast } = useToast();
+  const platforms = useBNPLStore((state) => state.platforms);
+  const orders = useBNPLStore((state) => state.orders);
+  const previewMergeImport = useBNPLStore((state) => state.previewMergeImport);
+  const applyMergeImport = useBNPLStore((state) => state.applyMergeImport);
+
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>('newer');
+  const [overrides, setOverrides] = useState<Record<string, MergeStrategy>>({});
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    previewMergeImport(data)
+      .then(setPlan)
+      .catch((error) => setPlanError(error instanceof Error ? error.message : 'Failed to read file'));
+  }, [data, previewMergeImport]);
+
+  const resolution = { strategy, overrides };
+  const summary = plan ? resolveMergePlan(plan, resolution).summary : null;
+
+  const setOverride = (key: string, value: string) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[key];
+      } else {
+        next[key] = value as MergeStrategy;
+      }
+      return next;
+    });
+  };
+
+  const describeConflict = (conflict: MergeConflict): string => {
+    const orderId = conflict.kind === 'order' ? conflict.id : (conflict.local as Payment).orderId;
+    const order = orders.find((o) => o.id === orderId) ?? data.orders.find((o) => o.id === orderId);
+    const platformName = platforms.find((p) => p.id === order?.platformId)?.name ?? order?.platformId;
+    const name = [platformName, order?.storeName].filter(Boolean).join(' · ');
+    return conflict.kind === 'order'
+      ? `Order${name ? ` · ${name}` : ''}`
+      : `Payment #${(conflict.local as Payment).installmentNumber}${name ? ` · ${name}` : ''}`;
+  };
+
+  const handleMerge = async () => {
+    if (!plan) return;
+    setIsMerging(true);
+    try {
+      const result = await applyMergeImport(plan, resolution);
+      showToast(`Merged: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped`, 'success');
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Merge failed', 'error');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={() => !isMerging && onClose()} title="Merge Import" size="lg">
+      <div className="space-y-4">
+        {planError && (
+          <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+            <p className="text-red-400 text-sm font-medium">Can't merge this file</p>
+            <p className="text-gray-300 text-sm mt-1">{planError}</p>
+          </div>
+        )}
+
+        {!plan && !planError && <p className="text-sm text-gray-400">Comparing with your data...</p>}
+
+        {plan && summary && (
+          <>
+            <div className="grid grid-cols-4 gap-3 text-center">
+              {[
+                { label: 'Added', value: summary.added, color: 'text-green-400' },
+                { label: 'Updated', value: summary.updated, color: 'text-blue-400' },
+                { label: 'Skipped', value: summary.skipped, color: 'text-gray-300' },
+                { label: 'Conflicting', value: summary.conflicts, color: 'text-amber-400' },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 bg-dark-hover rounded-lg">
+                  <p className={`text-xl font-semibold ${stat.color}`}>{stat.value}</p>
+                  <p className="text-xs text-gray-500">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Orders and payments are matched by ID. Platforms, subscriptions, limit history and income
+              sources missing here are added; existing ones are left alone.
+            </p>
+
+            {plan.conflicts.length > 0 && (
+              <>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-300">
+                    {plan.conflicts.length} record{plan.conflicts.length !== 1 ? 's' : ''} differ
+                  </p>
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Resolve all
+                    <select
+                      value={strategy}
+                      onChange={(e) => setStrategy(e.target.value as MergeStrategy)}
+                      className="px-2 py-1.5 bg-dark-card border border-dark-border rounded text-white text-sm"
+                    >
+                      {MERGE_STRATEGY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="max-h-80 overflow-y-auto space-y-3">
+                  {plan.conflicts.map((conflict) => {
+                    const winner = getConflictWinner(conflict, resolution);
+                    return (
+                      <div key={conflict.key} className="p-3 border border-dark-border rounded-lg">
+                        <div className="flex items-center justify-between gap-3 mb-2">
+                          <div className="min-w-0">
+                            <p className="text-sm text-white truncate">{describeConflict(conflict)}</p>
+                            <p className="text-xs text-gray-500">
+                              {conflict.newerSide
+                                ? `${conflict.newerSide === 'local' ? 'Local' : 'Incoming'} copy is newer`
+                                : 'No edit times - newer wins keeps local'}
+                            </p>
+                          </div>
+                          <select
+                            value={overrides[conflict.key] ?? ''}
+                            onChange={(e) => setOverride(conflict.key, e.target.value)}
+                            className="px-2 py-1 bg-dark-card border border-dark-border rounded text-white text-xs"
+                          >
+                            <option value="">Use default</option>
+                            {MERGE_STRATEGY_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <table className="w-full text-xs">
+                          <thead className="text-gray-500">
+                            <tr>
+                              <th className="text-left font-normal py-1">Field</th>
+                              <th className="text-left font-normal py-1">Local</th>
+                              <th className="text-left font-normal py-1">Incoming</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {conflict.diffs.map((diff) => (
+                              <tr key={diff.field} className="border-t border-dark-border">
+                                <td className="py-1 text-gray-400">{diff.field}</td>
+                                <td className={`py-1 ${winner === 'local' ? 'text-white' : 'text-gray-500 line-through'}`}>
+                                  {formatFieldValue(diff.field, diff.local)}
+                                </td>
+                                <td className={`py-1 ${winner === 'incoming' ? 'text-white' : 'text-gray-500 line-through'}`}>
+                                  {formatFieldValue(diff.field, diff.incoming)}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isMerging}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={!plan || isMerging}>
+            {isMerging ? 'Merging...' : 'Merge'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function EncryptedExportModal({ onClose }: { onClose: () => void }) {
+  const { showToast } = useToast();
+  const exportData = useBNPLStore((state) => state.exportData);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const error = getPassphraseError(passphrase, confirmation);
+    if (error) {
+      showToast(error, 'error');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const file = await encryptExport(await exportData(), passphrase);
+      const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bnpl-tracker-export-${new Date().toISOString().split('T')[0]}.encrypted.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast('Encrypted export downloaded', 'success');
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Export failed', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={() => !isExporting && onClose()} title="Encrypted Export" size="sm">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">
+          The file can only be imported with this passphrase. It doesn't have to match your vault passphrase.
+        </p>
+        <Input
+          label="Passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+        />
+        <Input
+          label="Confirm passphrase"
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isExporting}>Cancel</Button>
+          <Button onClick={handleExport} disabled={isExporting || !passphrase}>
+            {isExporting ? 'Encrypting...' : 'Download'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function DecryptImportModal({
+  file,
+  onDecrypt,
+  onClose,
+}: {
+  file: EncryptedExportFile;
+  onDecrypt: (data: ExportedData) => void;
+  onClose: () => void;
+}) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      onDecrypt(await decryptExport<ExportedData>(file, passphrase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decrypt file');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={() => !isDecrypting && onClose()} title="Encrypted File" size="sm">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">Enter the passphrase this export was encrypted with.</p>
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && passphrase && handleDecrypt()}
+          placeholder="Passphrase"
+          error={error ?? undefined}
+          autoFocus
+        />
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isDecrypting}>Cancel</Button>
+          <Button onClick={handleDecrypt} disabled={isDecrypting || !passphrase}>
+            {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function describeRecordChange(change: AuditChange, orders: Order[], platforms: Platform[]): string {
+  const record = (change.after ?? change.before)!;
+  const platformName = (id: PlatformId) => platforms.find((p) => p.id === id)?.name ?? id;
+  switch (change.entityType) {
+    case 'order': {
+      const order = record as Order;
+      return `Order · ${order.storeName || platformName(order.platformId)} · ${formatCurrency(order.totalAmount)}`;
+    }
+    case 'payment': {
+      const payment = record as Payment;
+      const order = orders.find((o) => o.id === payment.orderId);
+      return `Payment #${payment.installmentNumber}${order?.storeName ? ` · ${order.storeName}` : ''}`;
+    }
+    case 'platform':
+      return `Platform · ${(record as Platform).name}`;
+    case 'subscription':
+      return `Subscription · ${platformName((record as Subscription).platformId)}`;
+    case 'limitChange':
+      return `Limit history · ${platformName((record as LimitChange).platformId)}`;
+    case 'incomeSource':
+      return `Income · ${(record as IncomeSource).name}`;
+  }
+}
+
+function SyncTab() {
+  const { showToast } = useToast();
+  const orders = useBNPLStore((state) => state.orders);
+  const platforms = useBNPLStore((state) => state.platforms);
+  const status = useSyncExternalStore(storage.subscribeSync, storage.getSyncStatus);
+
+  const [settings, setSettings] = useState<SyncSettings>(() => storage.getSyncSettings());
+  const [token, setToken] = useState(() => storage.getSyncToken() ?? '');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(() => {
+    storage
+      .getSyncConflicts()
+      .then(setConflicts)
+      .catch((err) => console.error('[Settings] Failed to load sync conflicts:', err));
+  }, []);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts, status.conflicts, status.lastSyncedAt]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await storage.saveSyncSettings({ ...settings, serverUrl: settings.serverUrl.trim() }, token.trim() || null);
+      showToast(settings.serverUrl.trim() ? 'Connected to sync server' : 'Sync turned off', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save sync settings', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    try {
+      await storage.sync();
+      showToast('Synced', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Sync failed', 'error');
+    }
+  };
+
+  const handleResolve = async (ids: string[], resolution: 'local' | 'remote') => {
+    setResolvingId(ids.length === 1 ? ids[0] : 'all');
+    try {
+      for (const id of ids) {
+        await storage.resolveSyncConflict(id, resolution);
+      }
+      loadConflicts();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to resolve conflict', 'error');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const savedSettings = storage.getSyncSettings();
+  const isConnected = savedSettings.serverUrl !== '';
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        Keep devices in step through your own sync server - run <code className="text-gray-300">npm run sync-server</code>{' '}
+        on a computer they can all reach. Records are sent to it unencrypted, even with the vault on, and clearing or
+        replacing data here changes it on your other devices too.
+      </p>
+
+      <div className="space-y-3">
+        <Input
+          label="Server URL"
+          value={settings.serverUrl}
+          onChange={(e) => setSettings({ ...settings, serverUrl: e.target.value })}
+          placeholder="http://192.168.1.20:8787"
+        />
+        <Input
+          label="Token (optional)"
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="SYNC_TOKEN set on the server"
+        />
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Sync Automatically</p>
+            <p className="text-sm text-gray-400">Every minute and shortly after each change</p>
+          </div>
+          <button
+            onClick={() => setSettings({ ...settings, enabled: !settings.enabled })}
+            className={`relative w-12 h-6 rounded-full transition-colors ${settings.enabled ? 'bg-blue-600' : 'bg-dark-border'}`}
+          >
+            <span className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${settings.enabled ? 'left-7' : 'left-1'}`} />
+          </button>
+        </div>
+        <div className="flex justify-end gap-2">
+          {isConnected && (
+            <Button variant="secondary" onClick={handleSyncNow} disabled={status.state === 'syncing' || isSaving}>
+              {status.state === 'syncing' ? 'Syncing...' : 'Sync Now'}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Checking server...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      {isConnected && (
+        <div className="pt-4 border-t border-dark-border text-sm">
+          {status.lastError ? (
+            <p className="text-red-400">Last sync failed: {status.lastError}</p>
+          ) : (
+            <p className="text-gray-400">
+              {status.lastSyncedAt
+                ? `Last synced ${format(parseISO(status.lastSyncedAt), 'MMM d, h:mm a')}`
+                : 'Not synced yet'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-amber-400">
+              {conflicts.length} record{conflicts.length !== 1 ? 's were' : ' was'} changed here and on another device
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => handleResolve(conflicts.map((c) => c.id), 'local')}
+                disabled={resolvingId !== null}
+              >
+                Keep All Mine
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => handleResolve(conflicts.map((c) => c.id), 'remote')}
+                disabled={resolvingId !== null}
+              >
+                Use Server for All
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {conflicts.map((conflict) => {
+              const entityType = (Object.keys(AUDIT_COLLECTIONS) as AuditEntityType[]).find(
+                (type) => AUDIT_COLLECTIONS[type].collection === conflict.store
+              )!;
+              const change: AuditChange = {
+                entityType,
+                entityId: conflict.key,
+                before: conflict.local,
+                after: conflict.remote.deleted ? undefined : conflict.remote.data,
+              };
+              const diffs = change.before && change.after ? diffRecords(change.before, change.after) : [];
+              return (
+                <div key={conflict.id} className="p-3 border border-dark-border rounded-lg">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">{describeRecordChange(change, orders, platforms)}</p>
+                      <p className="text-xs text-gray-500">
+                        {!change.before && 'Deleted here · '}
+                        {!change.after && 'Deleted on another device · '}
+                        Server copy from {format(parseISO(conflict.remote.updatedAt), 'MMM d, h:mm a')}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleResolve([conflict.id], 'local')}
+                        disabled={resolvingId !== null}
+                      >
+                        Keep Mine
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleResolve([conflict.id], 'remote')}
+                        disabled={resolvingId !== null}
+                      >
+                        Use Server
+                      </Button>
+                    </div>
+                  </div>
+                  {diffs.length > 0 && (
+                    <table className="w-full text-xs">
+                      <thead className="text-gray-500">
+                        <tr>
+                          <th className="text-left font-normal py-1">Field</th>
+                          <th className="text-left font-normal py-1">This device</th>
+                          <th className="text-left font-normal py-1">Server</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diffs.map((diff) => (
+                          <tr key={diff.field} className="border-t border-dark-border">
+                            <td className="py-1 text-gray-400">{diff.field}</td>
+                            <td className="py-1 text-white">{formatFieldValue(diff.field, diff.local)}</td>
+                            <td className="py-1 text-white">{formatFieldValue(diff.field, diff.incoming)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const isOrderOrPayment = (change: AuditChange) => change.entityType === 'order' || change.entityType === 'payment';
+
+function SnapshotDiffModal({ snapshot, onClose }: { snapshot: DataSnapshot; onClose: () => void }) {
+  const exportData = useBNPLStore((state) => state.exportData);
+  const orders = useBNPLStore((state) => state.orders);
+  const platforms = useBNPLStore((state) => state.platforms);
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    exportData()
+      .then((current) => setComparison(compareSnapshot(snapshot.data, current)))
+      .catch((error) => setCompareError(error instanceof Error ? error.message : 'Failed to compare'));
+  }, [snapshot, exportData]);
+
+  // Orders and payments first - they're what a restore is usually about
+  const changes = comparison
+    ? [...comparison.changes].sort(
+        (a, b) => Number(isOrderOrPayment(b)) - Number(isOrderOrPayment(a))
+      )
+    : [];
+  // Removed orders only exist in the snapshot
+  const knownOrders = [...orders, ...snapshot.data.orders];
+  const knownPlatforms = [...platforms, ...snapshot.data.platforms];
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={`Compare ${SNAPSHOT_REASON_LABELS[snapshot.reason].toLowerCase()} snapshot`}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">
+          Snapshot from {format(parseISO(snapshot.createdAt), 'MMM d, yyyy h:mm a')} compared with your data now.
+        </p>
+
+        {compareError && <p className="text-sm text-red-400">{compareError}</p>}
+        {!comparison && !compareError && <p className="text-sm text-gray-400">Comparing with your data...</p>}
+
+        {comparison && (
+          <>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  <th className="text-left font-normal py-1"></th>
+                  <th className="text-right font-normal py-1">Snapshot</th>
+                  <th className="text-right font-normal py-1">Now</th>
+                  <th className="text-right font-normal py-1">Added since</th>
+                  <th className="text-right font-normal py-1">Removed since</th>
+                  <th className="text-right font-normal py-1">Changed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.collections.map((diff) => (
+                  <tr key={diff.collection} className="border-t border-dark-border">
+                    <td className="py-1.5 text-gray-300">{SNAPSHOT_COLLECTION_LABELS[diff.collection]}</td>
+                    <td className="py-1.5 text-right text-gray-400">{snapshot.counts[diff.collection]}</td>
+                    <td className="py-1.5 text-right text-gray-400">
+                      {snapshot.counts[diff.collection] + diff.added - diff.removed}
+                    </td>
+                    <td className={`py-1.5 text-right ${diff.added ? 'text-green-400' : 'text-gray-600'}`}>{diff.added}</td>
+                    <td className={`py-1.5 text-right ${diff.removed ? 'text-red-400' : 'text-gray-600'}`}>{diff.removed}</td>
+                    <td className={`py-1.5 text-right ${diff.changed ? 'text-blue-400' : 'text-gray-600'}`}>{diff.changed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-400">No differences - this snapshot matches your data.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto space-y-2">
+                {changes.map((change) => {
+                  const diffs = change.before && change.after ? diffRecords(change.before, change.after) : [];
+                  return (
+                    <div key={`${change.entityType}:${change.entityId}`} className="p-3 border border-dark-border rounded-lg">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-sm text-white truncate">{describeRecordChange(change, knownOrders, knownPlatforms)}</p>
+                        {!change.before && <span className="text-xs text-green-400">Added since</span>}
+                        {!change.after && <span className="text-xs text-red-400">Removed since</span>}
+                      </div>
+                      {diffs.length > 0 && (
+                        <table className="w-full text-xs mt-2">
+                          <thead className="text-gray-500">
+                            <tr>
+                              <th className="text-left font-normal py-1">Field</th>
+                              <th className="text-left font-normal py-1">Snapshot</th>
+                              <th className="text-left font-normal py-1">Now</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {diffs.map((diff) => (
+                              <tr key={diff.field} className="border-t border-dark-border">
+                                <td className="py-1 text-gray-400">{diff.field}</td>
+                                <td className="py-1 text-gray-500">{formatFieldValue(diff.field, diff.local)}</td>
+                                <td className="py-1 text-white">{formatFieldValue(diff.field, diff.incoming)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+// Wiping or replacing data on a synced device pushes the deletes to every other device
+const isSyncConnected = () => storage.getSyncSettings().serverUrl !== '';
+
+function SnapshotsSection() {
+  const { showToast } = useToast();
+  const restoreSnapshot = useBNPLStore((state) => state.restoreSnapshot);
+
+  const [snapshots, setSnapshots] = useState<DataSnapshot[] | null>(null);
+  const [comparing, setComparing] = useState<DataSnapshot | null>(null);
+  const [restoring, setRestoring] = useState<DataSnapshot | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadSnapshots = useCallback(() => {
+    storage
+      .getSnapshots()
+      .then(setSnapshots)
+      .catch((err) => {
+        console.error('[Settings] Failed to load snapshots:', err);
+        setSnapshots([]);
+      });
+  }, []);
+
+  // Pick up snapshots taken by other tabs
+  useEffect(() => {
+    loadSnapshots();
+    return storage.onRemoteChange((changes) => {
+      if (changes.some((change) => change.store === 'snapshots')) {
+        loadSnapshots();
+      }
+    });
+  }, [loadSnapshots]);
+
+  const handleTakeSnapshot = async () => {
+    setIsBusy(true);
+    try {
+      const snapshot = await storage.takeSnapshot('manual');
+      showToast(snapshot ? 'Snapshot saved' : 'Nothing to snapshot yet', snapshot ? 'success' : 'info');
+      loadSnapshots();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to take snapshot', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoring) return;
+    setIsBusy(true);
+    try {
+      await restoreSnapshot(restoring.id);
+      showToast(`Restored snapshot from ${formatDate(restoring.createdAt)}`, 'success');
+      setRestoring(null);
+      loadSnapshots();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Restore failed', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await storage.deleteSnapshot(id);
+      loadSnapshots();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete snapshot', 'error');
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-dark-border space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white">Snapshots</p>
+          <p className="text-sm text-gray-400">
+            Copies of your data kept on this device - daily, weekly and before every import, clear or restore
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleTakeSnapshot} disabled={isBusy}>
+          Take Snapshot
+        </Button>
+      </div>
+
+      {snapshots === null && <p className="text-sm text-gray-400">Loading snapshots...</p>}
+      {snapshots?.length === 0 && (
+        <p className="text-sm text-gray-500">No snapshots yet - one is taken once you have orders.</p>
+      )}
+
+      {snapshots && snapshots.length > 0 && (
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {snapshots.map((snapshot) => (
+            <div
+              key={snapshot.id}
+              className="flex items-center justify-between gap-3 p-3 border border-dark-border rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white">
+                  {format(parseISO(snapshot.createdAt), 'MMM d, yyyy h:mm a')}
+                  <span className="ml-2 px-1.5 py-0.5 text-xs text-gray-400 bg-dark-hover rounded">
+                    {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {snapshot.counts.orders} orders · {snapshot.counts.payments} payments ·{' '}
+                  {snapshot.counts.platforms} platforms · {snapshot.counts.incomeSources} income sources
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" variant="ghost" onClick={() => setComparing(snapshot)}>
+                  Compare
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => setRestoring(snapshot)} disabled={isBusy}>
+                  Restore
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(snapshot.id)} disabled={isBusy}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {comparing && <SnapshotDiffModal snapshot={comparing} onClose={() => setComparing(null)} />}
+
+      <Modal isOpen={restoring !== null} onClose={() => !isBusy && setRestoring(null)} title="Restore Snapshot" size="sm">
+        {restoring && (
+          <div className="space-y-4">
+            <p className="text-gray-300">
+              Replace all your data with the snapshot from{' '}
+              {format(parseISO(restoring.createdAt), 'MMM d, yyyy h:mm a')}? A snapshot of your current data is
+              taken first, so this can be reversed.
+              {isSyncConnected() && ' Sync is on, so your other devices are restored to it too.'}
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => setRestoring(null)} disabled={isBusy}>Cancel</Button>
+              <Button onClick={handleRestore} disabled={isBusy}>
+                {isBusy ? 'Restoring...' : 'Restore'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+// The picker rejects with AbortError when the user just closes it
+const isPickerCancel = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+function BackupFolderSection({
+  onExport,
+  onRestore,
+}: {
+  onExport: () => void;
+  onRestore: (parsed: ExportedData | EncryptedExportFile) => void;
+}) {
+  const { showToast } = useToast();
+  const { status, folderName, lastBackupAt, lastError } = useSyncExternalStore(
+    backupFolder.subscribe,
+    backupFolder.getState
+  );
+  const [restoreFiles, setRestoreFiles] = useState<FolderBackupFile[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      if (!isPickerCancel(error)) {
+        showToast(error instanceof Error ? error.message : failure, 'error');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleChoose = () =>
+    run(async () => {
+      await backupFolder.chooseFolder();
+      showToast('Backing up to this folder automatically', 'success');
+    }, 'Failed to set up backup folder');
+
+  const handleReconnect = () => run(() => backupFolder.reconnect(), 'Failed to reconnect backup folder');
+
+  const handleBackupNow = () =>
+    run(async () => {
+      await backupFolder.backupNow();
+      showToast('Backup saved to folder', 'success');
+    }, 'Backup failed');
+
+  const handleShowRestore = () =>
+    run(async () => {
+      setRestoreFiles(await backupFolder.listRestorableBackups());
+    }, 'Failed to read backup folder');
+
+  const handleRestore = (file: FolderBackupFile) =>
+    run(async () => {
+      const parsed = await readBackupFile(file);
+      setRestoreFiles(null);
+      onRestore(parsed);
+    }, 'Failed to read backup file');
+
+  if (status === 'unsupported') {
+    return (
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white">Backup Folder</p>
+          <p className="text-sm text-gray-400">
+            Automatic folder backups need Chrome or Edge - download a backup now and then instead
+          </p>
+        </div>
+        <Button variant="secondary" onClick={onExport}>
+          Download Backup
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white">Backup Folder</p>
+          <p className="text-sm text-gray-400">
+            {status === 'none' && 'Save a backup file to a folder on this computer automatically after changes'}
+            {status === 'needs-permission' && `Backups to "${folderName}" are paused until you allow access again`}
+            {status === 'ready' &&
+              `Backing up to "${folderName}"${lastBackupAt ? ` · last saved ${format(parseISO(lastBackupAt), 'MMM d, h:mm a')}` : ''}`}
+          </p>
+          {lastError && <p className="text-sm text-red-400 mt-1">{lastError}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handleShowRestore} disabled={isBusy}>
+            Restore
+          </Button>
+          {status === 'none' && (
+            <Button onClick={handleChoose} disabled={isBusy}>
+              Choose Folder
+            </Button>
+          )}
+          {status === 'needs-permission' && (
+            <Button onClick={handleReconnect} disabled={isBusy}>
+              Allow Access
+            </Button>
+          )}
+          {status === 'ready' && (
+            <Button variant="secondary" onClick={handleBackupNow} disabled={isBusy}>
+              Back Up Now
+            </Button>
+          )}
+          {status !== 'none' && (
+            <Button variant="ghost" onClick={() => run(() => backupFolder.disconnect(), 'Failed to disconnect')} disabled={isBusy}>
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Modal isOpen={restoreFiles !== null} onClose={() => setRestoreFiles(null)} title="Restore from Folder" size="md">
+        {restoreFiles && (
+          <div className="space-y-4">
+            {restoreFiles.length === 0 ? (
+              <p className="text-sm text-gray-400">No backup files in this folder.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto space-y-2">
+                {restoreFiles.map((file) => (
+                  <div
+                    key={file.name}
+                    className="flex items-center justify-between gap-3 p-3 border border-dark-border rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-white">{format(parseISO(file.modifiedAt), 'MMM d, yyyy h:mm a')}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {file.name} · {Math.max(1, Math.round(file.size / 1024))} KB
+                      </p>
+                    </div>
+                    <Button size="sm" variant="secondary" onClick={() => handleRestore(file)} disabled={isBusy}>
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">You'll choose whether to replace or merge before anything is changed.</p>
+            <div className="flex justify-end">
+              <Button variant="secondary" onClick={() => setRestoreFiles(null)}>Close</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
+
+function DataTab() {
+  const { showToast } = useToast();
+  const exportData = useBNPLStore((state) => state.exportData);
+  const importData = useBNPLStore((state) => state.importData);
+  const clearAllData = useBNPLStore((state) => state.clearAllData);
+
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  const [showEncryptedExport, setShowEncryptedExport] = useState(false);
+  const [encryptedImportFile, setEncryptedImportFile] = useState<EncryptedExportFile | null>(null);
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [statementFile, setStatementFile] = useState<StatementFile | null>(null);
+  const [statementError, setStatementError] = useState<string | null>(null);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+  const [showImportConfirm, setShowImportConfirm] = useState(false);
+  const [pendingImportData, setPendingImportData] = useState<ExportedData | null>(null);
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+  const [mergeImportData, setMergeImportData] = useState<ExportedData | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    const data = await exportData();
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bnpl-tracker-export-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    showToast('Data exported successfully', 'success');
+  };
+
+  // The JSON export zipped together with every order's attachments
+  const handleExportBundle = async () => {
+    setIsBundling(true);
+    try {
+      const { blob, attachmentCount } = await createExportBundle(await exportData());
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bnpl-tracker-export-${new Date().toISOString().split('T')[0]}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast(`Data exported with ${attachmentCount} attachment${attachmentCount !== 1 ? 's' : ''}`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to export attachments', 'error');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  const downloadCsv = (csv: string, name: string) => {
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bnpl-tracker-${name}-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportCsv = (sheet: 'orders' | 'payments') => {
+    const { orders, payments, platforms } = useBNPLStore.getState();
+    downloadCsv(
+      sheet === 'orders'
+        ? buildOrdersCsv(orders, payments, platforms)
+        : buildPaymentsCsv(payments, orders, platforms),
+      sheet
+    );
+    showToast(`Exported ${sheet} CSV`, 'success');
+  };
+
+  const handleCsvSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const [headers, ...rows] = parseCsv(await file.text());
+      if (!headers || rows.length === 0) {
+        throw new Error('CSV needs a header row and at least one order');
+      }
+      setCsvFile({ name: file.name, headers, rows });
+      setCsvError(null);
+    } catch (error) {
+      setCsvError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+
+    if (csvInputRef.current) {
+      csvInputRef.current.value = '';
+    }
+  };
+
+  const handleStatementSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setStatementFile({ name: file.name, transactions: parseStatement(await file.text()) });
+      setStatementError(null);
+    } catch (error) {
+      setStatementError(error instanceof Error ? error.message : 'Failed to read statement');
+    }
+
+    if (statementInputRef.current) {
+      statementInputRef.current.value = '';
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      stageFile(JSON.parse(text) as ExportedData | EncryptedExportFile);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const stageFile = (parsed: ExportedData | EncryptedExportFile) => {
+    // Encrypted exports need their passphrase before they can be checked
+    if (isEncryptedExport(parsed)) {
+      setEncryptedImportFile(parsed);
+      setImportError(null);
+    } else {
+      stageImport(parsed);
+    }
+  };
+
+  const stageImport = (data: ExportedData) => {
+    if (!data.version || !Array.isArray(data.orders) || !Array.isArray(data.payments)) {
+      throw new Error('Invalid file format');
+    }
+
+    // Ensure platforms and subscriptions arrays exist
+    data.platforms = data.platforms || [];
+    data.subscriptions = data.subscriptions || [];
+
+    setPendingImportData(data);
+    setImportMode('replace');
+    setShowImportConfirm(true);
+    setImportError(null);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImportData || isImporting) return;
+
+    // Merges are reviewed record by record before anything is written
+    if (importMode === 'merge') {
+      setMergeImportData(pendingImportData);
+      setPendingImportData(null);
+      setShowImportConfirm(false);
+      return;
+    }
+
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      await importData(pendingImportData);
+      showToast(`Imported ${pendingImportData.orders.length} orders`, 'success');
+      // Only close modal on success
+      setPendingImportData(null);
+      setShowImportConfirm(false);
+    } catch (error) {
+      // Keep modal open on error so user can see the error
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import data';
+      setImportError(errorMessage);
+      showToast('Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClearAll = async () => {
+    await clearAllData();
+    setShowClearConfirm(false);
+    showToast('All data cleared', 'info');
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Export Data</p>
+            <p className="text-sm text-gray-400">
+              Download all your data as a JSON file, optionally encrypted or zipped with order attachments
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => setShowEncryptedExport(true)}>
+              Encrypted
+            </Button>
+            <Button variant="secondary" onClick={handleExportBundle} disabled={isBundling}>
+              {isBundling ? 'Zipping...' : 'With Attachments'}
+            </Button>
+            <Button onClick={handleExport}>Export</Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Spreadsheet Export</p>
+            <p className="text-sm text-gray-400">Flat CSV sheets of orders or payments for spreadsheets and accounting tools</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => handleExportCsv('orders')}>
+              Orders CSV
+            </Button>
+            <Button variant="secondary" onClick={() => handleExportCsv('payments')}>
+              Payments CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Spreadsheet Import</p>
+            <p className="text-sm text-gray-400">Add orders from a CSV, e.g. history kept in a spreadsheet</p>
+            {csvError && <p className="text-sm text-red-400 mt-1">{csvError}</p>}
+          </div>
+          <div>
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleCsvSelect}
+              className="hidden"
+            />
+            <Button variant="secondary" onClick={() => csvInputRef.current?.click()}>
+              Import CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Reconcile Statement</p>
+            <p className="text-sm text-gray-400">Match BNPL debits on a bank or card statement (CSV or OFX) to your payments</p>
+            {statementError && <p className="text-sm text-red-400 mt-1">{statementError}</p>}
+          </div>
+          <div>
+            <input
+              ref={statementInputRef}
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv,application/x-ofx"
+              onChange={handleStatementSelect}
+              className="hidden"
+            />
+            <Button variant="secondary" onClick={() => statementInputRef.current?.click()}>
+              Reconcile
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Export Calendar</p>
+            <p className="text-sm text-gray-400">Add upcoming installments to your calendar app (.ics)</p>
+          </div>
+          <Button variant="secondary" onClick={() => setShowCalendarExport(true)}>
+            Export Calendar
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-white">Import Data</p>
+            <p className="text-sm text-gray-400">Restore data from a previously exported file</p>
+            {importError && <p className="text-sm text-red-400 mt-1">{importError}</p>}
+          </div>
           <div>
             <input
               ref={fileInputRef}
@@ -740,10 +3377,23 @@ function DataTab() {
           </div>
         </div>
 
+        <BackupFolderSection
+          onExport={handleExport}
+          onRestore={(parsed) => {
+            try {
+              stageFile(parsed);
+            } catch (error) {
+              setImportError(error instanceof Error ? error.message : 'Failed to read file');
+            }
+          }}
+        />
+
+        <SnapshotsSection />
+
         <div className="flex items-center justify-between pt-4 border-t border-dark-border">
           <div>
             <p className="text-red-400 font-medium">Danger Zone</p>
-            <p className="text-sm text-gray-400">Delete all orders and payments. This cannot be undone.</p>
+            <p className="text-sm text-gray-400">Delete all orders and payments. A snapshot is kept so it can be restored.</p>
           </div>
           <Button variant="danger" onClick={() => setShowClearConfirm(true)}>
             Clear All Data
@@ -751,9 +3401,40 @@ function DataTab() {
         </div>
       </div>
 
+      {csvFile && <CsvImportModal file={csvFile} onClose={() => setCsvFile(null)} />}
+      {statementFile && <ReconcileStatementModal file={statementFile} onClose={() => setStatementFile(null)} />}
+
+      {showEncryptedExport && <EncryptedExportModal onClose={() => setShowEncryptedExport(false)} />}
+
+      {encryptedImportFile && (
+        <DecryptImportModal
+          file={encryptedImportFile}
+          onDecrypt={(data) => {
+            setEncryptedImportFile(null);
+            try {
+              stageImport(data);
+            } catch (error) {
+              setImportError(error instanceof Error ? error.message : 'Failed to read file');
+            }
+          }}
+          onClose={() => setEncryptedImportFile(null)}
+        />
+      )}
+
+      {mergeImportData && (
+        <MergeImportModal data={mergeImportData} onClose={() => setMergeImportData(null)} />
+      )}
+
+      {showCalendarExport && (
+        <CalendarExportModal isOpen={showCalendarExport} onClose={() => setShowCalendarExport(false)} />
+      )}
+
       <Modal isOpen={showClearConfirm} onClose={() => setShowClearConfirm(false)} title="Clear All Data" size="sm">
         <div className="space-y-4">
-          <p className="text-gray-300">Are you sure you want to delete all your data? This action cannot be undone.</p>
+          <p className="text-gray-300">Are you sure you want to delete all your data? A snapshot is taken first - restore it from Snapshots if you change your mind. Order attachments are deleted for good.</p>
+          {isSyncConnected() && (
+            <p className="text-sm text-amber-400">Sync is on, so this also deletes the data on every synced device.</p>
+          )}
           <div className="flex justify-end gap-3">
             <Button variant="secondary" onClick={() => setShowClearConfirm(false)}>Cancel</Button>
             <Button variant="danger" onClick={handleClearAll}>Delete All Data</Button>
@@ -774,10 +3455,38 @@ function DataTab() {
         size="sm"
       >
         <div className="space-y-4">
-          <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
-            <p className="text-amber-400 text-sm font-medium">Warning</p>
-            <p className="text-gray-300 text-sm mt-1">Importing will replace all existing data. This cannot be undone.</p>
+          <div className="flex gap-1 p-1 bg-dark-hover rounded-lg">
+            {([
+              { value: 'replace', label: 'Replace all' },
+              { value: 'merge', label: 'Merge' },
+            ] as const).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setImportMode(option.value)}
+                disabled={isImporting}
+                className={`flex-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  importMode === option.value ? 'bg-dark-card text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
+          {importMode === 'replace' ? (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+              <p className="text-amber-400 text-sm font-medium">Warning</p>
+              <p className="text-gray-300 text-sm mt-1">Importing will replace all existing data. A snapshot of it is taken first.</p>
+              {isSyncConnected() && (
+                <p className="text-gray-300 text-sm mt-1">
+                  Sync is on, so your other devices are replaced too - anything not in this file is deleted on them.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">
+              Adds new records and lets you review any that differ from yours before anything is saved.
+            </p>
+          )}
           {pendingImportData && (
             <div className="text-sm text-gray-400">
               <p>File contains:</p>
@@ -815,7 +3524,7 @@ function DataTab() {
               Cancel
             </Button>
             <Button onClick={handleConfirmImport} disabled={isImporting}>
-              {isImporting ? 'Importing...' : 'Import Data'}
+              {isImporting ? 'Importing...' : importMode === 'merge' ? 'Review Merge' : 'Import Data'}
             </Button>
           </div>
         </div>
@@ -825,8 +3534,15 @@ function DataTab() {
 }
 
 export function SettingsPage() {
-  const [activeTab, setActiveTab] = useState<SettingsTab>('platforms');
-  const platforms = useBNPLStore((state) => state.platforms);
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<SettingsTab>(() => {
+    const requested = searchParams.get('tab');
+    return TABS.find((t) => t.id === requested)?.id ?? 'platforms';
+  });
+  const platforms = useActivePlatforms();
+
+  // Platform form: undefined = closed, null = new platform, string = editing
+  const [platformFormId, setPlatformFormId] = useState<PlatformId | null | undefined>(undefined);
 
   return (
     <div className="space-y-6">
@@ -858,11 +3574,23 @@ export function SettingsPage() {
       <Card>
         {activeTab === 'platforms' && (
           <>
-            <h2 className="text-lg font-semibold text-white mb-2">Platform Settings</h2>
-            <p className="text-sm text-gray-400 mb-4">Configure credit limits and default payment schedules.</p>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white mb-2">Platform Settings</h2>
+                <p className="text-sm text-gray-400">Configure credit limits and default payment schedules.</p>
+              </div>
+              <Button size="sm" onClick={() => setPlatformFormId(null)}>
+                Add Platform
+              </Button>
+            </div>
             {platforms.map((platform) => (
-              <PlatformSettings key={platform.id} platformId={platform.id} />
+              <PlatformSettings
+                key={platform.id}
+                platformId={platform.id}
+                onEdit={setPlatformFormId}
+              />
             ))}
+            <ArchivedPlatforms />
           </>
         )}
 
@@ -876,6 +3604,13 @@ export function SettingsPage() {
           </>
         )}
 
+        {activeTab === 'income' && (
+          <>
+            <h2 className="text-lg font-semibold text-white mb-2">Income &amp; Cash Flow</h2>
+            <IncomeTab />
+          </>
+        )}
+
         {activeTab === 'notifications' && (
           <>
             <h2 className="text-lg font-semibold text-white mb-2">Notifications</h2>
@@ -890,6 +3625,20 @@ export function SettingsPage() {
           </>
         )}
 
+        {activeTab === 'security' && (
+          <>
+            <h2 className="text-lg font-semibold text-white mb-2">Security</h2>
+            <SecurityTab />
+          </>
+        )}
+
+        {activeTab === 'sync' && (
+          <>
+            <h2 className="text-lg font-semibold text-white mb-2">Sync</h2>
+            <SyncTab />
+          </>
+        )}
+
         {activeTab === 'data' && (
           <>
             <h2 className="text-lg font-semibold text-white mb-2">Data Management</h2>
@@ -897,6 +3646,14 @@ export function SettingsPage() {
           </>
         )}
       </Card>
+
+      {platformFormId !== undefined && (
+        <PlatformFormModal
+          key={platformFormId ?? 'new'}
+          platformId={platformFormId}
+          onClose={() => setPlatformFormId(undefined)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,254 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AttachmentKind, OrderAttachment } from '../types';
+import { vault, type EncryptedPayload } from './vault';
+
+const DB_NAME = 'bnpl-tracker-attachments';
+const DB_VERSION = 1;
+const STORE_NAME = 'attachments';
+const THUMBNAIL_SIZE = 320; // px, longest side
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  receipt: 'Receipt',
+  screenshot: 'Screenshot',
+  'return-label': 'Return label',
+  other: 'Other',
+};
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+export interface StoredAttachment extends OrderAttachment {
+  blob: Blob;
+  thumbnail?: Blob; // images only
+}
+
+// In vault mode only the IDs stay readable, so the by-order index still works
+interface SealedAttachment {
+  id: string;
+  orderId: string;
+  sealed: EncryptedPayload; // the OrderAttachment details
+  blob: Blob; // encrypted
+  thumbnail?: Blob; // encrypted
+}
+
+type RawAttachment = StoredAttachment | SealedAttachment;
+
+// Downscaled JPEG preview, so the order modal doesn't decode full-size photos
+async function createThumbnail(blob: Blob): Promise<Blob | undefined> {
+  if (!blob.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>((resolve) =>
+      canvas.toBlob((thumbnail) => resolve(thumbnail ?? undefined), 'image/jpeg', 0.8)
+    );
+  } catch (err) {
+    console.warn('[AttachmentStorage] Failed to create thumbnail:', err);
+    return undefined;
+  }
+}
+
+/**
+ * Receipts, screenshots and other files attached to orders
+ *
+ * Blobs live in their own IndexedDB database, outside the main data store,
+ * so they stay out of JSON exports, snapshots and sync. Attachments outlive
+ * a deleted order until the next start so undo can bring them back. In
+ * vault mode the details and files are encrypted like every other record.
+ */
+class AttachmentStorageService {
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private listeners = new Set<(orderId: string) => void>();
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        console.error('[AttachmentStorage] Failed to open IndexedDB:', request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('by-order', 'orderId');
+        }
+      };
+    });
+
+    return this.initPromise;
+  }
+
+  // Called with the order ID whenever its attachments change
+  onChange(listener: (orderId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(orderId: string): void {
+    this.listeners.forEach((listener) => listener(orderId));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+      const request = run(this.db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async sealAttachment(record: StoredAttachment): Promise<RawAttachment> {
+    if (!vault.isEnabled()) return record;
+    const { blob, thumbnail, ...attachment } = record;
+    return {
+      id: record.id,
+      orderId: record.orderId,
+      sealed: await vault.seal(attachment),
+      blob: await vault.sealBlob(blob),
+      thumbnail: thumbnail && (await vault.sealBlob(thumbnail)),
+    };
+  }
+
+  private async openAttachment(raw: RawAttachment): Promise<StoredAttachment> {
+    if (!('sealed' in raw)) return raw;
+    const attachment = await vault.open<OrderAttachment>(raw.sealed);
+    return {
+      ...attachment,
+      blob: await vault.openBlob(raw.blob, attachment.type),
+      thumbnail: raw.thumbnail && (await vault.openBlob(raw.thumbnail, 'image/jpeg')),
+    };
+  }
+
+  async saveAttachment(orderId: string, file: Blob, kind: AttachmentKind, name?: string): Promise<OrderAttachment> {
+    const attachment: OrderAttachment = {
+      id: uuidv4(),
+      orderId,
+      kind,
+      name: name ?? (file instanceof File ? file.name : `${kind}-${Date.now()}`),
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      createdAt: new Date().toISOString(),
+    };
+    const record = await this.sealAttachment({ ...attachment, blob: file, thumbnail: await createThumbnail(file) });
+
+    try {
+      await this.request('readwrite', (store) => store.put(record));
+    } catch (err) {
+      console.error('[AttachmentStorage] Failed to save attachment:', err);
+      throw new Error(
+        err instanceof DOMException && err.name === 'QuotaExceededError'
+          ? 'Not enough storage space for this file'
+          : 'Failed to save attachment'
+      );
+    }
+    this.notify(orderId);
+    return attachment;
+  }
+
+  async getOrderAttachments(orderId: string): Promise<StoredAttachment[]> {
+    const raw = await this.request<RawAttachment[]>('readonly', (store) => store.index('by-order').getAll(orderId));
+    const attachments = await Promise.all(raw.map((record) => this.openAttachment(record)));
+    return attachments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getAllAttachments(): Promise<StoredAttachment[]> {
+    const raw = await this.request<RawAttachment[]>('readonly', (store) => store.getAll());
+    return Promise.all(raw.map((record) => this.openAttachment(record)));
+  }
+
+  async updateAttachment(attachment: OrderAttachment, updates: Pick<Partial<OrderAttachment>, 'kind' | 'name'>): Promise<void> {
+    const raw = await this.request<RawAttachment | undefined>('readonly', (store) => store.get(attachment.id));
+    if (!raw) return;
+    const record = await this.sealAttachment({ ...(await this.openAttachment(raw)), ...updates });
+    await this.request('readwrite', (store) => store.put(record));
+    this.notify(attachment.orderId);
+  }
+
+  async deleteAttachment(attachment: OrderAttachment): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(attachment.id));
+    this.notify(attachment.orderId);
+  }
+
+  // Remove attachments whose order no longer exists
+  async pruneAttachments(orderIds: string[]): Promise<void> {
+    await this.init();
+    if (!this.db) return;
+
+    const keep = new Set(orderIds);
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    // Walk the order index keys only, so no blobs are read
+    const request = transaction.objectStore(STORE_NAME).index('by-order').openKeyCursor();
+    let removed = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!keep.has(String(cursor.key))) {
+          transaction.objectStore(STORE_NAME).delete(cursor.primaryKey);
+          removed += 1;
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (removed > 0) {
+      console.log('[AttachmentStorage] Removed', removed, 'attachments of deleted orders');
+    }
+  }
+
+  /**
+   * Replace every attachment, sealed under the current vault state
+   * Used when the vault is turned on, off or given a new passphrase.
+   */
+  async replaceAll(attachments: StoredAttachment[]): Promise<void> {
+    const records: RawAttachment[] = [];
+    for (const attachment of attachments) {
+      records.push(await this.sealAttachment(attachment));
+    }
+
+    await this.init();
+    if (!this.db) return;
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    store.clear();
+    records.forEach((record) => store.put(record));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    await this.request('readwrite', (store) => store.clear());
+    console.log('[AttachmentStorage] All attachments cleared');
+  }
+}
+
+export const attachmentStorage = new AttachmentStorageService();
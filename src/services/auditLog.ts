@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AuditActor,
+  AuditChange,
+  AuditEntityType,
+  AuditEvent,
+  AuditRecord,
+  AuditSummary,
+  IncomeSource,
+  LimitChange,
+  Order,
+  Payment,
+  Platform,
+  PlatformId,
+  Subscription,
+} from '../types';
+import { diffRecords } from './mergeImport';
+
+// How each logged store action reads in the change history and undo toasts
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  addOrder: 'Added order',
+  importOrders: 'Imported orders',
+  mergeOrder: 'Merged duplicate order',
+  updateOrder: 'Edited order',
+  deleteOrder: 'Deleted order',
+  refundOrder: 'Refunded order',
+  markPaymentPaid: 'Marked payment paid',
+  markPaymentUnpaid: 'Marked payment unpaid',
+  reconcilePayments: 'Reconciled bank statement',
+  updatePayment: 'Edited payment',
+  addPaymentEvent: 'Added payment fee',
+  removePaymentEvent: 'Removed payment fee',
+  reschedulePayment: 'Rescheduled payment',
+  deletePayment: 'Deleted payment',
+  addPaymentToOrder: 'Added payment',
+  updatePlatformLimit: 'Changed credit limit',
+  updatePlatformGoal: 'Changed limit goal',
+  updatePlatformTier: 'Changed platform tier',
+  updatePlatformSchedule: 'Changed payment schedule',
+  addPlatform: 'Added platform',
+  updatePlatform: 'Edited platform',
+  setPlatformArchived: 'Archived or restored platform',
+  updateSubscription: 'Updated subscription',
+  updateOverduePayments: 'Marked payments overdue',
+  addIncomeSource: 'Added income',
+  updateIncomeSource: 'Edited income',
+  deleteIncomeSource: 'Deleted income',
+  importData: 'Imported data, replacing everything',
+  applyMergeImport: 'Merged imported data',
+  restoreSnapshot: 'Restored a snapshot',
+  clearAllData: 'Cleared all data',
+  revertAuditEvent: 'Reverted a change',
+  undo: 'Undid a change',
+  redo: 'Redid a change',
+};
+
+// The store collections an action can change, as seen before and after it ran
+export interface AuditSnapshot {
+  orders: Order[];
+  payments: Payment[];
+  platforms: Platform[];
+  subscriptions: Subscription[];
+  limitHistory: LimitChange[];
+  incomeSources: IncomeSource[];
+}
+
+export type AuditCollection = keyof AuditSnapshot;
+
+export const AUDIT_COLLECTIONS: Record<AuditEntityType, { collection: AuditCollection; keyField: string }> = {
+  order: { collection: 'orders', keyField: 'id' },
+  payment: { collection: 'payments', keyField: 'id' },
+  platform: { collection: 'platforms', keyField: 'id' },
+  subscription: { collection: 'subscriptions', keyField: 'platformId' },
+  limitChange: { collection: 'limitHistory', keyField: 'id' },
+  incomeSource: { collection: 'incomeSources', keyField: 'id' },
+};
+
+function getKey(record: AuditRecord, keyField: string): string {
+  return String((record as unknown as Record<string, unknown>)[keyField]);
+}
+
+/**
+ * Records that were created, changed or deleted between two snapshots
+ *
+ * Store actions replace the records they change, so unchanged records are
+ * skipped by reference before any field comparison.
+ */
+export function diffSnapshots(before: AuditSnapshot, after: AuditSnapshot): AuditChange[] {
+  const changes: AuditChange[] = [];
+
+  for (const [entityType, { collection, keyField }] of Object.entries(AUDIT_COLLECTIONS) as [
+    AuditEntityType,
+    (typeof AUDIT_COLLECTIONS)[AuditEntityType],
+  ][]) {
+    const previous: AuditRecord[] = before[collection];
+    const next: AuditRecord[] = after[collection];
+    if (previous === next) continue;
+
+    const previousByKey = new Map(previous.map((record) => [getKey(record, keyField), record]));
+    const nextByKey = new Map(next.map((record) => [getKey(record, keyField), record]));
+
+    for (const key of new Set([...previousByKey.keys(), ...nextByKey.keys()])) {
+      const was = previousByKey.get(key);
+      const is = nextByKey.get(key);
+      if (was === is) continue;
+      if (was && is && diffRecords(was, is).length === 0) continue;
+      changes.push({ entityType, entityId: key, before: was, after: is });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Fold later changes into earlier ones - each record keeps its first `before`
+ * and last `after`, and records that ended up as they started drop out
+ */
+export function combineChanges(earlier: AuditChange[], later: AuditChange[]): AuditChange[] {
+  const combined = new Map(earlier.map((change) => [`${change.entityType}:${change.entityId}`, change]));
+  for (const change of later) {
+    const key = `${change.entityType}:${change.entityId}`;
+    const previous = combined.get(key);
+    combined.set(key, previous ? { ...change, before: previous.before } : change);
+  }
+  return [...combined.values()].filter(({ before, after }) =>
+    before && after ? diffRecords(before, after).length > 0 : before !== after
+  );
+}
+
+/**
+ * Counts of what a set of changes did, for logging bulk actions
+ */
+export function summarizeChanges(changes: AuditChange[], snapshotId?: string): AuditSummary {
+  return {
+    created: changes.filter((change) => !change.before).length,
+    updated: changes.filter((change) => change.before && change.after).length,
+    deleted: changes.filter((change) => !change.after).length,
+    snapshotId,
+  };
+}
+
+/**
+ * Build a log event, indexing the orders and platforms it touched
+ * With a summary, the records themselves are left out.
+ */
+export function createAuditEvent(
+  action: string,
+  actor: AuditActor,
+  changes: AuditChange[],
+  revertOf?: string,
+  summary?: AuditSummary
+): AuditEvent {
+  const orderIds = new Set<string>();
+  const platformIds = new Set<PlatformId>();
+
+  for (const change of changes) {
+    for (const record of [change.before, change.after]) {
+      if (!record) continue;
+      if (change.entityType === 'order') orderIds.add(change.entityId);
+      if (change.entityType === 'payment') orderIds.add((record as Payment).orderId);
+      if (change.entityType === 'platform') platformIds.add(change.entityId);
+      if ('platformId' in record) platformIds.add(record.platformId);
+    }
+  }
+
+  return {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    actor,
+    action,
+    orderIds: [...orderIds],
+    platformIds: [...platformIds],
+    changes: summary ? [] : changes,
+    summary,
+    revertOf,
+  };
+}
+
+/**
+ * Changes whose records no longer match the `expected` side - restoring the
+ * other side over them would silently discard later edits
+ */
+export function getStaleChanges(
+  changes: AuditChange[],
+  current: AuditSnapshot,
+  expected: 'before' | 'after'
+): AuditChange[] {
+  return changes.filter((change) => {
+    const { collection, keyField } = AUDIT_COLLECTIONS[change.entityType];
+    const records: AuditRecord[] = current[collection];
+    const record = records.find((r) => getKey(r, keyField) === change.entityId);
+    const expectedRecord = change[expected];
+    if (!record || !expectedRecord) return !record !== !expectedRecord;
+    return diffRecords(record, expectedRecord).length > 0;
+  });
+}
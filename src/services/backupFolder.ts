@@ -0,0 +1,262 @@
+/**
+ * Automatic backups to a folder the user picks, via the File System Access API
+ *
+ * Chromium only - elsewhere the folder controls fall back to downloading an
+ * export. The folder handle is kept in IndexedDB, but the browser asks for
+ * permission again in each new session, so auto-backups pause until the user
+ * reconnects the folder.
+ */
+
+import type { ExportedData } from '../types';
+import { storage } from './storage';
+import { vault, type EncryptedExportFile } from './vault';
+
+const BACKUP_FILE_PREFIX = 'bnpl-tracker-backup-';
+const BACKUP_THROTTLE_MS = 5 * 60 * 1000;
+const MAX_FOLDER_BACKUPS = 30;
+
+// Parts of the API lib.dom doesn't declare yet
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+interface PermissionedHandle {
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+
+interface IterableDirectoryHandle {
+  values(): AsyncIterable<FileSystemHandle>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: PermissionMode['mode'] }) => Promise<FileSystemDirectoryHandle>;
+
+export type BackupFolderStatus =
+  | 'unsupported' // no File System Access API - use manual export
+  | 'none' // supported, no folder chosen
+  | 'needs-permission' // folder remembered, but this session hasn't been granted access
+  | 'ready';
+
+export interface BackupFolderState {
+  status: BackupFolderStatus;
+  folderName: string | null;
+  lastBackupAt: string | null;
+  lastError: string | null;
+}
+
+export interface FolderBackupFile {
+  name: string;
+  modifiedAt: string; // ISO timestamp
+  size: number; // bytes
+  handle: FileSystemFileHandle;
+}
+
+function getDirectoryPicker(): DirectoryPicker | null {
+  const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  return picker ? picker.bind(window) : null;
+}
+
+/**
+ * Whether this browser can write backups to a folder
+ */
+export function isBackupFolderSupported(): boolean {
+  return typeof window !== 'undefined' && getDirectoryPicker() !== null;
+}
+
+/**
+ * File name for a backup taken at `date` - sorts oldest to newest
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+  return `${BACKUP_FILE_PREFIX}${date.toISOString().replace(/[:.]/g, '-')}.json`;
+}
+
+async function hasPermission(handle: FileSystemDirectoryHandle, mode: PermissionMode['mode']): Promise<boolean> {
+  return (await (handle as unknown as PermissionedHandle).queryPermission({ mode })) === 'granted';
+}
+
+async function listBackupFiles(handle: FileSystemDirectoryHandle): Promise<FolderBackupFile[]> {
+  const files: FolderBackupFile[] = [];
+  for await (const entry of (handle as unknown as IterableDirectoryHandle).values()) {
+    if (entry.kind !== 'file' || !entry.name.startsWith(BACKUP_FILE_PREFIX) || !entry.name.endsWith('.json')) {
+      continue;
+    }
+    const fileHandle = entry as FileSystemFileHandle;
+    const file = await fileHandle.getFile();
+    files.push({
+      name: entry.name,
+      modifiedAt: new Date(file.lastModified).toISOString(),
+      size: file.size,
+      handle: fileHandle,
+    });
+  }
+  // Names carry the backup time, so they sort chronologically
+  return files.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+class BackupFolderService {
+  private handle: FileSystemDirectoryHandle | null = null;
+  private state: BackupFolderState = {
+    status: isBackupFolderSupported() ? 'none' : 'unsupported',
+    folderName: null,
+    lastBackupAt: null,
+    lastError: null,
+  };
+  private listeners = new Set<() => void>();
+  private initPromise: Promise<void> | null = null;
+  private throttleTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasPendingChanges = false;
+  private isWriting = false;
+
+  // For useSyncExternalStore
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getState = (): BackupFolderState => this.state;
+
+  private setState(updates: Partial<BackupFolderState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Load the remembered folder and start backing up after local changes
+   */
+  init(): Promise<void> {
+    if (this.initPromise) return this.initPromise;
+    this.initPromise = (async () => {
+      if (this.state.status === 'unsupported') return;
+
+      this.setState({ lastBackupAt: storage.getLastFolderBackup() });
+      storage.onBackup(() => this.scheduleBackup());
+
+      const handle = await storage.getBackupFolder();
+      if (!handle) return;
+      this.handle = handle;
+      this.setState({
+        folderName: handle.name,
+        status: (await hasPermission(handle, 'readwrite')) ? 'ready' : 'needs-permission',
+      });
+    })().catch((err) => {
+      console.error('[BackupFolder] Failed to load backup folder:', err);
+    });
+    return this.initPromise;
+  }
+
+  /**
+   * Ask for a folder and back up to it straight away
+   * Must be called from a user gesture.
+   */
+  async chooseFolder(): Promise<void> {
+    const picker = getDirectoryPicker();
+    if (!picker) {
+      throw new Error("This browser can't save to folders");
+    }
+    const handle = await picker({ id: 'bnpl-backups', mode: 'readwrite' });
+    await storage.saveBackupFolder(handle);
+    this.handle = handle;
+    this.setState({ folderName: handle.name, status: 'ready', lastError: null });
+    await this.backupNow();
+  }
+
+  /**
+   * Re-grant access to the remembered folder in a new session
+   * Must be called from a user gesture.
+   */
+  async reconnect(): Promise<void> {
+    if (!this.handle) return;
+    const permission = await (this.handle as unknown as PermissionedHandle).requestPermission({ mode: 'readwrite' });
+    if (permission !== 'granted') {
+      throw new Error('Permission to the backup folder was denied');
+    }
+    this.setState({ status: 'ready', lastError: null });
+    await this.backupNow();
+  }
+
+  async disconnect(): Promise<void> {
+    await storage.saveBackupFolder(null);
+    this.handle = null;
+    if (this.throttleTimer) clearTimeout(this.throttleTimer);
+    this.throttleTimer = null;
+    this.hasPendingChanges = false;
+    this.setState({ status: 'none', folderName: null, lastError: null });
+  }
+
+  // Back up once now, then at most once per BACKUP_THROTTLE_MS while changes keep coming
+  private scheduleBackup(): void {
+    if (this.state.status !== 'ready') return;
+    this.hasPendingChanges = true;
+    if (this.throttleTimer) return;
+
+    this.backupNow().catch(() => {});
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = null;
+      if (this.hasPendingChanges) this.scheduleBackup();
+    }, BACKUP_THROTTLE_MS);
+  }
+
+  /**
+   * Write a new backup file and prune the oldest beyond MAX_FOLDER_BACKUPS
+   * In vault mode the file is encrypted and opens with the passphrase.
+   */
+  async backupNow(): Promise<void> {
+    if (!this.handle || this.state.status !== 'ready' || this.isWriting) return;
+    this.isWriting = true;
+    this.hasPendingChanges = false;
+
+    try {
+      const data = await storage.exportData();
+      const contents: ExportedData | EncryptedExportFile = vault.isEnabled() ? await vault.sealExport(data) : data;
+      const now = new Date();
+
+      const fileHandle = await this.handle.getFileHandle(getBackupFileName(now), { create: true });
+      const writable = await fileHandle.createWritable();
+      await writable.write(JSON.stringify(contents, null, 2));
+      await writable.close();
+
+      for (const file of (await listBackupFiles(this.handle)).slice(MAX_FOLDER_BACKUPS)) {
+        await this.handle.removeEntry(file.name);
+      }
+
+      await storage.saveLastFolderBackup(now.toISOString());
+      this.setState({ lastBackupAt: now.toISOString(), lastError: null });
+      console.log('[BackupFolder] Backup written to', this.handle.name);
+    } catch (err) {
+      console.error('[BackupFolder] Backup failed:', err);
+      // Access can be revoked from the browser's site settings at any time
+      const isRevoked = !(await hasPermission(this.handle, 'readwrite').catch(() => false));
+      this.setState({
+        status: isRevoked ? 'needs-permission' : this.state.status,
+        lastError: err instanceof Error ? err.message : 'Backup failed',
+      });
+      throw err;
+    } finally {
+      this.isWriting = false;
+    }
+  }
+
+  /**
+   * Backups in the connected folder, or in one the user picks (e.g. on a
+   * fresh browser profile), newest first
+   * Picking a folder must happen in a user gesture.
+   */
+  async listRestorableBackups(): Promise<FolderBackupFile[]> {
+    if (this.handle && (await hasPermission(this.handle, 'read'))) {
+      return listBackupFiles(this.handle);
+    }
+    const picker = getDirectoryPicker();
+    if (!picker) {
+      throw new Error("This browser can't read from folders");
+    }
+    return listBackupFiles(await picker({ id: 'bnpl-backups', mode: 'read' }));
+  }
+}
+
+export const backupFolder = new BackupFolderService();
+
+/**
+ * Parse a backup file - plain or encrypted exports, as written by backupNow
+ */
+export async function readBackupFile(file: FolderBackupFile): Promise<ExportedData | EncryptedExportFile> {
+  const text = await (await file.handle.getFile()).text();
+  return JSON.parse(text) as ExportedData | EncryptedExportFile;
+}
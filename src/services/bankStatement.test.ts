@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseOfx, parseStatement, parseStatementCsv } from './bankStatement';
+
+describe('parseStatementCsv', () => {
+  it('reads a bank export with money out as negative', () => {
+    const csv = [
+      'Account,Checking 1234',
+      'Date,Description,Amount',
+      '03/01/26,AFTERPAY US,-25.00',
+      '03/02/26,PAYROLL,"1,500.00"',
+      '03/03/26,GROCERY MART,(42.10)',
+    ].join('\n');
+
+    expect(parseStatementCsv(csv)).toEqual([
+      { id: 'row-3', date: '2026-03-01', amount: 2500, description: 'AFTERPAY US' },
+      { id: 'row-4', date: '2026-03-02', amount: -150000, description: 'PAYROLL' },
+      { id: 'row-5', date: '2026-03-03', amount: 4210, description: 'GROCERY MART' },
+    ]);
+  });
+
+  it('reads a card export that lists charges as positive, refunds and all', () => {
+    const csv = [
+      'Transaction Date,Description,Amount',
+      '2026-03-01,KLARNA*TARGET,25.00',
+      '2026-03-02,PAYMENT THANK YOU,-300.00',
+      '2026-03-03,KLARNA*TARGET,25.00',
+    ].join('\n');
+
+    expect(parseStatementCsv(csv).map((t) => t.amount)).toEqual([2500, -30000, 2500]);
+  });
+
+  it('goes by the type column when there is one', () => {
+    const csv = [
+      'Date,Description,Type,Amount',
+      '2026-03-01,REFUND STORE,Credit,-10.00',
+      '2026-03-02,REFUND STORE,Credit,-12.00',
+      '2026-03-03,COFFEE,Debit,4.50',
+    ].join('\n');
+
+    expect(parseStatementCsv(csv).map((t) => t.amount)).toEqual([-1000, -1200, 450]);
+  });
+
+  it('reads separate debit and credit columns', () => {
+    const csv = [
+      'Posted Date,Payee,Debit,Credit,Reference',
+      '2026-03-01,SEZZLE,25.00,,abc',
+      '2026-03-02,REFUND,,10.00,',
+    ].join('\n');
+
+    expect(parseStatementCsv(csv)).toEqual([
+      { id: 'abc', date: '2026-03-01', amount: 2500, description: 'SEZZLE' },
+      { id: 'row-3', date: '2026-03-02', amount: -1000, description: 'REFUND' },
+    ]);
+  });
+
+  it('rejects sheets without a date header or an amount column', () => {
+    expect(() => parseStatementCsv('foo,bar\n1,2')).toThrow(/header row with a date column/);
+    expect(() => parseStatementCsv('Date,Description\n2026-03-01,X')).toThrow(/amount or debit column/);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML transactions with money out as positive', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260301120000<TRNAMT>-25.00<FITID>1<NAME>AFFIRM INC<MEMO>AFFIRM INC
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260302<TRNAMT>100.00<FITID>2<NAME>DEPOSIT
+</BANKTRANLIST></OFX>`;
+
+    expect(parseOfx(ofx)).toEqual([
+      { id: '1', date: '2026-03-01', amount: 2500, description: 'AFFIRM INC' },
+      { id: '2', date: '2026-03-02', amount: -10000, description: 'DEPOSIT' },
+    ]);
+    expect(parseStatement(ofx)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Bank and card statements -> transactions
+ *
+ * Reads the two formats banks export most: CSV (column layout guessed from
+ * the header row) and OFX/QFX (the SGML 1.x and XML 2.x flavours). Amounts
+ * come back in cents with money leaving the account positive.
+ */
+
+import { parseCsv } from './csv';
+import { BNPL_DESCRIPTORS } from './reconciliation';
+import { normalizeDateString } from '../utils/date';
+
+export interface StatementTransaction {
+  id: string; // the bank's transaction ID when it has one, otherwise the row
+  date: string; // YYYY-MM-DD the transaction posted
+  amount: number; // in cents - positive for money out, negative for money in
+  description: string;
+}
+
+const HEADER_ALIASES = {
+  date: ['date', 'transactiondate', 'posteddate', 'postingdate', 'transdate', 'bookingdate'],
+  description: ['description', 'payee', 'name', 'merchant', 'details', 'transactiondescription', 'memo', 'narrative'],
+  amount: ['amount', 'transactionamount', 'amountusd'],
+  debit: ['debit', 'debitamount', 'withdrawal', 'withdrawals', 'moneyout', 'paidout'],
+  credit: ['credit', 'creditamount', 'deposit', 'deposits', 'moneyin', 'paidin'],
+  id: ['id', 'transactionid', 'reference', 'referencenumber', 'fitid'],
+  type: ['type', 'transactiontype', 'debitcredit', 'creditdebit', 'drcr'],
+};
+
+// Values of a type column that say which way the money went
+const DEBIT_TYPE = /^(?:debit|dr|sale|purchase|withdrawal)$/i;
+const CREDIT_TYPE = /^(?:credit|cr|deposit|refund|return)$/i;
+
+type StatementColumn = keyof typeof HEADER_ALIASES;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseStatementAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  // (12.34) and 12.34- are accounting notation for negatives
+  const isNegative = /^\(.*\)$/.test(trimmed) || /-$/.test(trimmed) || /^-/.test(trimmed);
+  const num = Number(trimmed.replace(/[^0-9.]/g, ''));
+  if (isNaN(num)) return null;
+  return Math.round(num * 100) * (isNegative ? -1 : 1);
+}
+
+function parseStatementDate(value: string): string | null {
+  const trimmed = value.trim();
+  // Two-digit years, e.g. 03/01/26
+  const short = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (short) {
+    return `20${short[3]}-${short[1].padStart(2, '0')}-${short[2].padStart(2, '0')}`;
+  }
+  return normalizeDateString(trimmed.split(/[ T]/)[0]) ?? normalizeDateString(trimmed);
+}
+
+// +1 when a single amount column lists money out as positive (card statements
+// listing charges), -1 when it's negative (bank accounts)
+function getMoneyOutSign(rows: Array<{ amount: number; description: string; type: string }>): 1 | -1 {
+  const majority = (votes: number[]) => (votes.reduce((sum, vote) => sum + vote, 0) > 0 ? 1 : -1);
+
+  // A debit/credit type column says outright
+  const typed = rows.flatMap((row) =>
+    DEBIT_TYPE.test(row.type) ? [Math.sign(row.amount)] : CREDIT_TYPE.test(row.type) ? [-Math.sign(row.amount)] : []
+  );
+  if (typed.length > 0) return majority(typed);
+
+  // Otherwise go by BNPL payments, which are almost all money out, then by
+  // the statement as a whole - mostly spending either way
+  const bnpl = rows.filter((row) => Object.values(BNPL_DESCRIPTORS).some((pattern) => pattern.test(row.description)));
+  return majority((bnpl.length > 0 ? bnpl : rows).map((row) => Math.sign(row.amount)));
+}
+
+/**
+ * Transactions from a bank CSV export
+ * Banks either use one signed amount column or separate debit and credit
+ * columns. A signed column can run either way - see getMoneyOutSign.
+ */
+export function parseStatementCsv(text: string): StatementTransaction[] {
+  const rows = parseCsv(text);
+  // Some banks put account details above the header row
+  const headerIndex = rows.findIndex((row) => row.some((cell) => HEADER_ALIASES.date.includes(normalizeHeader(cell))));
+  if (headerIndex === -1) {
+    throw new Error("Couldn't find a header row with a date column in this CSV");
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const columns: Partial<Record<StatementColumn, number>> = {};
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES) as Array<[StatementColumn, string[]]>) {
+    const index = headers.findIndex((header, i) => aliases.includes(header) && !Object.values(columns).includes(i));
+    if (index !== -1) columns[column] = index;
+  }
+  if (columns.amount === undefined && columns.debit === undefined) {
+    throw new Error("Couldn't find an amount or debit column in this CSV");
+  }
+
+  const get = (cells: string[], column: StatementColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (cells[index] ?? '');
+  };
+
+  const parsed = rows.slice(headerIndex + 1).flatMap((cells, index) => {
+    const date = parseStatementDate(get(cells, 'date'));
+    if (!date) return [];
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(get(cells, 'amount'));
+    } else {
+      const debit = parseStatementAmount(get(cells, 'debit'));
+      const credit = parseStatementAmount(get(cells, 'credit'));
+      amount = debit ? Math.abs(debit) : credit ? -Math.abs(credit) : null;
+    }
+    if (amount === null) return [];
+
+    return [
+      {
+        id: get(cells, 'id').trim() || `row-${headerIndex + index + 2}`,
+        date,
+        amount,
+        description: get(cells, 'description').trim(),
+        type: get(cells, 'type').trim(),
+      },
+    ];
+  });
+
+  // Flip to money out = positive
+  const sign = columns.amount !== undefined ? getMoneyOutSign(parsed) : 1;
+  return parsed.map(({ id, date, amount, description }) => ({ id, date, amount: amount * sign, description }));
+}
+
+function getOfxValue(block: string, tag: string): string {
+  // SGML leaves elements unclosed, so a value runs to the next tag or line end
+  return block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() ?? '';
+}
+
+/**
+ * Transactions from an OFX or QFX download
+ */
+export function parseOfx(text: string): StatementTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  return blocks.flatMap((block, index) => {
+    const posted = getOfxValue(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = parseStatementAmount(getOfxValue(block, 'TRNAMT'));
+    if (!posted || amount === null) return [];
+
+    const name = getOfxValue(block, 'NAME');
+    const memo = getOfxValue(block, 'MEMO');
+    return [
+      {
+        id: getOfxValue(block, 'FITID') || `trn-${index + 1}`,
+        date: `${posted[1]}-${posted[2]}-${posted[3]}`,
+        amount: -amount, // OFX amounts are negative for money out
+        description: [name, memo].filter((part, i, parts) => part && parts.indexOf(part) === i).join(' '),
+      },
+    ];
+  });
+}
+
+/**
+ * Parse a statement file, picking the format from its contents
+ */
+export function parseStatement(text: string): StatementTransaction[] {
+  const transactions = /OFXHEADER|<OFX>/i.test(text) ? parseOfx(text) : parseStatementCsv(text);
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in this statement');
+  }
+  return transactions;
+}
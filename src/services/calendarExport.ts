@@ -0,0 +1,197 @@
+import { addDays, format, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+import type { NotificationSettings, Order, Payment, Platform, PlatformId } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { getPaymentFees, getPaymentTotalDue } from '../utils/payment';
+
+export interface CalendarExportFilters {
+  platformIds?: PlatformId[]; // undefined = all platforms
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+interface CalendarExportInput {
+  payments: Payment[];
+  orders: Order[];
+  platforms: Platform[];
+  notificationSettings: NotificationSettings;
+  filters?: CalendarExportFilters;
+  now?: Date;
+}
+
+// Reminders fire at this hour (local time) on the reminder day
+const REMINDER_HOUR = 9;
+
+/**
+ * Pending and overdue payments that match the export filters
+ */
+export function getCalendarPayments(payments: Payment[], filters: CalendarExportFilters = {}): Payment[] {
+  const from = filters.from ? startOfDay(parseISO(filters.from)) : null;
+  const to = filters.to ? startOfDay(parseISO(filters.to)) : null;
+
+  return payments
+    .filter((p) => p.status !== 'paid')
+    .filter((p) => !filters.platformIds || filters.platformIds.includes(p.platformId))
+    .filter((p) => {
+      const due = startOfDay(parseISO(p.dueDate));
+      return (!from || !isBefore(due, from)) && (!to || !isAfter(due, to));
+    })
+    .sort((a, b) => parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime());
+}
+
+/**
+ * Stable UID so re-importing the file updates events instead of duplicating them
+ */
+export function getPaymentEventUid(payment: Payment): string {
+  return `payment-${payment.id}@bnpl-tracker`;
+}
+
+/**
+ * Escape TEXT values per RFC 5545 (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtcTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Reminder N days before an all-day event, at REMINDER_HOUR local time
+ */
+function buildAlarm(daysBefore: number, description: string): string[] {
+  const hours = daysBefore * 24 - REMINDER_HOUR;
+  const trigger = hours > 0 ? `-PT${hours}H` : `PT${-hours}H`;
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `TRIGGER;RELATED=START:${trigger}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VALARM',
+  ];
+}
+
+function buildEvent(
+  payment: Payment,
+  order: Order | undefined,
+  platform: Platform | undefined,
+  installments: number,
+  settings: NotificationSettings,
+  stamp: string
+): string[] {
+  const platformName = platform?.name ?? payment.platformId;
+  const store = order?.storeName ? ` - ${order.storeName}` : '';
+  const prefix = payment.status === 'overdue' ? 'OVERDUE: ' : '';
+  const summary = `${prefix}${platformName} payment${store}`;
+
+  const amount = formatCurrency(getPaymentTotalDue(payment));
+  const fees = getPaymentFees(payment);
+  const description = [
+    `${amount} due (payment ${payment.installmentNumber} of ${installments})`,
+    fees > 0 ? `Includes ${formatCurrency(fees)} in fees` : null,
+    order ? `Order total: ${formatCurrency(order.totalAmount)}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const due = startOfDay(parseISO(payment.dueDate));
+  // Bump the sequence on every reschedule so calendars accept the new date
+  const sequence = (payment.events ?? []).filter((e) => e.type === 'reschedule').length;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getPaymentEventUid(payment)}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART;VALUE=DATE:${format(due, 'yyyyMMdd')}`,
+    `DTEND;VALUE=DATE:${format(addDays(due, 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT',
+    `CATEGORIES:${escapeText(platformName)}`,
+  ];
+
+  if (settings.enabled && payment.status !== 'overdue') {
+    const reminder = `${summary}: ${amount}`;
+    lines.push(...buildAlarm(settings.daysBefore, reminder));
+    if (settings.notifyOnDueDate && settings.daysBefore > 0) {
+      lines.push(...buildAlarm(0, reminder));
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build an iCalendar file with one all-day VEVENT per pending or overdue payment
+ *
+ * Reminders follow the notification settings: one `daysBefore` days ahead and
+ * one on the due date when notifyOnDueDate is on, or none at all when
+ * notifications are off. Overdue payments are exported without reminders
+ * since they'd fire in the past.
+ */
+export function buildPaymentCalendar(input: CalendarExportInput): string {
+  const { orders, platforms, notificationSettings } = input;
+  const stamp = formatUtcTimestamp(input.now ?? new Date());
+
+  const installmentCounts = new Map<string, number>();
+  for (const payment of input.payments) {
+    installmentCounts.set(payment.orderId, (installmentCounts.get(payment.orderId) ?? 0) + 1);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BNPL Tracker//Payments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:BNPL Payments',
+  ];
+
+  for (const payment of getCalendarPayments(input.payments, input.filters)) {
+    lines.push(
+      ...buildEvent(
+        payment,
+        orders.find((o) => o.id === payment.orderId),
+        platforms.find((p) => p.id === payment.platformId),
+        installmentCounts.get(payment.orderId) ?? payment.installmentNumber,
+        notificationSettings,
+        stamp
+      )
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
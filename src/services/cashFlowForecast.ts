@@ -0,0 +1,256 @@
+import {
+  addDays,
+  addMonths,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  parseISO,
+  setDate,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import { getPaymentTotalDue } from '../utils/payment';
+import type {
+  CashFlowDay,
+  CashFlowForecast,
+  CashFlowSettings,
+  CashFlowShortfall,
+  IncomeSource,
+  Payment,
+} from '../types';
+
+export interface IncomeOccurrence {
+  sourceId: string;
+  date: Date; // start of day
+  amount: number; // in cents
+}
+
+interface ForecastInput {
+  settings: CashFlowSettings;
+  incomeSources: IncomeSource[];
+  payments: Payment[];
+  today?: Date;
+}
+
+const DEFAULT_SEMI_MONTHLY_DAYS: [number, number] = [1, 15];
+
+function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Get the interval in days for fixed-interval frequencies, or null for
+ * calendar-based ('semi-monthly') and one-off ('once') income
+ */
+function getIntervalDays(source: IncomeSource): number | null {
+  switch (source.frequency) {
+    case 'weekly':
+      return 7;
+    case 'biweekly':
+      return 14;
+    case 'custom':
+      return Math.max(1, source.intervalDays ?? 14);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Expand an income schedule into individual deposits within [from, to] (inclusive)
+ *
+ * - 'once': a single deposit on startDate
+ * - 'weekly' / 'biweekly' / 'custom': every N days starting from startDate
+ * - 'semi-monthly': two fixed days each month (e.g., 1st and 15th), clamped to
+ *   the last day for short months so "31" lands on Feb 28/29
+ */
+export function expandIncomeSchedule(
+  source: IncomeSource,
+  from: Date,
+  to: Date
+): IncomeOccurrence[] {
+  const rangeStart = startOfDay(from);
+  const rangeEnd = startOfDay(to);
+  const start = startOfDay(parseISO(source.startDate));
+  const end = source.endDate ? startOfDay(parseISO(source.endDate)) : null;
+  const last = end && isBefore(end, rangeEnd) ? end : rangeEnd;
+
+  if (!source.isActive || source.amount <= 0 || isAfter(start, last)) {
+    return [];
+  }
+
+  const occurrences: IncomeOccurrence[] = [];
+  const push = (date: Date) => {
+    if (!isBefore(date, rangeStart) && !isAfter(date, last) && !isBefore(date, start)) {
+      occurrences.push({ sourceId: source.id, date, amount: source.amount });
+    }
+  };
+
+  if (source.frequency === 'once') {
+    push(start);
+    return occurrences;
+  }
+
+  if (source.frequency === 'semi-monthly') {
+    const days = source.semiMonthlyDays ?? DEFAULT_SEMI_MONTHLY_DAYS;
+    const sortedDays = [...days].sort((a, b) => a - b);
+    let month = startOfMonth(isAfter(rangeStart, start) ? rangeStart : start);
+    while (!isAfter(month, last)) {
+      const daysInMonth = getDaysInMonth(month);
+      for (const day of sortedDays) {
+        push(setDate(month, Math.min(Math.max(1, day), daysInMonth)));
+      }
+      month = addMonths(month, 1);
+    }
+    return occurrences;
+  }
+
+  const interval = getIntervalDays(source);
+  if (!interval) return occurrences;
+
+  // Jump straight to the first deposit on or after the range start
+  let date = start;
+  if (isBefore(date, rangeStart)) {
+    const elapsed = Math.round((rangeStart.getTime() - start.getTime()) / 86400000);
+    date = addDays(start, Math.ceil(elapsed / interval) * interval);
+  }
+  while (!isAfter(date, last)) {
+    push(date);
+    date = addDays(date, interval);
+  }
+  return occurrences;
+}
+
+/**
+ * Project a running balance day by day against pending and overdue payments
+ *
+ * The starting balance is taken as of the start of `balanceAsOf`. Income and
+ * paid installments between then and today are applied first, so the forecast
+ * stays accurate without re-entering the balance every day. Overdue payments
+ * and anything already past due land on today.
+ */
+export function buildCashFlowForecast(input: ForecastInput): CashFlowForecast {
+  const { settings, incomeSources, payments } = input;
+  const today = startOfDay(input.today ?? new Date());
+  const horizon = addDays(today, Math.max(1, settings.forecastDays) - 1);
+  const asOf = startOfDay(parseISO(settings.balanceAsOf));
+  const buffer = settings.minimumBuffer;
+
+  // Carry the balance forward from balanceAsOf to the start of today
+  let openingBalance = settings.startingBalance;
+  if (isBefore(asOf, today)) {
+    const yesterday = addDays(today, -1);
+    for (const source of incomeSources) {
+      for (const occurrence of expandIncomeSchedule(source, asOf, yesterday)) {
+        openingBalance += occurrence.amount;
+      }
+    }
+    for (const payment of payments) {
+      if (payment.status !== 'paid' || !payment.paidDate) continue;
+      const paidOn = startOfDay(parseISO(payment.paidDate));
+      if (!isBefore(paidOn, asOf) && isBefore(paidOn, today)) {
+        openingBalance -= getPaymentTotalDue(payment);
+      }
+    }
+  }
+
+  // Build empty day buckets
+  const days: CashFlowDay[] = [];
+  const byKey = new Map<string, CashFlowDay>();
+  for (let date = today; !isAfter(date, horizon); date = addDays(date, 1)) {
+    const day: CashFlowDay = {
+      date: date.toISOString(),
+      income: 0,
+      outgoing: 0,
+      balance: 0,
+      paymentIds: [],
+      incomeSourceIds: [],
+    };
+    days.push(day);
+    byKey.set(dayKey(date), day);
+  }
+
+  const incomeStart = isAfter(asOf, today) ? asOf : today;
+  for (const source of incomeSources) {
+    for (const occurrence of expandIncomeSchedule(source, incomeStart, horizon)) {
+      const day = byKey.get(dayKey(occurrence.date));
+      if (!day) continue;
+      day.income += occurrence.amount;
+      day.incomeSourceIds.push(source.id);
+    }
+  }
+
+  for (const payment of payments) {
+    let date: Date;
+    if (payment.status === 'paid') {
+      // Payments made today still leave the account today
+      if (!payment.paidDate) continue;
+      date = startOfDay(parseISO(payment.paidDate));
+      if (isBefore(date, today) || isBefore(date, asOf)) continue;
+    } else {
+      date = startOfDay(parseISO(payment.dueDate));
+      if (isBefore(date, today)) date = today;
+    }
+    const day = byKey.get(dayKey(date));
+    if (!day) continue;
+    day.outgoing += getPaymentTotalDue(payment);
+    day.paymentIds.push(payment.id);
+  }
+
+  // Running balance, lowest point and shortfall runs
+  let balance = openingBalance;
+  let firstNegativeDate: string | null = null;
+  let lowestBalance = openingBalance;
+  let lowestBalanceDate: string | null = null;
+  let totalIncome = 0;
+  let totalOutgoing = 0;
+  const shortfalls: CashFlowShortfall[] = [];
+  let currentRun: CashFlowShortfall | null = null;
+
+  for (const day of days) {
+    balance += day.income - day.outgoing;
+    day.balance = balance;
+    totalIncome += day.income;
+    totalOutgoing += day.outgoing;
+
+    if (balance < 0 && !firstNegativeDate) {
+      firstNegativeDate = day.date;
+    }
+    if (lowestBalanceDate === null || balance < lowestBalance) {
+      lowestBalance = balance;
+      lowestBalanceDate = day.date;
+    }
+
+    if (balance < buffer) {
+      if (!currentRun) {
+        currentRun = {
+          startDate: day.date,
+          endDate: day.date,
+          lowestBalance: balance,
+          lowestBalanceDate: day.date,
+          amountNeeded: buffer - balance,
+        };
+        shortfalls.push(currentRun);
+      }
+      currentRun.endDate = day.date;
+      if (balance < currentRun.lowestBalance) {
+        currentRun.lowestBalance = balance;
+        currentRun.lowestBalanceDate = day.date;
+        currentRun.amountNeeded = buffer - balance;
+      }
+    } else {
+      currentRun = null;
+    }
+  }
+
+  return {
+    days,
+    openingBalance,
+    firstNegativeDate,
+    lowestBalance,
+    lowestBalanceDate,
+    shortfalls,
+    totalIncome,
+    totalOutgoing,
+  };
+}
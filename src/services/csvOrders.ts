@@ -0,0 +1,318 @@
+import { format, parseISO } from 'date-fns';
+import type { Order, OrderImportRow, OrderType, Payment, Platform } from '../types';
+import { serializeCsv } from './csv';
+import { centsToDollars } from '../utils/currency';
+import { isValidDateString, normalizeDateString } from '../utils/date';
+import { getPaymentFees } from '../utils/payment';
+import { getOrderRefundedAmount } from '../utils/order';
+import { resolvePlatformId } from '../utils/platform';
+
+// ============================================
+// EXPORT
+// ============================================
+
+function formatDollars(cents: number | undefined): string {
+  return cents === undefined ? '' : centsToDollars(cents).toFixed(2);
+}
+
+function formatIsoDate(date: string | undefined): string {
+  return date ? format(parseISO(date), 'yyyy-MM-dd') : '';
+}
+
+/**
+ * Flat order sheet - one row per order, dollars and ISO dates
+ */
+export function buildOrdersCsv(orders: Order[], payments: Payment[], platforms: Platform[]): string {
+  const header = [
+    'Order ID',
+    'Created',
+    'Platform',
+    'Store',
+    'Order Type',
+    'Status',
+    'Total',
+    'Refunded',
+    'Fees',
+    'Installments',
+    'Paid Installments',
+    'First Payment',
+    'Interval Days',
+    'APR',
+    'Tags',
+    'Notes',
+    'Sale Amount',
+    'Sale Date',
+  ];
+
+  const rows = [...orders]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((order) => {
+      const orderPayments = payments.filter((p) => p.orderId === order.id);
+      return [
+        order.id,
+        formatIsoDate(order.createdAt),
+        platforms.find((p) => p.id === order.platformId)?.name ?? order.platformId,
+        order.storeName,
+        order.orderType ?? 'personal',
+        order.status,
+        formatDollars(order.totalAmount),
+        formatDollars(getOrderRefundedAmount(order)),
+        formatDollars(orderPayments.reduce((sum, p) => sum + getPaymentFees(p), 0)),
+        orderPayments.length,
+        orderPayments.filter((p) => p.status === 'paid').length,
+        formatIsoDate(order.firstPaymentDate),
+        order.intervalDays,
+        order.apr !== undefined ? Math.round(order.apr * 10000) / 100 : undefined,
+        order.tags?.join('; '),
+        order.notes,
+        formatDollars(order.saleAmount),
+        formatIsoDate(order.saleDate),
+      ];
+    });
+
+  return serializeCsv([header, ...rows]);
+}
+
+/**
+ * Flat payment sheet - one row per installment, joined to its order
+ */
+export function buildPaymentsCsv(payments: Payment[], orders: Order[], platforms: Platform[]): string {
+  const header = [
+    'Payment ID',
+    'Order ID',
+    'Platform',
+    'Store',
+    'Installment',
+    'Amount',
+    'Fees',
+    'Due Date',
+    'Original Due Date',
+    'Status',
+    'Paid Date',
+    'Paid On Time',
+  ];
+
+  const rows = [...payments]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((payment) => [
+      payment.id,
+      payment.orderId,
+      platforms.find((p) => p.id === payment.platformId)?.name ?? payment.platformId,
+      orders.find((o) => o.id === payment.orderId)?.storeName,
+      payment.installmentNumber,
+      formatDollars(payment.amount),
+      formatDollars(getPaymentFees(payment)),
+      formatIsoDate(payment.dueDate),
+      formatIsoDate(payment.originalDueDate),
+      payment.status,
+      formatIsoDate(payment.paidDate),
+      payment.paidOnTime === undefined ? '' : payment.paidOnTime ? 'yes' : 'no',
+    ]);
+
+  return serializeCsv([header, ...rows]);
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+export type CsvImportField =
+  | 'platform'
+  | 'totalAmount'
+  | 'firstPaymentDate'
+  | 'storeName'
+  | 'createdAt'
+  | 'installments'
+  | 'intervalDays'
+  | 'apr'
+  | 'tags'
+  | 'notes'
+  | 'orderType'
+  | 'paidInstallments';
+
+// Field -> column index in the CSV
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+export interface CsvImportFieldDefinition {
+  field: CsvImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // normalized header names that map to this field
+}
+
+export const CSV_IMPORT_FIELDS: CsvImportFieldDefinition[] = [
+  { field: 'platform', label: 'Platform', required: true, aliases: ['platform', 'provider', 'bnpl', 'service', 'app'] },
+  { field: 'totalAmount', label: 'Total', required: true, aliases: ['total', 'totalamount', 'amount', 'ordertotal', 'price'] },
+  { field: 'firstPaymentDate', label: 'First payment date', required: true, aliases: ['firstpayment', 'firstpaymentdate', 'firstdue', 'duedate', 'startdate'] },
+  { field: 'storeName', label: 'Store', required: false, aliases: ['store', 'storename', 'merchant', 'retailer', 'vendor', 'shop'] },
+  { field: 'createdAt', label: 'Order date', required: false, aliases: ['created', 'createdat', 'orderdate', 'purchasedate', 'date'] },
+  { field: 'installments', label: 'Installments', required: false, aliases: ['installments', 'instalments', 'payments', 'numberofpayments'] },
+  { field: 'intervalDays', label: 'Days between payments', required: false, aliases: ['intervaldays', 'interval', 'frequency', 'daysbetween'] },
+  { field: 'apr', label: 'APR %', required: false, aliases: ['apr', 'interestrate', 'rate'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tags', 'category', 'categories'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'memo', 'description'] },
+  { field: 'orderType', label: 'Order type', required: false, aliases: ['ordertype', 'type'] },
+  { field: 'paidInstallments', label: 'Installments paid', required: false, aliases: ['paidinstallments', 'paymentsmade', 'paid', 'installmentspaid'] },
+];
+
+const ORDER_TYPES: OrderType[] = ['personal', 'necessity', 'arbitrage'];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess which column holds each field from the header row
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const definition of CSV_IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && definition.aliases.includes(header)
+    );
+    if (index !== -1) {
+      mapping[definition.field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+export interface CsvImportRowResult {
+  rowNumber: number; // 1-based row in the sheet, counting the header
+  row?: OrderImportRow; // set when the row is valid
+  errors: string[];
+}
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  const num = Number(cleaned);
+  return isNaN(num) ? null : Math.round(num * 100);
+}
+
+function parseDate(value: string): string | null {
+  const date = normalizeDateString(value);
+  return date && isValidDateString(date) ? date : null;
+}
+
+function parseWholeNumber(value: string): number | null {
+  const num = Number(value.trim());
+  return Number.isInteger(num) ? num : null;
+}
+
+/**
+ * Validate mapped CSV rows into importable orders
+ *
+ * Every problem on a row is collected so the preview can show them all at
+ * once. Rows with errors have no `row` and are skipped on import.
+ */
+export function validateCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  platforms: Platform[]
+): CsvImportRowResult[] {
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const get = (field: CsvImportField): string => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    for (const definition of CSV_IMPORT_FIELDS) {
+      if (definition.required && !get(definition.field)) {
+        errors.push(`${definition.label} is required`);
+      }
+    }
+
+    const rawPlatform = get('platform');
+    const platformId = rawPlatform ? resolvePlatformId(rawPlatform, platforms) : null;
+    const platform = platforms.find((p) => p.id === platformId);
+    if (rawPlatform && !platform) {
+      errors.push(`Unknown platform "${rawPlatform}"`);
+    }
+
+    const rawTotal = get('totalAmount');
+    const totalAmount = rawTotal ? parseAmount(rawTotal) : null;
+    if (rawTotal && (totalAmount === null || totalAmount <= 0)) {
+      errors.push(`Invalid total "${rawTotal}"`);
+    }
+
+    const rawFirstPayment = get('firstPaymentDate');
+    const firstPaymentDate = rawFirstPayment ? parseDate(rawFirstPayment) : null;
+    if (rawFirstPayment && !firstPaymentDate) {
+      errors.push(`Invalid first payment date "${rawFirstPayment}"`);
+    }
+
+    const rawCreatedAt = get('createdAt');
+    const createdAt = rawCreatedAt ? parseDate(rawCreatedAt) : null;
+    if (rawCreatedAt && !createdAt) {
+      errors.push(`Invalid order date "${rawCreatedAt}"`);
+    }
+
+    const rawInstallments = get('installments');
+    const installments = rawInstallments ? parseWholeNumber(rawInstallments) : null;
+    if (rawInstallments && (installments === null || installments < 1 || installments > 60)) {
+      errors.push(`Installments must be a whole number from 1 to 60`);
+    }
+
+    const rawInterval = get('intervalDays');
+    const intervalDays = rawInterval ? parseWholeNumber(rawInterval) : null;
+    if (rawInterval && (intervalDays === null || intervalDays < 1 || intervalDays > 365)) {
+      errors.push(`Days between payments must be from 1 to 365`);
+    }
+
+    const rawApr = get('apr');
+    const aprPercent = rawApr ? Number(rawApr.replace('%', '').trim()) : null;
+    if (rawApr && (aprPercent === null || isNaN(aprPercent) || aprPercent < 0 || aprPercent > 100)) {
+      errors.push(`Invalid APR "${rawApr}"`);
+    }
+
+    const rawOrderType = get('orderType').toLowerCase();
+    const orderType = ORDER_TYPES.find((t) => t === rawOrderType);
+    if (rawOrderType && !orderType) {
+      errors.push(`Order type must be one of ${ORDER_TYPES.join(', ')}`);
+    }
+
+    const rawPaid = get('paidInstallments');
+    const paidInstallments = rawPaid ? parseWholeNumber(rawPaid) : null;
+    const installmentCount = installments ?? platform?.defaultInstallments ?? 0;
+    if (rawPaid && (paidInstallments === null || paidInstallments < 0 || paidInstallments > installmentCount)) {
+      errors.push(`Installments paid must be from 0 to ${installmentCount}`);
+    }
+
+    if (errors.length > 0 || !platform || !totalAmount || !firstPaymentDate) {
+      return { rowNumber, errors };
+    }
+
+    const tags = get('tags')
+      .split(/[;|]/)
+      .map((t) => t.trim())
+      .filter(Boolean);
+
+    return {
+      rowNumber,
+      errors,
+      row: {
+        input: {
+          platformId: platform.id,
+          storeName: get('storeName') || undefined,
+          totalAmount,
+          firstPaymentDate,
+          tags: tags.length > 0 ? tags : undefined,
+          notes: get('notes') || undefined,
+          intervalDays: intervalDays ?? undefined,
+          customInstallments: installments ?? undefined,
+          apr: aprPercent ? aprPercent / 100 : undefined,
+          orderType,
+          createdAt: createdAt ? `${createdAt}T00:00:00.000Z` : undefined,
+        },
+        paidInstallments: paidInstallments ?? undefined,
+      },
+    };
+  });
+}
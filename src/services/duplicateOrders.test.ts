@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLATFORMS } from '../constants/platforms';
+import type { NewOrderInput, Order } from '../types';
+import { findDuplicateOrders, findDuplicateRows, getStoreSimilarity } from './duplicateOrders';
+
+const platform = DEFAULT_PLATFORMS.find((p) => p.id === 'afterpay')!;
+
+const order: Order = {
+  id: 'order-1',
+  platformId: 'afterpay',
+  storeName: 'Target',
+  totalAmount: 10000,
+  firstPaymentDate: '2026-02-10',
+  status: 'active',
+  createdAt: '2026-02-10T00:00:00.000Z',
+};
+
+const input: NewOrderInput = {
+  platformId: 'afterpay',
+  storeName: 'Target',
+  totalAmount: 10000,
+  firstPaymentDate: '2026-02-10',
+};
+
+describe('getStoreSimilarity', () => {
+  it('ignores case, punctuation and company suffixes', () => {
+    expect(getStoreSimilarity('The Home Depot, Inc.', 'home depot')).toBe(1);
+    expect(getStoreSimilarity('Amazon', 'Amazon Marketplace')).toBe(0.9);
+  });
+
+  it('scores typos high and different stores low', () => {
+    expect(getStoreSimilarity('Best Buy', 'Best Buv')).toBeGreaterThan(0.8);
+    expect(getStoreSimilarity('Target', 'Walmart')).toBeLessThan(0.3);
+  });
+
+  it('has nothing to say about missing or unknown names', () => {
+    expect(getStoreSimilarity(undefined, 'Target')).toBeNull();
+    expect(getStoreSimilarity('Unknown', 'Target')).toBeNull();
+  });
+});
+
+describe('findDuplicateOrders', () => {
+  it('finds the same purchase entered again', () => {
+    const [match] = findDuplicateOrders({ ...input, storeName: 'target.com' }, [order], [], [platform]);
+    expect(match.order).toBe(order);
+    expect(match.reasons).toEqual(['Same total', 'Same first payment date', 'Same store', 'Same schedule']);
+  });
+
+  it('still matches when the new order has no store name', () => {
+    expect(findDuplicateOrders({ ...input, storeName: undefined }, [order], [], [platform])).toHaveLength(1);
+  });
+
+  it('never matches a different store, however well the rest lines up', () => {
+    expect(findDuplicateOrders({ ...input, storeName: 'Walmart' }, [order], [], [platform])).toEqual([]);
+  });
+
+  it('skips other platforms and orders that were cancelled or refunded', () => {
+    const orders: Order[] = [
+      { ...order, id: 'klarna', platformId: 'klarna' },
+      { ...order, id: 'cancelled', status: 'cancelled' },
+      { ...order, id: 'refunded', status: 'refunded' },
+    ];
+    expect(findDuplicateOrders(input, orders, [], [platform])).toEqual([]);
+  });
+
+  it('lets totals and dates drift a little', () => {
+    const [match] = findDuplicateOrders(
+      { ...input, totalAmount: 10100, firstPaymentDate: '2026-02-11' },
+      [order],
+      [],
+      [platform]
+    );
+    expect(match.reasons).toContain('Similar total');
+    expect(match.reasons).toContain('First payments 1 day apart');
+    expect(findDuplicateOrders({ ...input, totalAmount: 20000 }, [order], [], [platform])).toEqual([]);
+  });
+});
+
+describe('findDuplicateRows', () => {
+  it('finds the same purchase earlier in the batch', () => {
+    const earlier = [
+      { id: 'row-1', input: { ...input, storeName: 'Walmart' } },
+      { id: 'row-2', input },
+    ];
+    expect(findDuplicateRows(input, earlier, [platform])).toEqual([earlier[1]]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Spot orders that are already tracked - the same purchase entered twice by
+ * hand, pasted as JSON, read from a screenshot or imported again
+ *
+ * Candidates on the same platform are scored from 0 to 1 on four signals:
+ * total amount, first payment date, store name and schedule shape. Store
+ * names are compared loosely since screenshots and emails rarely spell the
+ * merchant the way it was typed in, but clearly different ones rule a match out.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { NewOrderInput, Order, Payment, Platform } from '../types';
+
+export interface DuplicateCandidate {
+  order: Order;
+  score: number; // 0-1
+  reasons: string[]; // what matched, for showing the user
+}
+
+// Scores at or above this are worth asking about
+export const DUPLICATE_THRESHOLD = 0.8;
+
+const WEIGHTS = { total: 0.35, date: 0.25, store: 0.2, schedule: 0.2 };
+
+// Totals more than this far apart (as a fraction) score nothing
+const TOTAL_TOLERANCE = 0.05;
+// First payments more than this many days apart score nothing
+const DATE_TOLERANCE_DAYS = 7;
+// Store names less alike than this are different shops, however well the rest matches
+const MIN_STORE_SIMILARITY = 0.3;
+
+// Noise around merchant names - "The Home Depot, Inc." vs "home depot"
+const STORE_NOISE = /\b(?:the|inc|llc|ltd|co|corp|store|stores|shop|online|us|usa|www|com)\b/g;
+
+function normalizeStoreName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(STORE_NOISE, ' ')
+    .replace(/\s+/g, '');
+}
+
+function getBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * How alike two store names are, 0-1 - null when either is missing
+ * Uses the Dice coefficient over letter pairs, so typos and OCR slips still
+ * score high.
+ */
+export function getStoreSimilarity(a: string | undefined, b: string | undefined): number | null {
+  const left = normalizeStoreName(a ?? '');
+  const right = normalizeStoreName(b ?? '');
+  if (!left || !right || left === 'unknown' || right === 'unknown') return null;
+  if (left === right) return 1;
+  // "amazon" vs "amazonmarketplace"
+  if (left.length >= 4 && right.length >= 4 && (left.includes(right) || right.includes(left))) return 0.9;
+
+  const leftBigrams = getBigrams(left);
+  const rightBigrams = getBigrams(right);
+  let shared = 0;
+  for (const [bigram, count] of leftBigrams) {
+    shared += Math.min(count, rightBigrams.get(bigram) ?? 0);
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1 || 1);
+}
+
+interface ScheduleShape {
+  installments: number;
+  interval: number | 'monthly';
+}
+
+function getInputShape(input: NewOrderInput, platform: Platform | undefined): ScheduleShape {
+  return {
+    installments: input.customInstallments ?? platform?.defaultInstallments ?? 4,
+    interval: input.scheduleMode === 'monthly' ? 'monthly' : (input.intervalDays ?? platform?.defaultIntervalDays ?? 14),
+  };
+}
+
+function getOrderShape(order: Order, orderPayments: Payment[], platform: Platform | undefined): ScheduleShape {
+  return {
+    installments: orderPayments.length || (order.customInstallments ?? platform?.defaultInstallments ?? 4),
+    interval: order.scheduleMode === 'monthly' ? 'monthly' : (order.intervalDays ?? platform?.defaultIntervalDays ?? 14),
+  };
+}
+
+function scoreCandidate(
+  input: NewOrderInput,
+  order: Order,
+  orderPayments: Payment[],
+  platform: Platform | undefined
+): DuplicateCandidate {
+  const reasons: string[] = [];
+
+  const totalGap = Math.abs(order.totalAmount - input.totalAmount) / Math.max(order.totalAmount, input.totalAmount, 1);
+  const totalScore = Math.abs(order.totalAmount - input.totalAmount) <= 1 ? 1 : Math.max(0, 1 - totalGap / TOTAL_TOLERANCE);
+  if (totalScore === 1) reasons.push('Same total');
+  else if (totalScore > 0) reasons.push('Similar total');
+
+  const days = Math.abs(differenceInCalendarDays(parseISO(order.firstPaymentDate), parseISO(input.firstPaymentDate)));
+  const dateScore = Math.max(0, 1 - days / DATE_TOLERANCE_DAYS);
+  if (days === 0) reasons.push('Same first payment date');
+  else if (dateScore > 0) reasons.push(`First payments ${days} day${days !== 1 ? 's' : ''} apart`);
+
+  // A missing store name neither helps nor hurts
+  const storeSimilarity = getStoreSimilarity(order.storeName, input.storeName);
+  if (storeSimilarity !== null && storeSimilarity < MIN_STORE_SIMILARITY) return { order, score: 0, reasons: [] };
+  const storeScore = storeSimilarity ?? 0.5;
+  if (storeSimilarity === 1) reasons.push('Same store');
+  else if (storeSimilarity !== null && storeSimilarity >= 0.6) reasons.push('Similar store name');
+
+  const inputShape = getInputShape(input, platform);
+  const orderShape = getOrderShape(order, orderPayments, platform);
+  const scheduleScore =
+    (inputShape.installments === orderShape.installments ? 0.5 : 0) +
+    (inputShape.interval === orderShape.interval ? 0.5 : 0);
+  if (scheduleScore === 1) reasons.push('Same schedule');
+
+  const score =
+    WEIGHTS.total * totalScore + WEIGHTS.date * dateScore + WEIGHTS.store * storeScore + WEIGHTS.schedule * scheduleScore;
+  return { order, score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Tracked orders that look like the same purchase as `input`, best match first
+ * Cancelled and refunded orders are left out - buying again after those is
+ * expected.
+ */
+export function findDuplicateOrders(
+  input: NewOrderInput,
+  orders: Order[],
+  payments: Payment[],
+  platforms: Platform[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateCandidate[] {
+  const platform = platforms.find((p) => p.id === input.platformId);
+  const candidates = orders.filter(
+    (order) => order.platformId === input.platformId && order.status !== 'cancelled' && order.status !== 'refunded'
+  );
+
+  const paymentsByOrder = new Map<string, Payment[]>(candidates.map((order) => [order.id, []]));
+  for (const payment of payments) {
+    paymentsByOrder.get(payment.orderId)?.push(payment);
+  }
+
+  return candidates
+    .map((order) => scoreCandidate(input, order, paymentsByOrder.get(order.id)!, platform))
+    .filter((candidate) => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Earlier rows of the same import that look like the same purchase as
+ * `input` - a screenshot taken twice, or a line pasted twice - best match first
+ */
+export function findDuplicateRows<T extends { id: string; input: NewOrderInput }>(
+  input: NewOrderInput,
+  earlier: T[],
+  platforms: Platform[],
+  threshold = DUPLICATE_THRESHOLD
+): T[] {
+  const drafts = earlier.map(
+    ({ id, input: row }): Order => ({
+      id,
+      platformId: row.platformId,
+      storeName: row.storeName,
+      totalAmount: row.totalAmount,
+      firstPaymentDate: row.firstPaymentDate,
+      status: 'active',
+      createdAt: row.createdAt ?? '',
+      intervalDays: row.intervalDays,
+      customInstallments: row.customInstallments,
+      scheduleMode: row.scheduleMode,
+    })
+  );
+  return findDuplicateOrders(input, drafts, [], platforms, threshold).map(
+    (candidate) => earlier.find((row) => row.id === candidate.order.id)!
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLATFORMS } from '../constants/platforms';
+import { parseOrderEmail } from './emailOrders';
+import { getEmailText, htmlToText, parseEmail } from './mime';
+import type { Platform } from '../types';
+
+const platforms: Platform[] = [...DEFAULT_PLATFORMS];
+
+// The sample emails in fixtures/emails, each next to the import row it should become
+const emails = import.meta.glob<string>('../../fixtures/emails/*.{eml,txt}', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+const expected = import.meta.glob<unknown>('../../fixtures/emails/*.expected.json', {
+  import: 'default',
+  eager: true,
+});
+
+const fixtures = Object.entries(emails).map(([path, raw]) => ({
+  name: path.split('/').pop()!,
+  raw,
+  expected: expected[path.replace(/\.(eml|txt)$/, '.expected.json')],
+}));
+
+describe('email fixtures', () => {
+  it('has an expected result for every sample email', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+    for (const fixture of fixtures) {
+      expect(fixture.expected, fixture.name).toBeDefined();
+    }
+  });
+
+  it.each(fixtures)('reads $name', ({ raw, expected }) => {
+    expect(parseOrderEmail(raw, platforms)).toEqual(expected);
+  });
+});
+
+describe('parseEmail', () => {
+  it('decodes encoded headers and skips attachments', () => {
+    const fixture = fixtures.find((f) => f.name === 'klarna-pay-in-4.eml')!;
+    const email = parseEmail(fixture.raw);
+
+    expect(email.from).toContain('Klarna');
+    expect(email.subject).toBe('Your purchase at Best Buy – Pay in 4');
+    expect(email.html).toContain('Best Buy');
+    expect(getEmailText(email)).not.toContain('receipt.pdf');
+  });
+});
+
+describe('htmlToText', () => {
+  it('decodes entities and leaves invalid code points as written', () => {
+    expect(htmlToText('<p>Ben &amp; Jerry&#39;s &#x2022; &#99999999;</p>')).toBe("Ben & Jerry's • &#99999999;");
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Order confirmation emails -> orders
+ *
+ * Every BNPL app emails a confirmation with the merchant, total and payment
+ * schedule. Each platform has a rule set for recognizing its emails and
+ * reading them; the schedule itself is found by the same text scanning the
+ * screenshot OCR uses. Sample emails with their expected results live in
+ * fixtures/emails for checking the rules offline.
+ */
+
+import type { NewOrderInput, OrderImportRow, Platform, PlatformId } from '../types';
+import { resolvePlatformId } from '../utils/platform';
+import { getEmailText, parseEmail } from './mime';
+import {
+  TOTAL_PATTERN,
+  findInstallments,
+  findLabeledAmount,
+  getScheduleRhythm,
+  type TextLine,
+} from './scheduleText';
+
+export interface EmailRules {
+  platform: PlatformId;
+  senders: RegExp; // sending domains
+  brand: RegExp; // mentions in the subject or body, for forwarded or pasted emails
+  stores: RegExp[]; // merchant name in capture group 1, tried against the subject then each line
+  total: RegExp; // label of the order total
+  ignore: RegExp; // lines whose amounts aren't installments
+  apr?: RegExp; // interest rate in percent, capture group 1
+}
+
+// Phrasings most of the apps share, e.g. "Your order with Target is confirmed"
+const COMMON_STORE_PATTERNS = [
+  /^(?:merchant|store|retailer)\s*:?\s*(.+)$/i,
+  /\b(?:order|purchase|payment plan|loan)\s+(?:with|at|from|for)\s+(.+?)(?:\s+(?:is|has|was|will)\b|\s+[-–—|]\s|[!.,]|$)/i,
+  /\b(?:you (?:bought|shopped|paid)|thanks for shopping)\s+(?:at|with|from)?\s*(.+?)(?:\s+(?:with|using)\b|[!.,]|$)/i,
+];
+
+export const EMAIL_RULES: EmailRules[] = [
+  {
+    platform: 'afterpay',
+    senders: /@(?:[\w-]+\.)*(?:afterpay|clearpay)\.com\b/i,
+    brand: /after\s?pay|clearpay/i,
+    stores: COMMON_STORE_PATTERNS,
+    total: /order total|total amount|^total\b/i,
+    ignore: /late fee|\bfees?\b|refund|remaining|balance|owed|available/i,
+  },
+  {
+    platform: 'klarna',
+    senders: /@(?:[\w-]+\.)*klarna\.com\b/i,
+    brand: /klarna/i,
+    stores: [/^your (?:klarna )?purchase (?:at|from|with) (.+?)(?:\s+[-–—|]\s|[!.]|$)/i, ...COMMON_STORE_PATTERNS],
+    total: /(?:purchase|order) (?:total|amount)|total amount|^total\b/i,
+    ignore: /\bfees?\b|remaining|balance|paid so far|refund/i,
+  },
+  {
+    platform: 'sezzle',
+    senders: /@(?:[\w-]+\.)*sezzle\.com\b/i,
+    brand: /sezzle/i,
+    stores: COMMON_STORE_PATTERNS,
+    total: /order total|^total\b/i,
+    ignore: /reschedul|\bfees?\b|remaining|balance|refund/i,
+  },
+  {
+    platform: 'zip',
+    senders: /@(?:[\w-]+\.)*(?:zip\.co|zip\.com|quadpay\.com)\b/i,
+    brand: /\bzip\b|quadpay/i,
+    stores: COMMON_STORE_PATTERNS,
+    total: /(?:order|purchase) total|^total\b/i,
+    ignore: /\bfees?\b|remaining|balance|refund|available/i,
+  },
+  {
+    platform: 'affirm',
+    senders: /@(?:[\w-]+\.)*affirm\.com\b/i,
+    brand: /affirm/i,
+    stores: [/^your (?:affirm )?loan (?:for|with|at) (.+?)(?:\s+(?:is|has|was)\b|[!.]|$)/i, ...COMMON_STORE_PATTERNS],
+    // The principal - payments add interest on top
+    total: /purchase amount|amount financed|loan amount/i,
+    ignore: /interest|%|total of payments|finance charge|remaining|balance|\bfees?\b/i,
+    apr: /(\d+(?:\.\d+)?)\s*%\s*APR|APR\s*:?\s*(\d+(?:\.\d+)?)\s*%/i,
+  },
+  {
+    platform: 'four',
+    senders: /@(?:[\w-]+\.)*paywithfour\.com\b/i,
+    brand: /paywithfour|\bFour\b(?! (?:payments|installments))/,
+    stores: COMMON_STORE_PATTERNS,
+    total: /order total|^total\b/i,
+    ignore: /\bfees?\b|remaining|balance|refund|available/i,
+  },
+];
+
+function detectRules(from: string, subject: string, lines: TextLine[]): EmailRules | undefined {
+  return (
+    EMAIL_RULES.find((rules) => rules.senders.test(from)) ??
+    EMAIL_RULES.find((rules) => rules.brand.test(subject)) ??
+    EMAIL_RULES.find((rules) => lines.some((line) => rules.brand.test(line.text)))
+  );
+}
+
+function findStore(rules: EmailRules, subject: string, lines: TextLine[]): string | undefined {
+  for (const pattern of rules.stores) {
+    for (const text of [subject, ...lines.map((line) => line.text)]) {
+      const store = text.match(pattern)?.[1]?.trim();
+      // Skip matches that are really the app's own name ("your order with Klarna")
+      if (store && !rules.brand.test(store) && store.length <= 60) {
+        return store;
+      }
+    }
+  }
+  return undefined;
+}
+
+function findApr(rules: EmailRules, lines: TextLine[]): number | undefined {
+  if (!rules.apr) return undefined;
+  for (const line of lines) {
+    const match = line.text.match(rules.apr);
+    if (match) return Number(match[1] ?? match[2]) / 100;
+  }
+  return undefined;
+}
+
+/**
+ * Read an order from a confirmation email - a raw .eml file or a pasted body
+ * Already-paid installments (usually the first, charged at checkout) come
+ * back as `paidInstallments`.
+ */
+export function parseOrderEmail(raw: string, platforms: Platform[]): OrderImportRow {
+  const email = parseEmail(raw);
+  const lines = getEmailText(email)
+    .split('\n')
+    .map((text) => ({ text, confidence: 1 }));
+
+  const rules = detectRules(email.from, email.subject, lines);
+  const platformId = rules && resolvePlatformId(rules.platform, platforms);
+  if (!rules || !platformId) {
+    throw new Error("Couldn't tell which BNPL platform this email is from.");
+  }
+
+  const payments = findInstallments(lines, rules.ignore);
+  if (payments.length === 0) {
+    throw new Error("Couldn't find a payment schedule in this email.");
+  }
+
+  const total = findLabeledAmount(lines, rules.total) ?? findLabeledAmount(lines, TOTAL_PATTERN);
+  const totalAmount = Math.round((total?.amount ?? payments.reduce((sum, p) => sum + p.amount, 0)) * 100);
+
+  const input: NewOrderInput = {
+    platformId,
+    storeName: findStore(rules, email.subject, lines),
+    totalAmount,
+    firstPaymentDate: payments[0].date,
+    customInstallments: payments.length,
+    apr: findApr(rules, lines),
+    ...getScheduleRhythm(payments.map((p) => p.date)),
+    paymentOverrides: Object.fromEntries(
+      payments.map((p, i) => [i + 1, { amount: Math.round(p.amount * 100), dueDate: p.date }])
+    ),
+    createdAt: email.date ?? undefined,
+  };
+
+  return { input, paidInstallments: payments.filter((p) => p.status === 'paid').length };
+}
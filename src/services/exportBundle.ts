@@ -0,0 +1,74 @@
+/**
+ * Export bundle - the JSON export plus order attachments in one .zip
+ *
+ * Layout:
+ *   bnpl-tracker-export.json    the same file a plain export downloads
+ *   attachments.json            attachment details and where each file is
+ *   attachments/<order id>/...  the files themselves
+ *
+ * In vault mode both JSON files are encrypted exports that open with the
+ * passphrase, and each file is sealed with the same key: a 12-byte IV
+ * followed by the AES-GCM ciphertext, saved as <attachment id>.enc so the
+ * file names stay in the encrypted attachments.json.
+ */
+
+import type { ExportedData, OrderAttachment } from '../types';
+import { attachmentStorage } from './attachmentStorage';
+import { vault } from './vault';
+import { createZip, type ZipEntry } from './zip';
+
+export const EXPORT_BUNDLE_DATA_FILE = 'bnpl-tracker-export.json';
+export const EXPORT_BUNDLE_MANIFEST_FILE = 'attachments.json';
+
+export interface ExportBundleManifestEntry extends OrderAttachment {
+  path: string; // inside the zip
+}
+
+function sanitizeFileName(name: string): string {
+  return (
+    Array.from(name, (char) => (char.charCodeAt(0) < 32 || '\\/:*?"<>|'.includes(char) ? '_' : char))
+      .join('')
+      .trim() || 'attachment'
+  );
+}
+
+/**
+ * Zip the export with the attachments of every order in it
+ */
+export async function createExportBundle(data: ExportedData): Promise<{ blob: Blob; attachmentCount: number }> {
+  const orderIds = new Set(data.orders.map((o) => o.id));
+  const attachments = (await attachmentStorage.getAllAttachments()).filter((a) => orderIds.has(a.orderId));
+  const isSealed = vault.isEnabled();
+  const toJson = async (value: unknown) => JSON.stringify(isSealed ? await vault.sealExport(value) : value, null, 2);
+
+  const manifest: ExportBundleManifestEntry[] = [];
+  const files: ZipEntry[] = [];
+  for (const a of attachments) {
+    // The ID prefix keeps two files with the same name apart
+    const path = isSealed
+      ? `attachments/${a.orderId}/${a.id}.enc`
+      : `attachments/${a.orderId}/${a.id.slice(0, 8)}-${sanitizeFileName(a.name)}`;
+    manifest.push({
+      id: a.id,
+      orderId: a.orderId,
+      kind: a.kind,
+      name: a.name,
+      type: a.type,
+      size: a.size,
+      createdAt: a.createdAt,
+      path,
+    });
+    files.push({
+      name: path,
+      data: isSealed ? await vault.sealBlob(a.blob) : a.blob,
+      modifiedAt: new Date(a.createdAt),
+    });
+  }
+
+  const blob = await createZip([
+    { name: EXPORT_BUNDLE_DATA_FILE, data: await toJson(data) },
+    { name: EXPORT_BUNDLE_MANIFEST_FILE, data: await toJson(manifest) },
+    ...files,
+  ]);
+  return { blob, attachmentCount: attachments.length };
+}
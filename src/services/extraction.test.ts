@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, mockFetch } from '../test/mockFetch';
+import {
+  DEFAULT_EXTRACTION_SETTINGS,
+  createExtractionProvider,
+  getExtractionSetupError,
+  parseExtractedOrder,
+} from './extraction';
+
+const image = { mimeType: 'image/png', base64: 'aW1hZ2U=' };
+
+const reply = `Here is the order:
+\`\`\`json
+{
+  "platform": "afterpay",
+  "store": "Target",
+  "total": 100,
+  "payments": [
+    {"amount": 25, "date": "Feb 10, 2026", "status": "paid"},
+    {"amount": 25, "date": "2/24/2026", "status": "pending"},
+    {"amount": 25, "date": "2026-03-10"},
+    {"amount": 25, "date": "24 Mar 2026", "status": "pending"}
+  ]
+}
+\`\`\``;
+
+describe('createExtractionProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends Gemini requests with the saved key', async () => {
+    const fetchMock = mockFetch(jsonResponse({ candidates: [{ content: { parts: [{ text: reply }] } }] }));
+    const provider = createExtractionProvider(DEFAULT_EXTRACTION_SETTINGS, { gemini: 'key' });
+
+    expect(parseExtractedOrder(await provider.generate(image, 'prompt')).store).toBe('Target');
+    expect(fetchMock.mock.calls[0][0]).toContain('generativelanguage.googleapis.com');
+  });
+
+  it('sends OpenAI-compatible requests to the configured endpoint', async () => {
+    const fetchMock = mockFetch(jsonResponse({ choices: [{ message: { content: reply } }] }));
+    const provider = createExtractionProvider(
+      { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'openai', openaiBaseUrl: 'http://localhost:8080/v1' },
+      {}
+    );
+
+    await provider.generate(image, 'prompt');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+  });
+
+  it('sends Ollama requests to the configured server', async () => {
+    const fetchMock = mockFetch(jsonResponse({ message: { content: reply } }));
+    const provider = createExtractionProvider({ ...DEFAULT_EXTRACTION_SETTINGS, provider: 'ollama' }, {});
+
+    await provider.generate(image, 'prompt');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+  });
+
+  it('refuses to build a provider that is not set up', () => {
+    expect(getExtractionSetupError(DEFAULT_EXTRACTION_SETTINGS, {})).toMatch(/Gemini API key/);
+    expect(() => createExtractionProvider(DEFAULT_EXTRACTION_SETTINGS, {})).toThrow(/Gemini API key/);
+    expect(() =>
+      createExtractionProvider({ ...DEFAULT_EXTRACTION_SETTINGS, provider: 'ollama', ollamaModel: '' }, {})
+    ).toThrow(/Ollama URL and model/);
+  });
+});
+
+describe('parseExtractedOrder', () => {
+  it('reads JSON out of a fenced reply and normalizes dates', () => {
+    expect(parseExtractedOrder(reply)).toEqual({
+      platform: 'afterpay',
+      store: 'Target',
+      total: 100,
+      payments: [
+        { amount: 25, date: '2026-02-10', status: 'paid' },
+        { amount: 25, date: '2026-02-24', status: 'pending' },
+        { amount: 25, date: '2026-03-10', status: 'pending' },
+        { amount: 25, date: '2026-03-24', status: 'pending' },
+      ],
+    });
+  });
+
+  it('totals the payments when the total is missing', () => {
+    const order = parseExtractedOrder(
+      '{"platform":"klarna","payments":[{"amount":10.1,"date":"2026-01-01"},{"amount":10.2,"date":"2026-01-15"}]}'
+    );
+    expect(order.total).toBe(20.3);
+    expect(order.store).toBe('Unknown');
+  });
+
+  it('explains what is missing', () => {
+    expect(() => parseExtractedOrder('{"payments":[]}')).toThrow("Couldn't detect BNPL platform");
+    expect(() => parseExtractedOrder('{"platform":"zip","payments":[]}')).toThrow("Couldn't find payment schedule");
+    expect(() => parseExtractedOrder('{"platform":"zip","payments":[{"amount":5,"date":"someday"}]}')).toThrow(
+      'Could not parse date "someday" for payment #1'
+    );
+  });
+
+  it('rejects replies that are not JSON', () => {
+    expect(() => parseExtractedOrder('Sorry, I cannot read this image.')).toThrow('Failed to analyze screenshot');
+    expect(() => parseExtractedOrder('Sorry.', 'Ollama')).toThrow('Ollama sent no order details');
+  });
+});
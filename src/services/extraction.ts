@@ -0,0 +1,361 @@
+/**
+ * AI screenshot extraction - turns a BNPL app screenshot into an order
+ *
+ * The prompt and validation are shared; providers only send the image and
+ * prompt to a model and hand back its text reply. Ollama and OpenAI-compatible
+ * endpoints can run entirely on the user's own machine, and with no provider
+ * set up the on-device OCR in ./ocr.ts reads the screenshot instead.
+ */
+
+import type { ApiKeys, ExtractionProviderId, ExtractionSettings, Platform } from '../types';
+import { createGeminiProvider } from './gemini';
+import { createOllamaProvider } from './ollama';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export interface ExtractedOrder {
+  platform: string;
+  store?: string;
+  total: number;
+  payments: Array<{
+    amount: number;
+    date: string;
+    status?: 'paid' | 'pending';
+  }>;
+  confidence?: ExtractedOrderConfidence; // set by on-device OCR - AI replies aren't scored
+}
+
+// How sure extraction is about each field, from 0 to 1
+export interface ExtractedOrderConfidence {
+  platform: number;
+  store: number;
+  total: number;
+  payments: Array<{ amount: number; date: number; status: number }>;
+}
+
+export type ExtractedField =
+  | 'platform'
+  | 'store'
+  | 'total'
+  | `payments.${number}.amount`
+  | `payments.${number}.date`
+  | `payments.${number}.status`;
+
+// Fields below this are highlighted for the user to check
+export const REVIEW_CONFIDENCE = 0.8;
+
+export interface ExtractionImage {
+  mimeType: string;
+  base64: string; // without the data: URL prefix
+}
+
+export interface ExtractionProvider {
+  name: string; // shown in error messages
+  // Send the screenshot and prompt, resolving to the model's text reply
+  generate(image: ExtractionImage, prompt: string): Promise<string>;
+}
+
+export const EXTRACTION_PROVIDER_LABELS: Record<ExtractionProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  ollama: 'Ollama (local)',
+};
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: 'gemini',
+  geminiModel: 'gemini-2.0-flash',
+  openaiBaseUrl: 'https://api.openai.com/v1',
+  openaiModel: 'gpt-4o-mini',
+  ollamaBaseUrl: 'http://localhost:11434',
+  ollamaModel: 'llama3.2-vision',
+};
+
+/**
+ * Fields extracted with low confidence, with their confidence
+ */
+export function getFieldsToReview(confidence: ExtractedOrderConfidence): Partial<Record<ExtractedField, number>> {
+  const fields: Partial<Record<ExtractedField, number>> = {};
+  const check = (field: ExtractedField, value: number) => {
+    if (value < REVIEW_CONFIDENCE) fields[field] = value;
+  };
+
+  check('platform', confidence.platform);
+  check('store', confidence.store);
+  check('total', confidence.total);
+  confidence.payments.forEach((payment, index) => {
+    check(`payments.${index}.amount`, payment.amount);
+    check(`payments.${index}.date`, payment.date);
+    check(`payments.${index}.status`, payment.status);
+  });
+  return fields;
+}
+
+/**
+ * Why screenshots can't be extracted with these settings yet, if anything
+ */
+export function getExtractionSetupError(settings: ExtractionSettings, apiKeys: ApiKeys): string | null {
+  switch (settings.provider) {
+    case 'gemini':
+      return apiKeys.gemini ? null : 'Please add your Gemini API key in Settings first';
+    case 'openai':
+      // The key is optional - local servers such as llama.cpp usually don't need one
+      return settings.openaiBaseUrl && settings.openaiModel
+        ? null
+        : 'Please set the endpoint URL and model in Settings first';
+    case 'ollama':
+      return settings.ollamaBaseUrl && settings.ollamaModel ? null : 'Please set the Ollama URL and model in Settings first';
+  }
+}
+
+export function createExtractionProvider(settings: ExtractionSettings, apiKeys: ApiKeys): ExtractionProvider {
+  const setupError = getExtractionSetupError(settings, apiKeys);
+  if (setupError) {
+    throw new Error(setupError);
+  }
+
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey: apiKeys.gemini!, model: settings.geminiModel });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.openaiBaseUrl,
+        model: settings.openaiModel,
+        apiKey: apiKeys.openai,
+      });
+    case 'ollama':
+      return createOllamaProvider({ baseUrl: settings.ollamaBaseUrl, model: settings.ollamaModel });
+  }
+}
+
+export async function extractOrderFromImage(
+  imageFile: File,
+  platforms: Platform[],
+  provider: ExtractionProvider
+): Promise<ExtractedOrder> {
+  // 1. Convert image to base64
+  const base64 = await fileToBase64(imageFile);
+
+  // 2. Ask the model, with the platform list from the user's platforms
+  const text = await provider.generate({ mimeType: imageFile.type, base64 }, buildExtractionPrompt(platforms));
+
+  // 3. Parse and validate the reply
+  return parseExtractedOrder(text, provider.name);
+}
+
+function buildExtractionPrompt(platforms: Platform[]): string {
+  const activePlatforms = platforms.filter((p) => !p.isArchived);
+  const platformIds = activePlatforms.map((p) => p.id).join('|');
+  return `Extract BNPL order details from this screenshot. Return ONLY valid JSON with no additional text:
+
+{
+  "platform": "${platformIds}",
+  "store": "Store Name",
+  "total": 123.45,
+  "payments": [
+    {"amount": 30.86, "date": "2025-01-24", "status": "paid|pending"}
+  ]
+}
+
+Rules:
+1. PLATFORM: Identify from app branding, colors, or logos. Sezzle is purple, Afterpay is mint green, Klarna is pink, Zip is blue, Affirm is blue, Four is orange.${buildCustomPlatformHint(activePlatforms)}
+2. STORE: Look for merchant name. If not visible, use "Unknown".
+3. TOTAL: Look for order total. If not visible, calculate by summing all payment amounts.
+4. PAYMENTS: Extract each payment with amount, date, and status.
+   - Convert all dates to YYYY-MM-DD format
+   - Status should be "paid" if marked paid/complete, otherwise "pending"
+   - Include ALL payments shown (typically 4 for most BNPL apps)
+5. AMOUNTS: Use numbers only, no currency symbols (e.g., 16.92 not $16.92)
+
+If you cannot identify a required field, make your best guess based on context rather than returning null.`;
+}
+
+/**
+ * Parse a model's text reply into a validated order. `source` names the
+ * provider in the error shown when the reply isn't JSON at all.
+ */
+export function parseExtractedOrder(text: string, source = 'The model'): ExtractedOrder {
+  // Extract JSON (handle markdown code blocks)
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonStr = jsonMatch ? jsonMatch[1].trim() : text.trim();
+
+  try {
+    const parsed = JSON.parse(jsonStr);
+    return validateExtractedOrder(parsed);
+  } catch (err) {
+    if (err instanceof Error) {
+      // Re-throw validation errors with helpful messages
+      if (err.message.startsWith("Couldn't") || err.message.startsWith('Could not')) {
+        throw err;
+      }
+    }
+    throw new Error(
+      `Failed to analyze screenshot: ${source} sent no order details. Please try again or use Paste JSON instead.`
+    );
+  }
+}
+
+/**
+ * Describe user-defined platforms so the model can map their names to IDs
+ */
+function buildCustomPlatformHint(platforms: Platform[]): string {
+  const custom = platforms.filter((p) => p.isCustom);
+  if (custom.length === 0) return '';
+  const names = custom.map((p) => `"${p.name}" is ${p.id}`).join(', ');
+  return ` Other platforms: ${names}.`;
+}
+
+export function validateExtractedOrder(data: unknown): ExtractedOrder {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Could not parse response from AI');
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  // Validate platform (required - can't guess)
+  if (typeof obj.platform !== 'string' || !obj.platform) {
+    throw new Error("Couldn't detect BNPL platform. Please select it manually.");
+  }
+
+  // Default store to "Unknown" if missing
+  const store = typeof obj.store === 'string' && obj.store ? obj.store : 'Unknown';
+
+  // Validate payments array (required)
+  if (!Array.isArray(obj.payments) || obj.payments.length === 0) {
+    throw new Error("Couldn't find payment schedule in screenshot. Make sure the payment dates are visible.");
+  }
+
+  // Validate each payment
+  const payments: Array<{ amount: number; date: string; status: 'paid' | 'pending' }> = [];
+  for (let i = 0; i < obj.payments.length; i++) {
+    const p = obj.payments[i] as Record<string, unknown> | null | undefined;
+    if (!p || typeof p.amount !== 'number' || isNaN(p.amount) || p.amount <= 0) {
+      throw new Error(`Could not extract amount for payment #${i + 1}`);
+    }
+    if (typeof p.date !== 'string' || !p.date) {
+      throw new Error(`Could not extract date for payment #${i + 1}`);
+    }
+
+    // Normalize date to YYYY-MM-DD format
+    let normalizedDate: string;
+    try {
+      normalizedDate = normalizeDate(p.date);
+    } catch {
+      throw new Error(`Could not parse date "${p.date}" for payment #${i + 1}`);
+    }
+
+    payments.push({
+      amount: p.amount,
+      date: normalizedDate,
+      status: p.status === 'paid' ? 'paid' : 'pending',
+    });
+  }
+
+  // Calculate total from payments if missing
+  let total = typeof obj.total === 'number' && !isNaN(obj.total) ? obj.total : 0;
+  if (!total || total <= 0) {
+    total = payments.reduce((sum, p) => sum + p.amount, 0);
+  }
+  // Round to 2 decimal places to avoid floating point issues
+  total = Math.round(total * 100) / 100;
+
+  if (total <= 0) {
+    throw new Error('Could not extract total amount from screenshot');
+  }
+
+  return { platform: obj.platform, store, total, payments };
+}
+
+/**
+ * Normalize date to YYYY-MM-DD format
+ * Handles the various formats models return: "Feb 10, 2026", "2/10/2026", "2026-02-10", etc.
+ * Avoids timezone issues by parsing explicitly without using Date constructor for text formats.
+ */
+export function normalizeDate(value: string): string {
+  const str = value.trim();
+
+  // Already YYYY-MM-DD format
+  if (/^\d{4}-\d{2}-\d{2}$/.test(str)) {
+    return str;
+  }
+
+  // MM/DD/YYYY format
+  const slashMatch = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashMatch) {
+    const [, m, d, y] = slashMatch;
+    return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  }
+
+  // YYYY/MM/DD format
+  const slashMatch2 = str.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  if (slashMatch2) {
+    const [, y, m, d] = slashMatch2;
+    return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  }
+
+  // Month name patterns - parse explicitly to avoid timezone issues
+  const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  const currentYear = new Date().getFullYear();
+
+  // "Month Day, Year" format (e.g., "Feb 10, 2026", "February 10, 2026")
+  const monthDayYear = str.match(/^([a-zA-Z]+)\s+(\d{1,2}),?\s*(\d{4})$/);
+  if (monthDayYear) {
+    const [, monthStr, day, year] = monthDayYear;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  // "Month Day" format without year (e.g., "Feb 10") - assume current/next year
+  const monthDay = str.match(/^([a-zA-Z]+)\s+(\d{1,2})$/);
+  if (monthDay) {
+    const [, monthStr, day] = monthDay;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      // If the date would be more than 30 days in the past, use next year
+      const testDate = new Date(currentYear, monthIndex, parseInt(day));
+      const now = new Date();
+      const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+      const year = testDate < thirtyDaysAgo ? currentYear + 1 : currentYear;
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  // "Day Month Year" format (e.g., "10 Feb 2026")
+  const dayMonthYear = str.match(/^(\d{1,2})\s+([a-zA-Z]+)\s+(\d{4})$/);
+  if (dayMonthYear) {
+    const [, day, monthStr, year] = dayMonthYear;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  // "Day Month" format without year (e.g., "10 Feb")
+  const dayMonth = str.match(/^(\d{1,2})\s+([a-zA-Z]+)$/);
+  if (dayMonth) {
+    const [, day, monthStr] = dayMonth;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      const testDate = new Date(currentYear, monthIndex, parseInt(day));
+      const now = new Date();
+      const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+      const year = testDate < thirtyDaysAgo ? currentYear + 1 : currentYear;
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  throw new Error(`Invalid date: ${str}`);
+}
+
+async function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Remove the data:image/...;base64, prefix
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = () => reject(new Error('Failed to read image file'));
+    reader.readAsDataURL(file);
+  });
+}
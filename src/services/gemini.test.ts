@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, mockFetch } from '../test/mockFetch';
+import { createGeminiProvider } from './gemini';
+
+const image = { mimeType: 'image/png', base64: 'aW1hZ2U=' };
+
+describe('createGeminiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the image and prompt with the key in a header', async () => {
+    const fetchMock = mockFetch(jsonResponse({ candidates: [{ content: { parts: [{ text: '{"ok":true}' }] } }] }));
+    const provider = createGeminiProvider({ apiKey: 'secret', model: 'gemini-2.0-flash', baseUrl: 'https://gemini.test/' });
+
+    await expect(provider.generate(image, 'Extract this')).resolves.toBe('{"ok":true}');
+
+    const [url, init = {}] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://gemini.test/v1beta/models/gemini-2.0-flash:generateContent');
+    expect(url).not.toContain('secret');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({ 'x-goog-api-key': 'secret' });
+    expect(JSON.parse(init.body as string).contents[0].parts).toEqual([
+      { inlineData: { mimeType: 'image/png', data: 'aW1hZ2U=' } },
+      { text: 'Extract this' },
+    ]);
+  });
+
+  it("surfaces the API's error message", async () => {
+    mockFetch(jsonResponse({ error: { message: 'API key not valid' } }, 400));
+    const provider = createGeminiProvider({ apiKey: 'bad', model: 'gemini-2.0-flash' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('API key not valid');
+  });
+
+  it('falls back to a generic error when the error body is not JSON', async () => {
+    mockFetch(new Response('Bad gateway', { status: 502 }));
+    const provider = createGeminiProvider({ apiKey: 'key', model: 'gemini-2.0-flash' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('Gemini API request failed');
+  });
+
+  it('rejects a reply without any text', async () => {
+    mockFetch(jsonResponse({ candidates: [] }));
+    const provider = createGeminiProvider({ apiKey: 'key', model: 'gemini-2.0-flash' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('No response from Gemini');
+  });
+});
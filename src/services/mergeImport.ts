@@ -0,0 +1,203 @@
+import type { ExportedData, LimitChange, IncomeSource, Order, Payment, Platform, Subscription } from '../types';
+
+// How to resolve a record that exists on both sides with different contents
+export type MergeStrategy =
+  | 'newer' // whichever side was changed most recently
+  | 'local' // keep what's on this device
+  | 'incoming'; // take the imported file's version
+
+export type MergeRecordKind = 'order' | 'payment';
+
+export interface MergeFieldDiff {
+  field: string;
+  local: unknown;
+  incoming: unknown;
+}
+
+export interface MergeConflict {
+  key: string; // `${kind}:${id}` - unique across kinds
+  kind: MergeRecordKind;
+  id: string;
+  local: Order | Payment;
+  incoming: Order | Payment;
+  diffs: MergeFieldDiff[];
+  newerSide: 'local' | 'incoming' | null; // null when neither side has a timestamp
+}
+
+export interface MergePlan {
+  incoming: ExportedData;
+  addedOrders: Order[];
+  addedPayments: Payment[];
+  unchangedCount: number; // identical on both sides
+  conflicts: MergeConflict[];
+  // Reference data is only ever added, never overwritten
+  addedPlatforms: Platform[];
+  addedSubscriptions: Subscription[];
+  addedLimitHistory: LimitChange[];
+  addedIncomeSources: IncomeSource[];
+}
+
+export interface MergeResolution {
+  strategy: MergeStrategy; // applies to every conflict without an override
+  overrides: Record<string, MergeStrategy>; // conflict key -> strategy
+}
+
+export interface MergeSummary {
+  added: number;
+  updated: number; // conflicts resolved to the incoming version
+  skipped: number; // identical records plus conflicts that kept the local version
+  conflicts: number;
+}
+
+export interface MergeChanges {
+  orders: Order[];
+  payments: Payment[];
+  platforms: Platform[];
+  subscriptions: Subscription[];
+  limitHistory: LimitChange[];
+  incomeSources: IncomeSource[];
+}
+
+// Bookkeeping fields that don't count as a difference
+const IGNORED_FIELDS = new Set(['updatedAt', 'revision']);
+
+/**
+ * Field-level differences between two versions of a record
+ */
+export function diffRecords(local: object, incoming: object): MergeFieldDiff[] {
+  const localRecord = local as Record<string, unknown>;
+  const incomingRecord = incoming as Record<string, unknown>;
+  const fields = new Set([...Object.keys(localRecord), ...Object.keys(incomingRecord)]);
+
+  const diffs: MergeFieldDiff[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(localRecord[field]) !== JSON.stringify(incomingRecord[field])) {
+      diffs.push({ field, local: localRecord[field], incoming: incomingRecord[field] });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Decide which side changed last from `updatedAt`
+ *
+ * Records saved before timestamps existed have none; a timestamped side beats
+ * an untimestamped one, and with neither the conflict is left undecided.
+ */
+function getNewerSide(local: { updatedAt?: string }, incoming: { updatedAt?: string }) {
+  if (!local.updatedAt && !incoming.updatedAt) return null;
+  if (!local.updatedAt) return 'incoming';
+  if (!incoming.updatedAt) return 'local';
+  return incoming.updatedAt > local.updatedAt ? 'incoming' : 'local';
+}
+
+function compareRecords<T extends Order | Payment>(
+  kind: MergeRecordKind,
+  localRecords: T[],
+  incomingRecords: T[]
+): { added: T[]; unchanged: number; conflicts: MergeConflict[] } {
+  const localById = new Map(localRecords.map((r) => [r.id, r]));
+  const added: T[] = [];
+  const conflicts: MergeConflict[] = [];
+  let unchanged = 0;
+
+  for (const incoming of incomingRecords) {
+    const local = localById.get(incoming.id);
+    if (!local) {
+      added.push(incoming);
+      continue;
+    }
+    const diffs = diffRecords(local, incoming);
+    if (diffs.length === 0) {
+      unchanged++;
+      continue;
+    }
+    conflicts.push({
+      key: `${kind}:${incoming.id}`,
+      kind,
+      id: incoming.id,
+      local,
+      incoming,
+      diffs,
+      newerSide: getNewerSide(local, incoming),
+    });
+  }
+
+  return { added, unchanged, conflicts };
+}
+
+function addMissing<T>(local: T[], incoming: T[] | undefined, getKey: (item: T) => string): T[] {
+  const keys = new Set(local.map(getKey));
+  return (incoming ?? []).filter((item) => !keys.has(getKey(item)));
+}
+
+/**
+ * Compare an imported export against local data, matching records by ID
+ *
+ * Nothing is written - the plan is shown for review, then applied with
+ * resolveMergePlan once each conflict has a strategy.
+ */
+export function buildMergePlan(local: ExportedData, incoming: ExportedData): MergePlan {
+  const orders = compareRecords('order', local.orders, incoming.orders);
+  const payments = compareRecords('payment', local.payments, incoming.payments);
+
+  return {
+    incoming,
+    addedOrders: orders.added,
+    addedPayments: payments.added,
+    unchangedCount: orders.unchanged + payments.unchanged,
+    conflicts: [...orders.conflicts, ...payments.conflicts],
+    addedPlatforms: addMissing(local.platforms, incoming.platforms, (p) => p.id),
+    addedSubscriptions: addMissing(local.subscriptions, incoming.subscriptions, (s) => s.platformId),
+    addedLimitHistory: addMissing(local.limitHistory ?? [], incoming.limitHistory, (l) => l.id),
+    addedIncomeSources: addMissing(local.incomeSources ?? [], incoming.incomeSources, (s) => s.id),
+  };
+}
+
+/**
+ * Which version a conflict resolves to under the given resolution
+ * Undecided 'newer' conflicts keep the local version.
+ */
+export function getConflictWinner(conflict: MergeConflict, resolution: MergeResolution): 'local' | 'incoming' {
+  const strategy = resolution.overrides[conflict.key] ?? resolution.strategy;
+  if (strategy === 'newer') {
+    return conflict.newerSide ?? 'local';
+  }
+  return strategy;
+}
+
+/**
+ * Turn a reviewed plan into the records to write and the counts to report
+ */
+export function resolveMergePlan(
+  plan: MergePlan,
+  resolution: MergeResolution
+): { changes: MergeChanges; summary: MergeSummary } {
+  const updated = plan.conflicts.filter((c) => getConflictWinner(c, resolution) === 'incoming');
+
+  const changes: MergeChanges = {
+    orders: [
+      ...plan.addedOrders,
+      ...updated.filter((c) => c.kind === 'order').map((c) => c.incoming as Order),
+    ],
+    payments: [
+      ...plan.addedPayments,
+      ...updated.filter((c) => c.kind === 'payment').map((c) => c.incoming as Payment),
+    ],
+    platforms: plan.addedPlatforms,
+    subscriptions: plan.addedSubscriptions,
+    limitHistory: plan.addedLimitHistory,
+    incomeSources: plan.addedIncomeSources,
+  };
+
+  return {
+    changes,
+    summary: {
+      added: plan.addedOrders.length + plan.addedPayments.length,
+      updated: updated.length,
+      skipped: plan.unchangedCount + plan.conflicts.length - updated.length,
+      conflicts: plan.conflicts.length,
+    },
+  };
+}
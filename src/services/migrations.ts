@@ -1,14 +1,20 @@
 /**
  * Data migrations for handling schema changes
+ *
+ * Every schema change is an entry in MIGRATIONS. The same registry upgrades
+ * live IndexedDB data (StorageService records the applied version) and old
+ * export files as they're imported.
  */
 
-import type { Order, Platform, PlatformId } from '../types';
+import type { ExportedData, PlatformId } from '../types';
 import type { PlatformTier } from '../constants/platforms';
 import { DEFAULT_PLATFORM_GOALS, DEFAULT_PLATFORM_TIERS } from '../constants/platforms';
 
-export interface MigrationContext {
-  orders: Order[];
-  platforms: Platform[];
+export interface Migration {
+  version: number; // schema version this migration produces
+  description: string;
+  // Must return the same array instance for any collection it doesn't change
+  migrate: (data: ExportedData) => ExportedData;
 }
 
 /**
@@ -30,48 +36,76 @@ export function getDefaultGoal(platformId: PlatformId): number {
  * - Add orderType: 'personal' to orders without it
  * - Add tier to platforms without it
  * - Add goalLimit to platforms without it
+ * - Add limitHistory for v1 files, which predate it
  */
-export function migrateToV2(data: MigrationContext): {
-  orders: Order[];
-  platforms: Platform[];
-  ordersChanged: boolean;
-  platformsChanged: boolean;
-} {
-  let ordersChanged = false;
-  let platformsChanged = false;
+function migrateToV2(data: ExportedData): ExportedData {
+  const needsOrderType = data.orders.some((order) => !order.orderType);
+  const needsPlatformDefaults = data.platforms.some(
+    (platform) => !platform.tier || platform.goalLimit === undefined
+  );
 
-  // Migrate orders - add default orderType
-  const migratedOrders = data.orders.map((order) => {
-    if (!order.orderType) {
-      ordersChanged = true;
-      return {
-        ...order,
-        orderType: 'personal' as const,
-      };
-    }
-    return order;
-  });
+  return {
+    ...data,
+    orders: needsOrderType
+      ? data.orders.map((order) => (order.orderType ? order : { ...order, orderType: 'personal' as const }))
+      : data.orders,
+    platforms: needsPlatformDefaults
+      ? data.platforms.map((platform) => ({
+          ...platform,
+          tier: platform.tier || getDefaultTier(platform.id),
+          goalLimit: platform.goalLimit ?? getDefaultGoal(platform.id),
+        }))
+      : data.platforms,
+    limitHistory: data.limitHistory ?? [],
+  };
+}
 
-  // Migrate platforms - add default tier and goalLimit
-  const migratedPlatforms = data.platforms.map((platform) => {
-    const needsTier = !platform.tier;
-    const needsGoal = platform.goalLimit === undefined;
+// Ordered by version - append new migrations, never edit shipped ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Default order types, platform tiers and goal limits',
+    migrate: migrateToV2,
+  },
+];
 
-    if (needsTier || needsGoal) {
-      platformsChanged = true;
-      return {
-        ...platform,
-        tier: platform.tier || getDefaultTier(platform.id),
-        goalLimit: platform.goalLimit ?? getDefaultGoal(platform.id),
-      };
-    }
-    return platform;
-  });
+// Data that predates the registry is treated as v1
+export const BASE_SCHEMA_VERSION = 1;
 
-  return {
-    orders: migratedOrders,
-    platforms: migratedPlatforms,
-    ordersChanged,
-    platformsChanged,
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Migrations still to run for data at the given version, in order
+ */
+export function getPendingMigrations(version: number): Migration[] {
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+/**
+ * Upgrade an export file of any supported version to the current schema
+ */
+export function upgradeExportedData(data: ExportedData): ExportedData {
+  if (!Number.isInteger(data.version) || data.version < BASE_SCHEMA_VERSION || data.version > SCHEMA_VERSION) {
+    throw new Error(
+      data.version > SCHEMA_VERSION
+        ? `This file is from a newer version of the app (data version ${data.version})`
+        : `Unsupported data version: ${data.version}`
+    );
+  }
+  if (!Array.isArray(data.orders)) {
+    throw new Error('Invalid data: orders must be an array');
+  }
+  if (!Array.isArray(data.payments)) {
+    throw new Error('Invalid data: payments must be an array');
+  }
+
+  let upgraded: ExportedData = {
+    ...data,
+    platforms: data.platforms || [],
+    subscriptions: data.subscriptions || [],
   };
+  for (const migration of getPendingMigrations(data.version)) {
+    upgraded = { ...migration.migrate(upgraded), version: migration.version };
+  }
+  return upgraded;
 }
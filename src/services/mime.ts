@@ -0,0 +1,236 @@
+/**
+ * Minimal MIME reader for saved emails (.eml) and pasted email bodies
+ *
+ * Only what's needed to get at an email's text: headers (with RFC 2047
+ * encoded words), nested multipart bodies, base64 and quoted-printable
+ * encodings, and charsets. Attachments are skipped.
+ */
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  date: string | null; // ISO timestamp from the Date header
+  text: string | null; // text/plain body
+  html: string | null; // text/html body
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+interface ContentType {
+  type: string; // lowercased, e.g. text/html
+  params: Record<string, string>;
+}
+
+function splitPart(raw: string): MimePart {
+  const separator = raw.search(/\n\n/);
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator + 2);
+
+  const headers = new Map<string, string>();
+  // Folded headers continue on lines starting with whitespace
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+  return { headers, body };
+}
+
+function parseContentType(value: string | undefined): ContentType {
+  const [type, ...rest] = (value ?? 'text/plain').split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const match = param.match(/^\s*([\w*-]+)\s*=\s*"?([^"]*)"?\s*$/);
+    if (match) params[match[1].toLowerCase()] = match[2];
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value.replace(/[^A-Za-z0-9+/=]/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Bytes of a quoted-printable body - `=XX` escapes and `=` soft line breaks
+function quotedPrintableToBytes(value: string, isHeader = false): Uint8Array {
+  const text = isHeader ? value.replace(/_/g, ' ') : value.replace(/=\n/g, '');
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Characters above 0x7f were decoded as UTF-8 when the file was read
+      bytes.push(...encoder.encode(text[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. =?UTF-8?Q?Caf=C3=A9?=
+ */
+export function decodeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2') // whitespace between encoded words is dropped
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) =>
+      decodeBytes(
+        encoding.toUpperCase() === 'B' ? base64ToBytes(text) : quotedPrintableToBytes(text, true),
+        charset
+      )
+    );
+}
+
+function decodeBody(part: MimePart, contentType: ContentType): string {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') {
+    return decodeBytes(base64ToBytes(part.body), contentType.params.charset);
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeBytes(quotedPrintableToBytes(part.body), contentType.params.charset);
+  }
+  return part.body;
+}
+
+// Collect the first text and HTML bodies, depth first
+function collectBodies(part: MimePart, bodies: { text: string | null; html: string | null }): void {
+  const contentType = parseContentType(part.headers.get('content-type'));
+  if (/^attachment/i.test(part.headers.get('content-disposition') ?? '')) return;
+
+  if (contentType.type.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = part.body.split(delimiter).slice(1); // before the first delimiter is preamble
+    for (const section of sections) {
+      if (section.startsWith('--')) break; // closing delimiter
+      collectBodies(splitPart(section.replace(/^[ \t]*\n/, '')), bodies);
+    }
+  } else if (contentType.type === 'message/rfc822') {
+    // A forwarded email attached whole
+    collectBodies(splitPart(decodeBody(part, contentType)), bodies);
+  } else if (contentType.type === 'text/html') {
+    bodies.html ??= decodeBody(part, contentType);
+  } else if (contentType.type === 'text/plain') {
+    bodies.text ??= decodeBody(part, contentType);
+  }
+}
+
+/**
+ * Whether text starts with email headers, as a saved .eml does
+ */
+function hasHeaders(text: string): boolean {
+  const head = text.slice(0, text.search(/\n\n|$/));
+  return /^[\w-]+:/.test(text) && /^(?:from|subject|content-type|mime-version|received|return-path):/im.test(head);
+}
+
+/**
+ * Parse a raw email - a full .eml file, or just a pasted body (text or HTML)
+ */
+export function parseEmail(raw: string): ParsedEmail {
+  const normalized = raw.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '');
+
+  if (!hasHeaders(normalized)) {
+    const isHtml = /<(?:html|body|table|div|p|br)\b/i.test(normalized);
+    return {
+      subject: '',
+      from: '',
+      date: null,
+      text: isHtml ? null : normalized,
+      html: isHtml ? normalized : null,
+    };
+  }
+
+  const root = splitPart(normalized);
+  const bodies = { text: null as string | null, html: null as string | null };
+  collectBodies(root, bodies);
+
+  const date = root.headers.get('date');
+  const parsedDate = date ? new Date(date) : null;
+  return {
+    subject: decodeHeader(root.headers.get('subject') ?? ''),
+    from: decodeHeader(root.headers.get('from') ?? ''),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : null,
+    ...bodies,
+  };
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  ndash: '–',
+  mdash: '—',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Visible text of an HTML email, one line per block or table row
+ * Table cells in a row are joined on one line so labels stay next to values.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<\/t[dh]>/gi, ' ')
+      .replace(/<(?:br|hr)\b[^>]*>|<\/?(?:p|div|tr|li|ul|ol|table|h[1-6]|section|header|footer|blockquote)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+/**
+ * An email's readable text, preferring the HTML body's structure
+ */
+export function getEmailText(email: ParsedEmail): string {
+  if (email.html) return htmlToText(email.html);
+  return (email.text ?? '')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line !== '')
+    .join('\n');
+}
@@ -0,0 +1,65 @@
+/**
+ * On-device screenshot reading - the fallback when no AI provider is set up
+ *
+ * Tesseract runs as WebAssembly in a web worker. Its engine and English model
+ * are bundled with the app rather than fetched from a CDN, so it works offline
+ * and screenshots never leave the device.
+ */
+
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+// SIMD build - every current browser supports it, and it's roughly twice as fast
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { Platform } from '../types';
+import { validateExtractedOrder, type ExtractedOrder } from './extraction';
+import { parseOcrLines } from './ocrParsers';
+import type { TextLine } from './scheduleText';
+
+function toAbsoluteUrl(url: string): string {
+  // The worker resolves paths against its own location
+  return new URL(url, window.location.href).href;
+}
+
+/**
+ * Read the lines of text in an image
+ */
+export async function recognizeLines(image: File): Promise<TextLine[]> {
+  // Loaded on first use - the engine is large and most imports never need it
+  const { createWorker, OEM } = await import('tesseract.js');
+
+  const englishData = new Uint8Array(await (await fetch(englishDataUrl)).arrayBuffer());
+  const worker = await createWorker([{ code: 'eng', data: englishData }], OEM.LSTM_ONLY, {
+    workerPath: toAbsoluteUrl(workerUrl),
+    corePath: toAbsoluteUrl(coreUrl),
+    workerBlobURL: false,
+    cacheMethod: 'none',
+  });
+
+  try {
+    const { data } = await worker.recognize(image, {}, { blocks: true });
+    return (data.blocks ?? [])
+      .flatMap((block) => block.paragraphs)
+      .flatMap((paragraph) => paragraph.lines)
+      .map((line) => ({ text: line.text.trim(), confidence: line.confidence / 100 }))
+      .filter((line) => line.text !== '');
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Extract an order from a screenshot without any AI provider
+ * Every field carries a confidence so the form can flag what to check.
+ */
+export async function extractOrderWithOcr(image: File, platforms: Platform[]): Promise<ExtractedOrder> {
+  let lines: TextLine[];
+  try {
+    lines = await recognizeLines(image);
+  } catch (err) {
+    console.error('[OCR] Recognition failed:', err);
+    throw new Error("Couldn't read the screenshot on this device. Try again or use Paste JSON instead.");
+  }
+
+  const { order, confidence } = parseOcrLines(lines, platforms);
+  return { ...validateExtractedOrder(order), confidence };
+}
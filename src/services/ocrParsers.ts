@@ -0,0 +1,162 @@
+/**
+ * Turn OCR'd screenshot text into an order, one layout per BNPL app
+ *
+ * The apps all show a schedule of dates and amounts, but differ in branding,
+ * how they label the total and merchant, and which other amounts (fees,
+ * interest, balances) sit next to the schedule. Each field comes back with a
+ * confidence from 0 to 1, combining how sure the OCR engine was about the
+ * line with how sure the parser is about what the line means.
+ */
+
+import type { Platform, PlatformId } from '../types';
+import type { ExtractedOrder, ExtractedOrderConfidence } from './extraction';
+import { TOTAL_PATTERN, findInstallments, findLabeledAmount, type TextLine } from './scheduleText';
+
+export interface OcrLayout {
+  platform: PlatformId;
+  brand: RegExp; // text that identifies the app
+  total: RegExp; // label of the order total
+  store: RegExp; // label followed by the merchant name (capture group 1)
+  ignore: RegExp; // lines whose amounts aren't installments
+}
+
+export interface OcrParseResult {
+  order: ExtractedOrder;
+  confidence: ExtractedOrderConfidence;
+}
+
+// Shared by every layout - labels a merchant name may follow
+const STORE_LABEL = /^(?:merchant|store|retailer|order from|purchased? (?:at|from)|shop(?:ped)? at|paid to)\s*:?\s*(.+)$/i;
+
+export const OCR_LAYOUTS: OcrLayout[] = [
+  {
+    platform: 'afterpay',
+    brand: /after\s?pay|clearpay/i,
+    total: /order total|total amount|^total\b/i,
+    store: STORE_LABEL,
+    ignore: /late fee|\bfees?\b|refund|remaining|balance|owed|available|spending limit/i,
+  },
+  {
+    platform: 'klarna',
+    brand: /klarna/i,
+    total: /(?:purchase|order) (?:total|amount)|total amount|^total\b/i,
+    store: STORE_LABEL,
+    ignore: /\bfees?\b|remaining|balance|paid so far|refund|purchase power/i,
+  },
+  {
+    platform: 'sezzle',
+    brand: /sezzle/i,
+    total: /order total|^total\b/i,
+    store: STORE_LABEL,
+    ignore: /reschedul|\bfees?\b|remaining|balance|refund|spending power/i,
+  },
+  {
+    platform: 'zip',
+    brand: /\bzip\b|quadpay/i,
+    total: /(?:order|purchase) total|^total\b/i,
+    store: STORE_LABEL,
+    ignore: /\bfees?\b|remaining|balance|refund|available/i,
+  },
+  {
+    platform: 'affirm',
+    brand: /affirm/i,
+    // The principal - payments add interest on top
+    total: /purchase amount|amount financed|loan amount|^total purchase/i,
+    store: STORE_LABEL,
+    ignore: /interest|%|total of payments|finance charge|remaining|balance|\bfees?\b/i,
+  },
+  {
+    platform: 'four',
+    // "Four" alone is too common ("Pay in four"), so only the logo line or the domain
+    brand: /paywithfour|^four$/i,
+    total: /order total|^total\b/i,
+    store: STORE_LABEL,
+    ignore: /\bfees?\b|remaining|balance|refund|available/i,
+  },
+];
+
+// Words that show up as headings but are never a merchant name
+const UI_WORDS = /^(?:order|orders|details|payment|payments|schedule|plan|home|back|done|manage|summary|purchase|upcoming|history|pay in \d|pay now)\b/i;
+
+/**
+ * Which app the screenshot came from, with a confidence
+ * Custom platforms are matched by name.
+ */
+function detectPlatform(lines: TextLine[], platforms: Platform[]): { platform: string; confidence: number } {
+  let best = { platform: 'unknown', confidence: 0 };
+  const consider = (platform: string, pattern: RegExp) => {
+    for (const line of lines) {
+      if (pattern.test(line.text.trim()) && line.confidence > best.confidence) {
+        best = { platform, confidence: line.confidence };
+      }
+    }
+  };
+
+  for (const layout of OCR_LAYOUTS) {
+    consider(layout.platform, layout.brand);
+  }
+  for (const platform of platforms.filter((p) => p.isCustom)) {
+    const name = platform.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    consider(platform.id, new RegExp(`\\b${name}\\b`, 'i'));
+  }
+  return best;
+}
+
+function findStore(lines: TextLine[], layout: OcrLayout | undefined): { store: string; confidence: number } | null {
+  for (const line of lines) {
+    const match = line.text.trim().match(layout?.store ?? STORE_LABEL);
+    if (match?.[1]) {
+      return { store: match[1].trim(), confidence: line.confidence * 0.9 };
+    }
+  }
+
+  // Most apps show the merchant as a heading near the top
+  for (const line of lines.slice(0, 6)) {
+    const text = line.text.trim();
+    const isHeading =
+      text.length >= 2 &&
+      text.length <= 40 &&
+      !/\d/.test(text) &&
+      !UI_WORDS.test(text) &&
+      !OCR_LAYOUTS.some((l) => l.brand.test(text));
+    if (isHeading) {
+      return { store: text, confidence: line.confidence * 0.5 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse OCR'd lines into an order, ready for validateExtractedOrder
+ */
+export function parseOcrLines(lines: TextLine[], platforms: Platform[]): OcrParseResult {
+  const detected = detectPlatform(lines, platforms);
+  const layout = OCR_LAYOUTS.find((l) => l.platform === detected.platform);
+
+  const installments = findInstallments(lines, layout?.ignore);
+  const store = findStore(lines, layout);
+  const total = findLabeledAmount(lines, layout?.total ?? TOTAL_PATTERN);
+
+  const paymentsSum = Math.round(installments.reduce((sum, p) => sum + p.amount, 0) * 100) / 100;
+  let totalConfidence = 0.5; // summed from the payments
+  if (total) {
+    // Affirm adds interest, so only the other apps' schedules should add up
+    const addsUp = detected.platform === 'affirm' || Math.abs(total.amount - paymentsSum) < 0.05;
+    totalConfidence = total.confidence * (addsUp ? 1 : 0.6);
+  }
+
+  return {
+    order: {
+      platform: detected.platform,
+      store: store?.store,
+      total: total?.amount ?? 0,
+      payments: installments.map(({ amount, date, status }) => ({ amount, date, status })),
+    },
+    confidence: {
+      platform: detected.confidence,
+      store: store?.confidence ?? 0,
+      total: totalConfidence,
+      payments: installments.map((p) => p.confidence),
+    },
+  };
+}
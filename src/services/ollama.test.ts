@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, mockFetch } from '../test/mockFetch';
+import { createOllamaProvider } from './ollama';
+
+const image = { mimeType: 'image/jpeg', base64: 'aW1hZ2U=' };
+
+describe('createOllamaProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks the chat API for a JSON reply with the image attached', async () => {
+    const fetchMock = mockFetch(jsonResponse({ message: { role: 'assistant', content: '{"ok":true}' } }));
+    const provider = createOllamaProvider({ baseUrl: 'http://localhost:11434/', model: 'llama3.2-vision' });
+
+    await expect(provider.generate(image, 'Extract this')).resolves.toBe('{"ok":true}');
+
+    const [url, init = {}] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: 'llama3.2-vision',
+      messages: [{ role: 'user', content: 'Extract this', images: ['aW1hZ2U='] }],
+      format: 'json',
+      stream: false,
+    });
+  });
+
+  it('explains when Ollama cannot be reached', async () => {
+    mockFetch(new TypeError('Failed to fetch'));
+    const provider = createOllamaProvider({ baseUrl: 'http://localhost:11434', model: 'llama3.2-vision' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow(
+      "Can't reach Ollama at http://localhost:11434. Is it running and allowing this site?"
+    );
+  });
+
+  it("surfaces Ollama's error message", async () => {
+    mockFetch(jsonResponse({ error: 'model "llava" not found, try pulling it first' }, 404));
+    const provider = createOllamaProvider({ baseUrl: 'http://localhost:11434', model: 'llava' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('model "llava" not found');
+  });
+
+  it('falls back to the status code when the error body is not JSON', async () => {
+    mockFetch(new Response('Internal Server Error', { status: 500 }));
+    const provider = createOllamaProvider({ baseUrl: 'http://localhost:11434', model: 'llava' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('Ollama request failed (500)');
+  });
+
+  it('rejects an empty reply', async () => {
+    mockFetch(jsonResponse({ message: { role: 'assistant', content: '' } }));
+    const provider = createOllamaProvider({ baseUrl: 'http://localhost:11434', model: 'llava' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('No response from Ollama');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Ollama extraction provider - runs a vision model on the user's own machine
+ *
+ * The browser can only call Ollama if it allows the app's origin, e.g. by
+ * starting it with OLLAMA_ORIGINS set to the app's URL.
+ */
+
+import type { ExtractionProvider } from './extraction';
+
+export interface OllamaProviderOptions {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string; // a vision model, e.g. llama3.2-vision
+}
+
+export function createOllamaProvider({ baseUrl, model }: OllamaProviderOptions): ExtractionProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'Ollama',
+    async generate(image, prompt) {
+      let response: Response;
+      try {
+        response = await fetch(`${root}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            messages: [{ role: 'user', content: prompt, images: [image.base64] }],
+            format: 'json',
+            stream: false,
+            options: { temperature: 0.1 },
+          }),
+        });
+      } catch {
+        throw new Error(`Can't reach Ollama at ${root}. Is it running and allowing this site?`);
+      }
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || `Ollama request failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      const text = data.message?.content;
+      if (!text) {
+        throw new Error('No response from Ollama');
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, mockFetch } from '../test/mockFetch';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+const image = { mimeType: 'image/png', base64: 'aW1hZ2U=' };
+
+describe('createOpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts a chat completion with the image as a data URL', async () => {
+    const fetchMock = mockFetch(jsonResponse({ choices: [{ message: { content: '{"ok":true}' } }] }));
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: 'https://api.openai.test/v1/',
+      model: 'gpt-4o-mini',
+      apiKey: 'sk-test',
+    });
+
+    await expect(provider.generate(image, 'Extract this')).resolves.toBe('{"ok":true}');
+
+    const [url, init = {}] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.test/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe('gpt-4o-mini');
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'Extract this' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aW1hZ2U=' } },
+    ]);
+  });
+
+  it('leaves out the Authorization header for local servers without a key', async () => {
+    const fetchMock = mockFetch(jsonResponse({ choices: [{ message: { content: 'reply' } }] }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'local' });
+
+    await provider.generate(image, 'prompt');
+
+    const [, init = {}] = fetchMock.mock.calls[0];
+    expect(init.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('explains when the endpoint cannot be reached', async () => {
+    mockFetch(new TypeError('Failed to fetch'));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'local' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow("Can't reach http://localhost:8080/v1/chat/completions");
+  });
+
+  it("surfaces the server's error message", async () => {
+    mockFetch(jsonResponse({ error: { message: 'Incorrect API key provided' } }, 401));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'https://api.openai.test/v1', model: 'gpt-4o-mini' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('Incorrect API key provided');
+  });
+
+  it('falls back to the status code when the error body is not JSON', async () => {
+    mockFetch(new Response('Service Unavailable', { status: 503 }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'https://api.openai.test/v1', model: 'gpt-4o-mini' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('Extraction request failed (503)');
+  });
+
+  it('rejects a reply without any choices', async () => {
+    mockFetch(jsonResponse({ choices: [] }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'https://api.openai.test/v1', model: 'gpt-4o-mini' });
+
+    await expect(provider.generate(image, 'prompt')).rejects.toThrow('No response from the model');
+  });
+});
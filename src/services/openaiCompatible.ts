@@ -0,0 +1,66 @@
+/**
+ * OpenAI-compatible extraction provider
+ *
+ * Works with any server implementing the chat completions API with image
+ * input - OpenAI itself, or local servers such as llama.cpp's `llama-server`
+ * and LM Studio, which keep screenshots on the user's machine.
+ */
+
+import type { ExtractionProvider } from './extraction';
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // up to and including /v1, e.g. http://localhost:8080/v1
+  model: string;
+  apiKey?: string; // local servers usually don't need one
+}
+
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  model,
+  apiKey,
+}: OpenAICompatibleProviderOptions): ExtractionProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'OpenAI-compatible endpoint',
+    async generate(image, prompt) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: prompt },
+                  { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+                ],
+              },
+            ],
+            temperature: 0.1,
+          }),
+        });
+      } catch {
+        throw new Error(`Can't reach ${url}`);
+      }
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error?.message || `Extraction request failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error('No response from the model');
+      }
+      return text;
+    },
+  };
+}
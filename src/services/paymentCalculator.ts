@@ -1,5 +1,11 @@
-import { addDays, format, parseISO, differenceInDays } from 'date-fns';
-import type { CalculatedPayment, Payment } from '../types';
+import { addDays, addMonths, format, parseISO, differenceInDays } from 'date-fns';
+import type {
+  CalculatedPayment,
+  Payment,
+  RefundAdjustment,
+  RefundStrategy,
+  ScheduleMode,
+} from '../types';
 
 interface PaymentCalculationInput {
   totalAmount: number; // in cents
@@ -7,6 +13,7 @@ interface PaymentCalculationInput {
   installments: number;
   intervalDays: number;
   apr?: number; // Annual Percentage Rate as decimal (e.g., 0.15 = 15%)
+  scheduleMode?: ScheduleMode; // defaults to 'interval'
 }
 
 interface PaymentCalculationResult {
@@ -25,6 +32,9 @@ interface PaymentCalculationResult {
  * For Affirm with APR:
  * - Uses simple interest calculation spread across payments
  * - Each payment is principal + proportional interest
+ *
+ * Monthly schedules land on the same day each calendar month and, with an
+ * APR, follow a real amortization table (see buildAmortizationSchedule)
  */
 export function calculatePayments(input: PaymentCalculationInput): PaymentCalculationResult {
   const { totalAmount, firstPaymentDate, installments, intervalDays, apr } = input;
@@ -37,6 +47,10 @@ export function calculatePayments(input: PaymentCalculationInput): PaymentCalcul
     throw new Error('Amount cannot be negative');
   }
 
+  if (input.scheduleMode === 'monthly') {
+    return calculateMonthlyPayments(totalAmount, firstPaymentDate, installments, apr ?? 0);
+  }
+
   // Calculate total duration in years for interest calculation
   const totalDays = (installments - 1) * intervalDays;
   const durationYears = totalDays / 365;
@@ -114,6 +128,18 @@ export function applyPaymentOverrides(
   };
 }
 
+/**
+ * Level payment for a fully amortizing loan
+ * Amortization formula: P * [r(1+r)^n] / [(1+r)^n - 1]
+ */
+function getPeriodicPayment(principal: number, periodicRate: number, installments: number): number {
+  if (periodicRate === 0) {
+    return principal / installments;
+  }
+  const growth = Math.pow(1 + periodicRate, installments);
+  return principal * ((periodicRate * growth) / (growth - 1));
+}
+
 /**
  * Calculate monthly payment for Affirm with APR
  * Using standard amortization formula
@@ -132,13 +158,80 @@ export function calculateAmortizedPayment(
   const periodsPerYear = 365 / intervalDays;
   const periodicRate = apr / periodsPerYear;
 
-  // Amortization formula: P * [r(1+r)^n] / [(1+r)^n - 1]
-  const numerator = periodicRate * Math.pow(1 + periodicRate, installments);
-  const denominator = Math.pow(1 + periodicRate, installments) - 1;
+  return Math.round(getPeriodicPayment(principal, periodicRate, installments));
+}
+
+export interface AmortizationRow {
+  installmentNumber: number;
+  amount: number; // in cents - principal + interest
+  principal: number; // in cents
+  interest: number; // in cents
+  remainingBalance: number; // in cents - after this payment
+}
+
+/**
+ * Build a monthly amortization table
+ *
+ * Interest accrues on the outstanding balance at APR / 12 each month, so early
+ * payments are interest-heavy. Every payment is the same rounded amount except
+ * the last, which clears whatever balance rounding left behind.
+ */
+export function buildAmortizationSchedule(
+  principal: number, // in cents
+  apr: number, // as decimal
+  installments: number
+): AmortizationRow[] {
+  const monthlyRate = apr / 12;
+  const payment = Math.round(getPeriodicPayment(principal, monthlyRate, installments));
+
+  const rows: AmortizationRow[] = [];
+  let balance = principal;
+  for (let i = 1; i <= installments; i++) {
+    const interest = Math.round(balance * monthlyRate);
+    const principalPaid = i === installments ? balance : Math.min(balance, payment - interest);
+    balance -= principalPaid;
+    rows.push({
+      installmentNumber: i,
+      amount: principalPaid + interest,
+      principal: principalPaid,
+      interest,
+      remainingBalance: balance,
+    });
+  }
+  return rows;
+}
 
-  const payment = principal * (numerator / denominator);
+/**
+ * Monthly schedule on calendar months (addMonths clamps the 31st to the end of
+ * shorter months), amortized when an APR is set
+ */
+function calculateMonthlyPayments(
+  totalAmount: number,
+  firstPaymentDate: Date,
+  installments: number,
+  apr: number
+): PaymentCalculationResult {
+  if (apr <= 0) {
+    const basePayment = Math.floor(totalAmount / installments);
+    const remainder = totalAmount - basePayment * installments;
+    return {
+      payments: Array.from({ length: installments }, (_, i) => ({
+        installmentNumber: i + 1,
+        amount: i === 0 ? basePayment + remainder : basePayment,
+        dueDate: addMonths(firstPaymentDate, i),
+      })),
+      totalAmount,
+      totalInterest: 0,
+    };
+  }
 
-  return Math.round(payment);
+  const rows = buildAmortizationSchedule(totalAmount, apr, installments);
+  const totalInterest = rows.reduce((sum, row) => sum + row.interest, 0);
+  return {
+    payments: rows.map((row, i) => ({ ...row, dueDate: addMonths(firstPaymentDate, i) })),
+    totalAmount: totalAmount + totalInterest,
+    totalInterest,
+  };
 }
 
 /**
@@ -191,6 +284,23 @@ export function recalculatePaymentDates(
   }));
 }
 
+/**
+ * Recalculate payment dates on calendar months
+ * Keeps first payment date as anchor, each later payment lands on the same day of the month
+ */
+export function recalculateMonthlyPaymentDates(
+  payments: Payment[],
+  firstPaymentDate: string
+): Payment[] {
+  const sorted = [...payments].sort((a, b) => a.installmentNumber - b.installmentNumber);
+  const baseDate = parseISO(firstPaymentDate);
+
+  return sorted.map((p, index) => ({
+    ...p,
+    dueDate: format(addMonths(baseDate, index), 'yyyy-MM-dd'),
+  }));
+}
+
 /**
  * Redistribute total amount across payments, respecting manual overrides
  *
@@ -257,3 +367,127 @@ export function redistributePaymentAmounts(
 export function getDateDelta(oldDate: string, newDate: string): number {
   return differenceInDays(parseISO(newDate), parseISO(oldDate));
 }
+
+interface RefundApplicationResult {
+  payments: Payment[]; // only the payments that changed
+  adjustments: RefundAdjustment[];
+  creditAmount: number; // in cents - refund left over after the unpaid balance
+  error?: string;
+}
+
+/**
+ * Split changed amortized installments back into principal and interest
+ *
+ * A refund comes off the principal: each changed installment keeps its
+ * scheduled interest, up to its new amount, and the principal left after
+ * each installment that was still unpaid is recounted. Returns the changed
+ * payments plus any whose remaining balance moved.
+ */
+function rebalanceAmortization(payments: Payment[], changed: Payment[]): Payment[] {
+  if (!payments.some((p) => p.interest !== undefined)) return changed;
+
+  const changedById = new Map(changed.map((p) => [p.id, p]));
+  const rows = payments
+    .filter((payment) => payment.status !== 'paid')
+    .map((payment) => {
+      const update = changedById.get(payment.id);
+      if (!update || payment.interest === undefined) return update ?? payment;
+      const interest = Math.min(payment.interest, update.amount);
+      return { ...update, interest, principal: update.amount - interest };
+    })
+    .sort((a, b) => a.installmentNumber - b.installmentNumber);
+
+  let balance = rows.reduce((sum, p) => sum + (p.principal ?? 0), 0);
+  const result: Payment[] = [];
+  for (const row of rows) {
+    if (row.principal !== undefined) {
+      balance -= row.principal;
+    }
+    if (row.principal !== undefined && row.remainingBalance !== balance) {
+      result.push({ ...row, remainingBalance: balance });
+    } else if (changedById.has(row.id)) {
+      result.push(row);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a refund to an order's remaining installments
+ *
+ * Mirrors how BNPL providers handle returns:
+ * - Refunds at or above the unpaid balance cover every remaining installment,
+ *   and the rest is credited back for installments already paid
+ * - 'last-first' covers the last installments first (marking them paid) and
+ *   reduces the next one by whatever is left
+ * - 'spread' lowers the unpaid total and redistributes it across the remaining
+ *   installments, respecting manual overrides
+ */
+export function applyRefundToPayments(
+  payments: Payment[],
+  refundAmount: number,
+  strategy: RefundStrategy,
+  refundId: string,
+  refundedAt: string
+): RefundApplicationResult {
+  if (refundAmount <= 0) {
+    return { payments: [], adjustments: [], creditAmount: 0, error: 'Refund amount must be greater than zero' };
+  }
+
+  const unpaid = payments
+    .filter((p) => p.status !== 'paid')
+    .sort((a, b) => b.installmentNumber - a.installmentNumber);
+  const unpaidTotal = unpaid.reduce((sum, p) => sum + p.amount, 0);
+
+  const cover = (payment: Payment): Payment => ({
+    ...payment,
+    amount: 0,
+    status: 'paid',
+    paidDate: refundedAt,
+    paidOnTime: undefined,
+    coveredByRefundId: refundId,
+  });
+
+  let updated: Payment[];
+  if (refundAmount >= unpaidTotal || strategy === 'last-first') {
+    let remaining = Math.min(refundAmount, unpaidTotal);
+    updated = [];
+    for (const payment of unpaid) {
+      if (remaining <= 0) break;
+      if (remaining >= payment.amount) {
+        updated.push(cover(payment));
+        remaining -= payment.amount;
+      } else {
+        updated.push({ ...payment, amount: payment.amount - remaining, isManualOverride: true });
+        remaining = 0;
+      }
+    }
+  } else {
+    const { payments: redistributed, error } = redistributePaymentAmounts(
+      unpaid,
+      unpaidTotal - refundAmount
+    );
+    if (error) {
+      return { payments: [], adjustments: [], creditAmount: 0, error };
+    }
+    updated = redistributed.filter((p) => p.amount !== unpaid.find((u) => u.id === p.id)?.amount);
+  }
+
+  const adjustments: RefundAdjustment[] = updated.map((p) => {
+    const original = payments.find((o) => o.id === p.id)!;
+    return {
+      paymentId: p.id,
+      installmentNumber: p.installmentNumber,
+      previousAmount: original.amount,
+      newAmount: p.amount,
+      previousStatus: original.status,
+      coveredByRefund: p.coveredByRefundId === refundId,
+    };
+  });
+
+  return {
+    payments: rebalanceAmortization(payments, updated),
+    adjustments,
+    creditAmount: Math.max(0, refundAmount - unpaidTotal),
+  };
+}
@@ -0,0 +1,162 @@
+import { format, parseISO, startOfDay, startOfWeek, isBefore, addDays } from 'date-fns';
+import type { NewOrderInput, Payment, Platform, PlatformId, PlatformUtilization } from '../types';
+import { getPlatformUtilization } from '../utils/platform';
+import { getPaymentTotalDue } from '../utils/payment';
+
+export interface WeekTotal {
+  weekStart: string; // ISO date (start of week)
+  total: number; // in cents
+}
+
+export interface PaymentCollision {
+  date: string; // ISO date (start of day)
+  newPayment: Payment;
+  existingPayments: Payment[];
+}
+
+export interface PlatformImpact {
+  before: PlatformUtilization;
+  after: PlatformUtilization;
+  exceedsLimit: boolean;
+}
+
+export interface PurchaseAnalysis {
+  payments: Payment[]; // the hypothetical installments
+  peakWeekBefore: WeekTotal | null;
+  peakWeekAfter: WeekTotal | null;
+  utilization: Record<PlatformId, PlatformImpact>;
+  collisions: PaymentCollision[];
+}
+
+export interface PurchaseSuggestion {
+  platformId: PlatformId;
+  firstPaymentDate: string; // YYYY-MM-DD
+  collisionCount: number;
+  peakWeekTotal: number; // in cents
+  utilizationAfter: number; // 0-100+
+}
+
+export interface PurchaseSimulation extends PurchaseAnalysis {
+  input: NewOrderInput;
+  suggestions: PurchaseSuggestion[];
+}
+
+// How far ahead to look for a better first-payment date
+export const SUGGESTION_WINDOW_DAYS = 14;
+
+function dayKey(date: string | Date): string {
+  return format(typeof date === 'string' ? parseISO(date) : date, 'yyyy-MM-dd');
+}
+
+/**
+ * Cash out per week: unpaid payments by due date (past due rolls into the
+ * current week) plus anything already paid this week
+ */
+function getWeeklyTotals(payments: Payment[], today: Date): Map<string, number> {
+  const thisWeek = startOfWeek(today);
+  const totals = new Map<string, number>();
+  for (const payment of payments) {
+    // Paid payments only count if the money left this week
+    const date = payment.status === 'paid' ? payment.paidDate : payment.dueDate;
+    if (!date) continue;
+    const parsed = parseISO(date);
+    if (payment.status === 'paid' && isBefore(parsed, thisWeek)) continue;
+
+    const key = startOfWeek(isBefore(parsed, thisWeek) ? thisWeek : parsed).toISOString();
+    totals.set(key, (totals.get(key) ?? 0) + getPaymentTotalDue(payment));
+  }
+  return totals;
+}
+
+function getPeakWeek(totals: Map<string, number>): WeekTotal | null {
+  let peak: WeekTotal | null = null;
+  for (const [weekStart, total] of totals) {
+    if (!peak || total > peak.total) {
+      peak = { weekStart, total };
+    }
+  }
+  return peak;
+}
+
+/**
+ * Layer a hypothetical order's installments over existing obligations
+ *
+ * Existing paid payments are ignored (except those paid this week, which still
+ * count toward this week's cash out). The new order's payments are counted in
+ * full - the down payment still leaves the account at checkout.
+ */
+export function analyzePurchase(
+  newPayments: Payment[],
+  existingPayments: Payment[],
+  platforms: Platform[],
+  today: Date = new Date()
+): PurchaseAnalysis {
+  const openPayments = existingPayments.filter((p) => p.status !== 'paid');
+
+  // Peak week before and after
+  const peakWeekBefore = getPeakWeek(getWeeklyTotals(existingPayments, today));
+  const peakWeekAfter = getPeakWeek(getWeeklyTotals([...existingPayments, ...newPayments], today));
+
+  // Utilization of every platform the order touches
+  const utilization: Record<PlatformId, PlatformImpact> = {};
+  for (const platformId of new Set(newPayments.map((p) => p.platformId))) {
+    const platform = platforms.find((p) => p.id === platformId);
+    const limit = platform?.creditLimit ?? 0;
+    const before = getPlatformUtilization(platformId, limit, existingPayments);
+    const after = getPlatformUtilization(platformId, limit, [...existingPayments, ...newPayments]);
+    utilization[platformId] = {
+      before,
+      after,
+      exceedsLimit: limit > 0 && after.used > limit,
+    };
+  }
+
+  // Dates where a new installment still to pay stacks on existing ones
+  const byDay = new Map<string, Payment[]>();
+  for (const payment of openPayments) {
+    const key = dayKey(payment.dueDate);
+    byDay.set(key, [...(byDay.get(key) ?? []), payment]);
+  }
+  const collisions: PaymentCollision[] = [];
+  for (const payment of newPayments.filter((p) => p.status !== 'paid')) {
+    const existing = byDay.get(dayKey(payment.dueDate));
+    if (existing && existing.length > 0) {
+      collisions.push({
+        date: startOfDay(parseISO(payment.dueDate)).toISOString(),
+        newPayment: payment,
+        existingPayments: existing,
+      });
+    }
+  }
+
+  return { payments: newPayments, peakWeekBefore, peakWeekAfter, utilization, collisions };
+}
+
+/**
+ * Candidate first-payment dates, from the requested date forward
+ */
+export function getCandidateDates(firstPaymentDate: string, days: number = SUGGESTION_WINDOW_DAYS): string[] {
+  const start = parseISO(firstPaymentDate);
+  return Array.from({ length: days }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'));
+}
+
+/**
+ * Rank candidate schedules: within the credit limit first, then fewest collisions,
+ * the lowest resulting peak week, the soonest date and the lowest utilization
+ */
+export function rankSuggestions(
+  candidates: Array<{ suggestion: PurchaseSuggestion; exceedsLimit: boolean }>,
+  limit: number = 3
+): PurchaseSuggestion[] {
+  return candidates
+    .sort(
+      (a, b) =>
+        Number(a.exceedsLimit) - Number(b.exceedsLimit) ||
+        a.suggestion.collisionCount - b.suggestion.collisionCount ||
+        a.suggestion.peakWeekTotal - b.suggestion.peakWeekTotal ||
+        a.suggestion.firstPaymentDate.localeCompare(b.suggestion.firstPaymentDate) ||
+        a.suggestion.utilizationAfter - b.suggestion.utilizationAfter
+    )
+    .slice(0, limit)
+    .map((c) => c.suggestion);
+}
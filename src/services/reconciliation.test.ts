@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLATFORMS } from '../constants/platforms';
+import type { Payment, Platform } from '../types';
+import type { StatementTransaction } from './bankStatement';
+import { detectDebitPlatform, reconcileStatement } from './reconciliation';
+
+const platforms: Platform[] = [...DEFAULT_PLATFORMS];
+
+const payment = (id: string, changes: Partial<Payment> = {}): Payment => ({
+  id,
+  orderId: 'order-1',
+  platformId: 'afterpay',
+  amount: 2500,
+  dueDate: '2026-03-01',
+  installmentNumber: 1,
+  status: 'pending',
+  isManualOverride: false,
+  ...changes,
+});
+
+const debit = (id: string, changes: Partial<StatementTransaction> = {}): StatementTransaction => ({
+  id,
+  date: '2026-03-02',
+  amount: 2500,
+  description: 'AFTERPAY US',
+  ...changes,
+});
+
+describe('detectDebitPlatform', () => {
+  it('knows built-in descriptors and custom platforms by name', () => {
+    const custom = { ...DEFAULT_PLATFORMS[0], id: 'custom-paybright', name: 'PayBright', isCustom: true };
+    expect(detectDebitPlatform('KLARNA*TARGET', platforms)).toBe('klarna');
+    expect(detectDebitPlatform('QUADPAY 800-123', platforms)).toBe('zip');
+    expect(detectDebitPlatform('PAYBRIGHT INC', [...platforms, custom])).toBe('custom-paybright');
+    expect(detectDebitPlatform('GROCERY MART', platforms)).toBeNull();
+  });
+});
+
+describe('reconcileStatement', () => {
+  it('matches a debit to the one installment it fits', () => {
+    const transactions = [debit('t1'), debit('t2', { description: 'COFFEE' })];
+    const result = reconcileStatement(transactions, [payment('p1')], platforms);
+    expect(result.matches).toEqual([{ transaction: debit('t1'), payment: payment('p1') }]);
+    expect(result.ambiguous).toEqual([]);
+    expect(result.untracked).toEqual([]);
+  });
+
+  it('leaves debits that fit several installments to pick by hand, closest due date first', () => {
+    const payments = [payment('p1', { dueDate: '2026-03-06' }), payment('p2', { dueDate: '2026-03-03' })];
+    const result = reconcileStatement([debit('t1')], payments, platforms);
+    expect(result.matches).toEqual([]);
+    expect(result.ambiguous[0].candidates.map((p) => p.id)).toEqual(['p2', 'p1']);
+  });
+
+  it('flags BNPL debits with no installment as untracked and ignores money coming in', () => {
+    const result = reconcileStatement(
+      [debit('t1', { amount: 9900 }), debit('t2', { amount: -2500 })],
+      [payment('p1')],
+      platforms
+    );
+    expect(result.untracked).toEqual([{ transaction: debit('t1', { amount: 9900 }), platformId: 'afterpay' }]);
+    expect(result.matches).toEqual([]);
+  });
+
+  it('skips debits for payments already marked paid', () => {
+    const paid = payment('p1', { status: 'paid', paidDate: '2026-03-01T00:00:00.000Z' });
+    const result = reconcileStatement([debit('t1')], [paid], platforms);
+    expect(result.alreadyRecorded).toBe(1);
+    expect(result.untracked).toEqual([]);
+  });
+});
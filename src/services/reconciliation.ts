@@ -0,0 +1,146 @@
+/**
+ * Match BNPL debits on a bank statement to tracked payments
+ *
+ * A debit is recognized by its descriptor ("AFTERPAY", "KLARNA*...") and
+ * paired with an unpaid installment on that platform for the same amount,
+ * due within a few days of when the debit posted. Only debits with exactly
+ * one such installment - that no other debit also fits - are confident
+ * matches. The rest are left for the user to pair by hand, and BNPL debits
+ * with no installment at all point to orders that aren't being tracked.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Payment, Platform, PlatformId } from '../types';
+import type { BuiltInPlatformId } from '../constants/platforms';
+import { getPaymentTotalDue } from '../utils/payment';
+import type { StatementTransaction } from './bankStatement';
+
+// How BNPL apps show up on statements
+export const BNPL_DESCRIPTORS: Record<BuiltInPlatformId, RegExp> = {
+  afterpay: /afterpay|clearpay/i,
+  klarna: /klarna/i,
+  sezzle: /sezzle/i,
+  zip: /quadpay|\bzip\b/i,
+  affirm: /affirm/i,
+  four: /paywithfour|\bfour\s*(?:technologies|tech|pay)\b/i,
+};
+
+// Debits can post before the due date (paid early) or a few days after
+// (retries, weekend processing)
+const DAYS_BEFORE_DUE = 7;
+const DAYS_AFTER_DUE = 7;
+// A payment already marked paid this close to a debit is that debit
+const RECORDED_WINDOW_DAYS = 3;
+
+export interface ReconciliationMatch {
+  transaction: StatementTransaction;
+  payment: Payment;
+}
+
+export interface AmbiguousDebit {
+  transaction: StatementTransaction;
+  platformId: PlatformId;
+  candidates: Payment[]; // closest due date first
+}
+
+export interface UntrackedDebit {
+  transaction: StatementTransaction;
+  platformId: PlatformId;
+}
+
+export interface Reconciliation {
+  matches: ReconciliationMatch[];
+  ambiguous: AmbiguousDebit[];
+  untracked: UntrackedDebit[];
+  alreadyRecorded: number; // debits for payments already marked paid
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Which platform a statement descriptor belongs to, if any
+ * Custom platforms are matched by name.
+ */
+export function detectDebitPlatform(description: string, platforms: Platform[]): PlatformId | null {
+  for (const platform of platforms) {
+    const pattern = platform.isCustom
+      ? new RegExp(`\\b${escapeRegExp(platform.name)}\\b`, 'i')
+      : BNPL_DESCRIPTORS[platform.id as BuiltInPlatformId];
+    if (pattern?.test(description)) {
+      return platform.id;
+    }
+  }
+  return null;
+}
+
+function amountMatches(payment: Payment, amount: number): boolean {
+  return Math.abs(payment.amount - amount) <= 1 || Math.abs(getPaymentTotalDue(payment) - amount) <= 1;
+}
+
+// Days from the due date to the debit - negative when paid early
+function daysFromDue(payment: Payment, transaction: StatementTransaction): number {
+  return differenceInCalendarDays(parseISO(transaction.date), parseISO(payment.dueDate));
+}
+
+/**
+ * Sort a statement's BNPL debits into confident matches, ones to pair by
+ * hand and ones with no tracked payment
+ */
+export function reconcileStatement(
+  transactions: StatementTransaction[],
+  payments: Payment[],
+  platforms: Platform[]
+): Reconciliation {
+  const debits = transactions.flatMap((transaction) => {
+    const platformId = transaction.amount > 0 ? detectDebitPlatform(transaction.description, platforms) : null;
+    return platformId ? [{ transaction, platformId }] : [];
+  });
+
+  // Skip debits already recorded, e.g. when the same statement is imported twice
+  const recorded = new Set<string>();
+  const unrecorded = debits.filter(({ transaction, platformId }) => {
+    const payment = payments.find(
+      (p) =>
+        p.status === 'paid' &&
+        p.paidDate &&
+        p.platformId === platformId &&
+        !recorded.has(p.id) &&
+        amountMatches(p, transaction.amount) &&
+        Math.abs(differenceInCalendarDays(parseISO(transaction.date), parseISO(p.paidDate))) <= RECORDED_WINDOW_DAYS
+    );
+    if (payment) recorded.add(payment.id);
+    return !payment;
+  });
+
+  const withCandidates = unrecorded.map((debit) => ({
+    ...debit,
+    candidates: payments
+      .filter((p) => {
+        if (p.status === 'paid' || p.coveredByRefundId || p.platformId !== debit.platformId) return false;
+        const days = daysFromDue(p, debit.transaction);
+        return days >= -DAYS_BEFORE_DUE && days <= DAYS_AFTER_DUE && amountMatches(p, debit.transaction.amount);
+      })
+      .sort((a, b) => Math.abs(daysFromDue(a, debit.transaction)) - Math.abs(daysFromDue(b, debit.transaction))),
+  }));
+
+  const claims = new Map<string, number>();
+  for (const debit of withCandidates) {
+    for (const payment of debit.candidates) {
+      claims.set(payment.id, (claims.get(payment.id) ?? 0) + 1);
+    }
+  }
+
+  const result: Reconciliation = { matches: [], ambiguous: [], untracked: [], alreadyRecorded: recorded.size };
+  for (const { transaction, platformId, candidates } of withCandidates) {
+    if (candidates.length === 0) {
+      result.untracked.push({ transaction, platformId });
+    } else if (candidates.length === 1 && claims.get(candidates[0].id) === 1) {
+      result.matches.push({ transaction, payment: candidates[0] });
+    } else {
+      result.ambiguous.push({ transaction, platformId, candidates });
+    }
+  }
+  return result;
+}
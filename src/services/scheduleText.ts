@@ -0,0 +1,164 @@
+/**
+ * Find payment schedules in lines of text - dates, amounts and paid markers
+ *
+ * Shared by the screenshot OCR parsers and the email importer. Lines carry a
+ * confidence from 0 to 1 (always 1 for text that wasn't OCR'd), which flows
+ * into the confidence of each installment found.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { NewOrderInput } from '../types';
+import { normalizeDate } from './extraction';
+
+export interface TextLine {
+  text: string;
+  confidence: number; // 0-1
+}
+
+export interface DateMatch {
+  date: string; // YYYY-MM-DD
+  hasYear: boolean;
+}
+
+export interface AmountMatch {
+  amount: number; // dollars
+  hasSymbol: boolean;
+}
+
+export interface ScheduleInstallment {
+  amount: number;
+  date: string;
+  status: 'paid' | 'pending';
+  confidence: { amount: number; date: number; status: number };
+}
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_PATTERNS = [
+  /\b\d{4}-\d{2}-\d{2}\b/,
+  /\b\d{4}\/\d{1,2}\/\d{1,2}\b/,
+  /\b\d{1,2}\/\d{1,2}\/\d{4}\b/,
+  new RegExp(`\\b${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s*\\d{4})?\\b`, 'i'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}(?:\\s+\\d{4})?\\b`, 'i'),
+];
+// Amounts with cents; OCR often drops or misreads the dollar sign
+const AMOUNT_PATTERN = /(\$|S(?=\d))?\s?(\d{1,3}(?:,\d{3})+|\d+)\.(\d{2})\b/g;
+const PAID_PATTERN = /\bpaid\b|\bcomplete[d]?\b|✓|✔/i;
+const UNPAID_PATTERN = /\bunpaid\b|\bnot paid\b|\bdue\b|\bupcoming\b|\bscheduled\b/i;
+export const TOTAL_PATTERN = /\btotal\b/i;
+
+export function findDate(text: string): DateMatch | null {
+  for (const pattern of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const value = match[0].replace(/(\d)(?:st|nd|rd|th)\b/i, '$1').replace(/\./g, '');
+    try {
+      return { date: normalizeDate(value), hasYear: /\d{4}/.test(value) };
+    } catch {
+      // Looked like a date but isn't one - keep looking
+    }
+  }
+  return null;
+}
+
+export function findAmounts(text: string): AmountMatch[] {
+  return [...text.matchAll(AMOUNT_PATTERN)].map((match) => ({
+    amount: Number(`${match[2].replace(/,/g, '')}.${match[3]}`),
+    hasSymbol: match[1] !== undefined,
+  }));
+}
+
+export function findStatus(text: string): 'paid' | 'pending' | null {
+  if (UNPAID_PATTERN.test(text)) return 'pending';
+  if (PAID_PATTERN.test(text)) return 'paid';
+  return null;
+}
+
+/**
+ * The amount after a label such as "Order total" - on its line or just below
+ */
+export function findLabeledAmount(lines: TextLine[], label: RegExp): { amount: number; confidence: number } | null {
+  for (const [index, line] of lines.entries()) {
+    if (!label.test(line.text)) continue;
+    const sameLine = findAmounts(line.text)[0];
+    if (sameLine) return { amount: sameLine.amount, confidence: line.confidence };
+    const next = lines[index + 1];
+    const below = next && findAmounts(next.text)[0];
+    if (below) return { amount: below.amount, confidence: Math.min(line.confidence, next.confidence) * 0.9 };
+  }
+  return null;
+}
+
+/**
+ * Pair dates with amounts - on the same line, or a date-only line next to an
+ * amount-only line (most apps stack them)
+ * Lines that mention a total or match `ignore` (fees, balances) are skipped.
+ */
+export function findInstallments(lines: TextLine[], ignore?: RegExp): ScheduleInstallment[] {
+  const rows = lines.map((line) => {
+    const isSchedule = !TOTAL_PATTERN.test(line.text) && !(ignore?.test(line.text) ?? false);
+    return {
+      line,
+      date: isSchedule ? findDate(line.text) : null,
+      amounts: isSchedule ? findAmounts(line.text) : [],
+      status: findStatus(line.text),
+      used: false,
+    };
+  });
+
+  // A status word ("Paid", "Due") on a line of its own belongs to the row it sits against
+  const isStatusOnly = (row: (typeof rows)[number] | undefined) =>
+    row !== undefined && !row.used && row.status !== null && !row.date && row.amounts.length === 0;
+
+  const installments: ScheduleInstallment[] = [];
+  const add = (date: DateMatch, amount: AmountMatch, sources: typeof rows) => {
+    if (!sources.some((row) => row.status)) {
+      const indexes = sources.map((row) => rows.indexOf(row));
+      const statusRow = [rows[Math.max(...indexes) + 1], rows[Math.min(...indexes) - 1]].find(isStatusOnly);
+      if (statusRow) sources = [...sources, statusRow];
+    }
+    const lineConfidence = Math.min(...sources.map((row) => row.line.confidence));
+    const paired = sources.length > 1 ? 0.9 : 1;
+    const status = sources.map((row) => row.status).find((s) => s !== null) ?? null;
+    sources.forEach((row) => (row.used = true));
+    installments.push({
+      amount: amount.amount,
+      date: date.date,
+      status: status ?? 'pending',
+      confidence: {
+        amount: lineConfidence * paired * (amount.hasSymbol ? 1 : 0.7),
+        date: lineConfidence * paired * (date.hasYear ? 1 : 0.85),
+        // Apps usually only mark paid installments, so no marker most likely means pending
+        status: lineConfidence * (status ? 1 : 0.9),
+      },
+    });
+  };
+
+  for (const row of rows) {
+    if (row.date && row.amounts.length > 0) {
+      add(row.date, row.amounts[0], [row]);
+    }
+  }
+  for (const [index, row] of rows.entries()) {
+    if (row.used || row.amounts.length === 0) continue;
+    const neighbor = [rows[index - 1], rows[index + 1]].find(
+      (other) => other && !other.used && other.date && other.amounts.length === 0
+    );
+    if (neighbor) {
+      add(neighbor.date!, row.amounts[0], [row, neighbor]);
+    }
+  }
+
+  return installments.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The schedule's rhythm from its due dates, so imported orders keep the
+ * right frequency - monthly, or a fixed number of days apart
+ */
+export function getScheduleRhythm(dates: string[]): Pick<NewOrderInput, 'intervalDays' | 'scheduleMode'> {
+  const gaps = dates.slice(1).map((date, i) => differenceInCalendarDays(parseISO(date), parseISO(dates[i])));
+  if (gaps.length === 0) return {};
+  if (gaps.every((gap) => gap >= 28 && gap <= 31)) return { scheduleMode: 'monthly' };
+  if (gaps.every((gap) => gap === gaps[0])) return { intervalDays: gaps[0] };
+  return {};
+}
@@ -0,0 +1,119 @@
+/**
+ * Screenshot import - one extraction path for single and batch imports
+ *
+ * Screenshots go to the configured AI provider, or are read on this device
+ * when no provider is set up. Batches run through a rate limiter sized for the
+ * provider, so ten screenshots don't trip a free tier's requests-per-minute cap.
+ */
+
+import type { ApiKeys, ExtractionProviderId, ExtractionSettings, OrderImportRow, Platform, PlatformId } from '../types';
+import { createExtractionProvider, extractOrderFromImage, getExtractionSetupError, type ExtractedOrder } from './extraction';
+import { extractOrderWithOcr } from './ocr';
+import { getScheduleRhythm } from './scheduleText';
+
+export interface RateLimit {
+  concurrency: number; // extractions in flight at once
+  minIntervalMs: number; // between the starts of two extractions
+}
+
+export const SCREENSHOT_RATE_LIMITS: Record<ExtractionProviderId | 'ocr', RateLimit> = {
+  gemini: { concurrency: 2, minIntervalMs: 4000 }, // free tier allows 15 requests a minute
+  openai: { concurrency: 3, minIntervalMs: 1000 },
+  ollama: { concurrency: 1, minIntervalMs: 0 }, // one model on one machine
+  ocr: { concurrency: 1, minIntervalMs: 0 }, // CPU bound
+};
+
+export interface RateLimiter {
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+  clear(): void; // reject everything still waiting
+}
+
+export function createRateLimiter({ concurrency, minIntervalMs }: RateLimit): RateLimiter {
+  const waiting: Array<{ start: () => void; cancel: () => void }> = [];
+  let active = 0;
+  let lastStart = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const next = () => {
+    if (timer || active >= concurrency || waiting.length === 0) return;
+    const wait = lastStart + minIntervalMs - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        next();
+      }, wait);
+      return;
+    }
+    active += 1;
+    lastStart = Date.now();
+    waiting.shift()!.start();
+    next();
+  };
+
+  return {
+    schedule: (task) =>
+      new Promise((resolve, reject) => {
+        waiting.push({
+          start: () => {
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                active -= 1;
+                next();
+              });
+          },
+          cancel: () => reject(new Error('Cancelled')),
+        });
+        next();
+      }),
+    clear: () => {
+      clearTimeout(timer);
+      timer = undefined;
+      waiting.splice(0).forEach((task) => task.cancel());
+    },
+  };
+}
+
+export function getScreenshotRateLimit(settings: ExtractionSettings, apiKeys: ApiKeys): RateLimit {
+  return SCREENSHOT_RATE_LIMITS[getExtractionSetupError(settings, apiKeys) ? 'ocr' : settings.provider];
+}
+
+/**
+ * Extract an order from a screenshot with the configured provider, falling
+ * back to on-device OCR when none is set up
+ */
+export function extractOrderFromScreenshot(
+  file: File,
+  platforms: Platform[],
+  settings: ExtractionSettings,
+  apiKeys: ApiKeys
+): Promise<ExtractedOrder> {
+  if (getExtractionSetupError(settings, apiKeys)) {
+    return extractOrderWithOcr(file, platforms);
+  }
+  return extractOrderFromImage(file, platforms, createExtractionProvider(settings, apiKeys));
+}
+
+/**
+ * An extracted order as an import row, keeping its exact schedule
+ * Screenshots don't always list payments in order, so they're sorted by date
+ * first - installments before the last paid one were paid too.
+ */
+export function toOrderImportRow(order: ExtractedOrder, platformId: PlatformId): OrderImportRow {
+  const payments = [...order.payments].sort((a, b) => a.date.localeCompare(b.date));
+  const lastPaid = payments.map((p) => p.status).lastIndexOf('paid');
+  return {
+    input: {
+      platformId,
+      storeName: order.store,
+      totalAmount: Math.round(order.total * 100),
+      firstPaymentDate: payments[0].date,
+      customInstallments: payments.length,
+      ...getScheduleRhythm(payments.map((p) => p.date)),
+      paymentOverrides: Object.fromEntries(
+        payments.map((p, i) => [i + 1, { amount: Math.round(p.amount * 100), dueDate: p.date }])
+      ),
+    },
+    paidInstallments: lastPaid + 1,
+  };
+}
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditChange, DataSnapshot, ExportedData, SnapshotCounts, SnapshotReason } from '../types';
+import { AUDIT_COLLECTIONS, diffSnapshots, type AuditCollection, type AuditSnapshot } from './auditLog';
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  'pre-import': 'Before import',
+  'pre-clear': 'Before clear',
+  'pre-restore': 'Before restore',
+  manual: 'Manual',
+};
+
+// How many snapshots of each kind are kept - the oldest beyond this are pruned
+export const SNAPSHOT_RETENTION: Record<SnapshotReason, number> = {
+  daily: 7,
+  weekly: 4,
+  'pre-import': 5,
+  'pre-clear': 5,
+  'pre-restore': 5,
+  manual: 10,
+};
+
+// Scheduled snapshots and how long after the last one the next is due
+const SNAPSHOT_INTERVALS_MS: Partial<Record<SnapshotReason, number>> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const SNAPSHOT_COLLECTION_LABELS: Record<AuditCollection, string> = {
+  orders: 'Orders',
+  payments: 'Payments',
+  platforms: 'Platforms',
+  subscriptions: 'Subscriptions',
+  limitHistory: 'Limit history',
+  incomeSources: 'Income sources',
+};
+
+export interface SnapshotCollectionDiff {
+  collection: AuditCollection;
+  removed: number; // in the snapshot but not in current data
+  added: number; // in current data but not in the snapshot
+  changed: number;
+}
+
+export interface SnapshotComparison {
+  collections: SnapshotCollectionDiff[];
+  changes: AuditChange[]; // before = snapshot, after = current
+}
+
+function toAuditSnapshot(data: ExportedData): AuditSnapshot {
+  return {
+    orders: data.orders,
+    payments: data.payments,
+    platforms: data.platforms,
+    subscriptions: data.subscriptions,
+    limitHistory: data.limitHistory ?? [],
+    incomeSources: data.incomeSources ?? [],
+  };
+}
+
+/**
+ * Record counts shown in the snapshot list
+ */
+export function getSnapshotCounts(data: ExportedData): SnapshotCounts {
+  const snapshot = toAuditSnapshot(data);
+  return {
+    orders: snapshot.orders.length,
+    payments: snapshot.payments.length,
+    platforms: snapshot.platforms.length,
+    subscriptions: snapshot.subscriptions.length,
+    limitHistory: snapshot.limitHistory.length,
+    incomeSources: snapshot.incomeSources.length,
+  };
+}
+
+/**
+ * Whether data is worth a snapshot - platforms and subscriptions alone are
+ * just the defaults a fresh install starts with
+ */
+export function hasSnapshotData(data: ExportedData): boolean {
+  return (
+    data.orders.length > 0 ||
+    data.payments.length > 0 ||
+    (data.limitHistory?.length ?? 0) > 0 ||
+    (data.incomeSources?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Capture data as a snapshot record
+ */
+export function createSnapshot(reason: SnapshotReason, data: ExportedData): DataSnapshot {
+  return {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    reason,
+    counts: getSnapshotCounts(data),
+    data,
+  };
+}
+
+/**
+ * Scheduled snapshot kinds whose last snapshot is older than their interval
+ */
+export function getDueSnapshotReasons(snapshots: DataSnapshot[], now: Date = new Date()): SnapshotReason[] {
+  return (Object.entries(SNAPSHOT_INTERVALS_MS) as [SnapshotReason, number][])
+    .filter(([reason, interval]) => {
+      const latest = snapshots
+        .filter((snapshot) => snapshot.reason === reason)
+        .reduce<string | null>((max, s) => (max === null || s.createdAt > max ? s.createdAt : max), null);
+      return latest === null || now.getTime() - new Date(latest).getTime() >= interval;
+    })
+    .map(([reason]) => reason);
+}
+
+/**
+ * Snapshots beyond the retention limit for their kind, oldest first
+ */
+export function getExpiredSnapshots(snapshots: DataSnapshot[]): DataSnapshot[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const kept = new Map<SnapshotReason, number>();
+
+  return newestFirst
+    .filter((snapshot) => {
+      const count = (kept.get(snapshot.reason) ?? 0) + 1;
+      kept.set(snapshot.reason, count);
+      return count > SNAPSHOT_RETENTION[snapshot.reason];
+    })
+    .reverse();
+}
+
+/**
+ * What changed between a snapshot and current data, matching records by key
+ */
+export function compareSnapshot(snapshot: ExportedData, current: ExportedData): SnapshotComparison {
+  const changes = diffSnapshots(toAuditSnapshot(snapshot), toAuditSnapshot(current));
+  const collections = (Object.keys(SNAPSHOT_COLLECTION_LABELS) as AuditCollection[]).map((collection) => ({
+    collection,
+    removed: 0,
+    added: 0,
+    changed: 0,
+  }));
+
+  for (const change of changes) {
+    const diff = collections.find((c) => c.collection === AUDIT_COLLECTIONS[change.entityType].collection)!;
+    if (!change.after) diff.removed++;
+    else if (!change.before) diff.added++;
+    else diff.changed++;
+  }
+
+  return { collections, changes };
+}
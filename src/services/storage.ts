@@ -1,11 +1,77 @@
-import type { Order, Payment, Platform, Subscription, ExportedData, NotificationSettings, LimitChange } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Order,
+  Payment,
+  Platform,
+  Subscription,
+  ExportedData,
+  NotificationSettings,
+  LimitChange,
+  IncomeSource,
+  CashFlowSettings,
+  AuditEvent,
+  DataSnapshot,
+  SnapshotReason,
+  SyncSettings,
+  SyncStatus,
+  ApiKeyProvider,
+  ApiKeys,
+  ExtractionSettings,
+  AuditRecord,
+} from '../types';
 import { DEFAULT_PLATFORMS, DEFAULT_SUBSCRIPTIONS } from '../constants/platforms';
+import { DEFAULT_EXTRACTION_SETTINGS } from './extraction';
+import type { MergeChanges } from './mergeImport';
+import { attachmentStorage } from './attachmentStorage';
+import { BASE_SCHEMA_VERSION, SCHEMA_VERSION, getPendingMigrations, upgradeExportedData } from './migrations';
+import type { Migration } from './migrations';
+import { createSnapshot, getDueSnapshotReasons, getExpiredSnapshots, hasSnapshotData } from './snapshots';
+import {
+  checkSyncServer,
+  getPushedStates,
+  hashLocal,
+  markConflict,
+  planPull,
+  planPush,
+  pullSyncChanges,
+  pushSyncChanges,
+  resolveConflictState,
+  type LocalSyncRecord,
+  type SyncConflict,
+  type SyncConnection,
+  type SyncStateEntry,
+} from './sync';
+import { SYNC_STORES, getSyncRecordId, type SyncRecord } from './syncProtocol';
+import { vault } from './vault';
+import type { EncryptedPayload } from './vault';
 
 const DB_NAME = 'bnpl-tracker';
-const DB_VERSION = 2; // Bumped for limitHistory store
+const DB_VERSION = 7; // Bumped for sync state store
 const BACKUP_KEY = 'bnpl-tracker-backup';
 const NOTIFICATION_SETTINGS_KEY = 'bnpl-notification-settings';
-const GEMINI_API_KEY_KEY = 'bnpl-gemini-api-key';
+const API_KEY_KEYS: Record<ApiKeyProvider, string> = {
+  gemini: 'bnpl-gemini-api-key',
+  openai: 'bnpl-openai-api-key',
+};
+const EXTRACTION_SETTINGS_KEY = 'bnpl-extraction-settings';
+const CASH_FLOW_SETTINGS_KEY = 'bnpl-cash-flow-settings';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const BACKUP_FOLDER_KEY = 'backupFolder';
+const SYNC_CURSOR_KEY = 'syncCursor';
+const SYNC_SETTINGS_KEY = 'bnpl-sync-settings';
+const SYNC_TOKEN_KEY = 'bnpl-sync-token';
+const SYNC_DEVICE_ID_KEY = 'bnpl-sync-device-id';
+const LAST_FOLDER_BACKUP_KEY = 'bnpl-backup-folder-last';
+// Settings that say something about the user's money or devices - sealed like secrets in vault mode
+const SEALED_SETTING_KEYS = [CASH_FLOW_SETTINGS_KEY, SYNC_SETTINGS_KEY, LAST_FOLDER_BACKUP_KEY];
+const SYNC_INTERVAL_MS = 60 * 1000;
+const BACKUP_DEBOUNCE_MS = 1000;
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface MetaEntry<T = number> {
+  key: string;
+  value: T;
+}
 
 interface DBSchema {
   orders: Order;
@@ -13,38 +79,293 @@ interface DBSchema {
   platforms: Platform;
   subscriptions: Subscription;
   limitHistory: LimitChange;
+  incomeSources: IncomeSource;
+  meta: MetaEntry;
+  auditLog: AuditEvent;
+  snapshots: DataSnapshot;
+  syncState: SyncStateEntry;
+}
+
+export type StoreName = keyof DBSchema;
+
+// Data stores and their key paths - records here carry a revision and are
+// encrypted in vault mode
+const RECORD_KEY_PATHS: Partial<Record<StoreName, string>> = {
+  orders: 'id',
+  payments: 'id',
+  platforms: 'id',
+  subscriptions: 'platformId',
+  limitHistory: 'id',
+  incomeSources: 'id',
+  auditLog: 'id',
+  snapshots: 'id',
+  syncState: 'id',
+};
+
+// Index name -> record field, for filtering sealed records the indexes can't see
+const INDEX_FIELDS: Record<string, string> = {
+  'by-platform': 'platformId',
+  'by-status': 'status',
+  'by-createdAt': 'createdAt',
+  'by-order': 'orderId',
+  'by-dueDate': 'dueDate',
+  'by-active': 'isActive',
+  'by-date': 'changedAt',
+};
+
+// Stores the app store holds in memory, as opposed to bookkeeping
+function isDataStore(storeName: StoreName): boolean {
+  return (SYNC_STORES as readonly StoreName[]).includes(storeName);
+}
+
+interface SealedRecord {
+  revision?: number; // kept outside the ciphertext for revision checks
+  sealed: EncryptedPayload;
+}
+
+const SYNC_CHANNEL_NAME = 'bnpl-tracker-sync';
+
+// Records written by this or another tab - `keys` is omitted when the whole store was replaced
+export interface StorageChange {
+  store: StoreName;
+  keys?: string[];
+  deleted?: boolean;
+}
+
+/**
+ * A write was rejected because another tab saved the record after this tab read it
+ */
+export class ConflictError extends Error {
+  readonly storeName: StoreName;
+  readonly key: string;
+
+  constructor(storeName: StoreName, key: string) {
+    super('This was changed in another tab, so your edit was not saved. The latest version has been loaded.');
+    this.name = 'ConflictError';
+    this.storeName = storeName;
+    this.key = key;
+  }
+}
+
+type PendingWrite =
+  | { type: 'put'; storeName: StoreName; item: object; guard?: WriteGuard }
+  | { type: 'delete'; storeName: StoreName; key: string; guard?: WriteGuard };
+
+// Checks a write against an earlier read of the record instead of what this
+// tab's store holds. If the record changed since, the write and `then` are
+// dropped and `otherwise` is written instead - the rest of the commit goes ahead.
+interface WriteGuard {
+  expectedRevision: number;
+  then: PendingWrite[];
+  otherwise: PendingWrite[];
 }
 
-type StoreName = keyof DBSchema;
+interface PreparedWrite {
+  source: PendingWrite;
+  storeName: StoreName;
+  key: string | undefined;
+  expectedRevision: number | undefined;
+  record: unknown; // sealed, undefined for deletes
+  guard?: { then: PreparedWrite[]; otherwise: PreparedWrite[] };
+}
+
+/**
+ * Writes to commit together - every one lands, or none do
+ * Get one from storage.unitOfWork(), queue writes, then commit().
+ */
+export class UnitOfWork {
+  private writes: PendingWrite[] = [];
+  private commitWrites: (writes: PendingWrite[]) => Promise<unknown>;
+
+  constructor(commitWrites: (writes: PendingWrite[]) => Promise<unknown>) {
+    this.commitWrites = commitWrites;
+  }
+
+  put(storeName: StoreName, item: object): this {
+    this.writes.push({ type: 'put', storeName, item });
+    return this;
+  }
+
+  delete(storeName: StoreName, key: string): this {
+    this.writes.push({ type: 'delete', storeName, key });
+    return this;
+  }
+
+  saveOrder(order: Order): this {
+    return this.put('orders', { ...order, updatedAt: new Date().toISOString() });
+  }
+
+  // Payments go with the order - queue them separately if they should be deleted too
+  deleteOrder(id: string): this {
+    return this.delete('orders', id);
+  }
+
+  savePayment(payment: Payment): this {
+    return this.put('payments', { ...payment, updatedAt: new Date().toISOString() });
+  }
+
+  deletePayment(id: string): this {
+    return this.delete('payments', id);
+  }
+
+  savePlatform(platform: Platform): this {
+    return this.put('platforms', platform);
+  }
+
+  saveLimitChange(change: LimitChange): this {
+    return this.put('limitHistory', change);
+  }
+
+  async commit(): Promise<void> {
+    const writes = this.writes;
+    this.writes = [];
+    await this.commitWrites(writes);
+  }
+}
 
 class StorageService {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
   private isImporting: boolean = false; // Flag to prevent recursive backup restore
+  private apiKeys: ApiKeys = {}; // Decrypted copies in vault mode
+  private syncToken: string | null = null; // Decrypted copy in vault mode
+  private sealedSettings = new Map<string, unknown>(); // Decrypted copies in vault mode
+  // `${store}:${key}` -> revision this tab's writes are based on: for data records
+  // the one the app store holds, for bookkeeping the one last read or written
+  private knownRevisions = new Map<string, number>();
+  private channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL_NAME) : null;
+  private changeListeners = new Set<(changes: StorageChange[]) => void>();
+  private conflictListeners = new Set<(error: ConflictError) => void>();
+  private pendingRemoteChanges: StorageChange[] = [];
+  private remoteFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private backupTimer: ReturnType<typeof setTimeout> | null = null;
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+  private backupListeners = new Set<() => void>();
+  private syncStatus: SyncStatus = {
+    state: 'off',
+    lastSyncedAt: null,
+    lastError: null,
+    conflicts: 0,
+  };
+  private syncListeners = new Set<() => void>();
+  private syncPromise: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private stopSyncOnBackup: (() => void) | null = null;
+
+  constructor() {
+    // Writes from other tabs arrive in bursts (e.g. an import), so apply them together
+    this.channel?.addEventListener('message', (event: MessageEvent<StorageChange>) => {
+      this.pendingRemoteChanges.push(event.data);
+      if (this.remoteFlushTimer) return;
+      this.remoteFlushTimer = setTimeout(() => {
+        const changes = this.pendingRemoteChanges;
+        this.pendingRemoteChanges = [];
+        this.remoteFlushTimer = null;
+        this.notifyChanges(changes);
+      }, 50);
+    });
+  }
+
+  // Cross-tab sync
+  onRemoteChange(listener: (changes: StorageChange[]) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // Tell this tab about records it didn't write itself - other tabs' writes and pulled sync changes
+  private notifyChanges(changes: StorageChange[]): void {
+    this.changeListeners.forEach((listener) => listener(changes));
+  }
+
+  onConflict(listener: (error: ConflictError) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  // Fires each time the backup is refreshed, i.e. once this tab's changes settle
+  onBackup(listener: () => void): () => void {
+    this.backupListeners.add(listener);
+    return () => {
+      this.backupListeners.delete(listener);
+    };
+  }
+
+  private broadcast(change: StorageChange): void {
+    this.channel?.postMessage(change);
+  }
+
+  // Reads of data records don't count - backups, exports and sync read them
+  // without the app store ever seeing them (see acceptRecords)
+  private trackRevision(storeName: StoreName, raw: unknown): void {
+    const keyPath = RECORD_KEY_PATHS[storeName];
+    if (!keyPath || isDataStore(storeName) || !raw || typeof raw !== 'object') return;
+    const record = raw as Record<string, unknown>;
+    this.knownRevisions.set(`${storeName}:${record[keyPath]}`, (record.revision as number | undefined) ?? 0);
+  }
+
+  /**
+   * Note the revisions of records the app store has just taken in - its next
+   * write of each is checked against them. `replace` forgets every other
+   * record of the store, for full reloads.
+   */
+  acceptRecords(storeName: StoreName, records: Map<string, object | undefined>, replace = false): void {
+    if (replace) {
+      for (const id of this.knownRevisions.keys()) {
+        if (id.startsWith(`${storeName}:`)) this.knownRevisions.delete(id);
+      }
+    }
+    for (const [key, record] of records) {
+      if (record) {
+        this.knownRevisions.set(`${storeName}:${key}`, (record as { revision?: number }).revision ?? 0);
+      } else {
+        this.knownRevisions.delete(`${storeName}:${key}`);
+      }
+    }
+  }
 
   // localStorage backup methods
   private saveBackup(): void {
     if (!this.db) return;
 
-    // Get all data and save to localStorage
-    this.exportData().then((data) => {
+    // Get all data and save to localStorage (encrypted in vault mode)
+    this.exportData().then(async (data) => {
+      const backup = vault.isEnabled() ? { sealed: await vault.seal(data) } : data;
       try {
-        localStorage.setItem(BACKUP_KEY, JSON.stringify(data));
+        localStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
         console.log('[Storage] Backup saved to localStorage');
       } catch (err) {
         // localStorage.setItem can throw QuotaExceededError
         console.error('[Storage] Backup failed - localStorage quota may be exceeded:', err);
       }
+      this.backupListeners.forEach((listener) => listener());
     }).catch((err) => {
       console.error('[Storage] Failed to export data for backup:', err);
     });
   }
 
-  private getBackup(): ExportedData | null {
+  // Edits come in bursts, so take one backup once they settle rather than one per write
+  private scheduleBackup(): void {
+    this.cancelScheduledBackup();
+    this.backupTimer = setTimeout(() => {
+      this.backupTimer = null;
+      this.saveBackup();
+    }, BACKUP_DEBOUNCE_MS);
+  }
+
+  private cancelScheduledBackup(): void {
+    if (this.backupTimer) clearTimeout(this.backupTimer);
+    this.backupTimer = null;
+  }
+
+  private async getBackup(): Promise<ExportedData | null> {
     try {
       const backup = localStorage.getItem(BACKUP_KEY);
       if (backup) {
-        const data = JSON.parse(backup) as ExportedData;
+        const data = await this.openRecord<ExportedData>(JSON.parse(backup));
         console.log('[Storage] Found localStorage backup from', data.exportedAt);
         return data;
       }
@@ -54,8 +375,31 @@ class StorageService {
     return null;
   }
 
+  // In vault mode, store only the key and the encrypted record
+  private async sealRecord(storeName: StoreName, item: unknown): Promise<unknown> {
+    const keyPath = RECORD_KEY_PATHS[storeName];
+    if (!keyPath || !vault.isEnabled()) return item;
+    const record = item as Record<string, unknown>;
+    return { [keyPath]: record[keyPath], revision: record.revision, sealed: await vault.seal(item) };
+  }
+
+  private async readRecord<T>(storeName: StoreName, raw: unknown): Promise<T> {
+    this.trackRevision(storeName, raw);
+    return this.openRecord<T>(raw);
+  }
+
+  private async openRecord<T>(raw: unknown): Promise<T> {
+    if (raw && typeof raw === 'object' && 'sealed' in raw) {
+      return vault.open<T>((raw as SealedRecord).sealed);
+    }
+    return raw as T;
+  }
+
   async init(): Promise<void> {
     if (this.db) return;
+    if (vault.isLocked()) {
+      throw new Error('Storage is locked');
+    }
     if (this.initPromise) return this.initPromise;
 
     this.initPromise = new Promise((resolve, reject) => {
@@ -110,11 +454,145 @@ class StorageService {
           limitStore.createIndex('by-platform', 'platformId');
           limitStore.createIndex('by-date', 'changedAt');
         }
+
+        // Create incomeSources store (added in v3)
+        if (!db.objectStoreNames.contains('incomeSources')) {
+          db.createObjectStore('incomeSources', { keyPath: 'id' });
+        }
+
+        // Create meta store (added in v4) - holds the applied schema version
+        if (!db.objectStoreNames.contains('meta')) {
+          db.createObjectStore('meta', { keyPath: 'key' });
+        }
+
+        // Create auditLog store (added in v5) - append-only history of data changes
+        if (!db.objectStoreNames.contains('auditLog')) {
+          db.createObjectStore('auditLog', { keyPath: 'id' });
+        }
+
+        // Create snapshots store (added in v6) - rotating full copies of the data
+        if (!db.objectStoreNames.contains('snapshots')) {
+          db.createObjectStore('snapshots', { keyPath: 'id' });
+        }
+
+        // Create syncState store (added in v7) - what each record last synced as
+        if (!db.objectStoreNames.contains('syncState')) {
+          db.createObjectStore('syncState', { keyPath: 'id' });
+        }
       };
     });
 
     await this.initPromise;
     await this.initializeDefaults();
+    await this.runMigrations();
+    await this.loadSecrets();
+  }
+
+  private async getSchemaVersion(): Promise<number> {
+    const entry = await this.get<MetaEntry>('meta', SCHEMA_VERSION_KEY);
+    return entry?.value ?? BASE_SCHEMA_VERSION;
+  }
+
+  private async setSchemaVersion(version: number): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      const store = this.getStore('meta', 'readwrite');
+      const request = store.put({ key: SCHEMA_VERSION_KEY, value: version } satisfies MetaEntry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Bring stored data up to SCHEMA_VERSION, one migration at a time
+  private async runMigrations(): Promise<void> {
+    const version = await this.getSchemaVersion();
+
+    for (const migration of getPendingMigrations(version)) {
+      try {
+        await this.applyMigration(migration);
+        console.log(`[Storage] Migrated data to v${migration.version}: ${migration.description}`);
+      } catch (err) {
+        // The transaction rolled back, so data stays at the last good version
+        // and the migration is retried on next launch
+        console.error(`[Storage] Migration to v${migration.version} failed, rolled back:`, err);
+        return;
+      }
+    }
+  }
+
+  // Run one migration in a single transaction - any failure aborts all of it
+  private async applyMigration(migration: Migration): Promise<void> {
+    const before = await this.exportData();
+    const after = migration.migrate(before);
+
+    const collections: [StoreName, unknown[] | undefined, unknown[] | undefined][] = [
+      ['orders', before.orders, after.orders],
+      ['payments', before.payments, after.payments],
+      ['platforms', before.platforms, after.platforms],
+      ['subscriptions', before.subscriptions, after.subscriptions],
+      ['limitHistory', before.limitHistory, after.limitHistory],
+      ['incomeSources', before.incomeSources, after.incomeSources],
+    ];
+    const changed = collections.filter(([, prev, next]) => next !== undefined && prev !== next);
+
+    await this.replaceStores(
+      changed.map(([storeName, , items]) => [storeName, items ?? []]),
+      migration.version
+    );
+  }
+
+  // Replace the contents of several stores in one transaction - any failure aborts all of it
+  private async replaceStores(contents: [StoreName, unknown[]][], schemaVersion?: number): Promise<void> {
+    await this.init();
+    const existing = contents.filter(([storeName]) => this.db?.objectStoreNames.contains(storeName));
+    // Encrypt up front - a transaction commits as soon as it's left idle
+    const records = await Promise.all(
+      existing.map(async ([storeName, items]) => ({
+        storeName,
+        items: await Promise.all(items.map((item) => this.sealRecord(storeName, item))),
+      }))
+    );
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const storeNames: StoreName[] = records.map((r) => r.storeName);
+      if (schemaVersion !== undefined) storeNames.push('meta');
+      if (storeNames.length === 0) {
+        resolve();
+        return;
+      }
+
+      const transaction = this.db.transaction(storeNames, 'readwrite');
+      transaction.oncomplete = () => {
+        for (const { storeName, items } of records) {
+          items.forEach((item) => this.trackRevision(storeName, item));
+          this.broadcast({ store: storeName });
+        }
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+
+      try {
+        for (const { storeName, items } of records) {
+          const store = transaction.objectStore(storeName);
+          store.clear();
+          for (const item of items) {
+            store.put(item);
+          }
+        }
+        if (schemaVersion !== undefined) {
+          transaction.objectStore('meta').put({ key: SCHEMA_VERSION_KEY, value: schemaVersion } satisfies MetaEntry);
+        }
+      } catch (err) {
+        transaction.abort();
+        reject(err);
+      }
+    });
   }
 
   private async initializeDefaults(): Promise<void> {
@@ -128,7 +606,7 @@ class StorageService {
     // If IndexedDB is empty, try to restore from localStorage backup
     // Skip this during import to prevent recursive restore loop
     if (!this.isImporting && orders.length === 0 && payments.length === 0 && platforms.length === 0) {
-      const backup = this.getBackup();
+      const backup = await this.getBackup();
       if (backup && (backup.orders.length > 0 || backup.payments.length > 0)) {
         console.log('[Storage] IndexedDB empty, restoring from localStorage backup...');
         try {
@@ -148,6 +626,8 @@ class StorageService {
       for (const platform of DEFAULT_PLATFORMS) {
         await this.put('platforms', platform, false); // Don't trigger backup for defaults
       }
+      // Defaults are in the original shape - migrations fill in the rest
+      await this.setSchemaVersion(BASE_SCHEMA_VERSION);
     }
 
     // Initialize subscriptions if empty
@@ -175,22 +655,24 @@ class StorageService {
       console.warn(`[Storage] Store '${storeName}' does not exist, returning empty array`);
       return [];
     }
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<unknown[]>((resolve, reject) => {
       const store = this.getStore(storeName);
       const request = store.getAll();
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+    return Promise.all(records.map((record) => this.readRecord<T>(storeName, record)));
   }
 
   async get<T>(storeName: StoreName, key: string): Promise<T | undefined> {
     await this.init();
-    return new Promise((resolve, reject) => {
+    const record = await new Promise<unknown>((resolve, reject) => {
       const store = this.getStore(storeName);
       const request = store.get(key);
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+    return record === undefined ? undefined : this.readRecord<T>(storeName, record);
   }
 
   async put<T extends { id?: string; platformId?: string }>(
@@ -198,46 +680,164 @@ class StorageService {
     item: T,
     triggerBackup: boolean = true
   ): Promise<void> {
+    await this.commitWrites([{ type: 'put', storeName, item }], triggerBackup);
+  }
+
+  async delete(storeName: StoreName, key: string): Promise<void> {
+    await this.commitWrites([{ type: 'delete', storeName, key }]);
+  }
+
+  /**
+   * Collect writes across stores to commit in a single transaction
+   */
+  unitOfWork(): UnitOfWork {
+    return new UnitOfWork((writes) => this.commitWrites(writes));
+  }
+
+  // Apply writes in one transaction across every store they touch - a failed
+  // write or a stale revision aborts all of them, apart from guarded writes,
+  // which fall back to their `otherwise` writes. Resolves with the guarded
+  // writes that were stale.
+  private async commitWrites(writes: PendingWrite[], triggerBackup: boolean = true): Promise<PendingWrite[]> {
     await this.init();
-    // Check if store exists (for backwards compatibility with older databases)
-    if (!this.db?.objectStoreNames.contains(storeName)) {
-      console.warn(`[Storage] Store '${storeName}' does not exist, skipping save`);
-      return;
-    }
+
+    // Check if stores exist (for backwards compatibility with older databases)
+    const existing = writes.filter((write) => {
+      if (this.db?.objectStoreNames.contains(write.storeName)) return true;
+      console.warn(`[Storage] Store '${write.storeName}' does not exist, skipping write`);
+      return false;
+    });
+
+    // A record written twice only needs its last version
+    const byRecord = new Map<string, PendingWrite>();
+    existing.forEach((write, index) => {
+      const key = write.type === 'delete' ? write.key : this.getRecordKey(write.storeName, write.item);
+      byRecord.set(key !== undefined ? `${write.storeName}:${key}` : `#${index}`, write);
+    });
+    if (byRecord.size === 0) return [];
+
+    // Data records get the next revision after the expected one - a guard's,
+    // or else the one this tab's store holds.
+    // Encrypt up front - a transaction commits as soon as it's left idle.
+    const prepare = async (write: PendingWrite): Promise<PreparedWrite> => {
+      const guard = write.guard && {
+        then: await Promise.all(write.guard.then.map(prepare)),
+        otherwise: await Promise.all(write.guard.otherwise.map(prepare)),
+      };
+      const key = write.type === 'delete' ? write.key : this.getRecordKey(write.storeName, write.item);
+      const expectedRevision =
+        write.guard?.expectedRevision ??
+        (key !== undefined ? this.knownRevisions.get(`${write.storeName}:${key}`) ?? 0 : undefined);
+      if (write.type === 'delete') {
+        return { source: write, storeName: write.storeName, key, expectedRevision, record: undefined, guard };
+      }
+      const record = await this.sealRecord(
+        write.storeName,
+        expectedRevision !== undefined ? { ...write.item, revision: expectedRevision + 1 } : write.item
+      );
+      return { source: write, storeName: write.storeName, key, expectedRevision, record, guard };
+    };
+    const prepared = await Promise.all([...byRecord.values()].map(prepare));
+
     return new Promise((resolve, reject) => {
-      const store = this.getStore(storeName, 'readwrite');
-      const request = store.put(item);
-      request.onsuccess = () => {
-        console.log(`[Storage] Saved to ${storeName}:`, item.id || item.platformId);
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const storeNames = [
+        ...new Set(
+          prepared.flatMap((write) => [
+            write.storeName,
+            ...[...(write.guard?.then ?? []), ...(write.guard?.otherwise ?? [])].map((nested) => nested.storeName),
+          ])
+        ),
+      ];
+      const transaction = this.db.transaction(storeNames, 'readwrite');
+      const applied: PreparedWrite[] = [];
+      const stale: PendingWrite[] = [];
+      let conflict: ConflictError | null = null;
+
+      transaction.oncomplete = () => {
+        console.log(`[Storage] Committed ${applied.length} write(s) to ${storeNames.join(', ')}`);
+        const changes = new Map<string, StorageChange>();
+        for (const write of applied) {
+          if (write.key === undefined || !RECORD_KEY_PATHS[write.storeName]) continue;
+          const isDelete = write.record === undefined;
+          // Guarded writes come from elsewhere - this tab's store takes them in when it's told
+          if (isDelete) {
+            this.knownRevisions.delete(`${write.storeName}:${write.key}`);
+          } else if (!write.source.guard) {
+            this.knownRevisions.set(`${write.storeName}:${write.key}`, write.expectedRevision! + 1);
+          }
+          const changeKey = `${write.storeName}:${isDelete}`;
+          if (!changes.has(changeKey)) {
+            changes.set(changeKey, { store: write.storeName, keys: [], deleted: isDelete || undefined });
+          }
+          changes.get(changeKey)!.keys!.push(write.key);
+        }
+        changes.forEach((change) => this.broadcast(change));
         if (triggerBackup) {
-          this.saveBackup();
+          this.scheduleBackup();
         }
-        resolve();
+        resolve(stale);
       };
-      request.onerror = () => {
-        console.error(`[Storage] Failed to save to ${storeName}:`, request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('[Storage] Write failed, rolled back:', transaction.error);
+      };
+      transaction.onabort = () => {
+        reject(conflict ?? transaction.error ?? new Error('Transaction aborted'));
       };
-    });
-  }
 
-  async delete(storeName: StoreName, key: string): Promise<void> {
-    await this.init();
-    return new Promise((resolve, reject) => {
-      const store = this.getStore(storeName, 'readwrite');
-      const request = store.delete(key);
-      request.onsuccess = () => {
-        console.log(`[Storage] Deleted from ${storeName}:`, key);
-        this.saveBackup();
-        resolve();
+      const write = (pending: PreparedWrite) => {
+        const store = transaction.objectStore(pending.storeName);
+        if (pending.record === undefined) {
+          store.delete(pending.key!);
+        } else {
+          store.put(pending.record);
+        }
+        applied.push(pending);
       };
-      request.onerror = () => {
-        console.error(`[Storage] Failed to delete from ${storeName}:`, request.error);
-        reject(request.error);
+
+      const apply = (pending: PreparedWrite) => {
+        const { key } = pending;
+        if (key === undefined || (pending.record === undefined && !pending.guard)) {
+          write(pending);
+          return;
+        }
+
+        // Optimistic concurrency - reject the write if the record was saved since it was read
+        const check = transaction.objectStore(pending.storeName).get(key);
+        check.onsuccess = () => {
+          if (conflict) return;
+          const currentRevision = (check.result as { revision?: number } | undefined)?.revision ?? 0;
+          if (currentRevision === pending.expectedRevision) {
+            write(pending);
+            pending.guard?.then.forEach(apply);
+          } else if (pending.guard) {
+            stale.push(pending.source);
+            pending.guard.otherwise.forEach(apply);
+          } else {
+            console.warn(`[Storage] Stale write to ${pending.storeName}:`, key, {
+              expectedRevision: pending.expectedRevision,
+              currentRevision,
+            });
+            conflict = new ConflictError(pending.storeName, key);
+            transaction.abort();
+            this.conflictListeners.forEach((listener) => listener(conflict!));
+          }
+        };
       };
+
+      prepared.forEach(apply);
     });
   }
 
+  private getRecordKey(storeName: StoreName, item: object): string | undefined {
+    const keyPath = RECORD_KEY_PATHS[storeName];
+    return keyPath ? String((item as Record<string, unknown>)[keyPath]) : undefined;
+  }
+
   async getByIndex<T>(
     storeName: StoreName,
     indexName: string,
@@ -249,52 +849,20 @@ class StorageService {
       console.warn(`[Storage] Store '${storeName}' does not exist, returning empty array`);
       return [];
     }
-    return new Promise((resolve, reject) => {
+    // Sealed records only expose their key, so filter the decrypted records instead
+    if (vault.isEnabled() && RECORD_KEY_PATHS[storeName]) {
+      const field = INDEX_FIELDS[indexName];
+      const records = await this.getAll<T>(storeName);
+      return records.filter((record) => (record as Record<string, unknown>)[field] === value);
+    }
+    const records = await new Promise<unknown[]>((resolve, reject) => {
       const store = this.getStore(storeName);
       const index = store.index(indexName);
       const request = index.getAll(value);
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
-  }
-
-  // Batch insert for better import performance
-  private async batchPut<T>(
-    storeName: StoreName,
-    items: T[]
-  ): Promise<void> {
-    if (items.length === 0) return;
-
-    await this.init();
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
-
-      // Check if the store exists before trying to access it
-      if (!this.db.objectStoreNames.contains(storeName)) {
-        console.warn(`[Storage] Store '${storeName}' does not exist, skipping batch insert`);
-        resolve();
-        return;
-      }
-
-      const transaction = this.db.transaction(storeName, 'readwrite');
-      const store = transaction.objectStore(storeName);
-
-      transaction.oncomplete = () => {
-        console.log(`[Storage] Batch inserted ${items.length} items into ${storeName}`);
-        resolve();
-      };
-      transaction.onerror = () => {
-        console.error(`[Storage] Batch insert failed for ${storeName}:`, transaction.error);
-        reject(transaction.error);
-      };
-
-      for (const item of items) {
-        store.put(item);
-      }
-    });
+    return Promise.all(records.map((record) => this.readRecord<T>(storeName, record)));
   }
 
   // Orders
@@ -307,21 +875,15 @@ class StorageService {
   }
 
   async saveOrder(order: Order): Promise<void> {
-    return this.put('orders', order);
+    return this.unitOfWork().saveOrder(order).commit();
   }
 
   async deleteOrder(id: string): Promise<void> {
-    // Also delete associated payments
+    // Also delete associated payments, all in one transaction
     const payments = await this.getPaymentsByOrder(id);
-    try {
-      for (const payment of payments) {
-        await this.delete('payments', payment.id);
-      }
-      await this.delete('orders', id);
-    } catch (error) {
-      console.error('[Storage] deleteOrder failed:', error);
-      throw error; // Re-throw so caller knows it failed
-    }
+    const work = this.unitOfWork();
+    payments.forEach((payment) => work.deletePayment(payment.id));
+    await work.deleteOrder(id).commit();
   }
 
   async getOrdersByPlatform(platformId: string): Promise<Order[]> {
@@ -338,7 +900,7 @@ class StorageService {
   }
 
   async savePayment(payment: Payment): Promise<void> {
-    return this.put('payments', payment);
+    return this.unitOfWork().savePayment(payment).commit();
   }
 
   async deletePayment(id: string): Promise<void> {
@@ -396,6 +958,115 @@ class StorageService {
     return this.delete('limitHistory', id);
   }
 
+  // Income Sources
+  async getAllIncomeSources(): Promise<IncomeSource[]> {
+    return this.getAll<IncomeSource>('incomeSources');
+  }
+
+  async saveIncomeSource(source: IncomeSource): Promise<void> {
+    return this.put('incomeSources', source);
+  }
+
+  async deleteIncomeSource(id: string): Promise<void> {
+    return this.delete('incomeSources', id);
+  }
+
+  // Audit Log (append-only - events are never updated or deleted individually)
+  async appendAuditEvent(event: AuditEvent): Promise<void> {
+    return this.put('auditLog', event, false); // Not part of the backup
+  }
+
+  // Newest first
+  async getAuditLog(): Promise<AuditEvent[]> {
+    const events = await this.getAll<AuditEvent>('auditLog');
+    return events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  // Snapshots (kept through Clear All Data, pruned per SNAPSHOT_RETENTION)
+  // Resolves to null when there's nothing worth keeping yet
+  async takeSnapshot(reason: SnapshotReason): Promise<DataSnapshot | null> {
+    const data = await this.exportData();
+    if (!hasSnapshotData(data)) return null;
+
+    const snapshot = createSnapshot(reason, data);
+    await this.put('snapshots', snapshot, false); // Not part of the backup
+    console.log(`[Storage] Took ${reason} snapshot`);
+
+    const expired = getExpiredSnapshots(await this.getSnapshots());
+    if (expired.length > 0) {
+      await this.commitWrites(
+        expired.map((s) => ({ type: 'delete', storeName: 'snapshots', key: s.id })),
+        false
+      );
+    }
+    return snapshot;
+  }
+
+  // Newest first
+  async getSnapshots(): Promise<DataSnapshot[]> {
+    const snapshots = await this.getAll<DataSnapshot>('snapshots');
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    await this.commitWrites([{ type: 'delete', storeName: 'snapshots', key: id }], false);
+  }
+
+  // Replace all data with a snapshot's, keeping a snapshot of what's replaced -
+  // resolves with that one
+  async restoreSnapshot(id: string): Promise<DataSnapshot | null> {
+    const snapshot = await this.get<DataSnapshot>('snapshots', id);
+    if (!snapshot) {
+      throw new Error(`Snapshot not found: ${id}`);
+    }
+    const previous = await this.takeSnapshot('pre-restore');
+    await this.importData(snapshot.data);
+    return previous;
+  }
+
+  // Take any daily or weekly snapshot that's due
+  async takeScheduledSnapshots(): Promise<void> {
+    for (const reason of getDueSnapshotReasons(await this.getSnapshots())) {
+      await this.takeSnapshot(reason);
+    }
+  }
+
+  // Check for due snapshots now and then hourly, for tabs left open for days
+  startSnapshotSchedule(): void {
+    if (this.snapshotTimer) return;
+    const run = () => {
+      this.takeScheduledSnapshots().catch((err) => {
+        console.error('[Storage] Scheduled snapshot failed:', err);
+      });
+    };
+    run();
+    this.snapshotTimer = setInterval(run, SNAPSHOT_CHECK_INTERVAL_MS);
+  }
+
+  // Backup folder (File System Access handles can only be persisted in IndexedDB)
+  async getBackupFolder(): Promise<FileSystemDirectoryHandle | null> {
+    const entry = await this.get<MetaEntry<FileSystemDirectoryHandle>>('meta', BACKUP_FOLDER_KEY);
+    return entry?.value ?? null;
+  }
+
+  async saveBackupFolder(handle: FileSystemDirectoryHandle | null): Promise<void> {
+    if (handle) {
+      const entry: MetaEntry<FileSystemDirectoryHandle> = { key: BACKUP_FOLDER_KEY, value: handle };
+      await this.commitWrites([{ type: 'put', storeName: 'meta', item: entry }], false);
+    } else {
+      await this.commitWrites([{ type: 'delete', storeName: 'meta', key: BACKUP_FOLDER_KEY }], false);
+    }
+  }
+
+  // When the backup folder last got a backup
+  getLastFolderBackup(): string | null {
+    return this.readSetting<string>(LAST_FOLDER_BACKUP_KEY);
+  }
+
+  async saveLastFolderBackup(at: string): Promise<void> {
+    await this.writeSetting(LAST_FOLDER_BACKUP_KEY, at);
+  }
+
   // Notification Settings (stored in localStorage for simplicity)
   getNotificationSettings(): NotificationSettings {
     try {
@@ -423,68 +1094,449 @@ class StorageService {
     }
   }
 
-  // Gemini API Key (stored in localStorage)
-  getGeminiApiKey(): string | null {
+  // Cash-flow settings (stored in localStorage - the balance changes daily)
+  getCashFlowSettings(): CashFlowSettings {
+    const stored = this.readSetting<CashFlowSettings>(CASH_FLOW_SETTINGS_KEY);
+    if (stored) {
+      return stored;
+    }
+    return {
+      startingBalance: 0,
+      balanceAsOf: new Date().toISOString(),
+      forecastDays: 60,
+      minimumBuffer: 0,
+    };
+  }
+
+  saveCashFlowSettings(settings: CashFlowSettings): void {
+    this.writeSetting(CASH_FLOW_SETTINGS_KEY, settings).then(
+      () => console.log('[Storage] Cash-flow settings saved'),
+      (err) => console.warn('[Storage] Failed to save cash-flow settings:', err)
+    );
+  }
+
+  // Screenshot extraction settings (stored in localStorage)
+  getExtractionSettings(): ExtractionSettings {
     try {
-      return localStorage.getItem(GEMINI_API_KEY_KEY);
+      const stored = localStorage.getItem(EXTRACTION_SETTINGS_KEY);
+      if (stored) {
+        return { ...DEFAULT_EXTRACTION_SETTINGS, ...(JSON.parse(stored) as Partial<ExtractionSettings>) };
+      }
     } catch (err) {
-      console.warn('[Storage] Failed to read Gemini API key:', err);
+      console.warn('[Storage] Failed to read extraction settings:', err);
+    }
+    return DEFAULT_EXTRACTION_SETTINGS;
+  }
+
+  saveExtractionSettings(settings: ExtractionSettings): void {
+    try {
+      localStorage.setItem(EXTRACTION_SETTINGS_KEY, JSON.stringify(settings));
+      console.log('[Storage] Extraction settings saved');
+    } catch (err) {
+      console.warn('[Storage] Failed to save extraction settings:', err);
+    }
+  }
+
+  // AI provider API keys (stored in localStorage)
+  // Secrets and sealed settings are stored encrypted in vault mode and kept decrypted in memory
+  private async loadSecrets(): Promise<void> {
+    if (!vault.isEnabled()) return;
+    for (const provider of Object.keys(API_KEY_KEYS) as ApiKeyProvider[]) {
+      const key = await this.readSealedSecret<string>(API_KEY_KEYS[provider]);
+      if (key) this.apiKeys[provider] = key;
+    }
+    this.syncToken = await this.readSealedSecret<string>(SYNC_TOKEN_KEY);
+    for (const storageKey of SEALED_SETTING_KEYS) {
+      const value = await this.readSealedSecret(storageKey);
+      if (value !== null) this.sealedSettings.set(storageKey, value);
+    }
+  }
+
+  private async readSealedSecret<T>(storageKey: string): Promise<T | null> {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? await this.openRecord<T>(JSON.parse(stored)) : null;
+    } catch (err) {
+      console.warn('[Storage] Failed to read secret:', err);
       return null;
     }
   }
 
-  saveGeminiApiKey(key: string): void {
+  private async saveSealedSecret(storageKey: string, value: unknown): Promise<void> {
+    localStorage.setItem(storageKey, JSON.stringify({ sealed: await vault.seal(value) }));
+  }
+
+  private readSetting<T>(storageKey: string): T | null {
+    if (vault.isEnabled()) return (this.sealedSettings.get(storageKey) as T | undefined) ?? null;
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? (JSON.parse(stored) as T) : null;
+    } catch (err) {
+      console.warn(`[Storage] Failed to read ${storageKey}:`, err);
+      return null;
+    }
+  }
+
+  private async writeSetting(storageKey: string, value: unknown): Promise<void> {
+    if (vault.isEnabled()) {
+      this.sealedSettings.set(storageKey, value);
+      await this.saveSealedSecret(storageKey, value);
+    } else {
+      localStorage.setItem(storageKey, JSON.stringify(value));
+    }
+  }
+
+  getApiKeys(): ApiKeys {
+    if (vault.isEnabled()) return { ...this.apiKeys };
+    const keys: ApiKeys = {};
     try {
-      localStorage.setItem(GEMINI_API_KEY_KEY, key);
-      console.log('[Storage] Gemini API key saved');
+      for (const provider of Object.keys(API_KEY_KEYS) as ApiKeyProvider[]) {
+        const key = localStorage.getItem(API_KEY_KEYS[provider]);
+        if (key) keys[provider] = key;
+      }
     } catch (err) {
-      console.warn('[Storage] Failed to save Gemini API key:', err);
+      console.warn('[Storage] Failed to read API keys:', err);
     }
+    return keys;
   }
 
-  clearGeminiApiKey(): void {
+  saveApiKey(provider: ApiKeyProvider, key: string): void {
+    this.writeApiKey(provider, key).then(
+      () => console.log(`[Storage] ${provider} API key saved`),
+      (err) => console.warn(`[Storage] Failed to save ${provider} API key:`, err)
+    );
+  }
+
+  private async writeApiKey(provider: ApiKeyProvider, key: string): Promise<void> {
+    if (vault.isEnabled()) {
+      this.apiKeys[provider] = key;
+      await this.saveSealedSecret(API_KEY_KEYS[provider], key);
+    } else {
+      localStorage.setItem(API_KEY_KEYS[provider], key);
+    }
+  }
+
+  clearApiKey(provider: ApiKeyProvider): void {
+    delete this.apiKeys[provider];
     try {
-      localStorage.removeItem(GEMINI_API_KEY_KEY);
-      console.log('[Storage] Gemini API key cleared');
+      localStorage.removeItem(API_KEY_KEYS[provider]);
+      console.log(`[Storage] ${provider} API key cleared`);
     } catch (err) {
-      console.warn('[Storage] Failed to clear Gemini API key:', err);
+      console.warn(`[Storage] Failed to clear ${provider} API key:`, err);
+    }
+  }
+
+  // Sync settings (stored in localStorage - the token is a secret like the API keys)
+  getSyncSettings(): SyncSettings {
+    return this.readSetting<SyncSettings>(SYNC_SETTINGS_KEY) ?? { serverUrl: '', enabled: false };
+  }
+
+  getSyncToken(): string | null {
+    if (vault.isEnabled()) return this.syncToken;
+    return localStorage.getItem(SYNC_TOKEN_KEY);
+  }
+
+  private async saveSyncToken(token: string | null): Promise<void> {
+    this.syncToken = token;
+    if (!token) {
+      localStorage.removeItem(SYNC_TOKEN_KEY);
+    } else if (vault.isEnabled()) {
+      await this.saveSealedSecret(SYNC_TOKEN_KEY, token);
+    } else {
+      localStorage.setItem(SYNC_TOKEN_KEY, token);
+    }
+  }
+
+  /**
+   * Save sync settings, checking the server first
+   * Switching servers starts over - the new server has its own history.
+   */
+  async saveSyncSettings(settings: SyncSettings, token: string | null): Promise<void> {
+    if (settings.serverUrl) {
+      await checkSyncServer({ serverUrl: settings.serverUrl, token });
+    }
+
+    if (settings.serverUrl !== this.getSyncSettings().serverUrl) {
+      await this.replaceStores([['syncState', []]]);
+      await this.commitWrites([{ type: 'delete', storeName: 'meta', key: SYNC_CURSOR_KEY }], false);
+      this.setSyncStatus({ lastSyncedAt: null, lastError: null, conflicts: 0 });
+    }
+
+    await this.writeSetting(SYNC_SETTINGS_KEY, settings);
+    await this.saveSyncToken(token);
+    console.log('[Storage] Sync settings saved');
+
+    this.stopSync();
+    this.startSync();
+  }
+
+  // For useSyncExternalStore
+  subscribeSync = (listener: () => void): (() => void) => {
+    this.syncListeners.add(listener);
+    return () => this.syncListeners.delete(listener);
+  };
+
+  getSyncStatus = (): SyncStatus => this.syncStatus;
+
+  private setSyncStatus(updates: Partial<SyncStatus>): void {
+    this.syncStatus = { ...this.syncStatus, ...updates };
+    this.syncListeners.forEach((listener) => listener());
+  }
+
+  private getSyncConnection(): SyncConnection {
+    const { serverUrl } = this.getSyncSettings();
+    if (!serverUrl) {
+      throw new Error('Set up a sync server first');
+    }
+    return { serverUrl, token: this.getSyncToken() };
+  }
+
+  private getDeviceId(): string {
+    let deviceId = localStorage.getItem(SYNC_DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4();
+      localStorage.setItem(SYNC_DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  // Sync now, then every SYNC_INTERVAL_MS and shortly after local changes
+  startSync(): void {
+    if (this.syncTimer || !this.getSyncSettings().enabled) return;
+    const run = () => {
+      this.sync().catch((err) => {
+        console.error('[Storage] Sync failed:', err);
+      });
+    };
+    this.setSyncStatus({ state: 'idle' });
+    run();
+    this.syncTimer = setInterval(run, SYNC_INTERVAL_MS);
+    this.stopSyncOnBackup = this.onBackup(run);
+  }
+
+  private stopSync(): void {
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    this.syncTimer = null;
+    this.stopSyncOnBackup?.();
+    this.stopSyncOnBackup = null;
+    this.setSyncStatus({ state: 'off' });
+  }
+
+  /**
+   * Pull changes from the sync server, then push local ones
+   * Concurrent calls share one run.
+   */
+  sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<void> {
+    const connection = this.getSyncConnection();
+    const previousState = this.syncStatus.state === 'off' ? 'off' : 'idle';
+    this.setSyncStatus({ state: 'syncing' });
+
+    try {
+      const [data, stateList, cursorEntry] = await Promise.all([
+        this.exportData(),
+        this.getAll<SyncStateEntry>('syncState'),
+        this.get<MetaEntry>('meta', SYNC_CURSOR_KEY),
+      ]);
+      const local = new Map<string, LocalSyncRecord>();
+      for (const store of SYNC_STORES) {
+        const keyPath = RECORD_KEY_PATHS[store]!;
+        for (const record of data[store] ?? []) {
+          const key = String((record as unknown as Record<string, unknown>)[keyPath]);
+          local.set(getSyncRecordId(store, key), { store, key, record });
+        }
+      }
+      const states = new Map(stateList.map((state) => [state.id, state]));
+
+      // Pull first, so local changes are pushed on top of the latest revisions
+      const pulled = await pullSyncChanges(connection, cursorEntry?.value ?? 0);
+      const pull = planPull(local, states, pulled.changes);
+      const pulledStates = new Map(pull.states.map((state) => [state.id, state]));
+      const applyIds = new Set(pull.apply.map((record) => getSyncRecordId(record.store, record.key)));
+      const saveState = (state: SyncStateEntry): PendingWrite => ({ type: 'put', storeName: 'syncState', item: state });
+
+      // The plan was made from the local copies read before the pull - any
+      // edited here since are kept, and the pulled version becomes a conflict
+      const applied = await this.applySyncRecords(
+        pull.apply,
+        [
+          ...pull.states.filter((state) => !applyIds.has(state.id)).map(saveState),
+          ...(pulled.seq !== cursorEntry?.value
+            ? [{ type: 'put' as const, storeName: 'meta' as const, item: { key: SYNC_CURSOR_KEY, value: pulled.seq } }]
+            : []),
+        ],
+        (record) => {
+          const id = getSyncRecordId(record.store, record.key);
+          const snapshot = local.get(id)?.record;
+          return {
+            expectedRevision: (snapshot as { revision?: number } | undefined)?.revision ?? 0,
+            expectedHash: hashLocal(snapshot),
+            then: [saveState(pulledStates.get(id)!)],
+            otherwise: [saveState(markConflict(states.get(id), record))],
+          };
+        }
+      );
+      const conflicts = pull.apply
+        .filter((record) => !applied.includes(record))
+        .map((record) => markConflict(states.get(getSyncRecordId(record.store, record.key)), record));
+      pull.states.forEach((state) => states.set(state.id, state));
+      conflicts.forEach((state) => states.set(state.id, state));
+      for (const record of applied) {
+        const id = getSyncRecordId(record.store, record.key);
+        if (record.deleted) {
+          local.delete(id);
+        } else {
+          local.set(id, { store: record.store, key: record.key, record: record.data! });
+        }
+      }
+
+      const changes = planPush(local, states);
+      if (changes.length > 0) {
+        const pushed = await pushSyncChanges(connection, { deviceId: this.getDeviceId(), changes });
+        const pushedStates = getPushedStates(states, pushed);
+        await this.commitWrites(
+          pushedStates.map((state) => ({ type: 'put', storeName: 'syncState', item: state })),
+          false
+        );
+        pushedStates.forEach((state) => states.set(state.id, state));
+      }
+
+      console.log(`[Storage] Synced: pulled ${pull.apply.length}, pushed ${changes.length}`);
+      this.setSyncStatus({
+        state: previousState,
+        lastSyncedAt: new Date().toISOString(),
+        lastError: null,
+        conflicts: [...states.values()].filter((state) => state.conflict).length,
+      });
+    } catch (err) {
+      this.setSyncStatus({ state: 'error', lastError: err instanceof Error ? err.message : 'Sync failed' });
+      throw err;
+    }
+  }
+
+  /**
+   * Write server versions of records along with other bookkeeping, then let
+   * this tab's store know. Resolves with the records that were written.
+   *
+   * `guard` ties a record to the local copy it was planned against. If that
+   * copy has changed since, by revision or content (an import keeps
+   * revisions), it stays and the guard's `otherwise` writes go in instead.
+   */
+  private async applySyncRecords(
+    records: SyncRecord[],
+    extraWrites: PendingWrite[],
+    guard?: (record: SyncRecord) => WriteGuard & { expectedHash: string | null }
+  ): Promise<SyncRecord[]> {
+    const writes: PendingWrite[] = [];
+    const recordsByWrite = new Map<PendingWrite, SyncRecord>();
+    const skipped = new Set<SyncRecord>();
+    for (const record of records) {
+      const recordGuard = guard?.(record);
+      if (recordGuard && hashLocal(await this.get<AuditRecord>(record.store, record.key)) !== recordGuard.expectedHash) {
+        writes.push(...recordGuard.otherwise);
+        skipped.add(record);
+        continue;
+      }
+      const write: PendingWrite = record.deleted
+        ? { type: 'delete', storeName: record.store, key: record.key }
+        : { type: 'put', storeName: record.store, item: record.data! };
+      if (recordGuard) {
+        const { expectedRevision, then, otherwise } = recordGuard;
+        write.guard = { expectedRevision, then, otherwise };
+      }
+      writes.push(write);
+      recordsByWrite.set(write, record);
+    }
+    if (writes.length + extraWrites.length === 0) return [];
+
+    // Only data changes need a backup - bookkeeping alone would just trigger another sync
+    const stale = await this.commitWrites([...writes, ...extraWrites], recordsByWrite.size > 0);
+    stale.forEach((write) => skipped.add(recordsByWrite.get(write)!));
+    const applied = records.filter((record) => !skipped.has(record));
+
+    const changes = new Map<string, StorageChange>();
+    for (const record of applied) {
+      const changeKey = `${record.store}:${Boolean(record.deleted)}`;
+      if (!changes.has(changeKey)) {
+        changes.set(changeKey, { store: record.store, keys: [], deleted: record.deleted || undefined });
+      }
+      changes.get(changeKey)!.keys!.push(record.key);
+    }
+    if (changes.size > 0) {
+      this.notifyChanges([...changes.values()]);
+    }
+    return applied;
+  }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    const states = await this.getAll<SyncStateEntry>('syncState');
+    return Promise.all(
+      states
+        .filter((state) => state.conflict)
+        .map(async (state) => ({
+          id: state.id,
+          store: state.store,
+          key: state.key,
+          local: await this.get<SyncConflict['local']>(state.store, state.key),
+          remote: state.conflict!,
+        }))
+    );
+  }
+
+  /**
+   * Settle a conflict by keeping this device's version (pushed on the next
+   * sync) or taking the server's
+   */
+  async resolveSyncConflict(id: string, resolution: 'local' | 'remote'): Promise<void> {
+    const state = await this.get<SyncStateEntry>('syncState', id);
+    if (!state?.conflict) {
+      throw new Error(`Sync conflict not found: ${id}`);
+    }
+
+    await this.applySyncRecords(resolution === 'remote' ? [state.conflict] : [], [
+      { type: 'put', storeName: 'syncState', item: resolveConflictState(state, resolution) },
+    ]);
+    this.setSyncStatus({ conflicts: Math.max(0, this.syncStatus.conflicts - 1) });
+
+    if (resolution === 'local') {
+      this.sync().catch((err) => console.error('[Storage] Sync failed:', err));
     }
   }
 
   // Export/Import
   async exportData(): Promise<ExportedData> {
-    const [orders, payments, platforms, subscriptions, limitHistory] = await Promise.all([
+    const [orders, payments, platforms, subscriptions, limitHistory, incomeSources] = await Promise.all([
       this.getAllOrders(),
       this.getAllPayments(),
       this.getAllPlatforms(),
       this.getAllSubscriptions(),
       this.getAllLimitHistory(),
+      this.getAllIncomeSources(),
     ]);
 
     return {
-      version: 2,
+      version: SCHEMA_VERSION,
       exportedAt: new Date().toISOString(),
       orders,
       payments,
       platforms,
       subscriptions,
       limitHistory,
+      incomeSources,
     };
   }
 
-  async importData(data: ExportedData): Promise<void> {
-    // Validate version - support v1 and v2
-    if (data.version !== 1 && data.version !== 2) {
-      throw new Error(`Unsupported data version: ${data.version}`);
-    }
-
-    // Validate required arrays
-    if (!Array.isArray(data.orders)) {
-      throw new Error('Invalid data: orders must be an array');
-    }
-    if (!Array.isArray(data.payments)) {
-      throw new Error('Invalid data: payments must be an array');
-    }
+  async importData(file: ExportedData): Promise<void> {
+    // Validate and upgrade older files to the current schema
+    const data = upgradeExportedData(file);
 
     // Validate referential integrity - check that all payments reference valid orders
     const orderIds = new Set(data.orders.map(o => o.id));
@@ -495,21 +1547,35 @@ class StorageService {
 
     // Set flag to prevent recursive backup restore during import
     this.isImporting = true;
+    // A pending backup would overwrite the old one with half-imported data
+    this.cancelScheduledBackup();
 
     try {
-      // Clear existing data (backup is preserved until import succeeds)
-      await this.clearAllData();
-
-      // Use batch operations for better performance
-      await this.batchPut('platforms', data.platforms || []);
-      await this.batchPut('subscriptions', data.subscriptions || []);
-      await this.batchPut('orders', data.orders);
-      await this.batchPut('payments', data.payments);
-
-      // Import limit history (v2+)
-      if (data.limitHistory && data.limitHistory.length > 0) {
-        await this.batchPut('limitHistory', data.limitHistory);
-      }
+      // Replace everything in one transaction, so a failed import leaves the
+      // old data in place. Defaults go under the file's records, as they
+      // would on a fresh install.
+      const platforms = data.platforms ?? [];
+      const subscriptions = data.subscriptions ?? [];
+      await this.replaceStores(
+        [
+          [
+            'platforms',
+            [...DEFAULT_PLATFORMS.filter((p) => !platforms.some((i) => i.id === p.id)), ...platforms],
+          ],
+          [
+            'subscriptions',
+            [
+              ...DEFAULT_SUBSCRIPTIONS.filter((s) => !subscriptions.some((i) => i.platformId === s.platformId)),
+              ...subscriptions,
+            ],
+          ],
+          ['orders', data.orders],
+          ['payments', data.payments],
+          ['limitHistory', data.limitHistory ?? []],
+          ['incomeSources', data.incomeSources ?? []],
+        ],
+        SCHEMA_VERSION
+      );
 
       // Only clear old backup after successful import, then create new backup
       localStorage.removeItem(BACKUP_KEY);
@@ -519,10 +1585,119 @@ class StorageService {
     }
   }
 
+  // Write merged records on top of existing data - nothing is cleared
+  async mergeData(changes: MergeChanges): Promise<void> {
+    // Validate referential integrity against both existing and merged orders
+    const orderIds = new Set([
+      ...(await this.getAllOrders()).map(o => o.id),
+      ...changes.orders.map(o => o.id),
+    ]);
+    const orphanedPayments = changes.payments.filter(p => !orderIds.has(p.orderId));
+    if (orphanedPayments.length > 0) {
+      throw new Error(`Import contains ${orphanedPayments.length} payment(s) referencing non-existent orders`);
+    }
+
+    this.isImporting = true;
+
+    try {
+      // Timestamps are kept as-is so a later merge still sees which side is newer,
+      // but revisions follow on from the local ones like any other save
+      const work = this.unitOfWork();
+      const contents: [StoreName, object[]][] = [
+        ['platforms', changes.platforms],
+        ['subscriptions', changes.subscriptions],
+        ['orders', changes.orders],
+        ['payments', changes.payments],
+        ['limitHistory', changes.limitHistory],
+        ['incomeSources', changes.incomeSources],
+      ];
+      contents.forEach(([storeName, items]) => items.forEach((item) => work.put(storeName, item)));
+      await work.commit();
+
+      this.saveBackup();
+    } finally {
+      this.isImporting = false;
+    }
+  }
+
+  // Vault mode
+  async enableVault(passphrase: string): Promise<void> {
+    await this.reencrypt(() => vault.setPassphrase(passphrase));
+  }
+
+  async changeVaultPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    if (!(await vault.verify(currentPassphrase))) {
+      throw new Error('Incorrect passphrase');
+    }
+    await this.reencrypt(() => vault.setPassphrase(newPassphrase));
+  }
+
+  async disableVault(passphrase: string): Promise<void> {
+    if (!(await vault.verify(passphrase))) {
+      throw new Error('Incorrect passphrase');
+    }
+    await this.reencrypt(() => vault.clear());
+  }
+
+  // Rewrite every record, attachment, the backup and secrets under a new vault state
+  private async reencrypt(switchVault: () => Promise<void> | void): Promise<void> {
+    const data = await this.exportData();
+    const auditLog = await this.getAuditLog();
+    const snapshots = await this.getSnapshots();
+    const apiKeys = this.getApiKeys();
+    const syncToken = this.getSyncToken();
+    const settings = SEALED_SETTING_KEYS.map((storageKey) => [storageKey, this.readSetting(storageKey)] as const);
+    const syncState = await this.getAll<SyncStateEntry>('syncState');
+    const attachments = await attachmentStorage.getAllAttachments();
+    const previous = vault.getState();
+
+    await switchVault();
+    try {
+      await attachmentStorage.replaceAll(attachments);
+      await this.replaceStores([
+        ['orders', data.orders],
+        ['payments', data.payments],
+        ['platforms', data.platforms],
+        ['subscriptions', data.subscriptions],
+        ['limitHistory', data.limitHistory ?? []],
+        ['incomeSources', data.incomeSources ?? []],
+        ['auditLog', auditLog],
+        ['snapshots', snapshots],
+        ['syncState', syncState],
+      ]);
+    } catch (err) {
+      // The records weren't written, so the old key still opens them -
+      // attachments live in their own database and are put back under it
+      vault.restoreState(previous);
+      await attachmentStorage.replaceAll(attachments);
+      throw err;
+    }
+
+    // A secret that fails to save is reported rather than silently left out
+    await Promise.all([
+      ...(Object.entries(apiKeys) as [ApiKeyProvider, string][]).map(([provider, key]) =>
+        this.writeApiKey(provider, key)
+      ),
+      ...(syncToken ? [this.saveSyncToken(syncToken)] : []),
+      ...settings.flatMap(([storageKey, value]) => (value !== null ? [this.writeSetting(storageKey, value)] : [])),
+    ]);
+    this.saveBackup();
+  }
+
   async clearAllData(): Promise<void> {
     await this.init();
 
-    const storeNames: StoreName[] = ['orders', 'payments', 'platforms', 'subscriptions', 'limitHistory'];
+    // Snapshots are left alone so a clear can be restored, the audit log
+    // because it's append-only, and sync state so the deletes reach other devices
+    // (the confirm dialogs say so when sync is on)
+    const storeNames: StoreName[] = [
+      'orders',
+      'payments',
+      'platforms',
+      'subscriptions',
+      'limitHistory',
+      'incomeSources',
+    ];
 
     for (const storeName of storeNames) {
       // Check if store exists before trying to clear it
@@ -537,10 +1712,13 @@ class StorageService {
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       });
+      this.broadcast({ store: storeName });
     }
+    this.knownRevisions.clear();
 
     // Re-initialize defaults
     await this.initializeDefaults();
+    await this.runMigrations();
   }
 }
 
@@ -553,18 +1731,20 @@ export async function debugStorage(): Promise<void> {
   // Check IndexedDB
   console.log('=== IndexedDB Contents ===');
   try {
-    const [orders, payments, platforms, subscriptions, limitHistory] = await Promise.all([
+    const [orders, payments, platforms, subscriptions, limitHistory, incomeSources] = await Promise.all([
       storage.getAllOrders(),
       storage.getAllPayments(),
       storage.getAllPlatforms(),
       storage.getAllSubscriptions(),
       storage.getAllLimitHistory(),
+      storage.getAllIncomeSources(),
     ]);
     console.log('Orders:', orders.length, orders);
     console.log('Payments:', payments.length, payments);
     console.log('Platforms:', platforms.length, platforms);
     console.log('Subscriptions:', subscriptions.length, subscriptions);
     console.log('Limit History:', limitHistory.length, limitHistory);
+    console.log('Income Sources:', incomeSources.length, incomeSources);
   } catch (err) {
     console.error('IndexedDB error:', err);
   }
@@ -573,7 +1753,9 @@ export async function debugStorage(): Promise<void> {
   console.log('\n=== localStorage Backup ===');
   try {
     const backup = localStorage.getItem(BACKUP_KEY);
-    if (backup) {
+    if (backup && 'sealed' in JSON.parse(backup)) {
+      console.log('Backup is encrypted (vault mode)');
+    } else if (backup) {
       const data = JSON.parse(backup) as ExportedData;
       console.log('Backup exists from:', data.exportedAt);
       console.log('Orders:', data.orders.length);
@@ -0,0 +1,193 @@
+/**
+ * Sync client - talks to the sync server and decides what to push and pull
+ *
+ * Each device keeps a sync state per record: the server revision it last
+ * agreed on and a hash of the content at that point. Comparing records to
+ * that state finds local changes however they were made (edits, imports,
+ * clears), and a remote change to a record that also changed locally is a
+ * conflict left for the user to resolve.
+ */
+
+import type { AuditRecord } from '../types';
+import {
+  SYNC_API_VERSION,
+  getSyncData,
+  getSyncRecordId,
+  hashSyncData,
+  type SyncPullResponse,
+  type SyncPushChange,
+  type SyncPushRequest,
+  type SyncPushResponse,
+  type SyncRecord,
+  type SyncStoreName,
+} from './syncProtocol';
+
+export interface SyncStateEntry {
+  id: string; // `${store}:${key}`
+  store: SyncStoreName;
+  key: string;
+  serverRevision: number; // last revision this device agreed with the server on
+  hash: string | null; // content at that revision, null once deleted
+  conflict?: SyncRecord; // server version that clashes with a local change
+}
+
+export interface LocalSyncRecord {
+  store: SyncStoreName;
+  key: string;
+  record: AuditRecord;
+}
+
+export interface SyncConnection {
+  serverUrl: string;
+  token: string | null;
+}
+
+export interface SyncConflict {
+  id: string;
+  store: SyncStoreName;
+  key: string;
+  local?: AuditRecord; // undefined = deleted here
+  remote: SyncRecord;
+}
+
+function createState(store: SyncStoreName, key: string, record: SyncRecord | null): SyncStateEntry {
+  return {
+    id: getSyncRecordId(store, key),
+    store,
+    key,
+    serverRevision: record?.revision ?? 0,
+    hash: record && !record.deleted && record.data ? hashSyncData(record.data) : null,
+  };
+}
+
+export function hashLocal(record: AuditRecord | undefined): string | null {
+  return record ? hashSyncData(record) : null;
+}
+
+/**
+ * Sync state that holds a server version clashing with a local change
+ */
+export function markConflict(state: SyncStateEntry | undefined, record: SyncRecord): SyncStateEntry {
+  return { ...(state ?? createState(record.store, record.key, null)), conflict: record };
+}
+
+/**
+ * Sort pulled changes into ones to write locally and ones that conflict
+ *
+ * `local` and `states` are keyed by `${store}:${key}`.
+ */
+export function planPull(
+  local: Map<string, LocalSyncRecord>,
+  states: Map<string, SyncStateEntry>,
+  remote: SyncRecord[]
+): { apply: SyncRecord[]; states: SyncStateEntry[] } {
+  const apply: SyncRecord[] = [];
+  const updated: SyncStateEntry[] = [];
+
+  for (const record of remote) {
+    const id = getSyncRecordId(record.store, record.key);
+    const state = states.get(id);
+    // Already seen - usually this device's own push coming back
+    if (state && state.serverRevision >= record.revision) continue;
+
+    const localHash = hashLocal(local.get(id)?.record);
+    const remoteState = createState(record.store, record.key, record);
+    const isLocallyChanged = localHash !== (state?.hash ?? null);
+
+    if (!isLocallyChanged || localHash === remoteState.hash) {
+      if (localHash !== remoteState.hash) apply.push(record);
+      updated.push(remoteState);
+    } else {
+      updated.push(markConflict(state, record));
+    }
+  }
+
+  return { apply, states: updated };
+}
+
+/**
+ * Local changes since the last sync, skipping records in conflict
+ */
+export function planPush(local: Map<string, LocalSyncRecord>, states: Map<string, SyncStateEntry>): SyncPushChange[] {
+  const changes: SyncPushChange[] = [];
+
+  for (const id of new Set([...local.keys(), ...states.keys()])) {
+    const state = states.get(id);
+    if (state?.conflict) continue;
+
+    const { store, key, record } = local.get(id) ?? { ...state!, record: undefined };
+    if (hashLocal(record) === (state?.hash ?? null)) continue;
+
+    changes.push({
+      store,
+      key,
+      baseRevision: state?.serverRevision ?? 0,
+      deleted: record ? undefined : true,
+      data: record ? getSyncData(record) : undefined,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * New sync states from the server's answer to a push
+ */
+export function getPushedStates(states: Map<string, SyncStateEntry>, response: SyncPushResponse): SyncStateEntry[] {
+  return [
+    ...response.accepted.map((record) => createState(record.store, record.key, record)),
+    ...response.conflicts.map((record) => markConflict(states.get(getSyncRecordId(record.store, record.key)), record)),
+  ];
+}
+
+/**
+ * State after resolving a conflict
+ * Keeping the local version re-bases it on the server's revision so the next
+ * push overwrites the server copy; taking the server's adopts it outright.
+ */
+export function resolveConflictState(state: SyncStateEntry, resolution: 'local' | 'remote'): SyncStateEntry {
+  const remote = state.conflict!;
+  if (resolution === 'remote') {
+    return createState(state.store, state.key, remote);
+  }
+  return { ...state, serverRevision: remote.revision, conflict: undefined };
+}
+
+async function request<T>(connection: SyncConnection, path: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${connection.serverUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(connection.token ? { Authorization: `Bearer ${connection.token}` } : {}),
+      },
+    });
+  } catch {
+    throw new Error("Can't reach the sync server");
+  }
+
+  const body = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !body) {
+    throw new Error(body?.error ?? `Sync server error (${response.status})`);
+  }
+  return body;
+}
+
+/**
+ * Check the server is reachable, accepts the token and speaks this protocol
+ */
+export async function checkSyncServer(connection: SyncConnection): Promise<void> {
+  const health = await request<{ apiVersion: number }>(connection, '/v1/health');
+  if (health.apiVersion !== SYNC_API_VERSION) {
+    throw new Error(`Sync server speaks protocol v${health.apiVersion}, this app needs v${SYNC_API_VERSION}`);
+  }
+}
+
+export function pullSyncChanges(connection: SyncConnection, since: number): Promise<SyncPullResponse> {
+  return request<SyncPullResponse>(connection, `/v1/changes?since=${since}`);
+}
+
+export function pushSyncChanges(connection: SyncConnection, push: SyncPushRequest): Promise<SyncPushResponse> {
+  return request<SyncPushResponse>(connection, '/v1/push', { method: 'POST', body: JSON.stringify(push) });
+}
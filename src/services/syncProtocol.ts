@@ -0,0 +1,104 @@
+/**
+ * Wire format shared by the sync client and the self-hosted sync server
+ *
+ * The server keeps the latest version of every record with a per-record
+ * revision, plus a server-wide sequence number so clients can pull
+ * everything changed since their last sync. Deletes are kept as tombstones
+ * so other devices learn about them.
+ *
+ * server/syncServer.ts imports this file directly, so it must stay free of
+ * runtime imports.
+ */
+
+import type { AuditRecord } from '../types';
+
+export const SYNC_API_VERSION = 1;
+
+// Stores that sync between devices - audit logs and snapshots stay per device
+export const SYNC_STORES = ['orders', 'payments', 'platforms', 'subscriptions', 'limitHistory', 'incomeSources'] as const;
+
+export type SyncStoreName = (typeof SYNC_STORES)[number];
+
+export interface SyncRecord {
+  store: SyncStoreName;
+  key: string;
+  revision: number; // bumped by the server on every accepted write
+  seq: number; // server-wide order of changes
+  deleted?: boolean; // tombstone
+  data?: AuditRecord; // absent on tombstones
+  updatedAt: string; // when the server accepted it
+  deviceId: string; // device that wrote it
+}
+
+export interface SyncPushChange {
+  store: SyncStoreName;
+  key: string;
+  baseRevision: number; // server revision the change was made on top of, 0 for new records
+  deleted?: boolean;
+  data?: AuditRecord;
+}
+
+export interface SyncPushRequest {
+  deviceId: string;
+  changes: SyncPushChange[];
+}
+
+export interface SyncPushResponse {
+  seq: number;
+  accepted: SyncRecord[];
+  conflicts: SyncRecord[]; // the server's current version of each rejected change
+}
+
+export interface SyncPullResponse {
+  seq: number;
+  changes: SyncRecord[];
+}
+
+export function getSyncRecordId(store: SyncStoreName, key: string): string {
+  return `${store}:${key}`;
+}
+
+/**
+ * JSON with object keys sorted, so equal records serialize identically
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Local bookkeeping that differs between devices for the same record
+const DEVICE_FIELDS = new Set(['revision']);
+
+/**
+ * Content of a record as it syncs, without device-local fields
+ */
+export function getSyncData(record: AuditRecord): AuditRecord {
+  return Object.fromEntries(
+    Object.entries(record).filter(([field]) => !DEVICE_FIELDS.has(field))
+  ) as unknown as AuditRecord;
+}
+
+/**
+ * Short fingerprint of a record's synced content (cyrb53)
+ */
+export function hashSyncData(record: AuditRecord): string {
+  const text = stableStringify(getSyncData(record));
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
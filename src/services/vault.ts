@@ -0,0 +1,318 @@
+/**
+ * Passphrase vault - encrypts data at rest with WebCrypto
+ *
+ * A key is derived from the passphrase with PBKDF2 and used for AES-GCM.
+ * The key only ever lives in memory; the config in localStorage holds the
+ * salt and a check value so a passphrase can be verified without any data.
+ */
+
+const VAULT_CONFIG_KEY = 'bnpl-vault';
+const VAULT_CHECK_VALUE = 'bnpl-tracker-vault';
+const PBKDF2_ITERATIONS = 600_000;
+const ENCRYPTED_EXPORT_FORMAT = 'bnpl-tracker-encrypted';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 ciphertext
+}
+
+interface VaultConfig {
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedPayload; // VAULT_CHECK_VALUE encrypted with the key
+  autoLockMinutes: number; // 0 = never
+}
+
+interface VaultState {
+  config: VaultConfig | null;
+  key: CryptoKey | null;
+}
+
+// Self-contained encrypted export file - carries its own salt
+export interface EncryptedExportFile extends EncryptedPayload {
+  format: typeof ENCRYPTED_EXPORT_FORMAT;
+  salt: string;
+  iterations: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWithKey(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptWithKey<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+// Files are sealed as raw bytes rather than JSON: the IV, then the ciphertext
+async function encryptBlobWithKey(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await blob.arrayBuffer());
+  return new Blob([iv, ciphertext], { type: 'application/octet-stream' });
+}
+
+async function decryptBlobWithKey(key: CryptoKey, blob: Blob, type: string): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+  return new Blob([plaintext], { type });
+}
+
+/**
+ * Whether a parsed file is an encrypted export
+ */
+export function isEncryptedExport(value: unknown): value is EncryptedExportFile {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { format?: unknown }).format === ENCRYPTED_EXPORT_FORMAT
+  );
+}
+
+/**
+ * Encrypt a value into a standalone file that only needs the passphrase
+ */
+export async function encryptExport(value: unknown, passphrase: string): Promise<EncryptedExportFile> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    format: ENCRYPTED_EXPORT_FORMAT,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    ...(await encryptWithKey(key, value)),
+  };
+}
+
+/**
+ * Decrypt an encrypted export file
+ */
+export async function decryptExport<T>(file: EncryptedExportFile, passphrase: string): Promise<T> {
+  const key = await deriveKey(passphrase, fromBase64(file.salt), file.iterations);
+  try {
+    return await decryptWithKey<T>(key, file);
+  } catch {
+    throw new Error('Incorrect passphrase or damaged file');
+  }
+}
+
+class VaultService {
+  private config: VaultConfig | null = this.readConfig();
+  private key: CryptoKey | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    // localStorage fires this in every other tab of the app. Enabling,
+    // disabling or changing the passphrase there leaves this tab's key
+    // out of step with the data, so lock and start over from the new config.
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key !== null && event.key !== VAULT_CONFIG_KEY) return;
+        const config = this.readConfig();
+        if (config && this.config && config.salt === this.config.salt) {
+          this.config = config; // only settings like auto-lock changed
+          this.listeners.forEach((listener) => listener());
+        } else if (config || this.config) {
+          this.lock();
+        }
+      });
+    }
+  }
+
+  // For useSyncExternalStore - fires when the vault is enabled, disabled or reconfigured
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  private readConfig(): VaultConfig | null {
+    try {
+      const stored = localStorage.getItem(VAULT_CONFIG_KEY);
+      return stored ? (JSON.parse(stored) as VaultConfig) : null;
+    } catch (err) {
+      console.warn('[Vault] Failed to read vault config:', err);
+      return null;
+    }
+  }
+
+  private writeConfig(config: VaultConfig | null): void {
+    if (config) {
+      localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(VAULT_CONFIG_KEY);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  isLocked(): boolean {
+    return this.config !== null && this.key === null;
+  }
+
+  getAutoLockMinutes(): number {
+    return this.config?.autoLockMinutes ?? 0;
+  }
+
+  setAutoLockMinutes(minutes: number): void {
+    if (!this.config) return;
+    this.config = { ...this.config, autoLockMinutes: minutes };
+    this.writeConfig(this.config);
+  }
+
+  private async deriveConfigKey(passphrase: string, config: VaultConfig): Promise<CryptoKey | null> {
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+      const check = await decryptWithKey<string>(key, config.check);
+      return check === VAULT_CHECK_VALUE ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.config) return;
+    const key = await this.deriveConfigKey(passphrase, this.config);
+    if (!key) {
+      throw new Error('Incorrect passphrase');
+    }
+    this.key = key;
+    console.log('[Vault] Unlocked');
+  }
+
+  async verify(passphrase: string): Promise<boolean> {
+    return this.config !== null && (await this.deriveConfigKey(passphrase, this.config)) !== null;
+  }
+
+  /**
+   * Drop the key and reload - reloading is the only reliable way to discard
+   * decrypted data already held by the store and mounted components
+   */
+  lock(): void {
+    this.key = null;
+    console.log('[Vault] Locked');
+    window.location.reload();
+  }
+
+  /**
+   * Start encrypting with a new passphrase (enable or change passphrase)
+   * Callers re-encrypt existing data and restore the previous state on failure.
+   */
+  async setPassphrase(passphrase: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    this.config = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptWithKey(key, VAULT_CHECK_VALUE),
+      autoLockMinutes: this.config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    };
+    this.key = key;
+    this.writeConfig(this.config);
+  }
+
+  // Turn encryption off - callers rewrite data as plaintext
+  clear(): void {
+    this.config = null;
+    this.key = null;
+    this.writeConfig(null);
+  }
+
+  getState(): VaultState {
+    return { config: this.config, key: this.key };
+  }
+
+  restoreState(state: VaultState): void {
+    this.config = state.config;
+    this.key = state.key;
+    this.writeConfig(state.config);
+  }
+
+  async seal(value: unknown): Promise<EncryptedPayload> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    return encryptWithKey(this.key, value);
+  }
+
+  // Encrypt as a standalone export file - the vault key comes from the same
+  // salt and iterations, so decryptExport opens it with just the passphrase
+  async sealExport(value: unknown): Promise<EncryptedExportFile> {
+    if (!this.key || !this.config) {
+      throw new Error('Vault is locked');
+    }
+    return {
+      format: ENCRYPTED_EXPORT_FORMAT,
+      salt: this.config.salt,
+      iterations: this.config.iterations,
+      ...(await encryptWithKey(this.key, value)),
+    };
+  }
+
+  async open<T>(payload: EncryptedPayload): Promise<T> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    return decryptWithKey<T>(this.key, payload);
+  }
+
+  async sealBlob(blob: Blob): Promise<Blob> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    return encryptBlobWithKey(this.key, blob);
+  }
+
+  async openBlob(blob: Blob, type: string): Promise<Blob> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    return decryptBlobWithKey(this.key, blob, type);
+  }
+}
+
+export const vault = new VaultService();
@@ -10,19 +10,78 @@ import type {
   ExportedData,
   NotificationSettings,
   LimitChange,
+  NewPlatformInput,
+  IncomeSource,
+  NewIncomeSourceInput,
+  CashFlowSettings,
+  NewPaymentEventInput,
+  NewRefundInput,
+  OrderRefund,
+  OrderImportRow,
+  AuditActor,
+  AuditChange,
+  DataSnapshot,
+  ExtractionSettings,
+  ApiKeyProvider,
+  ApiKeys,
 } from '../types';
 import type { PlatformTier } from '../constants/platforms';
 import { storage } from '../services/storage';
-import { migrateToV2 } from '../services/migrations';
+import type { StorageChange, UnitOfWork } from '../services/storage';
+import { vault } from '../services/vault';
+import { backupFolder } from '../services/backupFolder';
+import { attachmentStorage } from '../services/attachmentStorage';
+import { upgradeExportedData } from '../services/migrations';
+import { DEFAULT_EXTRACTION_SETTINGS } from '../services/extraction';
+import { buildMergePlan, resolveMergePlan } from '../services/mergeImport';
+import type { MergePlan, MergeResolution, MergeSummary } from '../services/mergeImport';
+import {
+  AUDIT_COLLECTIONS,
+  combineChanges,
+  createAuditEvent,
+  diffSnapshots,
+  getStaleChanges,
+  summarizeChanges,
+} from '../services/auditLog';
+import type { AuditCollection, AuditSnapshot } from '../services/auditLog';
+import { stableStringify } from '../services/syncProtocol';
+import { createPlatformId } from '../utils/platform';
+import { isPaidOnTime } from '../utils/payment';
+import {
+  analyzePurchase,
+  getCandidateDates,
+  rankSuggestions,
+  type PurchaseSimulation,
+  type PurchaseSuggestion,
+} from '../services/purchaseSimulator';
 import {
   calculatePayments,
   shiftPaymentDates,
   recalculatePaymentDates,
+  recalculateMonthlyPaymentDates,
   redistributePaymentAmounts,
+  buildAmortizationSchedule,
+  applyRefundToPayments,
   getDateDelta,
 } from '../services/paymentCalculator';
 import { parseISO, isBefore, startOfDay } from 'date-fns';
 
+interface AddOrderOptions {
+  dryRun?: boolean; // build the order and payments without persisting anything
+}
+
+interface ImportOrdersOptions extends AddOrderOptions {
+  // Rows folded into tracked orders (see mergeOrder) in the same transaction as the import
+  merges?: Array<{ orderId: string; row: OrderImportRow }>;
+}
+
+// One undoable action and every record it changed, side effects included
+export interface UndoEntry {
+  id: string;
+  action: string;
+  changes: AuditChange[];
+}
+
 interface BNPLStore {
   // State
   orders: Order[];
@@ -30,26 +89,48 @@ interface BNPLStore {
   platforms: Platform[];
   subscriptions: Subscription[];
   limitHistory: LimitChange[];
+  incomeSources: IncomeSource[];
+  cashFlowSettings: CashFlowSettings;
   notificationSettings: NotificationSettings;
-  geminiApiKey: string | null;
+  extractionSettings: ExtractionSettings;
+  apiKeys: ApiKeys;
   isLoading: boolean;
   isInitialized: boolean;
   isInitializing: boolean; // Lock to prevent race conditions
 
   // UI State
   quickAddModalOpen: boolean;
+  bulkImportModalOpen: boolean;
   orderDetailModalOpen: boolean;
   selectedOrderId: string | null;
   sidebarCollapsed: boolean;
 
+  // Undo History
+  undoHistory: UndoEntry[];
+  undoIndex: number; // last applied entry, -1 when there's nothing to undo
+
   // Actions
   initialize: () => Promise<void>;
-  addOrder: (input: NewOrderInput) => Promise<{ order: Order; payments: Payment[] }>;
+  addOrder: (
+    input: NewOrderInput,
+    options?: AddOrderOptions
+  ) => Promise<{ order: Order; payments: Payment[] }>;
+  simulateOrder: (input: NewOrderInput) => Promise<PurchaseSimulation>;
+  importOrders: (
+    rows: OrderImportRow[],
+    options?: ImportOrdersOptions
+  ) => Promise<{ orders: Order[]; payments: Payment[] }>;
+  mergeOrder: (orderId: string, row: OrderImportRow) => Promise<void>;
   updateOrder: (id: string, updates: Partial<Order>) => Promise<void>;
   deleteOrder: (id: string) => Promise<void>;
+  refundOrder: (orderId: string, input: NewRefundInput) => Promise<OrderRefund>;
   markPaymentPaid: (paymentId: string, customPaidDate?: string) => Promise<void>;
   markPaymentUnpaid: (paymentId: string) => Promise<void>;
+  reconcilePayments: (pairs: Array<{ paymentId: string; paidDate: string }>) => Promise<void>;
   updatePayment: (id: string, updates: Partial<Payment>) => Promise<void>;
+  addPaymentEvent: (paymentId: string, input: NewPaymentEventInput) => Promise<void>;
+  removePaymentEvent: (paymentId: string, eventId: string) => Promise<void>;
+  reschedulePayment: (paymentId: string, newDueDate: string, note?: string) => Promise<void>;
   deletePayment: (paymentId: string) => Promise<void>;
   addPaymentToOrder: (orderId: string, amount: number, dueDate: string) => Promise<Payment>;
   updatePlatformLimit: (platformId: PlatformId, limit: number) => Promise<void>;
@@ -60,15 +141,28 @@ interface BNPLStore {
     installments: number,
     intervalDays: number
   ) => Promise<void>;
+  addPlatform: (input: NewPlatformInput) => Promise<Platform>;
+  updatePlatform: (
+    platformId: PlatformId,
+    updates: Partial<Omit<Platform, 'id' | 'isCustom'>>
+  ) => Promise<void>;
+  setPlatformArchived: (platformId: PlatformId, isArchived: boolean) => Promise<void>;
   updateSubscription: (subscription: Subscription) => Promise<void>;
   updateOverduePayments: () => Promise<void>;
+  addIncomeSource: (input: NewIncomeSourceInput) => Promise<IncomeSource>;
+  updateIncomeSource: (id: string, updates: Partial<Omit<IncomeSource, 'id' | 'createdAt'>>) => Promise<void>;
+  deleteIncomeSource: (id: string) => Promise<void>;
+  updateCashFlowSettings: (settings: CashFlowSettings) => void;
   updateNotificationSettings: (settings: NotificationSettings) => void;
-  setGeminiApiKey: (key: string | null) => void;
+  updateExtractionSettings: (settings: ExtractionSettings) => void;
+  setApiKey: (provider: ApiKeyProvider, key: string | null) => void;
   getLimitHistory: (platformId: PlatformId) => LimitChange[];
 
   // UI Actions
   openQuickAddModal: () => void;
   closeQuickAddModal: () => void;
+  openBulkImportModal: () => void;
+  closeBulkImportModal: () => void;
   openOrderDetailModal: (orderId: string) => void;
   closeOrderDetailModal: () => void;
   toggleSidebar: () => void;
@@ -76,7 +170,269 @@ interface BNPLStore {
   // Data Operations
   exportData: () => Promise<ExportedData>;
   importData: (data: ExportedData) => Promise<void>;
+  previewMergeImport: (data: ExportedData) => Promise<MergePlan>;
+  applyMergeImport: (plan: MergePlan, resolution: MergeResolution) => Promise<MergeSummary>;
   clearAllData: () => Promise<void>;
+  restoreSnapshot: (snapshotId: string) => Promise<void>;
+  applyStorageChanges: (changes: StorageChange[]) => Promise<void>;
+
+  // Audit Log
+  revertAuditEvent: (eventId: string) => Promise<void>;
+
+  // Undo/Redo - resolve to the entry that was undone or redone, null if none
+  undo: () => Promise<UndoEntry | null>;
+  redo: () => Promise<UndoEntry | null>;
+
+  // Vault
+  enableVault: (passphrase: string) => Promise<void>;
+  changeVaultPassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+  disableVault: (passphrase: string) => Promise<void>;
+}
+
+// Load everything on start, after an import or a bulk change in another tab.
+// Callers put the result straight into the store, so its revisions are the
+// ones this tab's writes are now based on.
+async function loadAllData() {
+  const [orders, payments, platforms, subscriptions, limitHistory, incomeSources] = await Promise.all([
+    storage.getAllOrders(),
+    storage.getAllPayments(),
+    storage.getAllPlatforms(),
+    storage.getAllSubscriptions(),
+    storage.getAllLimitHistory(),
+    storage.getAllIncomeSources(),
+  ]);
+
+  const loaded = { orders, payments, platforms, subscriptions, limitHistory, incomeSources };
+  for (const [collection, records] of Object.entries(loaded)) {
+    const keyField = collection === 'subscriptions' ? 'platformId' : 'id';
+    storage.acceptRecords(
+      collection as SyncedCollection,
+      new Map(records.map((record) => [String((record as unknown as Record<string, unknown>)[keyField]), record])),
+      true
+    );
+  }
+  return loaded;
+}
+
+type SyncedCollection = 'orders' | 'payments' | 'platforms' | 'subscriptions' | 'limitHistory' | 'incomeSources';
+
+// Swap in re-read records (undefined = deleted), appending any that are new
+function replaceRecords<T extends object>(records: T[], keyField: string, updates: Map<string, unknown>): T[] {
+  const keyOf = (record: T) => String((record as Record<string, unknown>)[keyField]);
+  const next = records.flatMap((record) => {
+    const key = keyOf(record);
+    if (!updates.has(key)) return [record];
+    const updated = updates.get(key);
+    return updated ? [updated as T] : [];
+  });
+  for (const [key, updated] of updates) {
+    if (updated && !records.some((record) => keyOf(record) === key)) {
+      next.push(updated as T);
+    }
+  }
+  return next;
+}
+
+// Queue payments as paid on `work`, along with the orders that leaves fully
+// paid as completed - returns the records to put in state
+function queuePaidPayments(
+  work: UnitOfWork,
+  paid: Array<{ payment: Payment; paidDate: Date }>,
+  payments: Payment[],
+  orders: Order[]
+): { updatedPayments: Map<string, Payment>; updatedOrders: Order[] } {
+  const updatedPayments = new Map<string, Payment>();
+  for (const { payment, paidDate } of paid) {
+    updatedPayments.set(payment.id, {
+      ...payment,
+      status: 'paid',
+      paidDate: paidDate.toISOString(),
+      paidOnTime: isPaidOnTime(payment, paidDate),
+    });
+  }
+
+  const orderIds = new Set([...updatedPayments.values()].map((p) => p.orderId));
+  const updatedOrders = orders
+    .filter(
+      (o) =>
+        orderIds.has(o.id) &&
+        payments.every((p) => p.orderId !== o.id || p.status === 'paid' || updatedPayments.has(p.id))
+    )
+    .map((o) => ({ ...o, status: 'completed' as const }));
+
+  updatedPayments.forEach((payment) => work.savePayment(payment));
+  updatedOrders.forEach((order) => work.saveOrder(order));
+  return { updatedPayments, updatedOrders };
+}
+
+// Queue the writes that fold an import row into a tracked order - see mergeOrder
+function queueMerge(
+  work: UnitOfWork,
+  order: Order,
+  row: OrderImportRow,
+  payments: Payment[]
+): { updatedOrder: Order; updatedPayments: Map<string, Payment> } {
+  const { input } = row;
+  const updates: Partial<Order> = {};
+  if ((!order.storeName || order.storeName === 'Unknown') && input.storeName) {
+    updates.storeName = input.storeName;
+  }
+  const tags = [...new Set([...(order.tags ?? []), ...(input.tags ?? [])])];
+  if (tags.length > (order.tags?.length ?? 0)) {
+    updates.tags = tags;
+  }
+  if (input.notes && !order.notes?.includes(input.notes)) {
+    updates.notes = order.notes ? `${order.notes}\n${input.notes}` : input.notes;
+  }
+
+  // Installments the import says are paid count as paid on their due dates,
+  // saved together with the order's new details
+  const { updatedPayments, updatedOrders } = queuePaidPayments(
+    work,
+    payments
+      .filter(
+        (p) => p.orderId === order.id && p.status !== 'paid' && p.installmentNumber <= (row.paidInstallments ?? 0)
+      )
+      .map((payment) => ({ payment, paidDate: parseISO(payment.dueDate) })),
+    payments,
+    [order]
+  );
+  const updatedOrder = { ...(updatedOrders[0] ?? order), ...updates };
+  if (Object.keys(updates).length > 0) work.saveOrder(updatedOrder);
+  return { updatedOrder, updatedPayments };
+}
+
+function getAuditSnapshot(): AuditSnapshot {
+  const { orders, payments, platforms, subscriptions, limitHistory, incomeSources } = useBNPLStore.getState();
+  return { orders, payments, platforms, subscriptions, limitHistory, incomeSources };
+}
+
+// Audited actions run one at a time, so every state change while one runs is
+// its own - apart from records re-read from another tab or the sync server,
+// which are applied with setExternal and never captured
+let auditQueue: Promise<unknown> = Promise.resolve();
+let capturedChanges: AuditChange[] | null = null;
+let isExternalWrite = false;
+// Set by actions that replace data wholesale - they're logged as a summary
+// pointing at the snapshot taken first, not a copy of every record
+let bulkSnapshot: { id?: string } | null = null;
+
+function markBulkAction(snapshot: DataSnapshot | null): void {
+  bulkSnapshot = { id: snapshot?.id };
+}
+
+// Apply state that didn't come from this tab's actions
+function setExternal(update: () => void): void {
+  isExternalWrite = true;
+  try {
+    update();
+  } finally {
+    isExternalWrite = false;
+  }
+}
+
+// The actions without the audit wrapper. Actions calling other actions (e.g.
+// updatePlatform -> updatePlatformLimit) go through these, so the changes are
+// logged as part of the outer one - the wrapper would wait for the outer one
+// to finish first.
+const unaudited = {} as Pick<BNPLStore, AuditedAction>;
+
+const MAX_UNDO_HISTORY = 20;
+
+// Order and payment edits can be undone from the keyboard or a toast
+const UNDOABLE_ACTIONS = new Set<string>([
+  'addOrder',
+  'importOrders',
+  'mergeOrder',
+  'updateOrder',
+  'deleteOrder',
+  'refundOrder',
+  'markPaymentPaid',
+  'markPaymentUnpaid',
+  'reconcilePayments',
+  'updatePayment',
+  'addPaymentEvent',
+  'removePaymentEvent',
+  'reschedulePayment',
+  'deletePayment',
+  'addPaymentToOrder',
+]);
+
+function pushUndoEntry(action: string, changes: AuditChange[]): void {
+  useBNPLStore.setState((state) => {
+    // A new action drops anything that was undone and not redone
+    const undoHistory = [
+      ...state.undoHistory.slice(0, state.undoIndex + 1),
+      { id: uuidv4(), action, changes },
+    ].slice(-MAX_UNDO_HISTORY);
+    return { undoHistory, undoIndex: undoHistory.length - 1 };
+  });
+}
+
+// Write one side of a set of changes back to storage and state, in one transaction
+async function restoreChanges(changes: AuditChange[], side: 'before' | 'after'): Promise<void> {
+  const work = storage.unitOfWork();
+  const updates = new Map<AuditCollection, Map<string, unknown>>();
+  for (const change of changes) {
+    const { collection } = AUDIT_COLLECTIONS[change.entityType];
+    const record = change[side];
+    if (!record) {
+      work.delete(collection, change.entityId);
+    } else if (change.entityType === 'order') {
+      work.saveOrder(record as Order);
+    } else if (change.entityType === 'payment') {
+      work.savePayment(record as Payment);
+    } else {
+      work.put(collection, record);
+    }
+    if (!updates.has(collection)) updates.set(collection, new Map());
+    updates.get(collection)!.set(change.entityId, record);
+  }
+  await work.commit();
+
+  useBNPLStore.setState((state) => {
+    const next: Partial<AuditSnapshot> = {};
+    for (const [collection, records] of updates) {
+      const keyField = collection === 'subscriptions' ? 'platformId' : 'id';
+      Object.assign(next, { [collection]: replaceRecords<object>(state[collection], keyField, records) });
+    }
+    return next;
+  });
+}
+
+// Queue an action, then log whatever it changed in state - even if it failed partway
+function audited<T>(action: string, actor: AuditActor, run: () => Promise<T>, revertOf?: string): Promise<T> {
+  const result = auditQueue.then(() => runAudited(action, actor, run, revertOf));
+  auditQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function runAudited<T>(
+  action: string,
+  actor: AuditActor,
+  run: () => Promise<T>,
+  revertOf?: string
+): Promise<T> {
+  capturedChanges = [];
+  try {
+    return await run();
+  } finally {
+    const changes = capturedChanges;
+    const summary = bulkSnapshot ? summarizeChanges(changes, bulkSnapshot.id) : undefined;
+    capturedChanges = null;
+    bulkSnapshot = null;
+    if (changes.length > 0 && UNDOABLE_ACTIONS.has(action)) {
+      pushUndoEntry(action, changes);
+    }
+    if (changes.length > 0) {
+      try {
+        await storage.appendAuditEvent(createAuditEvent(action, actor, changes, revertOf, summary));
+      } catch (err) {
+        // The change itself is saved - don't fail the action over its log entry
+        console.error(`[Store] Failed to log ${action}:`, err);
+      }
+    }
+  }
 }
 
 export const useBNPLStore = create<BNPLStore>((set, get) => ({
@@ -86,86 +442,94 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
   platforms: [],
   subscriptions: [],
   limitHistory: [],
+  incomeSources: [],
+  cashFlowSettings: storage.getCashFlowSettings(),
   notificationSettings: {
     enabled: false,
     daysBefore: 1,
     notifyOnDueDate: true,
     notifyOverdue: true,
   },
-  geminiApiKey: null,
+  extractionSettings: DEFAULT_EXTRACTION_SETTINGS,
+  apiKeys: {},
   isLoading: false,
   isInitialized: false,
   isInitializing: false,
 
   // UI State
   quickAddModalOpen: false,
+  bulkImportModalOpen: false,
   orderDetailModalOpen: false,
   selectedOrderId: null,
   sidebarCollapsed: localStorage.getItem('sidebarCollapsed') === 'true',
 
+  // Undo History
+  undoHistory: [],
+  undoIndex: -1,
+
   // Initialize store from IndexedDB
   initialize: async () => {
     // Prevent race conditions - check both flags synchronously
     const { isInitialized, isInitializing } = get();
     if (isInitialized || isInitializing) return;
 
+    // Nothing can be read until the lock screen unlocks the vault
+    if (vault.isLocked()) return;
+
     // Set lock immediately (synchronous) before any async work
     set({ isLoading: true, isInitializing: true });
 
     try {
+      // Opening storage also runs any pending schema migrations
       await storage.init();
 
-      const [orders, payments, platforms, subscriptions, limitHistory] = await Promise.all([
-        storage.getAllOrders(),
-        storage.getAllPayments(),
-        storage.getAllPlatforms(),
-        storage.getAllSubscriptions(),
-        storage.getAllLimitHistory(),
-      ]);
-
-      // Apply migrations
-      const migrated = migrateToV2({ orders, platforms });
-
-      // Save migrated data if changed
-      if (migrated.ordersChanged) {
-        console.log('[Store] Migrating orders to v2 schema...');
-        for (const order of migrated.orders) {
-          await storage.saveOrder(order);
-        }
-      }
-      if (migrated.platformsChanged) {
-        console.log('[Store] Migrating platforms to v2 schema...');
-        for (const platform of migrated.platforms) {
-          await storage.savePlatform(platform);
-        }
-      }
+      const { orders, payments, platforms, subscriptions, limitHistory, incomeSources } = await loadAllData();
 
       console.log('[Store] Initialized with:', {
-        orders: migrated.orders.length,
+        orders: orders.length,
         payments: payments.length,
-        platforms: migrated.platforms.length,
+        platforms: platforms.length,
         subscriptions: subscriptions.length,
         limitHistory: limitHistory.length,
+        incomeSources: incomeSources.length,
       });
 
       const notificationSettings = storage.getNotificationSettings();
-      const geminiApiKey = storage.getGeminiApiKey();
-
-      set({
-        orders: migrated.orders,
-        payments,
-        platforms: migrated.platforms,
-        subscriptions,
-        limitHistory,
-        notificationSettings,
-        geminiApiKey,
-        isLoading: false,
-        isInitialized: true,
-        isInitializing: false,
-      });
+      // Sealed in vault mode, so only readable once storage is open
+      const cashFlowSettings = storage.getCashFlowSettings();
+      const extractionSettings = storage.getExtractionSettings();
+      const apiKeys = storage.getApiKeys();
+
+      // Loading isn't a change - keep it out of any action that's running
+      setExternal(() =>
+        set({
+          orders,
+          payments,
+          platforms,
+          subscriptions,
+          limitHistory,
+          incomeSources,
+          notificationSettings,
+          cashFlowSettings,
+          extractionSettings,
+          apiKeys,
+          isLoading: false,
+          isInitialized: true,
+          isInitializing: false,
+        })
+      );
 
       // Update overdue statuses
       await get().updateOverduePayments();
+
+      storage.startSnapshotSchedule();
+      backupFolder.init();
+      storage.startSync();
+
+      // Deleted orders keep their attachments for undo until the next start
+      attachmentStorage
+        .pruneAttachments(orders.map((o) => o.id))
+        .catch((err) => console.warn('[Store] Failed to prune attachments:', err));
     } catch (error) {
       console.error('Failed to initialize store:', error);
       set({ isLoading: false, isInitializing: false });
@@ -173,7 +537,7 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
   },
 
   // Add a new order with calculated payments
-  addOrder: async (input: NewOrderInput) => {
+  addOrder: async (input: NewOrderInput, options?: AddOrderOptions) => {
     const { platforms } = get();
     const platform = platforms.find((p) => p.id === input.platformId);
 
@@ -193,6 +557,7 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       installments,
       intervalDays,
       apr: input.apr,
+      scheduleMode: input.scheduleMode,
     });
 
     // Create order
@@ -203,12 +568,13 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       totalAmount: input.totalAmount,
       firstPaymentDate: input.firstPaymentDate,
       status: 'active',
-      createdAt: new Date().toISOString(),
+      createdAt: input.createdAt ?? new Date().toISOString(),
       tags: input.tags,
       notes: input.notes,
       intervalDays: input.intervalDays, // Store per-order interval if provided
       customInstallments: input.customInstallments,
       apr: input.apr,
+      scheduleMode: input.scheduleMode,
       orderType: input.orderType || 'personal',
       saleAmount: input.saleAmount,
       saleDate: input.saleDate,
@@ -227,6 +593,10 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
         installmentNumber: cp.installmentNumber,
         status: 'pending' as const,
         isManualOverride: !!override,
+        // Overridden amounts no longer follow the amortization table
+        ...(override?.amount === undefined && cp.interest !== undefined
+          ? { principal: cp.principal, interest: cp.interest, remainingBalance: cp.remainingBalance }
+          : {}),
       };
     });
 
@@ -237,31 +607,15 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       paymentRecords[0].paidOnTime = true;
     }
 
-    // Save to storage (transactional - rollback on failure)
-    const savedPaymentIds: string[] = [];
-    try {
-      await storage.saveOrder(order);
-      for (const payment of paymentRecords) {
-        await storage.savePayment(payment);
-        savedPaymentIds.push(payment.id);
-      }
-    } catch (error) {
-      // Rollback: delete saved payments and order
-      for (const paymentId of savedPaymentIds) {
-        try {
-          await storage.deletePayment(paymentId);
-        } catch {
-          // Ignore rollback errors
-        }
-      }
-      try {
-        await storage.deleteOrder(order.id);
-      } catch {
-        // Ignore rollback errors
-      }
-      throw error;
+    if (options?.dryRun) {
+      return { order, payments: paymentRecords };
     }
 
+    // Save the order and its payments in one transaction
+    const work = storage.unitOfWork().saveOrder(order);
+    paymentRecords.forEach((payment) => work.savePayment(payment));
+    await work.commit();
+
     // Update state
     set((state) => ({
       orders: [...state.orders, order],
@@ -269,14 +623,142 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
 
     // Check for overdue
-    await get().updateOverduePayments();
+    await unaudited.updateOverduePayments();
 
     return { order, payments: paymentRecords };
   },
 
+  // Bulk-import orders (e.g., from CSV) through the same payment generation as
+  // addOrder. Past-due installments are marked paid on their due date unless
+  // the row says how many were paid. All-or-nothing: a failed save rolls back.
+  importOrders: async (rows: OrderImportRow[], options?: ImportOrdersOptions) => {
+    const today = startOfDay(new Date());
+    const orders: Order[] = [];
+    const payments: Payment[] = [];
+
+    for (const row of rows) {
+      const { order, payments: generated } = await unaudited.addOrder(row.input, { dryRun: true });
+
+      const orderPayments = generated.map((payment): Payment => {
+        const isPaid =
+          row.paidInstallments !== undefined
+            ? payment.installmentNumber <= row.paidInstallments
+            : payment.status === 'paid' || isBefore(startOfDay(parseISO(payment.dueDate)), today);
+        if (!isPaid) {
+          return { ...payment, status: 'pending', paidDate: undefined, paidOnTime: undefined };
+        }
+        return {
+          ...payment,
+          status: 'paid',
+          paidDate: payment.paidDate ?? payment.dueDate,
+          paidOnTime: true,
+        };
+      });
+
+      orders.push({
+        ...order,
+        status: orderPayments.every((p) => p.status === 'paid') ? 'completed' : 'active',
+      });
+      payments.push(...orderPayments);
+    }
+
+    if (options?.dryRun) {
+      return { orders, payments };
+    }
+
+    // A batch can merge more than one row into the same order, each on top of the last
+    const work = storage.unitOfWork();
+    const mergedOrders = new Map<string, Order>();
+    const mergedPayments = new Map<string, Payment>();
+    for (const { orderId, row } of options?.merges ?? []) {
+      const order = mergedOrders.get(orderId) ?? get().orders.find((o) => o.id === orderId);
+      if (!order) {
+        throw new Error(`Order not found: ${orderId}`);
+      }
+      const current = get().payments.map((p) => mergedPayments.get(p.id) ?? p);
+      const { updatedOrder, updatedPayments } = queueMerge(work, order, row, current);
+      mergedOrders.set(orderId, updatedOrder);
+      updatedPayments.forEach((payment, id) => mergedPayments.set(id, payment));
+    }
+    orders.forEach((order) => work.saveOrder(order));
+    payments.forEach((payment) => work.savePayment(payment));
+    await work.commit();
+
+    set((state) => ({
+      orders: [...state.orders.map((o) => mergedOrders.get(o.id) ?? o), ...orders],
+      payments: [...state.payments.map((p) => mergedPayments.get(p.id) ?? p), ...payments],
+    }));
+
+    await unaudited.updateOverduePayments();
+
+    return { orders, payments };
+  },
+
+  // Fold a duplicate entry into an order that's already tracked. Details the
+  // order is missing are filled in and installments the entry says are paid
+  // are marked paid on their due date; the existing schedule is kept as is.
+  mergeOrder: async (orderId: string, row: OrderImportRow) => {
+    const order = get().orders.find((o) => o.id === orderId);
+    if (!order) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+
+    const work = storage.unitOfWork();
+    const { updatedOrder, updatedPayments } = queueMerge(work, order, row, get().payments);
+    await work.commit();
+
+    set((state) => ({
+      orders: state.orders.map((o) => (o.id === orderId ? updatedOrder : o)),
+      payments: state.payments.map((p) => updatedPayments.get(p.id) ?? p),
+    }));
+  },
+
+  // Dry-run an order against existing obligations and suggest a better
+  // platform / first-payment date - nothing is persisted
+  simulateOrder: async (input: NewOrderInput) => {
+    const { payments, platforms } = get();
+    const draft = await unaudited.addOrder(input, { dryRun: true });
+    const analysis = analyzePurchase(draft.payments, payments, platforms);
+
+    const candidates: Array<{ suggestion: PurchaseSuggestion; exceedsLimit: boolean }> = [];
+    for (const platform of platforms.filter((p) => !p.isArchived)) {
+      // Per-order schedule tweaks only carry over to the same platform
+      const samePlatform = platform.id === input.platformId;
+      for (const firstPaymentDate of getCandidateDates(input.firstPaymentDate)) {
+        const candidate = await unaudited.addOrder(
+          {
+            ...input,
+            platformId: platform.id,
+            firstPaymentDate,
+            intervalDays: samePlatform ? input.intervalDays : undefined,
+            customInstallments: samePlatform ? input.customInstallments : undefined,
+            apr: samePlatform ? input.apr : undefined,
+            scheduleMode: samePlatform ? input.scheduleMode : undefined,
+            paymentOverrides: undefined,
+          },
+          { dryRun: true }
+        );
+        const result = analyzePurchase(candidate.payments, payments, platforms);
+        const impact = result.utilization[platform.id];
+        candidates.push({
+          suggestion: {
+            platformId: platform.id,
+            firstPaymentDate,
+            collisionCount: result.collisions.length,
+            peakWeekTotal: result.peakWeekAfter?.total ?? 0,
+            utilizationAfter: impact?.after.percentage ?? 0,
+          },
+          exceedsLimit: impact?.exceedsLimit ?? false,
+        });
+      }
+    }
+
+    return { ...analysis, input, suggestions: rankSuggestions(candidates) };
+  },
+
   // Update an existing order with smart recalculation
   updateOrder: async (id: string, updates: Partial<Order>) => {
-    const { orders, payments } = get();
+    const { orders, payments, platforms } = get();
     const currentOrder = orders.find((o) => o.id === id);
 
     if (!currentOrder) {
@@ -289,23 +771,49 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
 
     let updatedPayments = [...orderPayments];
 
+    const scheduleMode = updates.scheduleMode ?? currentOrder.scheduleMode ?? 'interval';
+    const scheduleModeChanged = scheduleMode !== (currentOrder.scheduleMode ?? 'interval');
+    const apr = updates.apr ?? currentOrder.apr ?? 0;
+    const isAmortized = scheduleMode === 'monthly' && apr > 0;
+    const wasAmortized = currentOrder.scheduleMode === 'monthly' && (currentOrder.apr ?? 0) > 0;
+    const totalAmount = updates.totalAmount ?? currentOrder.totalAmount;
+    const totalChanged = totalAmount !== currentOrder.totalAmount;
+
+    // 0. Monthly schedules - recalculate dates on calendar months
+    if (
+      scheduleMode === 'monthly' &&
+      (scheduleModeChanged ||
+        (updates.firstPaymentDate !== undefined &&
+          updates.firstPaymentDate !== currentOrder.firstPaymentDate))
+    ) {
+      updatedPayments = recalculateMonthlyPaymentDates(
+        updatedPayments,
+        updates.firstPaymentDate || currentOrder.firstPaymentDate
+      );
+    }
+
     // 1. Handle intervalDays change - recalculate all payment dates
     if (
-      updates.intervalDays !== undefined &&
-      updates.intervalDays !== currentOrder.intervalDays
+      scheduleMode === 'interval' &&
+      ((updates.intervalDays !== undefined &&
+        updates.intervalDays !== currentOrder.intervalDays) ||
+        scheduleModeChanged)
     ) {
       const firstDate =
         updates.firstPaymentDate || currentOrder.firstPaymentDate;
-      updatedPayments = recalculatePaymentDates(
-        updatedPayments,
-        firstDate,
-        updates.intervalDays
-      );
+      const intervalDays =
+        updates.intervalDays ??
+        currentOrder.intervalDays ??
+        platforms.find((p) => p.id === currentOrder.platformId)?.defaultIntervalDays ??
+        14;
+      updatedPayments = recalculatePaymentDates(updatedPayments, firstDate, intervalDays);
     }
 
     // 2. Handle firstPaymentDate change - shift all dates by delta
     // (Only if intervalDays didn't change, since that already recalculates dates)
     if (
+      scheduleMode === 'interval' &&
+      !scheduleModeChanged &&
       updates.firstPaymentDate !== undefined &&
       updates.firstPaymentDate !== currentOrder.firstPaymentDate &&
       updates.intervalDays === undefined
@@ -317,38 +825,65 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       updatedPayments = shiftPaymentDates(updatedPayments, deltaDays);
     }
 
-    // 3. Handle totalAmount change - redistribute amounts respecting manual overrides
-    if (
-      updates.totalAmount !== undefined &&
-      updates.totalAmount !== currentOrder.totalAmount
-    ) {
+    // 3. Handle totalAmount, APR and schedule mode changes - amortized orders
+    // rebuild their table, everything else redistributes amounts respecting
+    // manual overrides. Paid installments stand when the table changes; the
+    // rest share the principal left.
+    const principalPaid = updatedPayments
+      .filter((p) => p.status === 'paid')
+      .reduce((sum, p) => sum + (p.principal ?? p.amount), 0);
+    const unpaid = updatedPayments.filter((p) => p.status !== 'paid');
+    if (isAmortized && (totalChanged || !wasAmortized || apr !== currentOrder.apr)) {
+      if (updatedPayments.some((p) => p.isManualOverride)) {
+        throw new Error('Cannot re-amortize an order after payments are edited');
+      }
+      if (unpaid.length === 0 || totalAmount <= principalPaid) {
+        throw new Error('The new total must be more than the principal already paid');
+      }
+      const rows = buildAmortizationSchedule(totalAmount - principalPaid, apr, unpaid.length);
+      updatedPayments = updatedPayments.map((p) => {
+        const row = rows[unpaid.indexOf(p)];
+        return row
+          ? {
+              ...p,
+              amount: row.amount,
+              principal: row.principal,
+              interest: row.interest,
+              remainingBalance: row.remainingBalance,
+            }
+          : p;
+      });
+    } else if (wasAmortized && !isAmortized) {
+      // No more interest - the unpaid installments split what's left of the total
+      if (unpaid.length === 0 || totalAmount <= principalPaid) {
+        throw new Error('The new total must be more than the principal already paid');
+      }
       const { payments: redistributed, error } = redistributePaymentAmounts(
-        updatedPayments,
-        updates.totalAmount
+        unpaid.map((p) => ({ ...p, principal: undefined, interest: undefined, remainingBalance: undefined })),
+        totalAmount - principalPaid
       );
       if (error) {
         throw new Error(error);
       }
+      updatedPayments = updatedPayments.map((p) => redistributed.find((r) => r.id === p.id) ?? p);
+    } else if (totalChanged) {
+      const { payments: redistributed, error } = redistributePaymentAmounts(updatedPayments, totalAmount);
+      if (error) {
+        throw new Error(error);
+      }
       updatedPayments = redistributed;
     }
 
-    // Save updated order
+    // Save the order with the payments that changed in one transaction
     const updatedOrder = { ...currentOrder, ...updates };
-    await storage.saveOrder(updatedOrder);
-
-    // Save updated payments (only those that changed)
-    const changedPayments: Payment[] = [];
+    const work = storage.unitOfWork().saveOrder(updatedOrder);
     for (const payment of updatedPayments) {
       const original = orderPayments.find((p) => p.id === payment.id);
-      if (
-        original &&
-        (original.amount !== payment.amount ||
-          original.dueDate !== payment.dueDate)
-      ) {
-        await storage.savePayment(payment);
-        changedPayments.push(payment);
+      if (original && stableStringify(original) !== stableStringify(payment)) {
+        work.savePayment(payment);
       }
     }
+    await work.commit();
 
     // Update state atomically
     set((state) => ({
@@ -362,9 +897,10 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     // Check for overdue payments after date changes
     if (
       updates.firstPaymentDate !== undefined ||
-      updates.intervalDays !== undefined
+      updates.intervalDays !== undefined ||
+      scheduleModeChanged
     ) {
-      await get().updateOverduePayments();
+      await unaudited.updateOverduePayments();
     }
   },
 
@@ -378,6 +914,76 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
   },
 
+  // Apply a full or partial refund to an order's remaining installments
+  refundOrder: async (orderId: string, input: NewRefundInput) => {
+    const { orders, payments } = get();
+    const order = orders.find((o) => o.id === orderId);
+
+    if (!order) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+
+    const alreadyRefunded = (order.refunds ?? []).reduce((sum, r) => sum + r.amount, 0);
+    if (alreadyRefunded + input.amount > order.totalAmount) {
+      throw new Error('Refund exceeds the order total');
+    }
+
+    const refundId = uuidv4();
+    const refundedAt = parseISO(input.refundedAt ?? new Date().toISOString()).toISOString();
+    const strategy = input.strategy ?? 'last-first';
+    const orderPayments = payments.filter((p) => p.orderId === orderId);
+
+    const { payments: changedPayments, adjustments, creditAmount, error } = applyRefundToPayments(
+      orderPayments,
+      input.amount,
+      strategy,
+      refundId,
+      refundedAt
+    );
+    if (error) {
+      throw new Error(error);
+    }
+
+    const refund: OrderRefund = {
+      id: refundId,
+      amount: input.amount,
+      refundedAt,
+      reason: input.reason,
+      strategy,
+      adjustments,
+      creditAmount,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Fully refunded orders are closed out; otherwise complete once nothing is owed
+    const updatedPayments = orderPayments.map(
+      (p) => changedPayments.find((c) => c.id === p.id) ?? p
+    );
+    let status = order.status;
+    if (alreadyRefunded + input.amount >= order.totalAmount) {
+      status = 'refunded';
+    } else if (updatedPayments.every((p) => p.status === 'paid')) {
+      status = 'completed';
+    }
+
+    const updatedOrder: Order = {
+      ...order,
+      status,
+      refunds: [...(order.refunds ?? []), refund],
+    };
+
+    const work = storage.unitOfWork().saveOrder(updatedOrder);
+    changedPayments.forEach((payment) => work.savePayment(payment));
+    await work.commit();
+
+    set((state) => ({
+      orders: state.orders.map((o) => (o.id === orderId ? updatedOrder : o)),
+      payments: state.payments.map((p) => changedPayments.find((c) => c.id === p.id) ?? p),
+    }));
+
+    return refund;
+  },
+
   // Mark a payment as paid
   markPaymentPaid: async (paymentId: string, customPaidDate?: string) => {
     const { payments, orders } = get();
@@ -387,46 +993,20 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       throw new Error(`Payment not found: ${paymentId}`);
     }
 
-    const paidDateValue = customPaidDate ? parseISO(customPaidDate) : new Date();
-    const dueDate = parseISO(payment.dueDate);
-    const paidOnTime = !isBefore(startOfDay(dueDate), startOfDay(paidDateValue));
-
-    const updatedPayment: Payment = {
-      ...payment,
-      status: 'paid',
-      paidDate: paidDateValue.toISOString(),
-      paidOnTime,
-    };
-
-    await storage.savePayment(updatedPayment);
-
-    // Check if all payments for this order are paid
-    const orderPayments = payments.filter(
-      (p) => p.orderId === payment.orderId
-    );
-    const allPaid = orderPayments.every(
-      (p) => p.id === paymentId || p.status === 'paid'
+    // The payment and the order's completion are saved together
+    const work = storage.unitOfWork();
+    const { updatedPayments, updatedOrders } = queuePaidPayments(
+      work,
+      [{ payment, paidDate: customPaidDate ? parseISO(customPaidDate) : new Date() }],
+      payments,
+      orders
     );
-
-    let updatedOrder: Order | null = null;
-    if (allPaid) {
-      const order = orders.find((o) => o.id === payment.orderId);
-      if (order) {
-        updatedOrder = { ...order, status: 'completed' as const };
-        await storage.saveOrder(updatedOrder);
-      }
-    }
+    await work.commit();
 
     // Single atomic state update for both payment and order
     set((state) => ({
-      payments: state.payments.map((p) =>
-        p.id === paymentId ? updatedPayment : p
-      ),
-      orders: updatedOrder
-        ? state.orders.map((o) =>
-            o.id === payment.orderId ? updatedOrder! : o
-          )
-        : state.orders,
+      payments: state.payments.map((p) => updatedPayments.get(p.id) ?? p),
+      orders: state.orders.map((o) => updatedOrders.find((u) => u.id === o.id) ?? o),
     }));
   },
 
@@ -438,6 +1018,9 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     if (!payment) {
       throw new Error(`Payment not found: ${paymentId}`);
     }
+    if (payment.coveredByRefundId) {
+      throw new Error('This payment was covered by a refund');
+    }
 
     const updatedPayment: Payment = {
       ...payment,
@@ -446,16 +1029,18 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       paidOnTime: undefined,
     };
 
-    await storage.savePayment(updatedPayment);
+    const work = storage.unitOfWork().savePayment(updatedPayment);
 
     // Update order status back to active if it was completed
     const order = orders.find((o) => o.id === payment.orderId);
     let updatedOrder: Order | null = null;
     if (order && order.status === 'completed') {
       updatedOrder = { ...order, status: 'active' as const };
-      await storage.saveOrder(updatedOrder);
+      work.saveOrder(updatedOrder);
     }
 
+    await work.commit();
+
     // Single atomic state update for both payment and order
     set((state) => ({
       payments: state.payments.map((p) =>
@@ -469,7 +1054,29 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
 
     // Check for overdue
-    await get().updateOverduePayments();
+    await unaudited.updateOverduePayments();
+  },
+
+  // Mark payments paid from matched bank statement debits, in one transaction
+  reconcilePayments: async (pairs: Array<{ paymentId: string; paidDate: string }>) => {
+    const { payments, orders } = get();
+
+    const paid = pairs.map(({ paymentId, paidDate }) => {
+      const payment = payments.find((p) => p.id === paymentId);
+      if (!payment) {
+        throw new Error(`Payment not found: ${paymentId}`);
+      }
+      return { payment, paidDate: parseISO(paidDate) };
+    });
+
+    const work = storage.unitOfWork();
+    const { updatedPayments, updatedOrders } = queuePaidPayments(work, paid, payments, orders);
+    await work.commit();
+
+    set((state) => ({
+      payments: state.payments.map((p) => updatedPayments.get(p.id) ?? p),
+      orders: state.orders.map((o) => updatedOrders.find((u) => u.id === o.id) ?? o),
+    }));
   },
 
   // Update a payment
@@ -491,6 +1098,108 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
   },
 
+  // Record a fee, waiver or failed attempt against a payment
+  addPaymentEvent: async (paymentId: string, input: NewPaymentEventInput) => {
+    const { payments } = get();
+    const payment = payments.find((p) => p.id === paymentId);
+
+    if (!payment) {
+      throw new Error(`Payment not found: ${paymentId}`);
+    }
+    if (input.type === 'reschedule') {
+      throw new Error('Use reschedulePayment to move a due date');
+    }
+    if (input.type !== 'failed_attempt' && (!input.amount || input.amount <= 0)) {
+      throw new Error('Fee amount must be greater than zero');
+    }
+
+    const updatedPayment: Payment = {
+      ...payment,
+      events: [
+        ...(payment.events ?? []),
+        { ...input, id: uuidv4(), createdAt: new Date().toISOString() },
+      ],
+    };
+    // Fees change whether an already-paid payment counts as on time
+    if (updatedPayment.status === 'paid' && updatedPayment.paidDate) {
+      updatedPayment.paidOnTime = isPaidOnTime(updatedPayment, parseISO(updatedPayment.paidDate));
+    }
+
+    await storage.savePayment(updatedPayment);
+    set((state) => ({
+      payments: state.payments.map((p) => (p.id === paymentId ? updatedPayment : p)),
+    }));
+  },
+
+  // Remove a fee/adjustment event (reschedules stay for history)
+  removePaymentEvent: async (paymentId: string, eventId: string) => {
+    const { payments } = get();
+    const payment = payments.find((p) => p.id === paymentId);
+
+    if (!payment) {
+      throw new Error(`Payment not found: ${paymentId}`);
+    }
+    const event = payment.events?.find((e) => e.id === eventId);
+    if (!event) {
+      throw new Error(`Payment event not found: ${eventId}`);
+    }
+    if (event.type === 'reschedule') {
+      throw new Error('Reschedules cannot be removed - reschedule again instead');
+    }
+
+    const events = payment.events!.filter((e) => e.id !== eventId);
+    const updatedPayment: Payment = {
+      ...payment,
+      events: events.length > 0 ? events : undefined,
+    };
+    if (updatedPayment.status === 'paid' && updatedPayment.paidDate) {
+      updatedPayment.paidOnTime = isPaidOnTime(updatedPayment, parseISO(updatedPayment.paidDate));
+    }
+
+    await storage.savePayment(updatedPayment);
+    set((state) => ({
+      payments: state.payments.map((p) => (p.id === paymentId ? updatedPayment : p)),
+    }));
+  },
+
+  // Move a payment's due date, keeping the original for history
+  reschedulePayment: async (paymentId: string, newDueDate: string, note?: string) => {
+    const { payments } = get();
+    const payment = payments.find((p) => p.id === paymentId);
+
+    if (!payment) {
+      throw new Error(`Payment not found: ${paymentId}`);
+    }
+    if (payment.status === 'paid') {
+      throw new Error('Cannot reschedule a paid payment');
+    }
+
+    const newDate = parseISO(newDueDate);
+    const updatedPayment: Payment = {
+      ...payment,
+      dueDate: newDate.toISOString(),
+      originalDueDate: payment.originalDueDate ?? payment.dueDate,
+      status: isBefore(startOfDay(newDate), startOfDay(new Date())) ? 'overdue' : 'pending',
+      isManualOverride: true,
+      events: [
+        ...(payment.events ?? []),
+        {
+          id: uuidv4(),
+          type: 'reschedule',
+          createdAt: new Date().toISOString(),
+          previousDueDate: payment.dueDate,
+          newDueDate: newDate.toISOString(),
+          note,
+        },
+      ],
+    };
+
+    await storage.savePayment(updatedPayment);
+    set((state) => ({
+      payments: state.payments.map((p) => (p.id === paymentId ? updatedPayment : p)),
+    }));
+  },
+
   // Delete a payment
   deletePayment: async (paymentId: string) => {
     const { payments, orders } = get();
@@ -504,21 +1213,19 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     // Find the associated order
     const order = orders.find((o) => o.id === payment.orderId);
 
-    // Delete the payment from storage
-    await storage.deletePayment(paymentId);
-
-    // If order exists, reduce its total amount
+    // If order exists, reduce its total amount in the same transaction
     if (order) {
       const newTotal = Math.max(0, order.totalAmount - payment.amount);
       const updatedOrder = { ...order, totalAmount: newTotal };
-      await storage.saveOrder(updatedOrder);
+      await storage.unitOfWork().deletePayment(paymentId).saveOrder(updatedOrder).commit();
 
       set((state) => ({
         payments: state.payments.filter((p) => p.id !== paymentId),
         orders: state.orders.map((o) => (o.id === order.id ? updatedOrder : o)),
       }));
     } else {
-      // Order not found, just remove payment from state
+      // Order not found, just remove the payment
+      await storage.deletePayment(paymentId);
       set((state) => ({
         payments: state.payments.filter((p) => p.id !== paymentId),
       }));
@@ -552,12 +1259,10 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       isManualOverride: true,
     };
 
-    await storage.savePayment(newPayment);
-
-    // Update order total
+    // Save the payment with the order's new total
     const newTotal = order.totalAmount + amount;
     const updatedOrder = { ...order, totalAmount: newTotal };
-    await storage.saveOrder(updatedOrder);
+    await storage.unitOfWork().savePayment(newPayment).saveOrder(updatedOrder).commit();
 
     set((state) => ({
       payments: [...state.payments, newPayment],
@@ -565,7 +1270,7 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
 
     // Check for overdue
-    await get().updateOverduePayments();
+    await unaudited.updateOverduePayments();
 
     return newPayment;
   },
@@ -609,10 +1314,8 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
         onTimeStreakAtChange: streak,
       };
 
-      await storage.saveLimitChange(limitChange);
-
       const updatedPlatform = { ...platform, creditLimit: limit };
-      await storage.savePlatform(updatedPlatform);
+      await storage.unitOfWork().saveLimitChange(limitChange).savePlatform(updatedPlatform).commit();
 
       set((state) => ({
         platforms: state.platforms.map((p) =>
@@ -688,6 +1391,95 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }));
   },
 
+  // Create a user-defined platform
+  addPlatform: async (input: NewPlatformInput) => {
+    const { platforms } = get();
+    const name = input.name.trim();
+
+    if (!name) {
+      throw new Error('Platform name is required');
+    }
+    if (platforms.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A platform named "${name}" already exists`);
+    }
+
+    const platform: Platform = {
+      id: createPlatformId(name, platforms.map((p) => p.id)),
+      name,
+      creditLimit: input.creditLimit,
+      color: input.color,
+      icon: input.icon,
+      defaultInstallments: input.defaultInstallments,
+      defaultIntervalDays: input.defaultIntervalDays,
+      tier: input.tier ?? 'limited',
+      goalLimit: input.goalLimit ?? 0,
+      isCustom: true,
+    };
+
+    await storage.savePlatform(platform);
+
+    set((state) => ({ platforms: [...state.platforms, platform] }));
+
+    return platform;
+  },
+
+  // Update platform details (name, color, icon, schedule, tier, goal, limit)
+  updatePlatform: async (platformId, updates) => {
+    const { platforms } = get();
+    const platform = platforms.find((p) => p.id === platformId);
+
+    if (!platform) {
+      throw new Error(`Platform not found: ${platformId}`);
+    }
+
+    if (updates.name !== undefined) {
+      const name = updates.name.trim();
+      if (!name) {
+        throw new Error('Platform name is required');
+      }
+      const duplicate = platforms.some(
+        (p) => p.id !== platformId && p.name.toLowerCase() === name.toLowerCase()
+      );
+      if (duplicate) {
+        throw new Error(`A platform named "${name}" already exists`);
+      }
+      updates = { ...updates, name };
+    }
+
+    // Route limit changes through updatePlatformLimit so they're recorded in history
+    const { creditLimit, ...rest } = updates;
+    if (creditLimit !== undefined && creditLimit !== platform.creditLimit) {
+      await unaudited.updatePlatformLimit(platformId, creditLimit);
+    }
+
+    if (Object.keys(rest).length === 0) return;
+
+    const current = get().platforms.find((p) => p.id === platformId) ?? platform;
+    const updatedPlatform = { ...current, ...rest };
+    await storage.savePlatform(updatedPlatform);
+
+    set((state) => ({
+      platforms: state.platforms.map((p) =>
+        p.id === platformId ? updatedPlatform : p
+      ),
+    }));
+  },
+
+  // Archive or restore a platform (archived platforms keep their orders)
+  setPlatformArchived: async (platformId: PlatformId, isArchived: boolean) => {
+    const { platforms } = get();
+
+    if (isArchived) {
+      const activeCount = platforms.filter((p) => !p.isArchived).length;
+      const platform = platforms.find((p) => p.id === platformId);
+      if (platform && !platform.isArchived && activeCount <= 1) {
+        throw new Error('At least one platform must stay active');
+      }
+    }
+
+    await unaudited.updatePlatform(platformId, { isArchived: isArchived || undefined });
+  },
+
   // Update subscription
   updateSubscription: async (subscription: Subscription) => {
     await storage.saveSubscription(subscription);
@@ -719,14 +1511,19 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       if (payment.status === 'pending') {
         const dueDate = startOfDay(parseISO(payment.dueDate));
         if (isBefore(dueDate, today)) {
-          const updatedPayment = { ...payment, status: 'overdue' as const };
-          await storage.savePayment(updatedPayment);
-          updatedPayments.push(updatedPayment);
+          // Another open tab may have just done this (or marked it paid) - work from the stored copy
+          const stored = await storage.getPayment(payment.id);
+          if (!stored || stored.status !== 'pending') continue;
+          updatedPayments.push({ ...stored, status: 'overdue' as const });
         }
       }
     }
 
     if (updatedPayments.length > 0) {
+      const work = storage.unitOfWork();
+      updatedPayments.forEach((payment) => work.savePayment(payment));
+      await work.commit();
+
       set((state) => ({
         payments: state.payments.map((p) => {
           const updated = updatedPayments.find((u) => u.id === p.id);
@@ -736,20 +1533,93 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
     }
   },
 
+  // Add a recurring or one-off income source
+  addIncomeSource: async (input: NewIncomeSourceInput) => {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Income name is required');
+    }
+    if (input.amount <= 0) {
+      throw new Error('Income amount must be greater than zero');
+    }
+
+    const source: IncomeSource = {
+      ...input,
+      name,
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await storage.saveIncomeSource(source);
+    set((state) => ({ incomeSources: [...state.incomeSources, source] }));
+    return source;
+  },
+
+  // Update an income source
+  updateIncomeSource: async (id: string, updates: Partial<Omit<IncomeSource, 'id' | 'createdAt'>>) => {
+    const { incomeSources } = get();
+    const source = incomeSources.find((s) => s.id === id);
+
+    if (!source) {
+      throw new Error(`Income source not found: ${id}`);
+    }
+
+    const updatedSource: IncomeSource = { ...source, ...updates };
+    if (!updatedSource.name.trim()) {
+      throw new Error('Income name is required');
+    }
+    if (updatedSource.amount <= 0) {
+      throw new Error('Income amount must be greater than zero');
+    }
+
+    await storage.saveIncomeSource(updatedSource);
+    set((state) => ({
+      incomeSources: state.incomeSources.map((s) => (s.id === id ? updatedSource : s)),
+    }));
+  },
+
+  // Delete an income source
+  deleteIncomeSource: async (id: string) => {
+    await storage.deleteIncomeSource(id);
+    set((state) => ({
+      incomeSources: state.incomeSources.filter((s) => s.id !== id),
+    }));
+  },
+
+  // Update starting balance and forecast settings
+  updateCashFlowSettings: (settings: CashFlowSettings) => {
+    storage.saveCashFlowSettings(settings);
+    set({ cashFlowSettings: settings });
+  },
+
   // Update notification settings
   updateNotificationSettings: (settings: NotificationSettings) => {
     storage.saveNotificationSettings(settings);
     set({ notificationSettings: settings });
   },
 
-  // Set Gemini API key
-  setGeminiApiKey: (key: string | null) => {
+  // Update screenshot extraction settings
+  updateExtractionSettings: (settings: ExtractionSettings) => {
+    storage.saveExtractionSettings(settings);
+    set({ extractionSettings: settings });
+  },
+
+  // Set or clear an AI provider's API key
+  setApiKey: (provider: ApiKeyProvider, key: string | null) => {
     if (key) {
-      storage.saveGeminiApiKey(key);
+      storage.saveApiKey(provider, key);
     } else {
-      storage.clearGeminiApiKey();
+      storage.clearApiKey(provider);
     }
-    set({ geminiApiKey: key });
+    set((state) => {
+      const apiKeys = { ...state.apiKeys };
+      if (key) {
+        apiKeys[provider] = key;
+      } else {
+        delete apiKeys[provider];
+      }
+      return { apiKeys };
+    });
   },
 
   // Get limit history for a platform
@@ -763,6 +1633,8 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
   // UI Actions
   openQuickAddModal: () => set({ quickAddModalOpen: true }),
   closeQuickAddModal: () => set({ quickAddModalOpen: false }),
+  openBulkImportModal: () => set({ quickAddModalOpen: false, bulkImportModalOpen: true }),
+  closeBulkImportModal: () => set({ bulkImportModalOpen: false }),
   openOrderDetailModal: (orderId: string) =>
     set({ orderDetailModalOpen: true, selectedOrderId: orderId }),
   closeOrderDetailModal: () =>
@@ -786,66 +1658,236 @@ export const useBNPLStore = create<BNPLStore>((set, get) => ({
       limitHistory: data.limitHistory?.length || 0,
     });
 
+    markBulkAction(await storage.takeSnapshot('pre-import'));
     await storage.importData(data);
 
-    // Reload state
-    const [orders, payments, platforms, subscriptions, limitHistory] = await Promise.all([
-      storage.getAllOrders(),
-      storage.getAllPayments(),
-      storage.getAllPlatforms(),
-      storage.getAllSubscriptions(),
-      storage.getAllLimitHistory(),
-    ]);
-
-    // Apply migrations to imported data
-    const migrated = migrateToV2({ orders, platforms });
-    if (migrated.ordersChanged) {
-      for (const order of migrated.orders) {
-        await storage.saveOrder(order);
-      }
-    }
-    if (migrated.platformsChanged) {
-      for (const platform of migrated.platforms) {
-        await storage.savePlatform(platform);
-      }
-    }
-
+    const loaded = await loadAllData();
     console.log('[Store] After import, loaded:', {
-      orders: migrated.orders.length,
-      payments: payments.length,
-      limitHistory: limitHistory.length,
+      orders: loaded.orders.length,
+      payments: loaded.payments.length,
+      limitHistory: loaded.limitHistory.length,
     });
+    // Replaced records can't be undone edit by edit
+    set({ ...loaded, undoHistory: [], undoIndex: -1 });
 
-    set({
-      orders: migrated.orders,
-      payments,
-      platforms: migrated.platforms,
-      subscriptions,
-      limitHistory,
-    });
+    // Update overdue statuses
+    await unaudited.updateOverduePayments();
+  },
+
+  // Compare an import file against current data without writing anything
+  previewMergeImport: async (data: ExportedData) => {
+    // Upgrade older files first so both sides compare in the same shape
+    const incoming = upgradeExportedData(data);
+    const local = await storage.exportData();
+    return buildMergePlan(local, incoming);
+  },
+
+  // Apply a reviewed merge plan on top of current data
+  applyMergeImport: async (plan: MergePlan, resolution: MergeResolution) => {
+    const { changes, summary } = resolveMergePlan(plan, resolution);
+    console.log('[Store] Merging import:', summary);
+
+    await storage.takeSnapshot('pre-import');
+    await storage.mergeData(changes);
+
+    set({ ...(await loadAllData()), undoHistory: [], undoIndex: -1 });
 
     // Update overdue statuses
-    await get().updateOverduePayments();
+    await unaudited.updateOverduePayments();
+    return summary;
   },
 
   // Clear all data
   clearAllData: async () => {
+    markBulkAction(await storage.takeSnapshot('pre-clear'));
     await storage.clearAllData();
+    await attachmentStorage.clearAll();
+
+    // Only the default platforms and subscriptions are left
+    set({ ...(await loadAllData()), undoHistory: [], undoIndex: -1 });
+  },
+
+  // Replace all data with a snapshot's
+  restoreSnapshot: async (snapshotId: string) => {
+    markBulkAction(await storage.restoreSnapshot(snapshotId));
+
+    // Restored records can't be undone edit by edit
+    set({ ...(await loadAllData()), undoHistory: [], undoIndex: -1 });
+
+    // Update overdue statuses
+    await unaudited.updateOverduePayments();
+  },
+
+  // Re-read records another tab changed, or that failed a revision check here
+  applyStorageChanges: async (changes: StorageChange[]) => {
+    if (!get().isInitialized) return;
+
+    // Imports and clears replace whole stores - just reload everything
+    if (changes.some((change) => !change.keys)) {
+      const loaded = await loadAllData();
+      setExternal(() => set(loaded));
+      return;
+    }
+
+    for (const change of changes) {
+      // Bookkeeping stores that aren't held in the store
+      if (['meta', 'auditLog', 'snapshots', 'syncState'].includes(change.store)) continue;
+      const collection = change.store as SyncedCollection;
+      const updates = new Map<string, unknown>();
+      for (const key of change.keys ?? []) {
+        updates.set(key, change.deleted ? undefined : await storage.get(change.store, key));
+      }
+      const keyField = collection === 'subscriptions' ? 'platformId' : 'id';
+      storage.acceptRecords(collection, updates as Map<string, object | undefined>);
+      setExternal(() =>
+        set((state) => ({ [collection]: replaceRecords<object>(state[collection], keyField, updates) }))
+      );
+    }
+  },
 
-    const [platforms, subscriptions] = await Promise.all([
-      storage.getAllPlatforms(),
-      storage.getAllSubscriptions(),
-    ]);
+  // Restore the records an audit log event changed to how they were before it
+  revertAuditEvent: async (eventId: string) => {
+    const log = await storage.getAuditLog();
+    const event = log.find((e) => e.id === eventId);
 
-    // Apply migrations to default platforms
-    const migrated = migrateToV2({ orders: [], platforms });
+    if (!event) {
+      throw new Error(`Audit event not found: ${eventId}`);
+    }
+    if (log.some((e) => e.revertOf === eventId)) {
+      throw new Error('This change has already been reverted');
+    }
+    // Bulk actions are reverted by restoring the snapshot taken before them
+    const { summary } = event;
+    if (summary) {
+      if (!summary.snapshotId) {
+        throw new Error('There was no data to go back to before this change');
+      }
+      await audited('revertAuditEvent', 'revert', () => unaudited.restoreSnapshot(summary.snapshotId!), eventId);
+      return;
+    }
+    // Checked once queued, against the records as they are when the revert runs
+    await audited(
+      'revertAuditEvent',
+      'revert',
+      async () => {
+        if (getStaleChanges(event.changes, getAuditSnapshot(), 'after').length > 0) {
+          throw new Error('These records have changed since - revert the newer changes first');
+        }
+        await restoreChanges(event.changes, 'before');
+      },
+      eventId
+    );
+  },
+
+  // Step back through order and payment edits
+  undo: async () => {
+    // Picked once queued, so an edit still being saved is what gets undone
+    return audited('undo', 'user', async () => {
+      const { undoHistory, undoIndex } = get();
+      const entry = undoHistory[undoIndex];
+      if (!entry) return null;
 
-    set({
-      orders: [],
-      payments: [],
-      platforms: migrated.platforms,
-      subscriptions,
-      limitHistory: [],
+      if (getStaleChanges(entry.changes, getAuditSnapshot(), 'after').length > 0) {
+        throw new Error("Can't undo - these records have changed since");
+      }
+      await restoreChanges(entry.changes, 'before');
+      set({ undoIndex: undoIndex - 1 });
+      return entry;
     });
   },
+
+  redo: async () => {
+    return audited('redo', 'user', async () => {
+      const { undoHistory, undoIndex } = get();
+      const entry = undoHistory[undoIndex + 1];
+      if (!entry) return null;
+
+      if (getStaleChanges(entry.changes, getAuditSnapshot(), 'before').length > 0) {
+        throw new Error("Can't redo - these records have changed since");
+      }
+      await restoreChanges(entry.changes, 'after');
+      set({ undoIndex: undoIndex + 1 });
+      return entry;
+    });
+  },
+
+  // Vault - re-encrypts stored data; in-memory state is unchanged
+  enableVault: async (passphrase: string) => {
+    await storage.enableVault(passphrase);
+  },
+
+  changeVaultPassphrase: async (currentPassphrase: string, newPassphrase: string) => {
+    await storage.changeVaultPassphrase(currentPassphrase, newPassphrase);
+  },
+
+  disableVault: async (passphrase: string) => {
+    await storage.disableVault(passphrase);
+  },
 }));
+
+// Collect what the running audited action changes, one state update at a time
+useBNPLStore.subscribe((state, previous) => {
+  if (capturedChanges && !isExternalWrite) {
+    capturedChanges = combineChanges(capturedChanges, diffSnapshots(previous, state));
+  }
+});
+
+// Keep this tab in step with writes from other tabs
+storage.onRemoteChange((changes) => {
+  useBNPLStore.getState().applyStorageChanges(changes);
+});
+storage.onConflict((error) => {
+  useBNPLStore.getState().applyStorageChanges([{ store: error.storeName, keys: [error.key] }]);
+});
+
+// Every action that changes financial data goes through the audit log,
+// including imports, restores and clearing all data
+const AUDITED_ACTIONS = [
+  'addOrder',
+  'importOrders',
+  'mergeOrder',
+  'updateOrder',
+  'deleteOrder',
+  'refundOrder',
+  'markPaymentPaid',
+  'markPaymentUnpaid',
+  'reconcilePayments',
+  'updatePayment',
+  'addPaymentEvent',
+  'removePaymentEvent',
+  'reschedulePayment',
+  'deletePayment',
+  'addPaymentToOrder',
+  'updatePlatformLimit',
+  'updatePlatformGoal',
+  'updatePlatformTier',
+  'updatePlatformSchedule',
+  'addPlatform',
+  'updatePlatform',
+  'setPlatformArchived',
+  'updateSubscription',
+  'updateOverduePayments',
+  'addIncomeSource',
+  'updateIncomeSource',
+  'deleteIncomeSource',
+  'importData',
+  'applyMergeImport',
+  'restoreSnapshot',
+  'clearAllData',
+] as const satisfies (keyof BNPLStore)[];
+
+type AuditedAction = (typeof AUDITED_ACTIONS)[number];
+
+for (const action of AUDITED_ACTIONS) {
+  Object.assign(unaudited, { [action]: useBNPLStore.getState()[action] });
+}
+
+useBNPLStore.setState((state) =>
+  Object.fromEntries(
+    AUDITED_ACTIONS.map((action) => {
+      const run = state[action] as (...args: unknown[]) => Promise<unknown>;
+      const actor: AuditActor = action === 'updateOverduePayments' ? 'system' : 'user';
+      return [action, (...args: unknown[]) => audited(action, actor, () => run(...args))];
+    })
+  )
+);
@@ -21,8 +21,21 @@ import type {
   PlatformStats,
   DateRangeOption,
   LimitChange,
+  CashFlowForecast,
 } from '../types';
 import type { PlatformTier } from '../constants/platforms';
+import { buildCashFlowForecast } from '../services/cashFlowForecast';
+import { getPlatformUtilization } from '../utils/platform';
+import {
+  getPaymentFees,
+  getPaymentTotalDue,
+  getFailedAttempts,
+  getInterestSummary,
+  isPaidByUser,
+  isPaymentOnTime,
+  type InterestSummary,
+} from '../utils/payment';
+import { getOrderNetAmount } from '../utils/order';
 
 /**
  * Get total amount owed across all platforms
@@ -33,7 +46,7 @@ export function useTotalOwed(): number {
   return useMemo(() => {
     return payments
       .filter((p) => p.status !== 'paid')
-      .reduce((sum, p) => sum + p.amount, 0);
+      .reduce((sum, p) => sum + getPaymentTotalDue(p), 0);
   }, [payments]);
 }
 
@@ -62,19 +75,7 @@ export function usePlatformUtilization(platformId: PlatformId): PlatformUtilizat
 
   return useMemo(() => {
     const platform = platforms.find((p) => p.id === platformId);
-    const limit = platform?.creditLimit ?? 0;
-
-    const used = payments
-      .filter((p) => p.platformId === platformId && p.status !== 'paid')
-      .reduce((sum, p) => sum + p.amount, 0);
-
-    return {
-      platformId,
-      used,
-      limit,
-      available: limit - used,
-      percentage: limit > 0 ? (used / limit) * 100 : 0,
-    };
+    return getPlatformUtilization(platformId, platform?.creditLimit ?? 0, payments);
   }, [platforms, payments, platformId]);
 }
 
@@ -86,20 +87,9 @@ export function useAllPlatformUtilizations(): PlatformUtilization[] {
   const payments = useBNPLStore((state) => state.payments);
 
   return useMemo(() => {
-    return platforms.map((platform) => {
-      const used = payments
-        .filter((p) => p.platformId === platform.id && p.status !== 'paid')
-        .reduce((sum, p) => sum + p.amount, 0);
-
-      return {
-        platformId: platform.id,
-        used,
-        limit: platform.creditLimit,
-        available: platform.creditLimit - used,
-        percentage:
-          platform.creditLimit > 0 ? (used / platform.creditLimit) * 100 : 0,
-      };
-    });
+    return platforms.map((platform) =>
+      getPlatformUtilization(platform.id, platform.creditLimit, payments)
+    );
   }, [platforms, payments]);
 }
 
@@ -158,7 +148,7 @@ export function useMonthlyOutgoing(): number {
         const dueDate = parseISO(p.dueDate);
         return isWithinInterval(dueDate, { start: monthStart, end: monthEnd });
       })
-      .reduce((sum, p) => sum + p.amount, 0);
+      .reduce((sum, p) => sum + getPaymentTotalDue(p), 0);
   }, [payments]);
 }
 
@@ -178,10 +168,10 @@ export function useMonthlyPaymentStats(): { total: number; paid: number; pending
       return isWithinInterval(dueDate, { start: monthStart, end: monthEnd });
     });
 
-    const total = monthPayments.reduce((sum, p) => sum + p.amount, 0);
+    const total = monthPayments.reduce((sum, p) => sum + getPaymentTotalDue(p), 0);
     const paid = monthPayments
       .filter((p) => p.status === 'paid')
-      .reduce((sum, p) => sum + p.amount, 0);
+      .reduce((sum, p) => sum + getPaymentTotalDue(p), 0);
     const pending = total - paid;
     const percentage = total > 0 ? (paid / total) * 100 : 0;
 
@@ -269,7 +259,8 @@ export function usePlatformStats(
     }
 
     const totalOrders = filteredOrders.length;
-    const totalSpent = filteredOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    const totalFees = filteredPayments.reduce((sum, p) => sum + getPaymentFees(p), 0);
+    const totalSpent = filteredOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0) + totalFees;
     const averageOrderSize = totalOrders > 0 ? totalSpent / totalOrders : 0;
 
     // Calculate orders per month
@@ -284,8 +275,8 @@ export function usePlatformStats(
     }
 
     // Calculate on-time payment rate
-    const paidPayments = filteredPayments.filter((p) => p.status === 'paid');
-    const onTimePayments = paidPayments.filter((p) => p.paidOnTime === true);
+    const paidPayments = filteredPayments.filter(isPaidByUser);
+    const onTimePayments = paidPayments.filter(isPaymentOnTime);
     const onTimePaymentRate =
       paidPayments.length > 0
         ? (onTimePayments.length / paidPayments.length) * 100
@@ -300,6 +291,9 @@ export function usePlatformStats(
       onTimePaymentRate: Math.round(onTimePaymentRate),
       totalPayments: paidPayments.length,
       onTimePayments: onTimePayments.length,
+      totalFees,
+      lateFeeCount: filteredPayments.filter((p) => getPaymentFees(p) > 0).length,
+      failedAttempts: filteredPayments.reduce((sum, p) => sum + getFailedAttempts(p), 0),
     };
   }, [orders, payments, platformId, dateRange]);
 }
@@ -348,10 +342,9 @@ export function useAllPlatformStats(dateRange?: DateRangeOption): PlatformStats[
       }
 
       const totalOrders = filteredOrders.length;
-      const totalSpent = filteredOrders.reduce(
-        (sum, o) => sum + o.totalAmount,
-        0
-      );
+      const totalFees = filteredPayments.reduce((sum, p) => sum + getPaymentFees(p), 0);
+      const totalSpent =
+        filteredOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0) + totalFees;
       const averageOrderSize = totalOrders > 0 ? totalSpent / totalOrders : 0;
 
       let ordersPerMonth = 0;
@@ -364,8 +357,8 @@ export function useAllPlatformStats(dateRange?: DateRangeOption): PlatformStats[
         ordersPerMonth = totalOrders / monthsSpan;
       }
 
-      const paidPayments = filteredPayments.filter((p) => p.status === 'paid');
-      const onTimePayments = paidPayments.filter((p) => p.paidOnTime === true);
+      const paidPayments = filteredPayments.filter(isPaidByUser);
+      const onTimePayments = paidPayments.filter(isPaymentOnTime);
       const onTimePaymentRate =
         paidPayments.length > 0
           ? (onTimePayments.length / paidPayments.length) * 100
@@ -380,6 +373,9 @@ export function useAllPlatformStats(dateRange?: DateRangeOption): PlatformStats[
         onTimePaymentRate: Math.round(onTimePaymentRate),
         totalPayments: paidPayments.length,
         onTimePayments: onTimePayments.length,
+        totalFees,
+        lateFeeCount: filteredPayments.filter((p) => getPaymentFees(p) > 0).length,
+        failedAttempts: filteredPayments.reduce((sum, p) => sum + getFailedAttempts(p), 0),
       };
     });
   }, [platforms, orders, payments, dateRange]);
@@ -461,6 +457,31 @@ export function useOrderProgress(orderId: string): OrderProgress {
   }, [payments, orderId]);
 }
 
+/**
+ * Get total fees charged on an order's payments (net of waivers)
+ */
+export function useOrderFees(orderId: string): number {
+  const payments = useBNPLStore((state) => state.payments);
+
+  return useMemo(() => {
+    return payments
+      .filter((p) => p.orderId === orderId)
+      .reduce((sum, p) => sum + getPaymentFees(p), 0);
+  }, [payments, orderId]);
+}
+
+/**
+ * Get interest paid and still to come on an amortized order (null if not amortized)
+ */
+export function useOrderInterest(orderId: string): InterestSummary | null {
+  const payments = useBNPLStore((state) => state.payments);
+
+  return useMemo(
+    () => getInterestSummary(payments.filter((p) => p.orderId === orderId)),
+    [payments, orderId]
+  );
+}
+
 /**
  * Get platform by ID
  */
@@ -472,6 +493,14 @@ export function usePlatform(platformId: PlatformId): Platform | undefined {
   );
 }
 
+/**
+ * Get platforms that aren't archived (for pickers and settings lists)
+ */
+export function useActivePlatforms(): Platform[] {
+  const platforms = useBNPLStore((state) => state.platforms);
+  return useMemo(() => platforms.filter((p) => !p.isArchived), [platforms]);
+}
+
 /**
  * Month-over-month comparison data
  */
@@ -519,8 +548,8 @@ export function useMonthComparison(): MonthComparison {
     });
 
     // Calculate stats
-    const thisMonthSpending = thisMonthOrders.reduce((sum, o) => sum + o.totalAmount, 0);
-    const lastMonthSpending = lastMonthOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    const thisMonthSpending = thisMonthOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0);
+    const lastMonthSpending = lastMonthOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0);
 
     const thisMonthCount = thisMonthOrders.length;
     const lastMonthCount = lastMonthOrders.length;
@@ -631,10 +660,10 @@ export function useOnTimeRate(): number {
   const payments = useBNPLStore((state) => state.payments);
 
   return useMemo(() => {
-    const paidPayments = payments.filter((p) => p.status === 'paid');
+    const paidPayments = payments.filter(isPaidByUser);
     if (paidPayments.length === 0) return 100; // Default to 100% if no payments
 
-    const onTimeCount = paidPayments.filter((p) => p.paidOnTime === true).length;
+    const onTimeCount = paidPayments.filter(isPaymentOnTime).length;
     return Math.round((onTimeCount / paidPayments.length) * 100);
   }, [payments]);
 }
@@ -647,11 +676,11 @@ export function usePlatformOnTimeRate(platformId: PlatformId): number {
 
   return useMemo(() => {
     const paidPayments = payments.filter(
-      (p) => p.platformId === platformId && p.status === 'paid'
+      (p) => p.platformId === platformId && isPaidByUser(p)
     );
     if (paidPayments.length === 0) return 100;
 
-    const onTimeCount = paidPayments.filter((p) => p.paidOnTime === true).length;
+    const onTimeCount = paidPayments.filter(isPaymentOnTime).length;
     return Math.round((onTimeCount / paidPayments.length) * 100);
   }, [payments, platformId]);
 }
@@ -665,7 +694,7 @@ export function useOnTimeStreak(): number {
   return useMemo(() => {
     // Get all paid payments sorted by paid date (most recent first)
     const paidPayments = payments
-      .filter((p) => p.status === 'paid' && p.paidDate)
+      .filter((p) => isPaidByUser(p) && p.paidDate)
       .sort((a, b) => {
         const dateA = parseISO(a.paidDate!);
         const dateB = parseISO(b.paidDate!);
@@ -674,7 +703,7 @@ export function useOnTimeStreak(): number {
 
     let streak = 0;
     for (const payment of paidPayments) {
-      if (payment.paidOnTime) {
+      if (isPaymentOnTime(payment)) {
         streak++;
       } else {
         break;
@@ -692,7 +721,7 @@ export function usePlatformOnTimeStreak(platformId: PlatformId): number {
 
   return useMemo(() => {
     const paidPayments = payments
-      .filter((p) => p.platformId === platformId && p.status === 'paid' && p.paidDate)
+      .filter((p) => p.platformId === platformId && isPaidByUser(p) && p.paidDate)
       .sort((a, b) => {
         const dateA = parseISO(a.paidDate!);
         const dateB = parseISO(b.paidDate!);
@@ -701,7 +730,7 @@ export function usePlatformOnTimeStreak(platformId: PlatformId): number {
 
     let streak = 0;
     for (const payment of paidPayments) {
-      if (payment.paidOnTime) {
+      if (isPaymentOnTime(payment)) {
         streak++;
       } else {
         break;
@@ -737,7 +766,7 @@ export function useWeeklyDeployment(): WeeklyDeployment {
       return createdAt >= weekAgo;
     });
 
-    const amount = weeklyOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    const amount = weeklyOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0);
     const warningThreshold = 50000; // $500 in cents
     const limitThreshold = 60000;   // $600 in cents
 
@@ -796,7 +825,7 @@ export function usePlatformUtilizationWithGoal(platformId: PlatformId): Platform
  * Arbitrage order with computed fields
  */
 export interface ArbitrageOrderWithMetrics extends Order {
-  netCash: number;              // saleAmount - totalAmount (can be negative)
+  netCash: number;              // saleAmount - net amount after refunds (can be negative)
   costOfCapitalPercent: number; // Cost as percentage of purchase
   isProfitable: boolean;
   hasSaleData: boolean;
@@ -813,9 +842,10 @@ export function useArbitrageOrders(): ArbitrageOrderWithMetrics[] {
       .filter((o) => o.orderType === 'arbitrage')
       .map((order) => {
         const hasSaleData = order.saleAmount !== undefined && order.saleAmount > 0;
-        const netCash = hasSaleData ? (order.saleAmount! - order.totalAmount) : 0;
-        const costOfCapitalPercent = hasSaleData && order.totalAmount > 0
-          ? Math.round(((order.totalAmount - order.saleAmount!) / order.totalAmount) * 1000) / 10
+        const netAmount = getOrderNetAmount(order);
+        const netCash = hasSaleData ? (order.saleAmount! - netAmount) : 0;
+        const costOfCapitalPercent = hasSaleData && netAmount > 0
+          ? Math.round(((netAmount - order.saleAmount!) / netAmount) * 1000) / 10
           : 0;
         const isProfitable = netCash >= 0;
 
@@ -851,7 +881,7 @@ export function useArbitrageStats(): ArbitrageStats {
   const arbitrageOrders = useArbitrageOrders();
 
   return useMemo(() => {
-    const totalPurchased = arbitrageOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    const totalPurchased = arbitrageOrders.reduce((sum, o) => sum + getOrderNetAmount(o), 0);
     const ordersWithSales = arbitrageOrders.filter((o) => o.hasSaleData);
     const totalSaleAmount = ordersWithSales.reduce((sum, o) => sum + (o.saleAmount || 0), 0);
     const totalNetCash = ordersWithSales.reduce((sum, o) => sum + o.netCash, 0);
@@ -1042,9 +1072,37 @@ export function useOrdersByType(): OrderTypeBreakdown {
     for (const order of orders) {
       const type = order.orderType || 'personal';
       breakdown[type].count++;
-      breakdown[type].total += order.totalAmount;
+      breakdown[type].total += getOrderNetAmount(order);
     }
 
     return breakdown;
   }, [orders]);
 }
+
+// ============================================================================
+// CASH FLOW SELECTORS
+// ============================================================================
+
+/**
+ * Get the day-by-day cash-flow forecast from income sources and unpaid payments
+ */
+export function useCashFlowForecast(): CashFlowForecast {
+  const payments = useBNPLStore((state) => state.payments);
+  const incomeSources = useBNPLStore((state) => state.incomeSources);
+  const settings = useBNPLStore((state) => state.cashFlowSettings);
+
+  return useMemo(
+    () => buildCashFlowForecast({ settings, incomeSources, payments }),
+    [payments, incomeSources, settings]
+  );
+}
+
+/**
+ * Check whether the user has set up anything to forecast against
+ */
+export function useHasCashFlowSetup(): boolean {
+  const incomeSources = useBNPLStore((state) => state.incomeSources);
+  const startingBalance = useBNPLStore((state) => state.cashFlowSettings.startingBalance);
+
+  return incomeSources.some((s) => s.isActive) || startingBalance !== 0;
+}
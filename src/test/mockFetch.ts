@@ -0,0 +1,18 @@
+import { vi } from 'vitest';
+
+/**
+ * Replace global fetch with a stand-in that answers every request with
+ * `response`, or fails the way an unreachable server does when given an error
+ */
+export function mockFetch(response: Response | Error) {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async () => {
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
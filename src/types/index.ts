@@ -1,8 +1,15 @@
 // Import platform types from constants (single source of truth)
-import type { PlatformId, Platform, Subscription, PlatformTier } from '../constants/platforms';
+import type {
+  PlatformId,
+  Platform,
+  Subscription,
+  PlatformTier,
+  PlatformIconId,
+  NewPlatformInput,
+} from '../constants/platforms';
 
 // Re-export for consumers
-export type { PlatformId, Platform, Subscription, PlatformTier };
+export type { PlatformId, Platform, Subscription, PlatformTier, PlatformIconId, NewPlatformInput };
 
 // Order type classification
 export type OrderType = 'necessity' | 'arbitrage' | 'personal';
@@ -17,6 +24,44 @@ export interface LimitChange {
   onTimeStreakAtChange: number;  // streak when limit changed
 }
 
+// How a refund is applied to the remaining installments
+export type RefundStrategy =
+  | 'last-first' // reduce/cover the last installments first (Afterpay, Zip, Sezzle)
+  | 'spread'; // spread the reduction evenly across remaining installments
+
+export interface RefundAdjustment {
+  paymentId: string;
+  installmentNumber: number;
+  previousAmount: number; // in cents
+  newAmount: number; // in cents
+  previousStatus: Payment['status'];
+  coveredByRefund: boolean; // installment fully covered and marked paid
+}
+
+// Auditable record of a full or partial refund/return
+export interface OrderRefund {
+  id: string;
+  amount: number; // in cents - total refunded by the merchant
+  refundedAt: string; // ISO date
+  reason?: string;
+  strategy: RefundStrategy;
+  adjustments: RefundAdjustment[];
+  creditAmount: number; // in cents - credited back for installments already paid
+  createdAt: string; // ISO timestamp
+}
+
+export interface NewRefundInput {
+  amount: number; // in cents
+  refundedAt?: string; // ISO date, defaults to today
+  reason?: string;
+  strategy?: RefundStrategy; // defaults to 'last-first'
+}
+
+// How installment due dates are spaced
+export type ScheduleMode =
+  | 'interval' // fixed number of days between payments
+  | 'monthly'; // same day each calendar month, amortized when an APR is set
+
 export interface Order {
   id: string;
   platformId: PlatformId;
@@ -31,11 +76,16 @@ export interface Order {
   intervalDays?: number; // Days between payments, overrides platform default
   customInstallments?: number; // For Affirm or custom schedules
   apr?: number; // e.g., 0.15 = 15% (Affirm-specific)
+  scheduleMode?: ScheduleMode; // defaults to 'interval'
   // Order classification (for analytics)
   orderType?: OrderType; // defaults to 'personal'
   // Arbitrage tracking (when orderType === 'arbitrage')
   saleAmount?: number; // in cents - what you sold it for
   saleDate?: string; // ISO date - when you received the cash
+  // Refunds and partial returns
+  refunds?: OrderRefund[];
+  updatedAt?: string; // ISO timestamp - last saved, used to resolve merge imports
+  revision?: number; // bumped on every save, guards against stale writes from other tabs
 }
 
 // Default tag options for orders
@@ -50,6 +100,39 @@ export const ORDER_TAG_OPTIONS = [
   'Other',
 ] as const;
 
+// Files kept with an order (see src/services/attachmentStorage.ts)
+export type AttachmentKind = 'receipt' | 'screenshot' | 'return-label' | 'other';
+
+export interface OrderAttachment {
+  id: string;
+  orderId: string;
+  kind: AttachmentKind;
+  name: string; // original file name
+  type: string; // MIME type
+  size: number; // in bytes
+  createdAt: string; // ISO timestamp
+}
+
+// Fee and adjustment events recorded against a payment
+export type PaymentEventType =
+  | 'late_fee' // platform charged a late fee
+  | 'penalty' // other charge (e.g., returned payment fee)
+  | 'fee_waived' // platform reversed a fee
+  | 'failed_attempt' // autopay failed and will be retried
+  | 'reschedule'; // due date moved (extension granted)
+
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  createdAt: string; // ISO timestamp
+  amount?: number; // in cents - for late_fee, penalty and fee_waived
+  previousDueDate?: string; // ISO date - for reschedule
+  newDueDate?: string; // ISO date - for reschedule
+  note?: string;
+}
+
+export type NewPaymentEventInput = Omit<PaymentEvent, 'id' | 'createdAt'>;
+
 export interface Payment {
   id: string;
   orderId: string;
@@ -61,6 +144,15 @@ export interface Payment {
   paidDate?: string; // ISO date when marked as paid
   paidOnTime?: boolean; // for analytics
   isManualOverride: boolean;
+  originalDueDate?: string; // ISO date - set on first reschedule
+  events?: PaymentEvent[]; // fees, waivers, failed attempts and reschedules
+  coveredByRefundId?: string; // settled by a refund rather than paid by you
+  // Amortization breakdown (monthly schedules with an APR)
+  principal?: number; // in cents
+  interest?: number; // in cents
+  remainingBalance?: number; // in cents - principal left after this payment
+  updatedAt?: string; // ISO timestamp - last saved, used to resolve merge imports
+  revision?: number; // bumped on every save, guards against stale writes from other tabs
 }
 
 // Input types for creating new entities
@@ -74,10 +166,18 @@ export interface NewOrderInput {
   intervalDays?: number; // Days between payments, overrides platform default
   customInstallments?: number; // for Affirm or custom schedules
   apr?: number; // for Affirm
+  scheduleMode?: ScheduleMode; // defaults to 'interval'
   paymentOverrides?: Record<number, { amount?: number; dueDate?: string }>; // installmentNumber -> overrides
   orderType?: OrderType; // defaults to 'personal'
   saleAmount?: number; // for arbitrage orders
   saleDate?: string; // for arbitrage orders
+  createdAt?: string; // ISO timestamp - for importing past orders, defaults to now
+}
+
+// A single order from a bulk import (e.g., CSV)
+export interface OrderImportRow {
+  input: NewOrderInput;
+  paidInstallments?: number; // installments already paid; defaults to past-due ones
 }
 
 export interface NewPaymentInput {
@@ -94,6 +194,9 @@ export interface CalculatedPayment {
   installmentNumber: number;
   amount: number; // in cents
   dueDate: Date;
+  principal?: number; // in cents - amortized schedules only
+  interest?: number; // in cents - amortized schedules only
+  remainingBalance?: number; // in cents - amortized schedules only
 }
 
 export interface PlatformUtilization {
@@ -113,6 +216,9 @@ export interface PlatformStats {
   onTimePaymentRate: number; // 0-100
   totalPayments: number;
   onTimePayments: number;
+  totalFees: number; // in cents - late fees and penalties, net of waivers
+  lateFeeCount: number;
+  failedAttempts: number;
 }
 
 // Date range filter options
@@ -126,6 +232,60 @@ export interface NotificationSettings {
   notifyOverdue: boolean;
 }
 
+// Income schedules (for cash-flow forecasting)
+export type IncomeFrequency = 'weekly' | 'biweekly' | 'semi-monthly' | 'custom' | 'once';
+
+export interface IncomeSource {
+  id: string;
+  name: string; // e.g., "Paycheck", "Tax refund"
+  amount: number; // in cents, per deposit
+  frequency: IncomeFrequency;
+  startDate: string; // ISO date - first deposit (the deposit date for 'once')
+  endDate?: string; // ISO date - last possible deposit, open-ended if omitted
+  intervalDays?: number; // for 'custom' frequency
+  semiMonthlyDays?: [number, number]; // days of month for 'semi-monthly', defaults to [1, 15]
+  isActive: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+export type NewIncomeSourceInput = Omit<IncomeSource, 'id' | 'createdAt'>;
+
+// Account balance the forecast starts from
+export interface CashFlowSettings {
+  startingBalance: number; // in cents
+  balanceAsOf: string; // ISO date - balance is at the start of this day
+  forecastDays: number; // how far ahead to project
+  minimumBuffer: number; // in cents - warn when balance dips below this
+}
+
+export interface CashFlowDay {
+  date: string; // ISO date (start of day)
+  income: number; // in cents
+  outgoing: number; // in cents
+  balance: number; // in cents, end of day
+  paymentIds: string[];
+  incomeSourceIds: string[];
+}
+
+export interface CashFlowShortfall {
+  startDate: string; // ISO date - first day below the buffer
+  endDate: string; // ISO date - last consecutive day below the buffer
+  lowestBalance: number; // in cents
+  lowestBalanceDate: string; // ISO date
+  amountNeeded: number; // in cents - deposit that keeps the run above the buffer
+}
+
+export interface CashFlowForecast {
+  days: CashFlowDay[];
+  openingBalance: number; // in cents, start of today
+  firstNegativeDate: string | null;
+  lowestBalance: number; // in cents
+  lowestBalanceDate: string | null;
+  shortfalls: CashFlowShortfall[];
+  totalIncome: number; // in cents
+  totalOutgoing: number; // in cents
+}
+
 // Export/Import data format
 export interface ExportedData {
   version: number;
@@ -135,4 +295,97 @@ export interface ExportedData {
   platforms: Platform[];
   subscriptions: Subscription[];
   limitHistory?: LimitChange[]; // optional for backwards compatibility
+  incomeSources?: IncomeSource[]; // optional for backwards compatibility
+}
+
+// Audit log - one event per store action that changed financial data
+export type AuditActor =
+  | 'user' // an edit made in the app
+  | 'system' // automatic bookkeeping, e.g. marking payments overdue
+  | 'revert'; // undoing an earlier event from the history view
+
+export type AuditEntityType = 'order' | 'payment' | 'platform' | 'subscription' | 'limitChange' | 'incomeSource';
+
+export type AuditRecord = Order | Payment | Platform | Subscription | LimitChange | IncomeSource;
+
+export interface AuditChange {
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: AuditRecord; // undefined = created
+  after?: AuditRecord; // undefined = deleted
+}
+
+export interface AuditEvent {
+  id: string;
+  timestamp: string; // ISO timestamp
+  actor: AuditActor;
+  action: string; // store action name, e.g. 'updateOrder'
+  orderIds: string[]; // orders touched, for filtering
+  platformIds: PlatformId[]; // platforms touched, for filtering
+  changes: AuditChange[]; // empty when there's a summary
+  summary?: AuditSummary; // bulk actions (imports, restores, clears) - too many records to copy
+  revertOf?: string; // event this one reverted
+}
+
+export interface AuditSummary {
+  created: number;
+  updated: number;
+  deleted: number;
+  snapshotId?: string; // taken just before, reverting restores it
 }
+
+// Local snapshots - full copies of the data kept in IndexedDB
+export type SnapshotReason =
+  | 'daily' // taken automatically once a day
+  | 'weekly' // taken automatically once a week
+  | 'pre-import' // before an import replaced or merged data
+  | 'pre-clear' // before Clear All Data
+  | 'pre-restore' // before another snapshot was restored
+  | 'manual'; // taken from Settings
+
+export interface SnapshotCounts {
+  orders: number;
+  payments: number;
+  platforms: number;
+  subscriptions: number;
+  limitHistory: number;
+  incomeSources: number;
+}
+
+export interface DataSnapshot {
+  id: string;
+  createdAt: string; // ISO timestamp
+  reason: SnapshotReason;
+  counts: SnapshotCounts;
+  data: ExportedData;
+}
+
+// Sync with a self-hosted sync server (see server/syncServer.ts)
+export interface SyncSettings {
+  serverUrl: string;
+  enabled: boolean; // sync automatically in the background
+}
+
+export interface SyncStatus {
+  state: 'off' | 'idle' | 'syncing' | 'error';
+  lastSyncedAt: string | null; // ISO timestamp
+  lastError: string | null;
+  conflicts: number; // records waiting for the user to pick a version
+}
+
+// AI screenshot extraction (see src/services/extraction.ts)
+export type ExtractionProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface ExtractionSettings {
+  provider: ExtractionProviderId;
+  geminiModel: string;
+  openaiBaseUrl: string; // any OpenAI-compatible API, including a local llama.cpp server
+  openaiModel: string;
+  ollamaBaseUrl: string;
+  ollamaModel: string;
+}
+
+// Providers that take an API key - Ollama runs locally without one
+export type ApiKeyProvider = 'gemini' | 'openai';
+
+export type ApiKeys = Partial<Record<ApiKeyProvider, string>>;
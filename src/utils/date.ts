@@ -54,6 +54,55 @@ export function isValidDateString(dateStr: string): boolean {
   return !isNaN(d.getTime());
 }
 
+/**
+ * Normalize free-form date text to YYYY-MM-DD
+ * Accepts ISO, MM/DD/YYYY, YYYY/MM/DD, "Jan 23, 2026" and "23 Jan 2026"; returns null otherwise.
+ */
+export function normalizeDateString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const str = value.trim();
+
+  // Already YYYY-MM-DD
+  if (/^\d{4}-\d{2}-\d{2}$/.test(str)) return str;
+
+  // MM/DD/YYYY
+  const slashMatch = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashMatch) {
+    const [, m, d, y] = slashMatch;
+    return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  }
+
+  // YYYY/MM/DD
+  const slashMatch2 = str.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  if (slashMatch2) {
+    const [, y, m, d] = slashMatch2;
+    return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  }
+
+  // "Month Day, Year" format (e.g., "Jan 23, 2026", "January 23, 2026")
+  const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  const monthDayYear = str.match(/^([a-zA-Z]+)\s+(\d{1,2}),?\s*(\d{4})$/);
+  if (monthDayYear) {
+    const [, monthStr, day, year] = monthDayYear;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  // "Day Month Year" format (e.g., "23 Jan 2026")
+  const dayMonthYear = str.match(/^(\d{1,2})\s+([a-zA-Z]+)\s+(\d{4})$/);
+  if (dayMonthYear) {
+    const [, day, monthStr, year] = dayMonthYear;
+    const monthIndex = monthNames.findIndex(m => monthStr.toLowerCase().startsWith(m));
+    if (monthIndex !== -1) {
+      return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get relative date description (e.g., "Today", "Tomorrow", "3 days overdue")
  */
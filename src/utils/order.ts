@@ -0,0 +1,15 @@
+import type { Order } from '../types';
+
+/**
+ * Total refunded on an order across all refunds and partial returns
+ */
+export function getOrderRefundedAmount(order: Order): number {
+  return (order.refunds ?? []).reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+/**
+ * Order total minus refunded principal - what the purchase actually cost
+ */
+export function getOrderNetAmount(order: Order): number {
+  return Math.max(0, order.totalAmount - getOrderRefundedAmount(order));
+}
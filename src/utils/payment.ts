@@ -0,0 +1,93 @@
+import { isBefore, parseISO, startOfDay } from 'date-fns';
+import type { Payment } from '../types';
+
+/**
+ * Net fees charged on a payment (late fees + penalties - waivers), never negative
+ */
+export function getPaymentFees(payment: Payment): number {
+  let fees = 0;
+  for (const event of payment.events ?? []) {
+    if (event.type === 'late_fee' || event.type === 'penalty') {
+      fees += event.amount ?? 0;
+    } else if (event.type === 'fee_waived') {
+      fees -= event.amount ?? 0;
+    }
+  }
+  return Math.max(0, fees);
+}
+
+/**
+ * Installment amount plus any fees charged on it
+ */
+export function getPaymentTotalDue(payment: Payment): number {
+  return payment.amount + getPaymentFees(payment);
+}
+
+/**
+ * Check whether a payment has an unwaived late fee or penalty
+ */
+export function hasLateCharge(payment: Payment): boolean {
+  return getPaymentFees(payment) > 0;
+}
+
+/**
+ * Count failed autopay attempts on a payment
+ */
+export function getFailedAttempts(payment: Payment): number {
+  return (payment.events ?? []).filter((e) => e.type === 'failed_attempt').length;
+}
+
+/**
+ * Determine whether a payment paid on `paidDate` counts as on time
+ *
+ * Paying by the (possibly rescheduled) due date is on time - an extension the
+ * platform granted isn't a missed payment. A late fee or penalty always means
+ * it wasn't, whatever dates were entered.
+ */
+export function isPaidOnTime(payment: Payment, paidDate: Date): boolean {
+  const dueDate = parseISO(payment.dueDate);
+  return !isBefore(startOfDay(dueDate), startOfDay(paidDate)) && !hasLateCharge(payment);
+}
+
+/**
+ * Check whether a payment was paid by you rather than settled by a refund
+ */
+export function isPaidByUser(payment: Payment): boolean {
+  return payment.status === 'paid' && !payment.coveredByRefundId;
+}
+
+/**
+ * Check whether a paid payment counts toward on-time stats
+ */
+export function isPaymentOnTime(payment: Payment): boolean {
+  return payment.status === 'paid' && payment.paidOnTime === true && !hasLateCharge(payment);
+}
+
+export interface InterestSummary {
+  interestPaid: number; // in cents
+  interestRemaining: number; // in cents
+  principalRemaining: number; // in cents
+}
+
+/**
+ * Split an amortized order's interest into what's been paid and what's still to come
+ *
+ * Returns null when none of the payments carry an amortization breakdown.
+ */
+export function getInterestSummary(payments: Payment[]): InterestSummary | null {
+  const amortized = payments.filter((p) => p.interest !== undefined);
+  if (amortized.length === 0) return null;
+
+  let interestPaid = 0;
+  let interestRemaining = 0;
+  let principalRemaining = 0;
+  for (const payment of amortized) {
+    if (isPaidByUser(payment)) {
+      interestPaid += payment.interest!;
+    } else if (payment.status !== 'paid') {
+      interestRemaining += payment.interest!;
+      principalRemaining += payment.principal ?? 0;
+    }
+  }
+  return { interestPaid, interestRemaining, principalRemaining };
+}
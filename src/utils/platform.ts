@@ -0,0 +1,59 @@
+import type { Payment, Platform, PlatformId, PlatformUtilization } from '../types';
+
+/**
+ * Normalize a platform name or ID for matching (e.g., "After Pay" → "afterpay")
+ */
+export function normalizePlatformName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Build an ID for a user-defined platform from its name
+ * (e.g., "PayPal Pay in 4" → "paypalpayin4"), adding a suffix if it's taken
+ */
+export function createPlatformId(name: string, existingIds: PlatformId[]): PlatformId {
+  const base = normalizePlatformName(name) || 'platform';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}${suffix}`;
+    suffix++;
+  }
+  return id;
+}
+
+/**
+ * Resolve free-form platform text (ID or display name) to a known platform ID
+ * Returns null if no platform matches.
+ */
+export function resolvePlatformId(value: unknown, platforms: Platform[]): PlatformId | null {
+  if (typeof value !== 'string') return null;
+  const normalized = normalizePlatformName(value);
+  if (!normalized) return null;
+
+  const match = platforms.find(
+    (p) => p.id === normalized || normalizePlatformName(p.name) === normalized
+  );
+  return match?.id ?? null;
+}
+
+/**
+ * Compute a platform's utilization from its unpaid payments
+ */
+export function getPlatformUtilization(
+  platformId: PlatformId,
+  limit: number,
+  payments: Payment[]
+): PlatformUtilization {
+  const used = payments
+    .filter((p) => p.platformId === platformId && p.status !== 'paid')
+    .reduce((sum, p) => sum + p.amount, 0);
+
+  return {
+    platformId,
+    used,
+    limit,
+    available: limit - used,
+    percentage: limit > 0 ? (used / limit) * 100 : 0,
+  };
+}
@@ -0,0 +1,32 @@
+import { formatCurrency } from './currency';
+import { formatDate } from './date';
+
+// Record fields stored in cents
+const MONEY_FIELDS = new Set([
+  'amount',
+  'totalAmount',
+  'saleAmount',
+  'principal',
+  'interest',
+  'remainingBalance',
+  'creditLimit',
+  'goalLimit',
+  'previousLimit',
+  'newLimit',
+]);
+
+/**
+ * Display a single record field for field-by-field comparisons
+ */
+export function formatFieldValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number' && MONEY_FIELDS.has(field)) return formatCurrency(value);
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return formatDate(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    return value.every((v) => typeof v === 'string')
+      ? value.join(', ')
+      : `${value.length} item${value.length !== 1 ? 's' : ''}`;
+  }
+  return String(value);
+}